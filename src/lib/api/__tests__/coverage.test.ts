@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { summarizeCoverage } from "~/lib/api/coverage";
+
+describe("Translation coverage", () => {
+  it("should count missing keys per shipped and translated locale", () => {
+    const report = summarizeCoverage(
+      4,
+      [
+        { locale: "en", translated: 4, draft: 0 },
+        { locale: "fr", translated: 2, draft: 1 },
+        { locale: "it", translated: 1, draft: 0 },
+      ],
+      [
+        { locale: "en", enabled: true, required: true },
+        { locale: "fr", enabled: true, required: false },
+        { locale: "de", enabled: true, required: true },
+        { locale: "ja", enabled: false, required: false },
+      ],
+    );
+
+    expect(report.locales).toEqual([
+      {
+        locale: "de",
+        enabled: true,
+        required: true,
+        translated: 0,
+        draft: 0,
+        missing: 4,
+        percent: 0,
+      },
+      {
+        locale: "en",
+        enabled: true,
+        required: true,
+        translated: 4,
+        draft: 0,
+        missing: 0,
+        percent: 100,
+      },
+      {
+        locale: "fr",
+        enabled: true,
+        required: false,
+        translated: 2,
+        draft: 1,
+        missing: 1,
+        percent: 50,
+      },
+      {
+        locale: "it",
+        enabled: false,
+        required: false,
+        translated: 1,
+        draft: 0,
+        missing: 3,
+        percent: 25,
+      },
+    ]);
+    expect(report.requiredComplete).toBe(false);
+  });
+
+  it("should treat drafts of required locales as incomplete", () => {
+    const settings = [{ locale: "fr", enabled: true, required: true }];
+
+    expect(
+      summarizeCoverage(3, [{ locale: "fr", translated: 3, draft: 0 }], settings)
+        .requiredComplete,
+    ).toBe(true);
+    expect(
+      summarizeCoverage(3, [{ locale: "fr", translated: 2, draft: 1 }], settings)
+        .requiredComplete,
+    ).toBe(false);
+  });
+
+  it("should report services without keys as covered", () => {
+    const report = summarizeCoverage(
+      0,
+      [],
+      [{ locale: "fr", enabled: true, required: true }],
+    );
+
+    expect(report.locales[0]).toMatchObject({ missing: 0, percent: 100 });
+    expect(report.requiredComplete).toBe(true);
+  });
+});
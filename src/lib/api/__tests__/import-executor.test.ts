@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  attachValidationIssues,
+  mergeDiffReports,
+  type DiffReport,
+} from "~/lib/api/import-executor";
+import type { ValidationIssue } from "~/lib/api/validation/validator";
+
+function report(overrides: Partial<DiffReport["summary"]>, keyId: string): DiffReport {
+  return {
+    summary: {
+      keysToCreate: 0,
+      keysToUpdate: 0,
+      translationsToCreate: 0,
+      translationsToUpdate: 0,
+      keysSkipped: 0,
+      translationsSkipped: 0,
+      keysToArchive: 0,
+      keysToDelete: 0,
+      ...overrides,
+    },
+    changes: [
+      { type: "create_key", keyId, keyName: `${keyId}.name`, after: { keyName: keyId } },
+    ],
+    skipped: [],
+  };
+}
+
+describe("mergeDiffReports", () => {
+  it("should return an empty report for no chunks", () => {
+    expect(mergeDiffReports([])).toEqual({
+      summary: {
+        keysToCreate: 0,
+        keysToUpdate: 0,
+        translationsToCreate: 0,
+        translationsToUpdate: 0,
+        keysSkipped: 0,
+        translationsSkipped: 0,
+        keysToArchive: 0,
+        keysToDelete: 0,
+      },
+      changes: [],
+      skipped: [],
+    });
+  });
+
+  it("should add up summaries and keep changes in chunk order", () => {
+    const merged = mergeDiffReports([
+      report({ keysToCreate: 1, translationsToCreate: 2 }, "key-1"),
+      report({ keysToCreate: 1, keysToArchive: 3 }, "key-2"),
+    ]);
+
+    expect(merged.summary).toMatchObject({
+      keysToCreate: 2,
+      translationsToCreate: 2,
+      keysToArchive: 3,
+    });
+    expect(merged.changes.map((change) => change.keyId)).toEqual(["key-1", "key-2"]);
+  });
+});
+
+describe("attachValidationIssues", () => {
+  const issue: ValidationIssue = {
+    code: "missing_placeholder",
+    severity: "error",
+    message: 'Placeholder "%s" of the source is missing',
+    placeholder: "%s",
+    syntax: "printf",
+  };
+
+  it("should attach issues to the translation changes they concern", () => {
+    const base = report({}, "key-1");
+    base.changes.push(
+      {
+        type: "create_translation",
+        keyId: "key-1",
+        keyName: "key-1.name",
+        locale: "fr",
+        after: { value: "Bonjour" },
+      },
+      {
+        type: "update_translation",
+        keyId: "key-1",
+        keyName: "key-1.name",
+        locale: "de",
+        before: { value: "Hallo %s" },
+        after: { value: "Hallo %s" },
+      },
+    );
+
+    const annotated = attachValidationIssues(base, [
+      { keyId: "key-1", keyName: "key-1.name", locale: "fr", issues: [issue] },
+    ]);
+
+    expect(annotated.changes.map((change) => change.issues)).toEqual([
+      undefined,
+      [issue],
+      undefined,
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { resolveImportKeys } from "~/lib/api/import-keys";
+
+const existingKeys = [
+  { id: "key-1", namespaceId: null, keyName: "home.title" },
+  { id: "key-2", namespaceId: "checkout", keyName: "home.title" },
+];
+
+function payloadKey(keyName: string, namespaceId?: string, id?: string) {
+  return {
+    id,
+    keyName,
+    namespaceId,
+    tags: [],
+    status: "draft" as const,
+    translations: [],
+  };
+}
+
+describe("resolveImportKeys", () => {
+  it("should keep payload ids when matching by id", () => {
+    const { data, conflicts } = resolveImportKeys(
+      existingKeys,
+      { keys: [payloadKey("home.subtitle", undefined, "key-3")] },
+      "id",
+    );
+
+    expect(data.keys.map((key) => key.id)).toEqual(["key-3"]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it("should match key names within their namespace and generate new ids", () => {
+    let generated = 0;
+    const { data, conflicts } = resolveImportKeys(
+      existingKeys,
+      {
+        keys: [
+          payloadKey("home.title", "checkout", "home.title"),
+          payloadKey("home.title", undefined, "home.title"),
+          payloadKey("home.subtitle"),
+        ],
+      },
+      "keyName",
+      () => `new-${++generated}`,
+    );
+
+    expect(data.keys.map((key) => key.id)).toEqual(["key-2", "key-1", "new-1"]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it("should report key names used by two keys of one namespace", () => {
+    const { conflicts } = resolveImportKeys(
+      existingKeys,
+      {
+        keys: [
+          // New id for an existing name
+          payloadKey("home.title", undefined, "key-3"),
+          // Renamed onto another key's name
+          payloadKey("home.title", "checkout", "key-4"),
+        ],
+      },
+      "id",
+    );
+
+    expect(conflicts).toEqual([
+      { keyName: "home.title", namespaceId: null, keyIds: ["key-1", "key-3"] },
+      { keyName: "home.title", namespaceId: "checkout", keyIds: ["key-2", "key-4"] },
+    ]);
+  });
+
+  it("should allow renaming a key to a name freed by the same import", () => {
+    const { conflicts } = resolveImportKeys(
+      existingKeys,
+      {
+        keys: [
+          payloadKey("home.heading", undefined, "key-1"),
+          payloadKey("home.title", undefined, "key-5"),
+        ],
+      },
+      "id",
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it("should report duplicate new key names in the payload", () => {
+    let generated = 0;
+    const { conflicts } = resolveImportKeys(
+      [],
+      { keys: [payloadKey("home.title"), payloadKey("home.title")] },
+      "keyName",
+      () => `new-${++generated}`,
+    );
+
+    expect(conflicts).toEqual([
+      { keyName: "home.title", namespaceId: null, keyIds: ["new-1", "new-2"] },
+    ]);
+  });
+
+  it("should report payload keys that match the same existing key", () => {
+    const { conflicts } = resolveImportKeys(
+      existingKeys,
+      { keys: [payloadKey("home.title"), payloadKey("home.title")] },
+      "keyName",
+    );
+
+    expect(conflicts).toEqual([
+      { keyName: "home.title", namespaceId: null, keyIds: ["key-1", "key-1"] },
+    ]);
+  });
+
+  it("should report a key given twice when matching by id", () => {
+    const { conflicts } = resolveImportKeys(
+      existingKeys,
+      {
+        keys: [
+          payloadKey("home.title", "checkout", "key-2"),
+          payloadKey("home.title", "checkout", "key-2"),
+        ],
+      },
+      "id",
+    );
+
+    expect(conflicts).toEqual([
+      { keyName: "home.title", namespaceId: "checkout", keyIds: ["key-2", "key-2"] },
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+import { planImportRevert } from "~/lib/api/import-revert";
+
+const keyState = {
+  keyName: "home.title",
+  namespaceId: null,
+  description: null,
+  tags: [],
+  status: "active",
+};
+
+function currentTranslation(id: string, keyId: string, value: string, version = 1) {
+  return { id, keyId, locale: "fr", value, status: "active", version };
+}
+
+function currentKey(
+  id: string,
+  overrides = {},
+  translations: ReturnType<typeof currentTranslation>[] = [],
+) {
+  return { id, ...keyState, ...overrides, translations };
+}
+
+describe("planImportRevert", () => {
+  it("should delete created keys and translations", () => {
+    const report = planImportRevert(
+      [
+        {
+          action: "create",
+          entityType: "l10n_key",
+          entityId: "key-1",
+          before: null,
+          after: { ...keyState, serviceId: "svc" },
+        },
+        {
+          action: "create",
+          entityType: "translation",
+          entityId: "tr-1",
+          before: null,
+          after: {
+            keyId: "key-1",
+            locale: "fr",
+            value: "Titre",
+            status: "active",
+            version: 1,
+          },
+        },
+        {
+          action: "import",
+          entityType: "service",
+          entityId: "svc",
+          before: null,
+          after: {},
+        },
+      ],
+      [currentKey("key-1", {}, [currentTranslation("tr-1", "key-1", "Titre")])],
+    );
+
+    expect(report.conflicts).toEqual([]);
+    expect(report.changes.map((change) => [change.type, change.entityId])).toEqual([
+      ["delete_key", "key-1"],
+      ["delete_translation", "tr-1"],
+    ]);
+    expect(report.summary).toMatchObject({ keysToDelete: 1, translationsToDelete: 1 });
+  });
+
+  it("should put back the state before an update", () => {
+    const report = planImportRevert(
+      [
+        {
+          action: "update",
+          entityType: "translation",
+          entityId: "tr-1",
+          before: { locale: "fr", value: "Ancien", status: "draft", version: 1 },
+          after: { locale: "fr", value: "Nouveau", status: "active", version: 2 },
+        },
+      ],
+      [currentKey("key-1", {}, [currentTranslation("tr-1", "key-1", "Nouveau", 2)])],
+    );
+
+    expect(report.changes).toEqual([
+      {
+        type: "revert_translation",
+        entityId: "tr-1",
+        before: { value: "Nouveau", plurals: null, status: "active", version: 2 },
+        after: {
+          locale: "fr",
+          value: "Ancien",
+          plurals: null,
+          status: "draft",
+          version: 3,
+        },
+      },
+    ]);
+  });
+
+  it("should report a translation edited after the import as a conflict", () => {
+    const report = planImportRevert(
+      [
+        {
+          action: "update",
+          entityType: "translation",
+          entityId: "tr-1",
+          before: { locale: "fr", value: "Ancien", status: "active", version: 1 },
+          after: { locale: "fr", value: "Nouveau", status: "active", version: 2 },
+        },
+      ],
+      [currentKey("key-1", {}, [currentTranslation("tr-1", "key-1", "Corrigé", 3)])],
+    );
+
+    expect(report.changes).toEqual([]);
+    expect(report.conflicts).toEqual([
+      {
+        entityType: "translation",
+        entityId: "tr-1",
+        reason: "changed_since_import",
+        message: "Changed after the import",
+        expected: { value: "Nouveau", plurals: null, status: "active", version: 2 },
+        current: { value: "Corrigé", plurals: null, status: "active", version: 3 },
+      },
+    ]);
+  });
+
+  it("should not delete a created key that gained translations later", () => {
+    const report = planImportRevert(
+      [
+        {
+          action: "create",
+          entityType: "l10n_key",
+          entityId: "key-1",
+          before: null,
+          after: keyState,
+        },
+      ],
+      [currentKey("key-1", {}, [currentTranslation("tr-9", "key-1", "Plus tard")])],
+    );
+
+    expect(report.conflicts.map((conflict) => conflict.message)).toEqual([
+      "Translations were added after the import",
+    ]);
+  });
+
+  it("should restore deleted keys with their translations", () => {
+    const report = planImportRevert(
+      [
+        {
+          action: "delete",
+          entityType: "l10n_key",
+          entityId: "key-1",
+          before: keyState,
+          after: null,
+        },
+        {
+          action: "delete",
+          entityType: "translation",
+          entityId: "tr-1",
+          before: {
+            keyId: "key-1",
+            locale: "fr",
+            value: "Titre",
+            status: "active",
+            version: 1,
+          },
+          after: null,
+        },
+      ],
+      [],
+    );
+
+    expect(report.conflicts).toEqual([]);
+    expect(report.changes).toEqual([
+      {
+        type: "restore_key",
+        entityId: "key-1",
+        before: null,
+        // Events from before key metadata was stored lack its fields
+        after: { ...keyState, context: null, maxLength: null, screenshots: null },
+      },
+      {
+        type: "restore_translation",
+        entityId: "tr-1",
+        before: null,
+        after: {
+          keyId: "key-1",
+          locale: "fr",
+          value: "Titre",
+          plurals: null,
+          status: "active",
+          version: 1,
+        },
+      },
+    ]);
+  });
+
+  it("should not restore a key whose name was reused", () => {
+    const report = planImportRevert(
+      [
+        {
+          action: "delete",
+          entityType: "l10n_key",
+          entityId: "key-1",
+          before: keyState,
+          after: null,
+        },
+        {
+          action: "delete",
+          entityType: "translation",
+          entityId: "tr-1",
+          before: {
+            keyId: "key-1",
+            locale: "fr",
+            value: "Titre",
+            status: "active",
+            version: 1,
+          },
+          after: null,
+        },
+      ],
+      [currentKey("key-2")],
+    );
+
+    expect(report.changes).toEqual([]);
+    expect(
+      report.conflicts.map((conflict) => [conflict.entityId, conflict.reason]),
+    ).toEqual([
+      ["key-1", "exists_since_import"],
+      ["tr-1", "removed_since_import"],
+    ]);
+  });
+});
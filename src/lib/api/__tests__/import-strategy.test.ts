@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { resolveKeyUpdate, resolveTranslationUpdate } from "~/lib/api/import-strategy";
+
+const reviewed = { value: "Accueil", version: 3 };
+const untranslated = { value: "", version: 1 };
+
+describe("Import merge strategies", () => {
+  it("should overwrite every existing key and translation", () => {
+    expect(resolveKeyUpdate("overwrite")).toEqual({ action: "update" });
+    expect(
+      resolveTranslationUpdate("overwrite", reviewed, { value: "Maison", version: 3 }),
+    ).toEqual({ action: "update" });
+  });
+
+  it("should not replace translations updated after the payload's version", () => {
+    for (const strategy of ["overwrite", "fillMissing"] as const) {
+      expect(
+        resolveTranslationUpdate(
+          strategy,
+          { value: "", version: 3 },
+          { value: "Maison", version: 2 },
+        ),
+      ).toEqual({
+        action: "skip",
+        reason: "version_conflict",
+        message: "Version 2 is behind existing version 3",
+      });
+    }
+  });
+
+  it("should not check versions of payloads that carry none", () => {
+    expect(
+      resolveTranslationUpdate(
+        "fillMissing",
+        { value: "", version: 3 },
+        { value: "Maison" },
+      ),
+    ).toEqual({ action: "update" });
+    expect(
+      resolveTranslationUpdate("higherVersionWins", reviewed, { value: "Maison" }),
+    ).toEqual({
+      action: "skip",
+      reason: "version_not_higher",
+      message: "Payload has no version to compare with existing version 3",
+    });
+  });
+
+  it("should only fill translations without a value", () => {
+    const incoming = { value: "Maison", version: 1 };
+
+    expect(resolveTranslationUpdate("fillMissing", untranslated, incoming)).toEqual({
+      action: "update",
+    });
+    expect(
+      resolveTranslationUpdate("fillMissing", { value: null, version: 1 }, incoming),
+    ).toEqual({ action: "update" });
+    expect(resolveTranslationUpdate("fillMissing", reviewed, incoming)).toEqual({
+      action: "skip",
+      reason: "translation_has_value",
+      message: "Translation already has a value",
+    });
+  });
+
+  it("should skip every existing translation", () => {
+    expect(
+      resolveTranslationUpdate("skipExisting", untranslated, {
+        value: "Maison",
+        version: 2,
+      }),
+    ).toMatchObject({ action: "skip", reason: "translation_exists" });
+  });
+
+  it("should only replace translations with a higher version", () => {
+    expect(
+      resolveTranslationUpdate("higherVersionWins", reviewed, {
+        value: "Maison",
+        version: 4,
+      }),
+    ).toEqual({ action: "update" });
+    expect(
+      resolveTranslationUpdate("higherVersionWins", reviewed, {
+        value: "Maison",
+        version: 3,
+      }),
+    ).toEqual({
+      action: "skip",
+      reason: "version_not_higher",
+      message: "Version 3 is not higher than existing version 3",
+    });
+  });
+
+  it("should keep existing key metadata unless overwriting", () => {
+    for (const strategy of [
+      "fillMissing",
+      "skipExisting",
+      "higherVersionWins",
+    ] as const) {
+      expect(resolveKeyUpdate(strategy)).toEqual({
+        action: "skip",
+        reason: "key_exists",
+        message: `Existing key metadata is kept by the ${strategy} strategy`,
+      });
+    }
+  });
+});
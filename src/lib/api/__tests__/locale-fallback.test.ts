@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { ExportKeyPageSource } from "~/lib/api/export-stream";
+import {
+  defaultFallbackChain,
+  fallbackChain,
+  fallbackKeyPages,
+  fallbackReadLocales,
+  fillFromFallbacks,
+  validateFallbackChain,
+  type FallbackChains,
+} from "~/lib/api/locale-fallback";
+
+function exportKey(translations: Array<{ locale: string; value: string }>) {
+  return {
+    id: "greeting",
+    keyName: "greeting",
+    tags: [],
+    status: "active",
+    translations: translations.map((t) => ({ ...t, status: "active", version: 2 })),
+  };
+}
+
+const chains: FallbackChains = new Map([
+  ["pt-BR", ["pt", "en"]],
+  ["fr", ["en"]],
+]);
+
+describe("Locale fallback", () => {
+  it("should fall back to parent tags, then en", () => {
+    expect(defaultFallbackChain("pt-BR")).toEqual(["pt", "en"]);
+    expect(defaultFallbackChain("zh-Hant-TW")).toEqual(["zh-Hant", "zh", "en"]);
+    expect(defaultFallbackChain("en-GB")).toEqual(["en"]);
+    expect(defaultFallbackChain("en")).toEqual([]);
+  });
+
+  it("should prefer a configured chain", () => {
+    expect(fallbackChain("pt-BR", ["pt-PT"])).toEqual(["pt-PT"]);
+    expect(fallbackChain("pt-BR", [])).toEqual([]);
+    expect(fallbackChain("pt-BR", null)).toEqual(["pt", "en"]);
+  });
+
+  it("should reject chains that loop or repeat", () => {
+    expect(validateFallbackChain("pt-BR", ["pt", "en"])).toBeUndefined();
+    expect(validateFallbackChain("pt-BR", ["pt-BR"])).toMatch(/locale itself/);
+    expect(validateFallbackChain("pt-BR", ["en", "pt", "en"])).toMatch(
+      /"en" more than once/,
+    );
+  });
+
+  it("should read the chain locales along with the exported ones", () => {
+    expect(fallbackReadLocales(["pt-BR", "fr"], chains)).toEqual([
+      "pt-BR",
+      "pt",
+      "en",
+      "fr",
+    ]);
+  });
+
+  it("should fill missing and empty values from the first locale with a value", () => {
+    const key = exportKey([
+      { locale: "en", value: "Hello" },
+      { locale: "pt", value: "Olá" },
+      { locale: "pt-BR", value: "" },
+    ]);
+
+    expect(fillFromFallbacks(key, ["fr", "pt-BR"], chains).translations).toEqual([
+      {
+        locale: "fr",
+        value: "Hello",
+        status: "active",
+        version: 2,
+        fallbackLocale: "en",
+      },
+      {
+        locale: "pt-BR",
+        value: "Olá",
+        status: "active",
+        version: 2,
+        fallbackLocale: "pt",
+      },
+    ]);
+  });
+
+  it("should keep own values and gaps without a fallback", () => {
+    const key = exportKey([
+      { locale: "fr", value: "Bonjour" },
+      { locale: "pt-BR", value: "" },
+    ]);
+
+    expect(fillFromFallbacks(key, ["fr", "pt-BR"], chains).translations).toEqual([
+      { locale: "fr", value: "Bonjour", status: "active", version: 2 },
+      { locale: "pt-BR", value: "", status: "active", version: 2 },
+    ]);
+  });
+
+  it("should fill pages and drop keys left empty", async () => {
+    const source: ExportKeyPageSource = async () => ({
+      keys: [
+        exportKey([{ locale: "en", value: "Hello" }]),
+        { ...exportKey([]), id: "empty" },
+      ],
+    });
+
+    const page = await fallbackKeyPages(source, ["fr"], chains, false)(undefined, 10);
+    expect(page.keys.map((key) => key.id)).toEqual(["greeting"]);
+    expect(page.keys[0].translations[0].fallbackLocale).toBe("en");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { canonicalizeLocale, describeLocale, localeTagSchema } from "~/lib/api/locales";
+
+describe("Locale tags", () => {
+  it("should canonicalize case and separators", () => {
+    expect(canonicalizeLocale("en")).toBe("en");
+    expect(canonicalizeLocale("pt_br")).toBe("pt-BR");
+    expect(canonicalizeLocale("ZH-hant")).toBe("zh-Hant");
+    expect(canonicalizeLocale(" es-419 ")).toBe("es-419");
+    expect(canonicalizeLocale("sr-latn-rs")).toBe("sr-Latn-RS");
+  });
+
+  it("should reject malformed tags and non-language subtags", () => {
+    expect(canonicalizeLocale("")).toBeUndefined();
+    expect(canonicalizeLocale("123")).toBeUndefined();
+    expect(canonicalizeLocale("en--US")).toBeUndefined();
+    expect(canonicalizeLocale("invalid")).toBeUndefined();
+    expect(canonicalizeLocale("invalid-locale")).toBeUndefined();
+  });
+
+  it("should parse tags into their canonical form", () => {
+    expect(localeTagSchema.parse("fr_ca")).toBe("fr-CA");
+
+    const result = localeTagSchema.safeParse("not a locale");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe(
+        'Invalid BCP-47 locale tag "not a locale"',
+      );
+    }
+  });
+
+  it("should describe locales from CLDR data", () => {
+    expect(describeLocale("en")).toEqual({
+      displayName: "English",
+      direction: "ltr",
+      pluralRules: ["one", "other"],
+    });
+    expect(describeLocale("ar").direction).toBe("rtl");
+    expect(describeLocale("ar").pluralRules).toEqual(
+      expect.arrayContaining(["zero", "one", "two", "few", "many", "other"]),
+    );
+    expect(describeLocale("pt-BR").displayName).toBe("Brazilian Portuguese");
+  });
+});
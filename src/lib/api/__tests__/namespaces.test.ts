@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  findKeyMoveConflicts,
+  isUniqueViolation,
+  resolveKeyNamespaces,
+} from "~/lib/api/namespaces";
+
+describe("Namespace key moves", () => {
+  const target = [
+    { id: "key-1", keyName: "title", namespaceId: "checkout" },
+    { id: "key-2", keyName: "subtitle", namespaceId: "checkout" },
+  ];
+
+  it("should report moved keys whose names are taken in the target", () => {
+    expect(
+      findKeyMoveConflicts(
+        [
+          { id: "key-3", keyName: "title", namespaceId: "cart" },
+          { id: "key-4", keyName: "total", namespaceId: "cart" },
+        ],
+        target,
+      ),
+    ).toEqual([{ keyId: "key-3", keyName: "title", conflictingKeyId: "key-1" }]);
+  });
+
+  it("should report moved keys that share a name with each other", () => {
+    expect(
+      findKeyMoveConflicts(
+        [
+          { id: "key-3", keyName: "total", namespaceId: "cart" },
+          { id: "key-4", keyName: "total", namespaceId: null },
+        ],
+        target,
+      ),
+    ).toEqual([{ keyId: "key-4", keyName: "total", conflictingKeyId: "key-3" }]);
+  });
+
+  it("should ignore moved keys that are already in the target", () => {
+    expect(findKeyMoveConflicts([target[0]], target)).toEqual([]);
+  });
+});
+
+describe("resolveKeyNamespaces", () => {
+  it("should resolve namespaces by id or name and report unknown ones", () => {
+    const { keys, unknown } = resolveKeyNamespaces(
+      [
+        { keyName: "a", namespaceId: "ns-1" },
+        { keyName: "b", namespaceId: "checkout" },
+        { keyName: "c", namespaceId: "menu" },
+        { keyName: "d" },
+      ],
+      [
+        { id: "ns-1", name: "home" },
+        { id: "ns-2", name: "checkout" },
+      ],
+    );
+
+    expect(keys.map((key) => key.namespaceId)).toEqual([
+      "ns-1",
+      "ns-2",
+      "menu",
+      undefined,
+    ]);
+    expect(unknown).toEqual([{ index: 2, namespace: "menu" }]);
+  });
+});
+
+describe("isUniqueViolation", () => {
+  it("should find the Postgres unique violation behind a wrapped error", () => {
+    const driverError = Object.assign(new Error("duplicate key value"), {
+      code: "23505",
+    });
+
+    expect(isUniqueViolation(driverError)).toBe(true);
+    expect(isUniqueViolation(new Error("Failed query", { cause: driverError }))).toBe(
+      true,
+    );
+    expect(
+      isUniqueViolation(Object.assign(new Error("foreign key"), { code: "23503" })),
+    ).toBe(false);
+    expect(isUniqueViolation("23505")).toBe(false);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { disabledLocaleWarnings } from "~/lib/api/service-locales";
+
+const data = {
+  keys: [
+    { translations: [{ locale: "en" }, { locale: "ja" }] },
+    { translations: [{ locale: "ja" }, { locale: "ko" }] },
+  ],
+};
+
+describe("Service locales", () => {
+  it("should warn about translations into disabled locales", () => {
+    expect(disabledLocaleWarnings(data, ["en", "ko"])).toEqual([
+      {
+        locale: "ja",
+        translations: 2,
+        message: 'Locale "ja" is not enabled for this service',
+      },
+    ]);
+  });
+
+  it("should not warn for services without declared locales", () => {
+    expect(disabledLocaleWarnings(data, [])).toEqual([]);
+  });
+});
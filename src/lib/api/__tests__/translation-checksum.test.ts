@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { storedChecksum, translationChecksum } from "~/lib/api/translation-checksum";
+
+const content = { locale: "fr", value: "Écran d'accueil", status: "active" };
+
+describe("translationChecksum", () => {
+  it("should produce a SHA-256 hex digest", () => {
+    expect(translationChecksum(content)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("should ignore Unicode normalization form and line endings", () => {
+    expect(
+      translationChecksum({ ...content, value: content.value.normalize("NFD") }),
+    ).toBe(translationChecksum(content));
+    expect(translationChecksum({ ...content, value: "Ligne 1\r\nLigne 2" })).toBe(
+      translationChecksum({ ...content, value: "Ligne 1\nLigne 2" }),
+    );
+  });
+
+  it("should change with the locale, value or status", () => {
+    const checksum = translationChecksum(content);
+
+    expect(translationChecksum({ ...content, locale: "es" })).not.toBe(checksum);
+    expect(translationChecksum({ ...content, value: "Accueil" })).not.toBe(checksum);
+    expect(translationChecksum({ ...content, status: "draft" })).not.toBe(checksum);
+    expect(translationChecksum({ ...content, value: null })).not.toBe(
+      translationChecksum({ ...content, value: "" }),
+    );
+  });
+
+  it("should compute checksums missing from stored rows", () => {
+    expect(storedChecksum({ ...content, checksum: "stored" })).toBe("stored");
+    expect(storedChecksum({ ...content, checksum: null })).toBe(
+      translationChecksum(content),
+    );
+  });
+});
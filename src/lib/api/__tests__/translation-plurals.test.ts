@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  findIncompletePlurals,
+  missingPluralCategories,
+} from "~/lib/api/translation-plurals";
+
+const files = { argument: "count", forms: { one: "# file", other: "# files" } };
+
+describe("Translation plural forms", () => {
+  it("should list categories of the locale the forms lack", () => {
+    expect(missingPluralCategories(files, ["one", "other"])).toEqual([]);
+    expect(missingPluralCategories(files, ["one", "few", "many", "other"])).toEqual([
+      "few",
+      "many",
+    ]);
+  });
+
+  it("should report incomplete forms and ignore plain values", () => {
+    const rules = new Map([
+      ["en", ["one", "other"]],
+      ["ru", ["one", "few", "many", "other"]],
+    ]);
+
+    expect(
+      findIncompletePlurals(
+        {
+          keys: [
+            {
+              keyName: "files.count",
+              translations: [
+                { locale: "en", plurals: files },
+                { locale: "ru", plurals: files },
+                { locale: "de" },
+              ],
+            },
+          ],
+        },
+        rules,
+      ),
+    ).toEqual([{ keyName: "files.count", locale: "ru", missing: ["few", "many"] }]);
+  });
+
+  it("should only require other for locales without plural rules", () => {
+    expect(
+      findIncompletePlurals(
+        {
+          keys: [
+            {
+              keyName: "files.count",
+              translations: [
+                { locale: "tlh", plurals: { ...files, forms: { other: "#" } } },
+              ],
+            },
+          ],
+        },
+        new Map(),
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import {
+  etagMatches,
+  isCurrentTranslation,
+  nextImportedVersion,
+  translationETag,
+} from "~/lib/api/translation-version";
+
+const current = { version: 4, checksum: null };
+
+describe("Translation versions", () => {
+  it("should derive the ETag from version and checksum", () => {
+    expect(translationETag(current)).toBe('"4"');
+    expect(translationETag({ version: 4, checksum: "ab12" })).toBe('"4-ab12"');
+  });
+
+  it("should match listed, wildcard and no tags", () => {
+    expect(etagMatches('"3", "4"', '"4"')).toBe(true);
+    expect(etagMatches("*", '"4"')).toBe(true);
+    expect(etagMatches('W/"4"', '"4"')).toBe(false);
+    expect(etagMatches(null, '"4"')).toBe(false);
+  });
+
+  it("should accept updates based on the current version", () => {
+    expect(isCurrentTranslation(current, null, undefined)).toBe(true);
+    expect(isCurrentTranslation(current, '"4"', undefined)).toBe(true);
+    expect(isCurrentTranslation(current, null, 4)).toBe(true);
+  });
+
+  it("should reject updates based on an older version", () => {
+    expect(isCurrentTranslation(current, '"3"', undefined)).toBe(false);
+    expect(isCurrentTranslation(current, null, 3)).toBe(false);
+    expect(isCurrentTranslation(current, '"4"', 3)).toBe(false);
+  });
+
+  it("should write imported updates with the next or the payload version", () => {
+    expect(nextImportedVersion(4, 4)).toBe(5);
+    expect(nextImportedVersion(4, 9)).toBe(9);
+  });
+});
@@ -0,0 +1,100 @@
+import { and, eq, ne, sql } from "drizzle-orm";
+
+import { listServiceLocales } from "~/lib/api/locale-registry";
+import { db } from "~/lib/db";
+import { l10nKey, translation } from "~/lib/db/schema";
+
+/**
+ * Translation coverage of a service per locale
+ *
+ * Every key that is not archived counts once per locale: as translated when
+ * it has an active value, as draft when it has a draft value, and as missing
+ * otherwise.
+ */
+
+export interface LocaleTranslationCounts {
+  locale: string;
+  translated: number;
+  draft: number;
+}
+
+export interface LocaleCoverage extends LocaleTranslationCounts {
+  enabled: boolean;
+  required: boolean;
+  missing: number;
+  // Share of keys translated, in percent with one decimal
+  percent: number;
+}
+
+export interface CoverageReport {
+  keys: number;
+  locales: LocaleCoverage[];
+  // Whether every required locale is fully translated
+  requiredComplete: boolean;
+}
+
+/**
+ * Coverage of the shipped and translated locales of a service
+ * @param settings - Locale settings of the service
+ */
+export function summarizeCoverage(
+  keys: number,
+  counts: LocaleTranslationCounts[],
+  settings: Array<{ locale: string; enabled: boolean; required: boolean }>,
+): CoverageReport {
+  const countsByLocale = new Map(counts.map((row) => [row.locale, row]));
+  const settingsByLocale = new Map(settings.map((row) => [row.locale, row]));
+  const codes = [
+    ...settings.filter((row) => row.enabled || row.required).map((row) => row.locale),
+    ...counts.map((row) => row.locale),
+  ];
+
+  const locales = [...new Set(codes)].sort().map((code) => {
+    const { translated = 0, draft = 0 } = countsByLocale.get(code) ?? {};
+    const { enabled = false, required = false } = settingsByLocale.get(code) ?? {};
+
+    return {
+      locale: code,
+      enabled,
+      required,
+      translated,
+      draft,
+      missing: keys - translated - draft,
+      percent: keys === 0 ? 100 : Math.round((translated / keys) * 1000) / 10,
+    };
+  });
+
+  return {
+    keys,
+    locales,
+    requiredComplete: locales.every(
+      (row) => !row.required || row.missing + row.draft === 0,
+    ),
+  };
+}
+
+/**
+ * Count the translated, draft and missing keys of a service per locale
+ */
+export async function getServiceCoverage(serviceId: string): Promise<CoverageReport> {
+  const keyConds = and(eq(l10nKey.serviceId, serviceId), ne(l10nKey.status, "archived"));
+
+  const [{ keys }] = await db
+    .select({ keys: sql<number>`count(*)::int` })
+    .from(l10nKey)
+    .where(keyConds);
+
+  const hasValue = sql`coalesce(${translation.value}, '') <> ''`;
+  const counts = await db
+    .select({
+      locale: translation.locale,
+      translated: sql<number>`(count(*) filter (where ${translation.status} = 'active' and ${hasValue}))::int`,
+      draft: sql<number>`(count(*) filter (where ${translation.status} = 'draft' and ${hasValue}))::int`,
+    })
+    .from(translation)
+    .innerJoin(l10nKey, eq(l10nKey.id, translation.keyId))
+    .where(keyConds)
+    .groupBy(translation.locale);
+
+  return summarizeCoverage(keys, counts, await listServiceLocales(serviceId));
+}
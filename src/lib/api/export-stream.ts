@@ -0,0 +1,212 @@
+import { and, asc, eq, gt, inArray, or, type SQL } from "drizzle-orm";
+
+import type { FormatAdapter } from "~/lib/api/formats/registry";
+import type { ExportData, TranslationStatus } from "~/lib/api/import-export-types";
+import { storedChecksum } from "~/lib/api/translation-checksum";
+import { db } from "~/lib/db";
+import { l10nKey, translation } from "~/lib/db/schema";
+
+/**
+ * Streaming exports for services too large to hold in memory
+ *
+ * Keys are read a page at a time with a keyset cursor over
+ * (keyName, id) and serialized as they arrive, so memory use is bounded by
+ * the page size rather than the size of the service.
+ */
+
+type ExportKey = ExportData["data"]["keys"][number];
+
+export const EXPORT_PAGE_SIZE = 500;
+
+// Position after the last key of a page, in (keyName, id) order
+export interface ExportKeyCursor {
+  keyName: string;
+  id: string;
+}
+
+export interface ExportKeyPage {
+  keys: ExportKey[];
+  // Cursor of the next page; absent after the last page
+  next?: ExportKeyCursor;
+}
+
+export type ExportKeyPageSource = (
+  after: ExportKeyCursor | undefined,
+  limit: number,
+) => Promise<ExportKeyPage>;
+
+export interface ExportKeyFilters {
+  locales?: string[];
+  status?: TranslationStatus;
+  includeEmpty: boolean;
+}
+
+export interface ExportStreamStats {
+  keysExported: number;
+  translationsExported: number;
+  // Translations filled in from a fallback locale
+  fallbacksFilled: number;
+}
+
+/**
+ * Page source reading the keys of a service from the database, with the
+ * same filters as the buffered export
+ */
+export function databaseKeyPages(
+  serviceId: string,
+  filters: ExportKeyFilters,
+): ExportKeyPageSource {
+  const { locales, status, includeEmpty } = filters;
+
+  return async (after, limit) => {
+    const keyConds: SQL<unknown>[] = [eq(l10nKey.serviceId, serviceId)];
+
+    if (status) {
+      keyConds.push(eq(l10nKey.status, status));
+    }
+
+    if (after) {
+      keyConds.push(
+        or(
+          gt(l10nKey.keyName, after.keyName),
+          and(eq(l10nKey.keyName, after.keyName), gt(l10nKey.id, after.id)),
+        )!,
+      );
+    }
+
+    const keys = await db
+      .select()
+      .from(l10nKey)
+      .where(and(...keyConds))
+      .orderBy(asc(l10nKey.keyName), asc(l10nKey.id))
+      .limit(limit);
+
+    if (keys.length === 0) {
+      return { keys: [] };
+    }
+
+    const translationConds: SQL<unknown>[] = [
+      inArray(
+        translation.keyId,
+        keys.map((key) => key.id),
+      ),
+    ];
+
+    if (locales && locales.length > 0) {
+      translationConds.push(inArray(translation.locale, locales));
+    }
+
+    if (status) {
+      translationConds.push(eq(translation.status, status));
+    }
+
+    const translations = await db
+      .select()
+      .from(translation)
+      .where(and(...translationConds));
+
+    const translationsByKey = new Map<string, ExportKey["translations"]>();
+    for (const row of translations) {
+      const keyTranslations = translationsByKey.get(row.keyId) ?? [];
+      keyTranslations.push({
+        locale: row.locale,
+        value: row.value || "",
+        ...(row.plurals && { plurals: row.plurals }),
+        status: row.status,
+        version: row.version,
+        checksum: storedChecksum(row),
+      });
+      translationsByKey.set(row.keyId, keyTranslations);
+    }
+
+    const last = keys[keys.length - 1];
+
+    return {
+      keys: keys
+        .map((key) => ({
+          id: key.id,
+          keyName: key.keyName,
+          namespaceId: key.namespaceId || undefined,
+          description: key.description || undefined,
+          context: key.context || undefined,
+          maxLength: key.maxLength ?? undefined,
+          screenshots: key.screenshots.length > 0 ? key.screenshots : undefined,
+          tags: key.tags,
+          status: key.status,
+          translations: (translationsByKey.get(key.id) ?? []).sort((a, b) =>
+            a.locale.localeCompare(b.locale),
+          ),
+        }))
+        // Keys without matching translations are only kept with includeEmpty
+        .filter((key) => includeEmpty || key.translations.length > 0),
+      next: keys.length === limit ? { keyName: last.keyName, id: last.id } : undefined,
+    };
+  };
+}
+
+/**
+ * Iterate every key of a page source, fetching the next page only once the
+ * previous one has been consumed
+ */
+export async function* pageExportKeys(
+  source: ExportKeyPageSource,
+  pageSize: number = EXPORT_PAGE_SIZE,
+): AsyncGenerator<ExportKey> {
+  let after: ExportKeyCursor | undefined;
+
+  do {
+    const page = await source(after, pageSize);
+    yield* page.keys;
+    after = page.next;
+  } while (after);
+}
+
+/**
+ * Byte stream of an export in a format that supports streaming. Chunks are
+ * produced on demand, so a slow client holds back the database reads.
+ * @param onComplete Called with the export totals once every key is written
+ */
+export function createExportStream(
+  adapter: FormatAdapter,
+  header: Omit<ExportData, "data">,
+  keys: AsyncIterable<ExportKey>,
+  onComplete?: (stats: ExportStreamStats) => Promise<void>,
+): ReadableStream<Uint8Array> {
+  const stats: ExportStreamStats = {
+    keysExported: 0,
+    translationsExported: 0,
+    fallbacksFilled: 0,
+  };
+
+  async function* countedKeys(): AsyncGenerator<ExportKey> {
+    for await (const key of keys) {
+      stats.keysExported++;
+      stats.translationsExported += key.translations.length;
+      stats.fallbacksFilled += key.translations.filter((t) => t.fallbackLocale).length;
+      yield key;
+    }
+  }
+
+  const chunks = adapter.serializeStream!(header, countedKeys())[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const chunk = await chunks.next();
+        if (chunk.done) {
+          await onComplete?.(stats);
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(chunk.value));
+      } catch (error) {
+        console.error("Export stream failed:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return?.(undefined);
+    },
+  });
+}
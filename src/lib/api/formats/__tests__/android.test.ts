@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import {
+  androidValuesDir,
+  escapeAndroidString,
+  localeFromAndroidPath,
+  parseAndroidStrings,
+  serializeAndroidStrings,
+  unescapeAndroidString,
+} from "~/lib/api/formats/android";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "billing",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "invoice.title",
+        namespaceId: "invoices",
+        tags: ["billing", "ui"],
+        status: "active",
+        translations: [
+          { locale: "fr", value: "L'facture <b>@home</b>", status: "draft", version: 2 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "invoice.count",
+        description: "Invoice count in the header\nShown next to the <b>title</b>",
+        context: "Billing header",
+        maxLength: 30,
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "fr",
+            value: "{n, plural, one {# facture} other {# factures}}",
+            status: "active",
+            version: 1,
+          },
+        ],
+      },
+      {
+        id: "key-3",
+        keyName: "invoice.untranslated",
+        tags: [],
+        status: "draft",
+        translations: [],
+      },
+    ],
+  },
+};
+
+describe("Android strings.xml format", () => {
+  it("should map locales to resource directories and back", () => {
+    expect(androidValuesDir("fr")).toBe("values-fr");
+    expect(androidValuesDir("pt-BR")).toBe("values-pt-rBR");
+    expect(androidValuesDir("zh-Hant")).toBe("values-b+zh+Hant");
+
+    expect(localeFromAndroidPath("res/values/strings.xml")).toBe("en");
+    expect(localeFromAndroidPath("res/values-pt-rBR/strings.xml")).toBe("pt-BR");
+    expect(localeFromAndroidPath("res/values-b+zh+Hant/strings.xml")).toBe("zh-Hant");
+    expect(localeFromAndroidPath("res/values-night/colors.xml")).toBeUndefined();
+  });
+
+  it("should escape apostrophes, quotes and leading references", () => {
+    expect(escapeAndroidString(`It's "done"`)).toBe(`It\\'s \\"done\\"`);
+    expect(escapeAndroidString("@string/other")).toBe("\\@string/other");
+    expect(escapeAndroidString("a < b\nc")).toBe("a &lt; b\\nc");
+    expect(unescapeAndroidString(`"It's quoted"`)).toBe("It's quoted");
+    expect(unescapeAndroidString("\\u00e9t\\u00e9")).toBe("été");
+  });
+
+  it("should write strings and plurals with tools metadata", () => {
+    const xml = serializeAndroidStrings(exportData, "fr");
+
+    expect(xml).toContain('xmlns:tools="http://schemas.android.com/tools"');
+    expect(xml).toContain(
+      '<string name="invoice.title" tools:id="key-1" tools:namespace="invoices" tools:tags="billing,ui"',
+    );
+    expect(xml).toContain(">L\\'facture &lt;b&gt;@home&lt;/b&gt;</string>");
+    expect(xml).toContain('<item quantity="one">%d facture</item>');
+    expect(xml).toContain('tools:argument="n"');
+    expect(xml).toContain(
+      "<!-- Invoice count in the header\n         Shown next to the <b>title</b> -->\n    <plurals",
+    );
+    expect(xml).toContain('tools:keyContext="Billing header" tools:maxLength="30"');
+    expect(xml).not.toContain("invoice.untranslated");
+  });
+
+  it("should round-trip values, plurals and key metadata", () => {
+    const parsed = parseAndroidStrings(serializeAndroidStrings(exportData, "fr"), "fr");
+
+    expect(parsed.keys).toEqual([
+      {
+        id: "key-1",
+        keyName: "invoice.title",
+        namespaceId: "invoices",
+        tags: ["billing", "ui"],
+        status: "active",
+        translations: [
+          { locale: "fr", value: "L'facture <b>@home</b>", status: "draft", version: 2 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "invoice.count",
+        namespaceId: undefined,
+        description: "Invoice count in the header\nShown next to the <b>title</b>",
+        context: "Billing header",
+        maxLength: 30,
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "fr",
+            value: "{n, plural, one {# facture} other {# factures}}",
+            status: "active",
+            version: 1,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should keep resource names that are not valid identifiers", () => {
+    const data: ExportData = {
+      ...exportData,
+      data: {
+        keys: [
+          {
+            id: "key-9",
+            keyName: "checkout-button label",
+            tags: [],
+            status: "active",
+            translations: [
+              { locale: "de", value: "Bezahlen", status: "active", version: 1 },
+            ],
+          },
+        ],
+      },
+    };
+
+    const xml = serializeAndroidStrings(data, "de");
+    expect(xml).toContain('name="checkout_button_label"');
+    expect(parseAndroidStrings(xml, "de").keys[0].keyName).toBe("checkout-button label");
+  });
+
+  it("should parse third-party files without tools attributes", () => {
+    const parsed = parseAndroidStrings(
+      `<resources>
+  <string name="app_name">My <b>App</b></string>
+  <string-array name="ignored"><item>x</item></string-array>
+  <plurals name="songs">
+    <item quantity="one">%d song</item>
+    <item quantity="other">%d songs</item>
+  </plurals>
+</resources>`,
+      "en",
+    );
+
+    expect(parsed.keys.map((key) => [key.id, key.translations[0].value])).toEqual([
+      [undefined, "My <b>App</b>"],
+      [undefined, "{count, plural, one {# song} other {# songs}}"],
+    ]);
+  });
+
+  it("should read the comment before a resource as its description", () => {
+    const parsed = parseAndroidStrings(
+      `<resources>
+  <!-- Sections -->
+  <string-array name="ignored"><item>x</item></string-array>
+  <!-- Greeting on the home screen -->
+  <string name="greeting">Hi</string>
+  <string name="farewell">Bye</string>
+</resources>`,
+      "en",
+    );
+
+    expect(parsed.keys.map((key) => [key.keyName, key.description])).toEqual([
+      ["greeting", "Greeting on the home screen"],
+      ["farewell", undefined],
+    ]);
+  });
+
+  it("should reject malformed documents and plurals without other", () => {
+    expect(() => parseAndroidStrings("<resources><string>", "en")).toThrow(/line/);
+    expect(() => parseAndroidStrings("<manifest />", "en")).toThrow(/resources/);
+    expect(() =>
+      parseAndroidStrings(
+        '<resources><plurals name="p"><item quantity="one">x</item></plurals></resources>',
+        "en",
+      ),
+    ).toThrow(/other/);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import {
+  appleStringsPath,
+  localeFromApplePath,
+  parseAppleBundle,
+  parseAppleStrings,
+  parseStringsdict,
+  serializeAppleStrings,
+  serializeStringsdict,
+} from "~/lib/api/formats/apple";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "billing",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "invoice.title",
+        namespaceId: "invoices",
+        tags: ["billing"],
+        status: "active",
+        translations: [
+          { locale: "de", value: 'Rechnung "A"\n\tZeile', status: "draft", version: 3 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "invoice.count",
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "de",
+            value: "{n, plural, one {# Rechnung} other {# Rechnungen}}",
+            status: "active",
+            version: 1,
+          },
+        ],
+      },
+    ],
+  },
+};
+
+describe("iOS strings format", () => {
+  it("should map locales to .lproj paths and back", () => {
+    expect(appleStringsPath("fr", "strings")).toBe("fr.lproj/Localizable.strings");
+    expect(localeFromApplePath("App/pt_BR.lproj/Localizable.strings")).toBe("pt-BR");
+    expect(localeFromApplePath("Base.lproj/Localizable.strings")).toBe("en");
+    expect(localeFromApplePath("Localizable.strings")).toBeUndefined();
+  });
+
+  it("should write escaped entries with metadata comments", () => {
+    const strings = serializeAppleStrings(exportData, "de");
+
+    expect(strings).toContain(
+      '/* id: key-1; namespace: invoices; tags: billing; keyStatus: active; status: draft; version: 3 */\n"invoice.title" = "Rechnung \\"A\\"\\n\\tZeile";',
+    );
+    expect(strings).toContain('"invoice.count" = "%d Rechnungen";');
+  });
+
+  it("should write plurals to the stringsdict", () => {
+    const plist = serializeStringsdict(exportData, "de");
+
+    expect(plist).toContain("<string>%#@n@</string>");
+    expect(plist).toContain("<key>one</key>\n      <string>%d Rechnung</string>");
+    expect(plist).not.toContain("invoice.title");
+  });
+
+  it("should round-trip a bundle with plurals taking precedence", () => {
+    const parsed = parseAppleBundle([
+      {
+        path: appleStringsPath("de", "strings"),
+        content: serializeAppleStrings(exportData, "de"),
+      },
+      {
+        path: appleStringsPath("de", "stringsdict"),
+        content: serializeStringsdict(exportData, "de"),
+      },
+    ]);
+
+    expect(parsed.keys).toEqual([
+      {
+        id: "key-1",
+        keyName: "invoice.title",
+        namespaceId: "invoices",
+        tags: ["billing"],
+        status: "active",
+        translations: [
+          { locale: "de", value: 'Rechnung "A"\n\tZeile', status: "draft", version: 3 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "invoice.count",
+        namespaceId: undefined,
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "de",
+            value: "{n, plural, one {# Rechnung} other {# Rechnungen}}",
+            status: "active",
+            version: 1,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should parse third-party .strings with comments and unicode escapes", () => {
+    const parsed = parseAppleStrings(
+      `// Generated by genstrings
+/* Button title */
+"ok" = "D\\U00e9j\\u00e0";
+greeting = "Hi";
+`,
+      "fr",
+    );
+
+    expect(
+      parsed.keys.map((key) => [
+        key.id,
+        key.description,
+        key.tags,
+        key.translations[0].value,
+      ]),
+    ).toEqual([
+      [undefined, "Button title", [], "Déjà"],
+      [undefined, undefined, [], "Hi"],
+    ]);
+  });
+
+  it("should convert embedded stringsdict variables to ICU plurals", () => {
+    const parsed = parseStringsdict(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>files</key>
+  <dict>
+    <key>NSStringLocalizedFormatKey</key>
+    <string>Found %#@files@</string>
+    <key>files</key>
+    <dict>
+      <key>NSStringFormatSpecTypeKey</key>
+      <string>NSStringPluralRuleType</string>
+      <key>one</key>
+      <string>%ld file</string>
+      <key>other</key>
+      <string>%ld files</string>
+    </dict>
+  </dict>
+</dict>
+</plist>`,
+      "en",
+    );
+
+    expect(parsed.keys[0].translations[0].value).toBe(
+      "Found {files, plural, one {# file} other {# files}}",
+    );
+  });
+
+  it("should report the file and line of invalid syntax", () => {
+    expect(() =>
+      parseAppleBundle([
+        { path: "fr.lproj/Localizable.strings", content: '"a" = "b";\n"c" = "d"\n' },
+      ]),
+    ).toThrow(/fr\.lproj\/Localizable\.strings: .*line 3/);
+    expect(() =>
+      parseAppleBundle([{ path: "Localizable.strings", content: "" }]),
+    ).toThrow(/locale/);
+  });
+});
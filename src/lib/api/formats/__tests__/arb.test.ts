@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  arbFileName,
+  arbMessageId,
+  arbPlaceholders,
+  localeFromArbPath,
+  parseArb,
+  serializeArb,
+} from "~/lib/api/formats/arb";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "app",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "checkout.pay-now",
+        namespaceId: "checkout-ns",
+        description: "Primary checkout button",
+        context: "Button below the order summary",
+        maxLength: 20,
+        screenshots: ["screens/checkout.png"],
+        tags: ["checkout"],
+        status: "active",
+        translations: [
+          { locale: "pt-BR", value: "Pagar {amount}", status: "draft", version: 2 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "cartItems",
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "pt-BR",
+            value: "{count, plural, one {# item de {owner}} other {# itens}}",
+            status: "active",
+            version: 1,
+          },
+        ],
+      },
+    ],
+  },
+};
+
+describe("Flutter ARB format", () => {
+  it("should convert key names to Dart identifiers", () => {
+    expect(arbMessageId("checkout.pay-now")).toBe("checkoutPayNow");
+    expect(arbMessageId("Home.Title")).toBe("homeTitle");
+    expect(arbMessageId("404.title")).toBe("key404Title");
+    expect(arbFileName("pt-BR")).toBe("app_pt_BR.arb");
+    expect(localeFromArbPath("l10n/app_pt_BR.arb")).toBe("pt-BR");
+  });
+
+  it("should collect top-level placeholders with plural and select types", () => {
+    expect(
+      arbPlaceholders("{count, plural, one {# of {total}} other {#}} by {name}"),
+    ).toEqual({ count: { type: "int" }, name: {} });
+    expect(arbPlaceholders("{gender, select, male {he} other {they}}")).toEqual({
+      gender: { type: "String" },
+    });
+    expect(arbPlaceholders("Quote '{literal}'")).toEqual({});
+  });
+
+  it("should write @@locale, messages and metadata", () => {
+    const arb = JSON.parse(serializeArb(exportData, "pt-BR"));
+
+    expect(arb["@@locale"]).toBe("pt-BR");
+    expect(arb.checkoutPayNow).toBe("Pagar {amount}");
+    expect(arb["@checkoutPayNow"]).toEqual({
+      description: "Primary checkout button",
+      context: "Button below the order summary",
+      placeholders: { amount: {} },
+      "x-l10n": {
+        id: "key-1",
+        keyName: "checkout.pay-now",
+        namespaceId: "checkout-ns",
+        tags: ["checkout"],
+        maxLength: 20,
+        screenshots: ["screens/checkout.png"],
+        keyStatus: "active",
+        status: "draft",
+        version: 2,
+      },
+    });
+    expect(arb["@cartItems"].placeholders).toEqual({ count: { type: "int" } });
+  });
+
+  it("should round-trip messages and key metadata", () => {
+    const parsed = parseArb(serializeArb(exportData, "pt-BR"));
+
+    expect(parsed.keys).toEqual(exportData.data.keys);
+  });
+
+  it("should parse gen-l10n templates without custom metadata", () => {
+    const parsed = parseArb(
+      JSON.stringify({
+        greeting: "Hello {name}",
+        "@greeting": { description: "Home greeting", placeholders: { name: {} } },
+      }),
+      "en",
+    );
+
+    expect(parsed.keys).toEqual([
+      {
+        id: undefined,
+        keyName: "greeting",
+        namespaceId: undefined,
+        description: "Home greeting",
+        tags: [],
+        status: "draft",
+        translations: [{ locale: "en", value: "Hello {name}", status: "active" }],
+      },
+    ]);
+  });
+
+  it("should detect message id and key name collisions", () => {
+    expect(() =>
+      serializeArb(
+        {
+          ...exportData,
+          data: {
+            keys: [
+              ...exportData.data.keys,
+              { ...exportData.data.keys[0], id: "key-3", keyName: "checkout.payNow" },
+            ],
+          },
+        },
+        "pt-BR",
+      ),
+    ).toThrow(/"checkout.pay-now", "checkout.payNow" all map to "checkoutPayNow"/);
+
+    expect(() =>
+      parseArb(
+        JSON.stringify({
+          "@@locale": "en",
+          a: "x",
+          b: "y",
+          "@b": { "x-l10n": { keyName: "a" } },
+        }),
+      ),
+    ).toThrow(/"a" and "b" both resolve to "a"/);
+  });
+
+  it("should require a locale", () => {
+    expect(() => parseArb('{"a": "x"}')).toThrow(/@@locale/);
+    expect(() => parseArb('{"@@locale": "en", "a": 1}')).toThrow(/must be a string/);
+  });
+});
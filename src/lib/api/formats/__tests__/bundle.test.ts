@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildBundle,
+  parseBundle,
+  readBundle,
+  sha256Hex,
+  type BundleFilters,
+} from "~/lib/api/formats/bundle";
+import { toText, unzipFiles, zipFiles } from "~/lib/api/formats/files";
+import { getFormat } from "~/lib/api/formats/registry";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "web",
+  locales: ["de", "fr"],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "checkout.title",
+        namespaceId: "checkout",
+        tags: [],
+        status: "active",
+        translations: [
+          { locale: "de", value: "Kasse", status: "active", version: 1 },
+          { locale: "fr", value: "Paiement", status: "active", version: 1 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "home.title",
+        tags: [],
+        status: "active",
+        translations: [{ locale: "fr", value: "Accueil", status: "active", version: 1 }],
+      },
+    ],
+  },
+};
+
+const filters: BundleFilters = {
+  locales: ["de", "fr"],
+  status: "active",
+  includeEmpty: false,
+  separator: ".",
+};
+
+function unpack(format: string) {
+  return readBundle(unzipFiles(buildBundle(getFormat(format)!, exportData, filters)))!;
+}
+
+describe("ZIP bundles", () => {
+  it("should write one file per namespace and locale with a manifest", () => {
+    const { manifest, files } = unpack("i18next");
+
+    expect(manifest).toMatchObject({
+      version: 1,
+      service: "web",
+      format: "i18next",
+      exportedAt: "2025-01-01T00:00:00.000Z",
+      filters,
+    });
+    expect(
+      manifest.files.map(({ path, namespace, locale, keys }) => ({
+        path,
+        namespace,
+        locale,
+        keys,
+      })),
+    ).toEqual([
+      { path: "checkout/de/web.json", namespace: "checkout", locale: "de", keys: 1 },
+      { path: "checkout/fr/web.json", namespace: "checkout", locale: "fr", keys: 1 },
+      { path: "default/de/web.json", namespace: null, locale: "de", keys: 0 },
+      { path: "default/fr/web.json", namespace: null, locale: "fr", keys: 1 },
+    ]);
+    for (const entry of manifest.files) {
+      expect(entry.sha256).toBe(sha256Hex(files.get(entry.path)!.content));
+    }
+  });
+
+  it("should keep shared files once and give single-file formats a locale directory", () => {
+    const po = unpack("po").manifest.files.filter((entry) => entry.namespace === null);
+    expect(po.map(({ path, locale, keys }) => ({ path, locale, keys }))).toEqual([
+      { path: "default/web.pot", locale: null, keys: 1 },
+      { path: "default/de/LC_MESSAGES/web.po", locale: "de", keys: 0 },
+      { path: "default/fr/LC_MESSAGES/web.po", locale: "fr", keys: 1 },
+    ]);
+
+    expect(unpack("csv").manifest.files.map((entry) => entry.path)).toEqual([
+      "checkout/de/web.csv",
+      "checkout/fr/web.csv",
+      "default/de/web.csv",
+      "default/fr/web.csv",
+    ]);
+  });
+
+  it("should round-trip translations and restore namespaces from the manifest", () => {
+    for (const format of ["i18next", "csv", "ios", "po"]) {
+      const { data, issues } = parseBundle(getFormat(format)!, unpack(format), {
+        separator: ".",
+      });
+
+      expect(issues).toEqual([]);
+      expect(
+        data.keys
+          .map((key) => ({
+            keyName: key.keyName,
+            namespaceId: key.namespaceId,
+            values: key.translations
+              .map((t) => `${t.locale}:${t.value}`)
+              .sort()
+              .join(" "),
+          }))
+          .sort((a, b) => a.keyName.localeCompare(b.keyName)),
+      ).toEqual([
+        {
+          keyName: "checkout.title",
+          namespaceId: "checkout",
+          values: "de:Kasse fr:Paiement",
+        },
+        { keyName: "home.title", namespaceId: undefined, values: "fr:Accueil" },
+      ]);
+    }
+  });
+
+  it("should keep same-named keys of different namespaces apart", () => {
+    const data: ExportData = {
+      ...exportData,
+      data: {
+        keys: ["checkout", "home"].map((namespaceId) => ({
+          id: `${namespaceId}-title`,
+          keyName: "title",
+          namespaceId,
+          tags: [],
+          status: "active",
+          translations: [
+            { locale: "fr", value: `Titre ${namespaceId}`, status: "active", version: 1 },
+          ],
+        })),
+      },
+    };
+
+    for (const format of ["i18next", "yaml"]) {
+      const adapter = getFormat(format)!;
+      const bundle = readBundle(unzipFiles(buildBundle(adapter, data, filters)))!;
+      const parsed = parseBundle(adapter, bundle, { separator: "." });
+
+      expect(
+        parsed.data.keys.map((key) => [
+          key.id,
+          key.namespaceId,
+          key.translations[0].value,
+        ]),
+      ).toEqual([
+        [undefined, "checkout", "Titre checkout"],
+        [undefined, "home", "Titre home"],
+      ]);
+    }
+  });
+
+  it("should verify checksums and file lists before parsing anything", () => {
+    const bundle = unpack("i18next");
+    bundle.files.set("checkout/fr/web.json", {
+      path: "checkout/fr/web.json",
+      content: '{"checkout": {"title": "Caisse"}}',
+    });
+    bundle.files.delete("default/de/web.json");
+    bundle.files.set("extra.json", { path: "extra.json", content: "{}" });
+
+    const { data, issues } = parseBundle(getFormat("i18next")!, bundle, {
+      separator: ".",
+    });
+
+    expect(data.keys).toEqual([]);
+    expect(issues).toEqual([
+      { location: "checkout/fr/web.json", message: "Checksum does not match manifest" },
+      { location: "default/de/web.json", message: "File listed in manifest is missing" },
+      { location: "extra.json", message: "File is not listed in manifest" },
+    ]);
+  });
+
+  it("should reject bundles of another format and invalid manifests", () => {
+    expect(
+      parseBundle(getFormat("arb")!, unpack("i18next"), { separator: "." }).issues,
+    ).toEqual([
+      { location: "manifest.json", message: "Bundle was exported as i18next, not arb" },
+    ]);
+
+    expect(() =>
+      readBundle([{ path: "manifest.json", content: '{"version": 2}' }]),
+    ).toThrow(/Invalid manifest.json: version/);
+    expect(
+      readBundle(unzipFiles(zipFiles([{ path: "fr/web.json", content: "{}" }]))),
+    ).toBeUndefined();
+    expect(
+      toText(unzipFiles(buildBundle(getFormat("json")!, exportData, filters))[0].content),
+    ).toContain('"format": "json"');
+  });
+});
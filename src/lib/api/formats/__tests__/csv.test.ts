@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, serializeCsv } from "~/lib/api/formats/csv";
+
+describe("CSV format", () => {
+  it("should write a BOM, CRLF rows and quote special fields", () => {
+    expect(
+      serializeCsv([
+        ["key", "fr"],
+        ["a", 'Dit "oui", puis\nnon'],
+      ]),
+    ).toBe('﻿key,fr\r\na,"Dit ""oui"", puis\nnon"\r\n');
+  });
+
+  it("should round-trip quoted delimiters, quotes and newlines", () => {
+    const rows = [
+      ["key", "de", "fr"],
+      ["multi", "Zeile 1\r\nZeile 2", ""],
+      ["quote", '"quoted"', "a;b,c"],
+    ];
+
+    expect(parseCsv(serializeCsv(rows))).toEqual(rows);
+  });
+
+  it("should detect semicolon-delimited files from the header", () => {
+    expect(parseCsv('key;fr\n"a;b";"x, y"\n')).toEqual([
+      ["key", "fr"],
+      ["a;b", "x, y"],
+    ]);
+  });
+
+  it("should accept files without a trailing newline or BOM", () => {
+    expect(parseCsv("key,en\na,b")).toEqual([
+      ["key", "en"],
+      ["a", "b"],
+    ]);
+  });
+
+  it("should report unterminated quotes with their starting line", () => {
+    expect(() => parseCsv('key,en\na,"open\nstill open')).toThrow(/line 2/);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest";
+import {
+  localeFromPoPath,
+  parsePo,
+  parsePoCatalog,
+  serializePo,
+  serializePot,
+} from "~/lib/api/formats/gettext";
+import { UnsupportedLocaleError } from "~/lib/api/formats/plurals";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "billing",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "invoice.title",
+        namespaceId: "invoices",
+        description: "Invoice page heading",
+        context: "Shown above the invoice\nnumber",
+        maxLength: 30,
+        screenshots: ["screens/invoice.png", "screens/invoice-print.png"],
+        tags: ["billing"],
+        status: "active",
+        translations: [
+          { locale: "en", value: "Invoice", status: "active", version: 1 },
+          { locale: "fr", value: 'Facture "PDF"\nLigne 2', status: "draft", version: 2 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "invoice.count",
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "en",
+            value: "{n, plural, one {# invoice} other {# invoices}}",
+            status: "active",
+            version: 1,
+          },
+          {
+            locale: "ru",
+            value:
+              "{n, plural, one {# счёт} few {# счёта} many {# счетов} other {# счёта}}",
+            status: "active",
+            version: 4,
+          },
+        ],
+      },
+      {
+        id: "key-3",
+        keyName: "invoice.legacy",
+        tags: [],
+        status: "archived",
+        translations: [{ locale: "fr", value: "Ancien", status: "archived", version: 1 }],
+      },
+    ],
+  },
+};
+
+describe("Gettext PO/POT format", () => {
+  it("should write a template with empty msgstr and plural slots", () => {
+    const pot = serializePot(exportData);
+
+    expect(pot).toContain("Plural-Forms: nplurals=INTEGER; plural=EXPRESSION;");
+    expect(pot).toContain('msgctxt "invoices"\nmsgid "invoice.title"\nmsgstr ""');
+    expect(pot).toContain(
+      'msgid "invoice.count"\nmsgid_plural "invoice.count"\nmsgstr[0] ""\nmsgstr[1] ""',
+    );
+    expect(pot).not.toContain("Language:");
+  });
+
+  it("should mark draft translations fuzzy and archived ones obsolete", () => {
+    const po = serializePo(exportData, "fr");
+
+    expect(po).toContain('"Language: fr\\n"');
+    expect(po).toContain("#, fuzzy\nmsgctxt");
+    expect(po).toContain('#~ msgid "invoice.legacy"\n#~ msgstr "Ancien"');
+  });
+
+  it("should write descriptions as translator comments with their line breaks", () => {
+    const data: ExportData = {
+      ...exportData,
+      data: {
+        keys: [{ ...exportData.data.keys[0], description: "Invoice page\nheading" }],
+      },
+    };
+    const po = serializePo(data, "fr");
+
+    expect(po).toContain("# Invoice page\n# heading\n#. id: key-1");
+    expect(po).not.toContain("#. description:");
+    expect(parsePo(po).keys[0].description).toBe("Invoice page\nheading");
+    expect(serializePot(data)).toContain(
+      "#. description: Invoice page\n#. description: heading",
+    );
+    expect(parsePo(serializePot(data)).keys[0].description).toBe("Invoice page\nheading");
+  });
+
+  it("should split multi-line values into continuation strings", () => {
+    const po = serializePo(exportData, "fr");
+
+    expect(po).toContain('msgstr ""\n"Facture \\"PDF\\"\\n"\n"Ligne 2"');
+  });
+
+  it("should map ICU plurals onto the locale's msgstr[n] forms", () => {
+    const po = serializePo(exportData, "ru");
+
+    expect(po).toContain("Plural-Forms: nplurals=3;");
+    expect(po).toContain('msgstr[0] "# счёт"\nmsgstr[1] "# счёта"\nmsgstr[2] "# счетов"');
+  });
+
+  it("should keep every gettext form of locales such as Polish", () => {
+    const value =
+      "{n, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}";
+    const po = serializePo(
+      {
+        ...exportData,
+        data: {
+          keys: [
+            {
+              id: "key-1",
+              keyName: "files",
+              tags: [],
+              status: "active",
+              translations: [{ locale: "pl", value, status: "active", version: 1 }],
+            },
+          ],
+        },
+      },
+      "pl",
+    );
+
+    expect(po).toContain("Plural-Forms: nplurals=3; plural=(n==1 ? 0 :");
+    expect(parsePo(po).keys[0].translations[0].value).toBe(
+      "{n, plural, one {# plik} few {# pliki} many {# plików} other {# plików}}",
+    );
+  });
+
+  it("should refuse plurals of locales without a known gettext formula", () => {
+    expect(() => serializePo(exportData, "cy")).toThrow(
+      'No gettext plural formula is known for locale "cy"',
+    );
+    expect(() => serializePo(exportData, "cy")).toThrow(UnsupportedLocaleError);
+    expect(serializePo(exportData, "ja")).toContain(
+      "Plural-Forms: nplurals=1; plural=0;",
+    );
+  });
+
+  it("should round-trip translations, status and key metadata", () => {
+    const parsed = parsePo(serializePo(exportData, "fr"));
+
+    expect(parsed.keys[0]).toEqual({
+      id: "key-1",
+      keyName: "invoice.title",
+      namespaceId: "invoices",
+      description: "Invoice page heading",
+      context: "Shown above the invoice number",
+      maxLength: 30,
+      screenshots: ["screens/invoice.png", "screens/invoice-print.png"],
+      tags: ["billing"],
+      status: "active",
+      translations: [
+        { locale: "fr", value: 'Facture "PDF"\nLigne 2', status: "draft", version: 2 },
+      ],
+    });
+    expect(parsed.keys[1].translations).toEqual([]);
+    expect(parsed.keys[2].translations).toEqual([
+      { locale: "fr", value: "Ancien", status: "archived", version: 1 },
+    ]);
+  });
+
+  it("should rebuild ICU plurals from msgstr[n]", () => {
+    const parsed = parsePo(serializePo(exportData, "ru"));
+
+    expect(parsed.keys[1].translations[0]).toEqual({
+      locale: "ru",
+      value: "{n, plural, one {# счёт} few {# счёта} many {# счетов} other {# счетов}}",
+      status: "active",
+      version: 4,
+    });
+  });
+
+  it("should import keys without translations from a template", () => {
+    const parsed = parsePo(serializePot(exportData));
+
+    expect(parsed.keys.map((key) => key.keyName)).toEqual([
+      "invoice.title",
+      "invoice.count",
+      "invoice.legacy",
+    ]);
+    expect(parsed.keys.every((key) => key.translations.length === 0)).toBe(true);
+  });
+
+  it("should parse third-party files with translator comments and no ids", () => {
+    const content = `msgid ""
+msgstr ""
+"Language: pt_BR\\n"
+
+# Shown on the checkout button
+#: templates/cart.html:12
+#, fuzzy, python-format
+msgctxt "checkout"
+msgid "Pay now"
+msgstr "Pagar agora"
+msgid "Cancel"
+msgstr "Cancelar"
+`;
+
+    const catalog = parsePoCatalog(content);
+    expect(catalog.entries[0].translatorComments).toEqual([
+      "Shown on the checkout button",
+    ]);
+    expect(catalog.entries[0].references).toEqual(["templates/cart.html:12"]);
+    expect(catalog.entries[0].flags).toEqual(["fuzzy", "python-format"]);
+
+    const parsed = parsePo(content);
+    expect(parsed.keys).toEqual([
+      {
+        id: undefined,
+        keyName: "Pay now",
+        namespaceId: "checkout",
+        description: "Shown on the checkout button",
+        tags: [],
+        status: "draft",
+        translations: [{ locale: "pt-BR", value: "Pagar agora", status: "draft" }],
+      },
+      {
+        id: undefined,
+        keyName: "Cancel",
+        namespaceId: undefined,
+        tags: [],
+        status: "draft",
+        translations: [{ locale: "pt-BR", value: "Cancelar", status: "active" }],
+      },
+    ]);
+  });
+
+  it("should fall back to the locale from the file path", () => {
+    expect(localeFromPoPath("fr/LC_MESSAGES/billing.po")).toBe("fr");
+    expect(localeFromPoPath("locales/pt_BR.po")).toBe("pt_BR");
+    expect(localeFromPoPath("billing.pot")).toBeUndefined();
+
+    const parsed = parsePo('msgid "a"\nmsgstr "b"\n', { locale: "de" });
+    expect(parsed.keys[0].translations[0].locale).toBe("de");
+  });
+
+  it("should reject invalid syntax with a line number", () => {
+    expect(() => parsePo('msgid "a"\nmsgstr "b"\nnonsense\n')).toThrow(/line 3/);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import {
+  localeFromI18nextPath,
+  parseI18next,
+  serializeI18next,
+} from "~/lib/api/formats/i18next";
+import { findKeyCollisions } from "~/lib/api/formats/nested";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "web",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "checkout.title",
+        tags: [],
+        status: "active",
+        translations: [{ locale: "de", value: "Kasse", status: "active", version: 1 }],
+      },
+      {
+        id: "key-2",
+        keyName: "checkout.items",
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "de",
+            value: "{count, plural, one {# Artikel} other {# Artikel gesamt}}",
+            status: "active",
+            version: 1,
+          },
+        ],
+      },
+      {
+        id: "key-3",
+        keyName: "home",
+        tags: [],
+        status: "active",
+        translations: [{ locale: "de", value: "Start", status: "active", version: 1 }],
+      },
+    ],
+  },
+};
+
+describe("i18next nested JSON format", () => {
+  it("should nest dotted key names and expand plural suffixes", () => {
+    expect(JSON.parse(serializeI18next(exportData, "de"))).toEqual({
+      checkout: {
+        title: "Kasse",
+        items_one: "{{count}} Artikel",
+        items_other: "{{count}} Artikel gesamt",
+      },
+      home: "Start",
+    });
+  });
+
+  it("should nest on a custom separator", () => {
+    const data: ExportData = {
+      ...exportData,
+      data: {
+        keys: [
+          {
+            ...exportData.data.keys[0],
+            keyName: "checkout:title.short",
+          },
+        ],
+      },
+    };
+
+    expect(JSON.parse(serializeI18next(data, "de", ":"))).toEqual({
+      checkout: { "title.short": "Kasse" },
+    });
+    expect(
+      parseI18next(serializeI18next(data, "de", ":"), "de", ":").keys[0].keyName,
+    ).toBe("checkout:title.short");
+  });
+
+  it("should round-trip values and rebuild ICU plurals", () => {
+    const parsed = parseI18next(serializeI18next(exportData, "de"), "de");
+
+    expect(
+      parsed.keys.map((key) => [key.id, key.keyName, key.translations[0].value]),
+    ).toEqual([
+      [undefined, "checkout.title", "Kasse"],
+      [undefined, "home", "Start"],
+      [
+        undefined,
+        "checkout.items",
+        "{count, plural, one {# Artikel} other {# Artikel gesamt}}",
+      ],
+    ]);
+  });
+
+  it("should only swap the count sign of plural forms for the placeholder", () => {
+    const value =
+      "{count, plural, one {Issue '#'# for {g, select, a {# team} other {#}}} other {# issues}}";
+    const data: ExportData = {
+      ...exportData,
+      data: {
+        keys: [
+          {
+            ...exportData.data.keys[0],
+            keyName: "issues",
+            translations: [{ locale: "en", value, status: "active", version: 1 }],
+          },
+        ],
+      },
+    };
+    const json = JSON.parse(serializeI18next(data, "en"));
+
+    expect(json.issues_one).toBe(
+      "Issue #{{count}} for {g, select, a {# team} other {#}}",
+    );
+    expect(json.issues_other).toBe("{{count}} issues");
+    expect(
+      parseI18next(serializeI18next(data, "en"), "en").keys[0].translations[0].value,
+    ).toBe(value);
+  });
+
+  it("should report plain keys named like a plural group", () => {
+    expect(() =>
+      parseI18next(
+        '{"files": "Files", "files_one": "{{count}} file", "files_other": "{{count}} files"}',
+        "en",
+      ),
+    ).toThrow('"files" is both a value and a plural of "files_one", "files_other"');
+  });
+
+  it("should keep suffixed keys without an other form as plain values", () => {
+    const parsed = parseI18next('{"item_one": "One item"}', "en");
+
+    expect(parsed.keys[0].keyName).toBe("item_one");
+    expect(parsed.keys[0].translations[0].value).toBe("One item");
+  });
+
+  it("should detect keys that are both a leaf and a parent", () => {
+    expect(findKeyCollisions(["a", "a.b", "c.d"], ".")).toEqual([
+      '"a" is both a value and a parent of "a.b"',
+    ]);
+    expect(() =>
+      serializeI18next(
+        {
+          ...exportData,
+          data: {
+            keys: [
+              ...exportData.data.keys,
+              { ...exportData.data.keys[2], id: "key-4", keyName: "home.title" },
+            ],
+          },
+        },
+        "de",
+      ),
+    ).toThrow(/"home" is both a value and a parent of "home.title"/);
+    expect(() => parseI18next('{"a.b": "x", "a": {"b": "y"}}', "en")).toThrow(
+      /"a.b" is defined more than once/,
+    );
+    expect(() => parseI18next('{"a": "x", "a.b": "y"}', "en")).toThrow(
+      /both a value and a parent/,
+    );
+  });
+
+  it("should reject non-string values", () => {
+    expect(() => parseI18next('{"a": {"b": 1}}', "en")).toThrow(/"a.b" must be a string/);
+    expect(() => parseI18next("[]", "en")).toThrow(/JSON object/);
+  });
+
+  it("should derive the locale from the resource path", () => {
+    expect(localeFromI18nextPath("locales/pt-BR/web.json")).toBe("pt-BR");
+    expect(localeFromI18nextPath("de.json")).toBe("de");
+    expect(localeFromI18nextPath("upload")).toBeUndefined();
+  });
+});
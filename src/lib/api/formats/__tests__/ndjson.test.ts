@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { parseNdjson, serializeNdjson, streamNdjson } from "~/lib/api/formats/ndjson";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "web",
+  locales: ["fr"],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "home.title",
+        namespaceId: "ns-1",
+        description: "Shown on\nthe home page",
+        tags: ["home"],
+        status: "active",
+        translations: [{ locale: "fr", value: "Accueil", status: "active", version: 2 }],
+      },
+      {
+        id: "key-2",
+        keyName: "home.empty",
+        tags: [],
+        status: "draft",
+        translations: [],
+      },
+    ],
+  },
+};
+
+async function* asyncKeys() {
+  yield* exportData.data.keys;
+}
+
+describe("NDJSON format", () => {
+  it("should write a header line and one line per key", () => {
+    const lines = serializeNdjson(exportData).split("\n");
+
+    expect(lines).toHaveLength(4);
+    expect(lines[3]).toBe("");
+    expect(JSON.parse(lines[0])).toEqual({
+      service: "web",
+      locales: ["fr"],
+      exportedAt: "2025-01-01T00:00:00.000Z",
+    });
+    expect(JSON.parse(lines[1])).toEqual(exportData.data.keys[0]);
+  });
+
+  it("should stream the same content as the buffered serializer", async () => {
+    let content = "";
+    for await (const chunk of streamNdjson(exportData, asyncKeys())) {
+      content += chunk;
+    }
+
+    expect(content).toBe(serializeNdjson(exportData));
+  });
+
+  it("should parse keys and ignore blank lines", () => {
+    const content = `${serializeNdjson(exportData).replace(/\n/g, "\r\n")}\r\n`;
+
+    expect(parseNdjson(content)).toEqual(exportData.data);
+  });
+
+  it("should name the line that cannot be parsed", () => {
+    const [header, first] = serializeNdjson(exportData).split("\n");
+
+    expect(() => parseNdjson(`${header}\n${first}\n{"keyName": `)).toThrow(/^Line 3: /);
+    expect(() => parseNdjson(`${header}\n[]`)).toThrow("Line 2: Expected a JSON object");
+    expect(() => parseNdjson(`${header}\n{"id": "key-1"}`)).toThrow(
+      "Line 2: Expected a key object",
+    );
+    expect(() => parseNdjson(first)).toThrow("Line 1: Expected the export header");
+    expect(() => parseNdjson("\n")).toThrow("Expected the export header");
+  });
+});
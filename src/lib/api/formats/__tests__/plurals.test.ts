@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatIcuPlural,
+  parseIcuPlural,
+  pluralCategoriesFor,
+  translationPlural,
+} from "~/lib/api/formats/plurals";
+
+describe("ICU plural helpers", () => {
+  it("should parse a top-level plural with nested arguments", () => {
+    expect(
+      parseIcuPlural(
+        "{count, plural, =0 {None} one {# item for {name}} other {# items}}",
+      ),
+    ).toEqual({
+      argument: "count",
+      forms: { one: "# item for {name}", other: "# items" },
+    });
+  });
+
+  it("should return null for plain values and embedded plurals", () => {
+    expect(parseIcuPlural("Hello {name}")).toBeNull();
+    expect(
+      parseIcuPlural("You have {n, plural, one {# item} other {# items}}"),
+    ).toBeNull();
+    expect(parseIcuPlural("{n, plural, one {# item}}")).toBeNull();
+  });
+
+  it("should format forms in CLDR category order", () => {
+    expect(
+      formatIcuPlural({ argument: "n", forms: { other: "# days", one: "# day" } }),
+    ).toBe("{n, plural, one {# day} other {# days}}");
+  });
+
+  it("should prefer stored plural forms over parsing the value", () => {
+    const plurals = { argument: "n", forms: { one: "# jour", other: "# jours" } };
+
+    expect(translationPlural({ value: formatIcuPlural(plurals), plurals })).toBe(plurals);
+    expect(
+      translationPlural({
+        value: "{n, plural, one {# day} other {# days}}",
+        plurals: null,
+      }),
+    ).toEqual({ argument: "n", forms: { one: "# day", other: "# days" } });
+    expect(translationPlural({ value: "Plain" })).toBeNull();
+  });
+
+  it("should resolve the CLDR categories of a locale", () => {
+    expect(pluralCategoriesFor("ru")).toEqual(["one", "few", "many", "other"]);
+    expect(pluralCategoriesFor("pl-PL")).toEqual(["one", "few", "many", "other"]);
+    expect(pluralCategoriesFor("ja")).toEqual(["other"]);
+    expect(pluralCategoriesFor("not a locale")).toEqual(["other"]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  escapePropertiesKey,
+  escapePropertiesValue,
+  localeFromPropertiesPath,
+  parseProperties,
+  propertiesFileName,
+  serializeProperties,
+} from "~/lib/api/formats/properties";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "api",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "checkout.title",
+        namespaceId: "checkout-ns",
+        tags: ["checkout", "web"],
+        status: "active",
+        translations: [
+          { locale: "de", value: "Kasse für Käufer", status: "draft", version: 2 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "mail.body",
+        description: "Begrüßung der Bestellmail\nName kommt aus dem Konto",
+        context: "E-Mail nach dem Kauf",
+        maxLength: 120,
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "de",
+            value: "Hallo {name},\n  danke!",
+            status: "active",
+            version: 1,
+          },
+        ],
+      },
+    ],
+  },
+};
+
+describe("Java properties format", () => {
+  it("should name bundles by locale", () => {
+    expect(propertiesFileName("pt-BR")).toBe("messages_pt_BR.properties");
+    expect(localeFromPropertiesPath("i18n/messages_pt_BR.properties")).toBe("pt-BR");
+    expect(localeFromPropertiesPath("messages_de.properties")).toBe("de");
+    expect(localeFromPropertiesPath("messages.properties")).toBeUndefined();
+  });
+
+  it("should escape non-ASCII characters, separators and leading spaces", () => {
+    expect(escapePropertiesValue("Käufer 日本")).toBe("K\\u00E4ufer \\u65E5\\u672C");
+    expect(escapePropertiesValue(" a\\b\tc")).toBe("\\ a\\\\b\\tc");
+    expect(escapePropertiesKey("a key=b:c#d!")).toBe("a\\ key\\=b\\:c\\#d\\!");
+  });
+
+  it("should write metadata comments and continue multi-line values", () => {
+    expect(serializeProperties(exportData, "de")).toBe(
+      [
+        "# id: key-1; namespace: checkout-ns; tags: checkout,web; keyStatus: active; status: draft; version: 2",
+        "checkout.title=Kasse f\\u00FCr K\\u00E4ufer",
+        "",
+        "# Begr\\u00FC\\u00DFung der Bestellmail",
+        "# Name kommt aus dem Konto",
+        "# context: E-Mail nach dem Kauf",
+        "# id: key-2; maxLength: 120; tags: ; keyStatus: active; status: active; version: 1",
+        "mail.body=Hallo {name},\\n\\",
+        "    \\  danke!",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should round-trip values and key metadata", () => {
+    const parsed = parseProperties(serializeProperties(exportData, "de"), "de");
+
+    expect(parsed.keys).toEqual(exportData.data.keys);
+  });
+
+  it("should parse separators, comments and line continuations", () => {
+    const parsed = parseProperties(
+      [
+        "! legacy comment",
+        "",
+        "greeting = Hello\\",
+        "           world",
+        "farewell:Bye",
+        "  spaced\\ key  Value with \\u00E9",
+        "empty",
+        "trailing=odd\\\\",
+        "next=line",
+      ].join("\r\n"),
+      "en",
+    );
+
+    expect(parsed.keys.map((key) => [key.keyName, key.translations[0].value])).toEqual([
+      ["greeting", "Helloworld"],
+      ["farewell", "Bye"],
+      ["spaced key", "Value with é"],
+      ["empty", ""],
+      ["trailing", "odd\\"],
+      ["next", "line"],
+    ]);
+    expect(parsed.keys[0]).toMatchObject({ id: undefined, status: "draft", tags: [] });
+  });
+
+  it("should reject duplicate keys", () => {
+    expect(() => parseProperties("a=1\nb=2\na=3", "en")).toThrow(
+      /Key "a" at line 3 is already defined at line 1/,
+    );
+  });
+});
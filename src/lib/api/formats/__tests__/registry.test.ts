@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { toText } from "~/lib/api/formats/files";
+import { getFormat, listFormats, registerFormat } from "~/lib/api/formats/registry";
+import { exportQuerySchema } from "~/routes/api/export";
+import { importFileQuerySchema } from "~/routes/api/import";
+
+describe("Format registry", () => {
+  it("should register the built-in formats", () => {
+    expect(listFormats().map((adapter) => adapter.id)).toEqual([
+      "json",
+      "ndjson",
+      "xliff12",
+      "xliff20",
+      "po",
+      "android",
+      "ios",
+      "xcstrings",
+      "i18next",
+      "arb",
+      "csv",
+      "xlsx",
+      "yaml",
+      "properties",
+    ]);
+    expect(getFormat("xliff12")).toMatchObject({
+      contentType: "application/xliff+xml",
+      extension: "xlf",
+      sourceLocale: "en",
+    });
+  });
+
+  it("should reject duplicate format ids", () => {
+    expect(() => registerFormat({ ...getFormat("csv")! })).toThrow(
+      'Format "csv" is already registered',
+    );
+  });
+
+  it("should make registered formats available to both routes", () => {
+    expect(exportQuerySchema.safeParse({ service: "web", format: "tsv" }).success).toBe(
+      false,
+    );
+
+    registerFormat({
+      id: "tsv",
+      label: "Tab-separated values",
+      contentType: "text/tab-separated-values",
+      extension: "tsv",
+      capabilities: {
+        plurals: false,
+        comments: false,
+        multiLocale: false,
+        metadata: false,
+      },
+      serialize: (data) => [
+        {
+          path: `${data.service}.tsv`,
+          content: data.data.keys
+            .map((key) => `${key.keyName}\t${key.translations[0]?.value ?? ""}`)
+            .join("\n"),
+        },
+      ],
+    });
+
+    expect(exportQuerySchema.safeParse({ service: "web", format: "tsv" }).success).toBe(
+      true,
+    );
+    // Export-only formats cannot be uploaded
+    expect(
+      importFileQuerySchema.safeParse({ service: "web", format: "tsv" }).success,
+    ).toBe(false);
+
+    const [file] = getFormat("tsv")!.serialize!(
+      {
+        service: "web",
+        locales: [],
+        exportedAt: "2025-01-01T00:00:00.000Z",
+        data: {
+          keys: [
+            {
+              id: "key-1",
+              keyName: "home.title",
+              tags: [],
+              status: "active",
+              translations: [
+                { locale: "en", value: "Home", status: "active", version: 1 },
+              ],
+            },
+          ],
+        },
+      },
+      { separator: "." },
+    );
+    expect(toText(file.content)).toBe("home.title\tHome");
+  });
+
+  it("should report spreadsheet problems as located issues", () => {
+    const { issues } = getFormat("csv")!.parse!(
+      new TextEncoder().encode("key,fr\n,Bonjour\n"),
+      { separator: "." },
+    );
+
+    expect(issues).toEqual([{ location: "A2", message: "Key name is required" }]);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSpreadsheetRows,
+  cellReference,
+  columnIndex,
+  columnName,
+  parseSpreadsheetRows,
+} from "~/lib/api/formats/spreadsheet";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "web",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "checkout.title",
+        namespaceId: "checkout-ns",
+        description: "Page heading",
+        context: "Title of the checkout page",
+        maxLength: 24,
+        screenshots: ["screens/checkout.png", "screens/checkout-mobile.png"],
+        tags: ["checkout", "ui"],
+        status: "active",
+        translations: [
+          { locale: "fr", value: "Paiement", status: "active", version: 1 },
+          { locale: "en", value: "Checkout", status: "active", version: 1 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "checkout.empty",
+        tags: [],
+        status: "draft",
+        translations: [
+          { locale: "en", value: "Nothing here", status: "draft", version: 1 },
+        ],
+      },
+    ],
+  },
+};
+
+describe("Spreadsheet layout", () => {
+  it("should convert between column names and indexes", () => {
+    expect(columnName(0)).toBe("A");
+    expect(columnName(25)).toBe("Z");
+    expect(columnName(27)).toBe("AB");
+    expect(columnIndex("AB")).toBe(27);
+    expect(cellReference(4, 2)).toBe("C5");
+  });
+
+  it("should write one row per key with the source locale first", () => {
+    expect(buildSpreadsheetRows(exportData, ["fr", "en"])).toEqual([
+      [
+        "id",
+        "key",
+        "namespace",
+        "tags",
+        "status",
+        "comment",
+        "context",
+        "max_length",
+        "screenshots",
+        "en",
+        "fr",
+      ],
+      [
+        "key-1",
+        "checkout.title",
+        "checkout-ns",
+        "checkout, ui",
+        "active",
+        "Page heading",
+        "Title of the checkout page",
+        "24",
+        "screens/checkout.png\nscreens/checkout-mobile.png",
+        "Checkout",
+        "Paiement",
+      ],
+      ["key-2", "checkout.empty", "", "", "draft", "", "", "", "", "Nothing here", ""],
+    ]);
+  });
+
+  it("should round-trip key metadata and skip empty locale cells", () => {
+    const { data, errors } = parseSpreadsheetRows(
+      buildSpreadsheetRows(exportData, ["en", "fr"]),
+    );
+
+    expect(errors).toEqual([]);
+    expect(data.keys[0]).toEqual({
+      id: "key-1",
+      keyName: "checkout.title",
+      namespaceId: "checkout-ns",
+      description: "Page heading",
+      context: "Title of the checkout page",
+      maxLength: 24,
+      screenshots: ["screens/checkout.png", "screens/checkout-mobile.png"],
+      tags: ["checkout", "ui"],
+      status: "active",
+      translations: [
+        { locale: "en", value: "Checkout", status: "active" },
+        { locale: "fr", value: "Paiement", status: "active" },
+      ],
+    });
+    expect(data.keys[1].translations.map((t) => t.locale)).toEqual(["en"]);
+  });
+
+  it("should match headers by name, case and locale separator", () => {
+    const { data, errors } = parseSpreadsheetRows([
+      ["Notes", "FR", "Key"],
+      ["reviewed", "Bonjour", "greeting"],
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(data.keys).toEqual([
+      {
+        id: undefined,
+        keyName: "greeting",
+        namespaceId: undefined,
+        description: undefined,
+        context: undefined,
+        maxLength: undefined,
+        screenshots: [],
+        tags: [],
+        status: "draft",
+        translations: [{ locale: "fr", value: "Bonjour", status: "active" }],
+      },
+    ]);
+  });
+
+  it("should only take registered locales as locale columns", () => {
+    const { data, errors } = parseSpreadsheetRows(
+      [
+        ["key", "url", "pt_br"],
+        ["greeting", "https://example.com", "Olá"],
+      ],
+      ["en", "pt-BR"],
+    );
+
+    expect(errors).toEqual([]);
+    expect(data.keys[0].translations).toEqual([
+      { locale: "pt-BR", value: "Olá", status: "active" },
+    ]);
+  });
+
+  it("should collect every cell error and keep the valid rows", () => {
+    const { data, errors } = parseSpreadsheetRows([
+      ["key", "status", "en", "en"],
+      ["ok", "active", "Fine", ""],
+      ["", "active", "No key", ""],
+      ["bad", "done", "Bad status", ""],
+      ["ok", "draft", "Duplicate", ""],
+    ]);
+
+    expect(data.keys.map((key) => key.keyName)).toEqual(["ok"]);
+    expect(errors).toEqual([
+      { cell: "D1", message: 'Duplicate column for locale "en"' },
+      { cell: "A3", message: "Key name is required" },
+      {
+        cell: "B4",
+        message: 'Unknown status "done"; expected draft, active, archived',
+      },
+      { cell: "A5", message: 'Key "ok" already appears at A2' },
+    ]);
+  });
+
+  it("should reject max lengths that are not positive whole numbers", () => {
+    const { data, errors } = parseSpreadsheetRows([
+      ["key", "max_length", "en"],
+      ["short", "12", "Fine"],
+      ["zero", "0", "Zero"],
+      ["word", "long", "Word"],
+    ]);
+
+    expect(data.keys.map((key) => [key.keyName, key.maxLength])).toEqual([["short", 12]]);
+    expect(errors).toEqual([
+      { cell: "B3", message: 'Max length "0" must be a positive whole number' },
+      { cell: "B4", message: 'Max length "long" must be a positive whole number' },
+    ]);
+  });
+
+  it("should require key and locale columns", () => {
+    expect(parseSpreadsheetRows([["en"], ["Hello"]]).errors).toEqual([
+      { cell: "B1", message: 'Missing "key" column' },
+    ]);
+    expect(parseSpreadsheetRows([["key", "notes"]]).errors[0].message).toMatch(
+      /No locale columns/,
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseXcstrings,
+  serializeXcstrings,
+  statusFromXcstringsState,
+  xcstringsStateFor,
+} from "~/lib/api/formats/xcstrings";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "mobile",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-2",
+        keyName: "inbox.count",
+        description: "Badge on the inbox tab",
+        tags: ["inbox"],
+        status: "active",
+        translations: [
+          {
+            locale: "en",
+            value: "{n, plural, one {# message} other {# messages}}",
+            status: "active",
+            version: 1,
+          },
+          {
+            locale: "fr",
+            value: "{n, plural, one {# message} other {# messages}}",
+            status: "draft",
+            version: 2,
+          },
+        ],
+      },
+      {
+        id: "key-1",
+        keyName: "inbox.title",
+        namespaceId: "inbox-ns",
+        tags: [],
+        status: "archived",
+        translations: [
+          { locale: "en", value: "Inbox", status: "active", version: 1 },
+          { locale: "fr", value: "", status: "draft", version: 1 },
+          { locale: "de", value: "Posteingang", status: "archived", version: 3 },
+        ],
+      },
+    ],
+  },
+};
+
+describe("Xcode String Catalog format", () => {
+  it("should map statuses onto string unit states and back", () => {
+    expect(xcstringsStateFor("active", "Inbox")).toBe("translated");
+    expect(xcstringsStateFor("draft", "Inbox")).toBe("needs_review");
+    expect(xcstringsStateFor("draft", "")).toBe("new");
+    expect(xcstringsStateFor("archived", "Inbox")).toBe("stale");
+
+    expect(statusFromXcstringsState("translated")).toBe("active");
+    expect(statusFromXcstringsState("needs_review")).toBe("draft");
+    expect(statusFromXcstringsState("new")).toBe("draft");
+    expect(statusFromXcstringsState(undefined)).toBe("draft");
+  });
+
+  it("should write sorted entries with comments, states and plural variations", () => {
+    const catalog = JSON.parse(serializeXcstrings(exportData));
+
+    expect(catalog.sourceLanguage).toBe("en");
+    expect(catalog.version).toBe("1.0");
+    expect(Object.keys(catalog.strings)).toEqual(["inbox.count", "inbox.title"]);
+
+    const count = catalog.strings["inbox.count"];
+    expect(count.comment).toBe("Badge on the inbox tab");
+    expect(count.localizations.fr.variations.plural.one).toEqual({
+      stringUnit: { state: "needs_review", value: "%lld message" },
+    });
+
+    const title = catalog.strings["inbox.title"];
+    expect(title.extractionState).toBe("stale");
+    expect(title.localizations.fr.stringUnit).toEqual({ state: "new", value: "" });
+  });
+
+  it("should round-trip every locale with key metadata", () => {
+    const parsed = parseXcstrings(serializeXcstrings(exportData));
+
+    expect(parsed.keys).toEqual(
+      [...exportData.data.keys].sort((a, b) => a.keyName.localeCompare(b.keyName)),
+    );
+  });
+
+  it("should collapse device variations and resolve substitutions", () => {
+    const parsed = parseXcstrings(
+      JSON.stringify({
+        sourceLanguage: "en",
+        version: "1.0",
+        strings: {
+          "Tap to continue": {
+            comment: "Onboarding hint",
+            localizations: {
+              de: {
+                variations: {
+                  device: {
+                    mac: { stringUnit: { state: "translated", value: "Klicken" } },
+                    other: { stringUnit: { state: "translated", value: "Tippen" } },
+                  },
+                },
+              },
+            },
+          },
+          "Found %lld files": {
+            localizations: {
+              en: {
+                stringUnit: { state: "translated", value: "Found %#@files@" },
+                substitutions: {
+                  files: {
+                    argNum: 1,
+                    formatSpecifier: "lld",
+                    variations: {
+                      plural: {
+                        one: { stringUnit: { state: "translated", value: "%arg file" } },
+                        other: {
+                          stringUnit: { state: "translated", value: "%arg files" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }),
+    );
+
+    expect(parsed.keys).toEqual([
+      {
+        id: undefined,
+        keyName: "Tap to continue",
+        namespaceId: undefined,
+        description: "Onboarding hint",
+        tags: [],
+        status: "draft",
+        translations: [{ locale: "de", value: "Tippen", status: "active" }],
+      },
+      {
+        id: undefined,
+        keyName: "Found %lld files",
+        namespaceId: undefined,
+        description: undefined,
+        tags: [],
+        status: "draft",
+        translations: [
+          {
+            locale: "en",
+            value: "Found {files, plural, one {# file} other {# files}}",
+            status: "active",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should reject invalid catalogs", () => {
+    expect(() => parseXcstrings("{")).toThrow(/Invalid String Catalog JSON/);
+    expect(() => parseXcstrings('{"sourceLanguage":"en"}')).toThrow(/strings object/);
+    expect(() =>
+      parseXcstrings(
+        JSON.stringify({
+          strings: {
+            a: {
+              localizations: {
+                en: { variations: { plural: { one: { stringUnit: { value: "x" } } } } },
+              },
+            },
+          },
+        }),
+      ),
+    ).toThrow(/without "other"/);
+  });
+});
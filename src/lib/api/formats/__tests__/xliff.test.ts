@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { parseXliff, serializeXliff } from "~/lib/api/formats/xliff";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "web-app",
+  locales: ["en", "fr"],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "auth.login.title",
+        namespaceId: "auth-ns",
+        description: "Heading of the <login> page\nKeep it short",
+        context: "Login form",
+        maxLength: 24,
+        tags: ["auth", "ui"],
+        status: "active",
+        translations: [
+          { locale: "en", value: "Log <b>in</b> & go", status: "active", version: 1 },
+          { locale: "fr", value: "Connexion & go", status: "active", version: 3 },
+        ],
+      },
+      {
+        id: "key-2",
+        keyName: "auth.logout",
+        tags: [],
+        status: "draft",
+        translations: [
+          { locale: "en", value: "Log out", status: "draft", version: 1 },
+          { locale: "fr", value: "Déconnexion", status: "archived", version: 2 },
+        ],
+      },
+      {
+        id: "key-3",
+        keyName: "auth.untranslated",
+        tags: [],
+        status: "draft",
+        translations: [{ locale: "en", value: "Pending", status: "draft", version: 1 }],
+      },
+    ],
+  },
+};
+
+describe("XLIFF format", () => {
+  describe.each(["1.2", "2.0"] as const)("XLIFF %s", (version) => {
+    it("should round-trip target translations and key metadata", () => {
+      const xml = serializeXliff(exportData, { version, targetLocale: "fr" });
+      const parsed = parseXliff(xml);
+
+      expect(parsed.keys).toHaveLength(3);
+      expect(parsed.keys[0]).toEqual({
+        id: "key-1",
+        keyName: "auth.login.title",
+        namespaceId: "auth-ns",
+        description: "Heading of the <login> page\nKeep it short",
+        context: "Login form",
+        maxLength: 24,
+        tags: ["auth", "ui"],
+        status: "active",
+        translations: [
+          { locale: "fr", value: "Connexion & go", status: "active", version: 3 },
+        ],
+      });
+      expect(parsed.keys[1].translations).toEqual([
+        { locale: "fr", value: "Déconnexion", status: "archived", version: 2 },
+      ]);
+    });
+
+    it("should emit source text from the source locale", () => {
+      const xml = serializeXliff(exportData, { version, targetLocale: "fr" });
+
+      expect(xml).toContain("<source>Log &lt;b&gt;in&lt;/b&gt; &amp; go</source>");
+    });
+
+    it("should keep keys without a target translation but import no value", () => {
+      const xml = serializeXliff(exportData, { version, targetLocale: "fr" });
+      const parsed = parseXliff(xml);
+
+      expect(parsed.keys[2].keyName).toBe("auth.untranslated");
+      expect(parsed.keys[2].translations).toEqual([]);
+    });
+  });
+
+  it("should write the locale pair on the XLIFF 1.2 file element", () => {
+    const xml = serializeXliff(exportData, { version: "1.2", targetLocale: "fr" });
+
+    expect(xml).toContain('source-language="en" target-language="fr"');
+    expect(xml).toContain('<trans-unit id="key-1" resname="auth.login.title">');
+    expect(xml).toContain('<note from="tags">auth,ui</note>');
+  });
+
+  it("should write the locale pair on the XLIFF 2.0 root element", () => {
+    const xml = serializeXliff(exportData, { version: "2.0", targetLocale: "fr" });
+
+    expect(xml).toContain('srcLang="en" trgLang="fr"');
+    expect(xml).toContain('<unit id="key-1" name="auth.login.title">');
+    expect(xml).toContain('<note category="status">active</note>');
+  });
+
+  it("should parse vendor XLIFF 1.2 files with groups and inline markup", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="app" source-language="en" target-language="de" datatype="plaintext">
+    <body>
+      <group id="checkout">
+        <trans-unit id="key-9">
+          <source>Pay <g id="1">now</g></source>
+          <target state="needs-review-translation">Jetzt <g id="1">zahlen</g></target>
+          <note>Checkout button</note>
+        </trans-unit>
+      </group>
+    </body>
+  </file>
+</xliff>`;
+
+    const parsed = parseXliff(xml);
+
+    expect(parsed.keys).toEqual([
+      {
+        id: "key-9",
+        keyName: "key-9",
+        namespaceId: undefined,
+        description: "Checkout button",
+        tags: [],
+        status: "draft",
+        translations: [
+          {
+            locale: "de",
+            value: 'Jetzt <g id="1">zahlen</g>',
+            status: "draft",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should reject malformed documents", () => {
+    expect(() => parseXliff("<xliff version='1.2'><file>")).toThrow(/Malformed XML/);
+  });
+
+  it("should reject unsupported XLIFF versions", () => {
+    expect(() => parseXliff('<xliff version="1.1"></xliff>')).toThrow(
+      /Unsupported XLIFF version/,
+    );
+  });
+
+  it("should reject documents that are not XLIFF", () => {
+    expect(() => parseXliff("<resources></resources>")).toThrow(/<xliff>/);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { toText, unzipFiles, zipFiles } from "~/lib/api/formats/files";
+import { parseXlsx, serializeXlsx } from "~/lib/api/formats/xlsx";
+
+describe("XLSX format", () => {
+  it("should write a workbook with inline strings and a frozen header", () => {
+    const files = unzipFiles(
+      serializeXlsx([
+        ["key", "en"],
+        ["a", "x < y"],
+      ]),
+    );
+    const sheet = files.find((file) => file.path === "xl/worksheets/sheet1.xml")!;
+
+    expect(files.map((file) => file.path)).toContain("[Content_Types].xml");
+    expect(toText(sheet.content)).toContain(
+      '<c r="B2" t="inlineStr"><is><t xml:space="preserve">x &lt; y</t></is></c>',
+    );
+    expect(toText(sheet.content)).toContain('state="frozen"');
+  });
+
+  it("should round-trip rows with empty cells, newlines and control characters", () => {
+    const rows = [
+      ["key", "de", "fr"],
+      ["a", "", "Ligne 1\nLigne 2"],
+      ["b", "Tab\there\u0001", "_x0041_ literal"],
+    ];
+
+    expect(parseXlsx(serializeXlsx(rows))).toEqual(rows);
+  });
+
+  it("should read shared strings, rich text, numbers and gaps from other tools", () => {
+    const workbook = zipFiles([
+      {
+        path: "xl/workbook.xml",
+        content: `<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Sheet" sheetId="7" r:id="rId3"/></sheets></workbook>`,
+      },
+      {
+        path: "xl/_rels/workbook.xml.rels",
+        content: `<Relationships><Relationship Id="rId3" Target="/xl/worksheets/data.xml"/></Relationships>`,
+      },
+      {
+        path: "xl/sharedStrings.xml",
+        content: `<sst><si><t>key</t></si><si><r><t>Hel</t></r><r><t xml:space="preserve">lo </t></r></si></sst>`,
+      },
+      {
+        path: "xl/worksheets/data.xml",
+        content: `<worksheet><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>en</t></is></c></row>
+  <row r="3"><c r="A3"><v>42</v></c><c r="C3" t="s"><v>1</v></c></row>
+</sheetData></worksheet>`,
+      },
+    ]);
+
+    expect(parseXlsx(workbook)).toEqual([["key", "", "en"], [], ["42", "", "Hello "]]);
+  });
+
+  it("should reject archives that are not workbooks", () => {
+    expect(() => parseXlsx(zipFiles([{ path: "a.txt", content: "x" }]))).toThrow(
+      /missing xl\/workbook.xml/,
+    );
+  });
+});
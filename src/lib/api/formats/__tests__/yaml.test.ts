@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseRailsYaml,
+  railsYamlPath,
+  serializeRailsYaml,
+} from "~/lib/api/formats/yaml";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "web",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-1",
+        keyName: "checkout.title",
+        tags: [],
+        status: "active",
+        translations: [{ locale: "fr", value: "Paiement", status: "active", version: 1 }],
+      },
+      {
+        id: "key-2",
+        keyName: "checkout.items",
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "fr",
+            value: "{count, plural, one {# article} other {# articles}}",
+            status: "active",
+            version: 1,
+          },
+        ],
+      },
+      {
+        id: "key-3",
+        keyName: "answers.no",
+        tags: [],
+        status: "active",
+        translations: [{ locale: "fr", value: "no", status: "active", version: 1 }],
+      },
+    ],
+  },
+};
+
+describe("Rails YAML format", () => {
+  it("should nest keys under the locale and expand plurals into categories", () => {
+    expect(railsYamlPath("pt-BR")).toBe("config/locales/pt-BR.yml");
+    expect(serializeRailsYaml(exportData, "fr")).toBe(
+      [
+        "fr:",
+        "  checkout:",
+        "    title: Paiement",
+        "    items:",
+        '      one: "%{count} article"',
+        '      other: "%{count} articles"',
+        "  answers:",
+        '    "no": "no"',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should round-trip values and rebuild ICU plurals", () => {
+    const parsed = parseRailsYaml(serializeRailsYaml(exportData, "fr"));
+
+    expect(parsed.keys.map((key) => [key.keyName, key.translations[0].value])).toEqual([
+      ["checkout.title", "Paiement"],
+      ["answers.no", "no"],
+      ["checkout.items", "{count, plural, one {# article} other {# articles}}"],
+    ]);
+  });
+
+  it("should read every root locale, scalars as written, and skip null values", () => {
+    const parsed = parseRailsYaml(
+      [
+        "en:",
+        "  base: &base",
+        "    confirm: true",
+        "  form:",
+        "    <<: *base",
+        "    version: 1.0",
+        "    missing: ~",
+        "pt_BR:",
+        "  form:",
+        "    confirm: sim",
+      ].join("\n"),
+    );
+
+    expect(
+      parsed.keys.map((key) => [
+        key.keyName,
+        key.translations.map((t) => [t.locale, t.value]),
+      ]),
+    ).toEqual([
+      ["base.confirm", [["en", "true"]]],
+      [
+        "form.confirm",
+        [
+          ["en", "true"],
+          ["pt-BR", "sim"],
+        ],
+      ],
+      ["form.version", [["en", "1.0"]]],
+    ]);
+  });
+
+  it("should report invalid files", () => {
+    expect(() => parseRailsYaml("fr: [")).toThrow(/Invalid YAML/);
+    expect(() => parseRailsYaml("- fr")).toThrow(/top-level keys/);
+    expect(() => parseRailsYaml("fr: Bonjour")).toThrow(/must contain a hash/);
+    expect(() => parseRailsYaml("fr:\n  days: [lun, mar]")).toThrow(
+      /"days" must be a string or object/,
+    );
+    expect(() =>
+      serializeRailsYaml(
+        {
+          ...exportData,
+          data: {
+            keys: [
+              ...exportData.data.keys,
+              { ...exportData.data.keys[0], id: "key-4", keyName: "checkout" },
+            ],
+          },
+        },
+        "fr",
+      ),
+    ).toThrow(/"checkout" is both a value and a parent/);
+  });
+});
@@ -0,0 +1,338 @@
+import {
+  DEFAULT_PLURAL_ARGUMENT,
+  formatIcuPlural,
+  PLURAL_CATEGORIES,
+  translationPlural,
+  type PluralCategory,
+} from "~/lib/api/formats/plurals";
+import {
+  decodeXmlEntities,
+  elementAttr,
+  elementText,
+  escapeXml,
+  escapeXmlText,
+  parseXmlDocument,
+} from "~/lib/api/formats/xml";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * Android `res/values-<qualifier>/strings.xml` serialization
+ *
+ * Plain values become `<string>` resources and top-level ICU plurals become
+ * `<plurals>` with one `<item>` per CLDR category (`#` <-> `%d`). Key
+ * descriptions are written as the XML comment before each resource; key id,
+ * context, max length, tags, statuses and version travel as `tools:`
+ * attributes, which aapt strips at build time, so files round-trip through
+ * `/api/import`.
+ */
+
+export const ANDROID_DEFAULT_LOCALE = "en";
+
+const TOOLS_NAMESPACE = "http://schemas.android.com/tools";
+
+type ExportKey = ExportData["data"]["keys"][number];
+
+type ParsedKey = ImportFileData["keys"][number];
+
+/**
+ * Map a BCP-47 locale to its Android resource directory, e.g. `fr` ->
+ * `values-fr`, `pt-BR` -> `values-pt-rBR`, `zh-Hant` -> `values-b+zh+Hant`
+ */
+export function androidValuesDir(locale: string): string {
+  const [language, ...subtags] = locale.split("-");
+
+  if (subtags.length === 0) {
+    return `values-${language}`;
+  }
+  if (subtags.length === 1 && /^([A-Za-z]{2}|\d{3})$/.test(subtags[0])) {
+    return `values-${language}-r${subtags[0].toUpperCase()}`;
+  }
+  return `values-b+${[language, ...subtags].join("+")}`;
+}
+
+/**
+ * Derive the locale from a `values[-qualifier]/*.xml` path. The unqualified
+ * `values` directory holds the default locale.
+ * @returns The locale, or undefined for non-locale qualifiers like `night`
+ */
+export function localeFromAndroidPath(path: string): string | undefined {
+  const match = /(?:^|\/)values(?:-([^/]+))?\/[^/]+\.xml$/.exec(path);
+  if (!match) return undefined;
+
+  const qualifier = match[1];
+  if (!qualifier) return ANDROID_DEFAULT_LOCALE;
+  if (qualifier.startsWith("b+")) return qualifier.slice(2).split("+").join("-");
+
+  const legacy = /^([a-z]{2,3})(?:-r([A-Za-z]{2}|\d{3}))?$/.exec(qualifier);
+  if (!legacy) return undefined;
+  return legacy[2] ? `${legacy[1]}-${legacy[2]}` : legacy[1];
+}
+
+/**
+ * Escape a value for Android resource text: backslash escapes for quotes
+ * and control characters, a leading `@`/`?` so it is not read as a
+ * reference, then XML escaping
+ */
+export function escapeAndroidString(value: string): string {
+  let escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t");
+
+  if (/^[@?]/.test(escaped)) {
+    escaped = `\\${escaped}`;
+  }
+  return escapeXmlText(escaped);
+}
+
+/**
+ * Reverse Android resource escaping on raw element content
+ */
+export function unescapeAndroidString(raw: string): string {
+  let value = decodeXmlEntities(raw);
+
+  // A fully double-quoted value keeps its whitespace and apostrophes literally
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    value = value.slice(1, -1);
+  }
+
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    if (escape.length === 5) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    switch (escape) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      default:
+        return escape;
+    }
+  });
+}
+
+function resourceName(keyName: string): string {
+  return keyName.replace(/[^A-Za-z0-9_.]/g, "_");
+}
+
+function toolsAttributes(
+  key: ExportKey,
+  translation: ExportKey["translations"][number],
+  pluralArgument?: string,
+): string {
+  const attributes: Array<[string, string]> = [["id", key.id]];
+
+  if (resourceName(key.keyName) !== key.keyName) {
+    attributes.push(["key", key.keyName]);
+  }
+  if (key.namespaceId) {
+    attributes.push(["namespace", key.namespaceId]);
+  }
+  // `tools:context` already names the activity of a layout
+  if (key.context) {
+    attributes.push(["keyContext", key.context]);
+  }
+  if (key.maxLength) {
+    attributes.push(["maxLength", String(key.maxLength)]);
+  }
+  attributes.push(
+    ["tags", key.tags.join(",")],
+    ["keyStatus", key.status],
+    ["status", translation.status],
+  );
+  if (translation.version !== undefined) {
+    attributes.push(["version", String(translation.version)]);
+  }
+  if (pluralArgument && pluralArgument !== DEFAULT_PLURAL_ARGUMENT) {
+    attributes.push(["argument", pluralArgument]);
+  }
+
+  return attributes
+    .map(([name, value]) => ` tools:${name}="${escapeXml(value)}"`)
+    .join("");
+}
+
+/**
+ * XML comment holding a key description; `--` may not appear in comments
+ */
+function descriptionComment(description: string): string {
+  const lines = description
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.replace(/-(?=-)/g, "- "));
+  return `    <!-- ${lines.join("\n         ")} -->`;
+}
+
+/**
+ * Descriptions of resources by name, read from the comment directly before
+ * each `<string>` or `<plurals>` element
+ */
+function resourceDescriptions(content: string): Map<string, string> {
+  const descriptions = new Map<string, string>();
+  const pattern =
+    /<!--((?:(?!--)[\s\S])*)-->\s*<(?:string|plurals)\b[^>]*?\sname="([^"]*)"/g;
+
+  for (const [, comment, name] of content.matchAll(pattern)) {
+    const description = comment
+      .split(/\r\n|\r|\n/)
+      .map((line) => line.trim())
+      .join("\n")
+      .trim();
+    if (description) {
+      descriptions.set(decodeXmlEntities(name), description);
+    }
+  }
+  return descriptions;
+}
+
+/**
+ * Serialize one locale of export data as an Android strings.xml file.
+ * Keys without a translation in the locale are left out so Android falls
+ * back to the default resources.
+ */
+export function serializeAndroidStrings(data: ExportData, locale: string): string {
+  const lines = [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<resources xmlns:tools="${TOOLS_NAMESPACE}">`,
+  ];
+
+  for (const key of data.data.keys) {
+    const translation = key.translations.find((t) => t.locale === locale);
+    if (!translation) continue;
+
+    const name = escapeXml(resourceName(key.keyName));
+    const plural = translationPlural(translation);
+
+    if (key.description) {
+      lines.push(descriptionComment(key.description));
+    }
+
+    if (!plural) {
+      lines.push(
+        `    <string name="${name}"${toolsAttributes(key, translation)}>${escapeAndroidString(translation.value)}</string>`,
+      );
+      continue;
+    }
+
+    lines.push(
+      `    <plurals name="${name}"${toolsAttributes(key, translation, plural.argument)}>`,
+    );
+    for (const category of PLURAL_CATEGORIES) {
+      const form = plural.forms[category];
+      if (form !== undefined) {
+        lines.push(
+          `        <item quantity="${category}">${escapeAndroidString(form.replace(/#/g, "%d"))}</item>`,
+        );
+      }
+    }
+    lines.push(`    </plurals>`);
+  }
+
+  lines.push(`</resources>`, "");
+  return lines.join("\n");
+}
+
+function keyFromResource(resource: unknown, description?: string): ParsedKey {
+  const name = elementAttr(resource, "name");
+  if (!name) {
+    throw new Error("Android resource is missing its name attribute");
+  }
+
+  const keyName = elementAttr(resource, "key") ?? name;
+  const maxLength = Number(elementAttr(resource, "maxLength"));
+  return {
+    id: elementAttr(resource, "id") || undefined,
+    keyName,
+    namespaceId: elementAttr(resource, "namespace") || undefined,
+    description,
+    context: elementAttr(resource, "keyContext") || undefined,
+    maxLength: Number.isInteger(maxLength) && maxLength > 0 ? maxLength : undefined,
+    tags: (elementAttr(resource, "tags") ?? "")
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    status: elementAttr(resource, "keyStatus") || "draft",
+    translations: [],
+  };
+}
+
+function translationFromResource(resource: unknown, locale: string, value: string) {
+  const version = Number(elementAttr(resource, "version"));
+  return {
+    locale,
+    value,
+    status: elementAttr(resource, "status") || "active",
+    version: Number.isInteger(version) && version > 0 ? version : undefined,
+  };
+}
+
+/**
+ * Parse an Android strings.xml file into import key data.
+ * `<string-array>` and other resource types are ignored.
+ * @param content - strings.xml text
+ * @param locale - Locale of the resource directory
+ * @throws Error if the document is malformed or not a resources file
+ */
+export function parseAndroidStrings(content: string, locale: string): ImportFileData {
+  const document = parseXmlDocument(content, {
+    arrayElements: ["string", "plurals", "item"],
+    stopNodes: ["*.string", "*.item"],
+  });
+
+  const resources = document.resources;
+  if (resources === undefined) {
+    throw new Error("Document root is not a <resources> element");
+  }
+  const root = (typeof resources === "object" ? resources : {}) as Record<
+    string,
+    unknown
+  >;
+
+  const keys: ParsedKey[] = [];
+  const descriptions = resourceDescriptions(content);
+  const keyFor = (resource: unknown) =>
+    keyFromResource(resource, descriptions.get(elementAttr(resource, "name") ?? ""));
+
+  for (const resource of (root.string ?? []) as unknown[]) {
+    const key = keyFor(resource);
+    key.translations.push(
+      translationFromResource(
+        resource,
+        locale,
+        unescapeAndroidString(elementText(resource)),
+      ),
+    );
+    keys.push(key);
+  }
+
+  for (const resource of (root.plurals ?? []) as Record<string, unknown>[]) {
+    const key = keyFor(resource);
+    const forms: Partial<Record<PluralCategory, string>> = {};
+
+    for (const item of (resource.item ?? []) as unknown[]) {
+      const quantity = elementAttr(item, "quantity") as PluralCategory | undefined;
+      if (quantity && PLURAL_CATEGORIES.includes(quantity)) {
+        forms[quantity] = unescapeAndroidString(elementText(item)).replace(/%d/g, "#");
+      }
+    }
+
+    if (forms.other === undefined) {
+      throw new Error(`Plurals resource "${key.keyName}" has no "other" item`);
+    }
+
+    key.translations.push(
+      translationFromResource(
+        resource,
+        locale,
+        formatIcuPlural({
+          argument: elementAttr(resource, "argument") ?? DEFAULT_PLURAL_ARGUMENT,
+          forms: { ...forms, other: forms.other },
+        }),
+      ),
+    );
+    keys.push(key);
+  }
+
+  return { keys };
+}
@@ -0,0 +1,407 @@
+import { mergeImportData, toText, type FormatFile } from "~/lib/api/formats/files";
+import {
+  formatMetadataComment,
+  keyFromMetadataComment,
+} from "~/lib/api/formats/metadata";
+import {
+  DEFAULT_PLURAL_ARGUMENT,
+  formatIcuPlural,
+  PLURAL_CATEGORIES,
+  translationPlural,
+  type PluralCategory,
+} from "~/lib/api/formats/plurals";
+import {
+  escapeXmlText,
+  parseXmlOrdered,
+  XML_DECLARATION,
+  type OrderedXmlNode,
+} from "~/lib/api/formats/xml";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * iOS `<locale>.lproj/Localizable.strings` and `.stringsdict` serialization
+ *
+ * Every key with a translation is written to `.strings`, preceded by a
+ * comment carrying the key description and context, key id, tags, statuses
+ * and version. Top-level ICU plurals
+ * are additionally written to `.stringsdict` (`#` <-> `%d`), where they take
+ * precedence at runtime; the `.strings` entry holds the `other` form.
+ */
+
+export const APPLE_DEVELOPMENT_LOCALE = "en";
+
+const STRINGS_TABLE = "Localizable";
+
+type ParsedKey = ImportFileData["keys"][number];
+
+type PlistValue =
+  | string
+  | number
+  | boolean
+  | PlistValue[]
+  | { [key: string]: PlistValue };
+
+/**
+ * Path of a strings table for a locale, e.g. `fr.lproj/Localizable.strings`
+ */
+export function appleStringsPath(locale: string, extension: "strings" | "stringsdict") {
+  return `${locale}.lproj/${STRINGS_TABLE}.${extension}`;
+}
+
+/**
+ * Derive the locale from an `<locale>.lproj/` path; `Base.lproj` holds the
+ * development locale
+ */
+export function localeFromApplePath(path: string): string | undefined {
+  const match = /(?:^|\/)([A-Za-z0-9_-]+)\.lproj\//.exec(path);
+  if (!match) return undefined;
+  return match[1] === "Base" ? APPLE_DEVELOPMENT_LOCALE : match[1].replace(/_/g, "-");
+}
+
+function escapeStringsValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+}
+
+/**
+ * Serialize one locale of export data as a `.strings` file
+ */
+export function serializeAppleStrings(data: ExportData, locale: string): string {
+  const entries: string[] = [];
+
+  for (const key of data.data.keys) {
+    const translation = key.translations.find((t) => t.locale === locale);
+    if (!translation) continue;
+
+    const plural = translationPlural(translation);
+    const value = plural ? plural.forms.other.replace(/#/g, "%d") : translation.value;
+
+    const comment = formatMetadataComment(key, translation)
+      .map((line) => line.replace(/\*\//g, "* /"))
+      .join("\n   ");
+
+    entries.push(
+      `/* ${comment} */\n"${escapeStringsValue(key.keyName)}" = "${escapeStringsValue(value)}";`,
+    );
+  }
+
+  return entries.join("\n\n") + "\n";
+}
+
+function plistString(value: string, indent: string): string {
+  return `${indent}<string>${escapeXmlText(value)}</string>`;
+}
+
+/**
+ * Serialize the plural translations of one locale as a `.stringsdict` file
+ */
+export function serializeStringsdict(data: ExportData, locale: string): string {
+  const lines = [
+    XML_DECLARATION,
+    `<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">`,
+    `<plist version="1.0">`,
+    `<dict>`,
+  ];
+
+  for (const key of data.data.keys) {
+    const translation = key.translations.find((t) => t.locale === locale);
+    const plural = translation ? translationPlural(translation) : null;
+    if (!plural) continue;
+
+    lines.push(
+      `  <key>${escapeXmlText(key.keyName)}</key>`,
+      `  <dict>`,
+      `    <key>NSStringLocalizedFormatKey</key>`,
+      plistString(`%#@${plural.argument}@`, "    "),
+      `    <key>${escapeXmlText(plural.argument)}</key>`,
+      `    <dict>`,
+      `      <key>NSStringFormatSpecTypeKey</key>`,
+      `      <string>NSStringPluralRuleType</string>`,
+      `      <key>NSStringFormatValueTypeKey</key>`,
+      `      <string>d</string>`,
+    );
+    for (const category of PLURAL_CATEGORIES) {
+      const form = plural.forms[category];
+      if (form !== undefined) {
+        lines.push(
+          `      <key>${category}</key>`,
+          plistString(form.replace(/#/g, "%d"), "      "),
+        );
+      }
+    }
+    lines.push(`    </dict>`, `  </dict>`);
+  }
+
+  lines.push(`</dict>`, `</plist>`, "");
+  return lines.join("\n");
+}
+
+function unescapeStringsValue(value: string): string {
+  return value.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    if (escape.length === 5) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    switch (escape) {
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "t":
+        return "\t";
+      default:
+        return escape;
+    }
+  });
+}
+
+/**
+ * Parse a `.strings` file into import key data
+ * @param content - `.strings` file text
+ * @param locale - Locale of the `.lproj` directory
+ * @throws Error with the line number on invalid syntax
+ */
+export function parseAppleStrings(content: string, locale: string): ImportFileData {
+  const keys: ParsedKey[] = [];
+  let position = 0;
+  let lastComment: string | undefined;
+
+  const fail = (message: string): never => {
+    const line = content.slice(0, position).split("\n").length;
+    throw new Error(`Invalid .strings syntax at line ${line}: ${message}`);
+  };
+
+  const skipTrivia = () => {
+    for (;;) {
+      while (position < content.length && /\s/.test(content[position])) position++;
+
+      if (content.startsWith("/*", position)) {
+        const end = content.indexOf("*/", position + 2);
+        if (end === -1) fail("unterminated comment");
+        lastComment = content.slice(position + 2, end).trim();
+        position = end + 2;
+      } else if (content.startsWith("//", position)) {
+        const end = content.indexOf("\n", position);
+        position = end === -1 ? content.length : end + 1;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readToken = (): string => {
+    if (content[position] === '"') {
+      let end = position + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === "\\" ? 2 : 1;
+      }
+      if (end >= content.length) fail("unterminated string");
+      const raw = content.slice(position + 1, end);
+      position = end + 1;
+      return unescapeStringsValue(raw);
+    }
+
+    const bare = /^[A-Za-z0-9_.$:/-]+/.exec(content.slice(position));
+    if (!bare) fail("expected a quoted string");
+    position += bare![0].length;
+    return bare![0];
+  };
+
+  const expect = (char: string) => {
+    skipTrivia();
+    if (content[position] !== char) fail(`expected "${char}"`);
+    position++;
+  };
+
+  skipTrivia();
+  while (position < content.length) {
+    const comment = lastComment;
+    lastComment = undefined;
+
+    const keyName = readToken();
+    expect("=");
+    skipTrivia();
+    const value = readToken();
+    expect(";");
+
+    keys.push(keyFromMetadataComment(comment, keyName, { locale, value }));
+
+    skipTrivia();
+  }
+
+  return { keys };
+}
+
+/**
+ * Convert order-preserving plist nodes into plain values
+ */
+function readPlistValue(node: OrderedXmlNode): PlistValue {
+  const [tag] = Object.keys(node).filter((name) => name !== ":@");
+  const children = (node[tag] ?? []) as OrderedXmlNode[];
+  const text = children.map((child) => child["#text"] ?? "").join("");
+
+  switch (tag) {
+    case "string":
+      return String(text);
+    case "integer":
+    case "real":
+      return Number(text);
+    case "true":
+      return true;
+    case "false":
+      return false;
+    case "array":
+      return elementChildren(children).map(readPlistValue);
+    case "dict": {
+      const result: Record<string, PlistValue> = {};
+      const elements = elementChildren(children);
+      for (let i = 0; i + 1 < elements.length; i += 2) {
+        const keyNode = elements[i];
+        if (!("key" in keyNode)) {
+          throw new Error("Plist dict entries must start with <key>");
+        }
+        result[String(readPlistValue({ string: keyNode.key }))] = readPlistValue(
+          elements[i + 1],
+        );
+      }
+      return result;
+    }
+    default:
+      throw new Error(`Unsupported plist element <${tag}>`);
+  }
+}
+
+function elementChildren(children: OrderedXmlNode[]): OrderedXmlNode[] {
+  return children.filter((child) => !("#text" in child));
+}
+
+function isPlistDict(value: PlistValue | undefined): value is Record<string, PlistValue> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a `.stringsdict` file into import key data. Each `%#@variable@`
+ * in the format key becomes an ICU plural over that variable.
+ * @throws Error if the document is not a valid stringsdict plist
+ */
+export function parseStringsdict(content: string, locale: string): ImportFileData {
+  const plist = parseXmlOrdered(content).find((node) => "plist" in node);
+  const rootNode = elementChildren((plist?.plist ?? []) as OrderedXmlNode[])[0];
+  const root = rootNode ? readPlistValue(rootNode) : undefined;
+
+  if (!isPlistDict(root)) {
+    throw new Error("Stringsdict root must be a plist <dict>");
+  }
+
+  const keys: ParsedKey[] = [];
+
+  for (const [keyName, entry] of Object.entries(root)) {
+    if (!isPlistDict(entry) || typeof entry.NSStringLocalizedFormatKey !== "string") {
+      throw new Error(`Stringsdict entry "${keyName}" has no NSStringLocalizedFormatKey`);
+    }
+
+    const value = entry.NSStringLocalizedFormatKey.replace(
+      /%#@([A-Za-z0-9_]+)@/g,
+      (token, variable: string) => {
+        const rule = entry[variable];
+        if (!isPlistDict(rule)) return token;
+
+        const forms: Partial<Record<PluralCategory, string>> = {};
+        for (const category of PLURAL_CATEGORIES) {
+          const form = rule[category];
+          if (typeof form === "string") {
+            forms[category] = form.replace(/%(?:l{0,2})d/g, "#");
+          }
+        }
+        if (forms.other === undefined) {
+          throw new Error(`Stringsdict entry "${keyName}" has no "other" form`);
+        }
+
+        return formatIcuPlural({
+          argument: variable || DEFAULT_PLURAL_ARGUMENT,
+          forms: { ...forms, other: forms.other },
+        });
+      },
+    );
+
+    keys.push({
+      keyName,
+      tags: [],
+      status: "draft",
+      translations: [{ locale, value, status: "active" }],
+    });
+  }
+
+  return { keys };
+}
+
+/**
+ * Parse `.strings` and `.stringsdict` files, typically unpacked from a ZIP
+ * of `.lproj` directories. Plural values from `.stringsdict` replace the
+ * `.strings` fallback of the same key name in the same locale.
+ * @param files - Uploaded files
+ * @param fallbackLocale - Locale for files outside an `.lproj` directory
+ * @throws Error naming the offending file if any file cannot be parsed
+ */
+export function parseAppleBundle(
+  files: FormatFile[],
+  fallbackLocale?: string,
+): ImportFileData {
+  const stringsParts: ImportFileData[] = [];
+  const pluralValues = new Map<string, ParsedKey[]>();
+
+  for (const file of files) {
+    const content = toText(file.content);
+    const locale = localeFromApplePath(file.path) ?? fallbackLocale;
+
+    try {
+      if (!locale) {
+        throw new Error(
+          "Cannot determine locale; upload .lproj directories or pass a locale",
+        );
+      }
+
+      const isStringsdict =
+        file.path.endsWith(".stringsdict") ||
+        (!file.path.endsWith(".strings") && content.trimStart().startsWith("<"));
+
+      if (isStringsdict) {
+        pluralValues.set(locale, [
+          ...(pluralValues.get(locale) ?? []),
+          ...parseStringsdict(content, locale).keys,
+        ]);
+      } else {
+        stringsParts.push(parseAppleStrings(content, locale));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`${file.path}: ${message}`);
+    }
+  }
+
+  const merged = mergeImportData(stringsParts);
+
+  for (const [locale, pluralKeys] of pluralValues) {
+    for (const pluralKey of pluralKeys) {
+      const plural = pluralKey.translations[0];
+      const key = merged.keys.find((k) => k.keyName === pluralKey.keyName);
+
+      if (!key) {
+        merged.keys.push(pluralKey);
+        continue;
+      }
+
+      const translation = key.translations.find((t) => t.locale === locale);
+      if (translation) {
+        translation.value = plural.value;
+      } else {
+        key.translations.push(plural);
+      }
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,241 @@
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * Flutter Application Resource Bundle (`.arb`) serialization
+ *
+ * ARB values are ICU MessageFormat, so translations are written verbatim.
+ * Message ids must be Dart identifiers, so dotted key names are camelCased
+ * (`checkout.title` -> `checkoutTitle`). Each `@<id>` entry carries the
+ * description, context and placeholders used by `flutter gen-l10n`, plus an
+ * `x-l10n` attribute with the key name, id, tags, length limit, screenshots,
+ * statuses and version.
+ */
+
+type ParsedKey = ImportFileData["keys"][number];
+
+interface ArbPlaceholder {
+  type?: string;
+}
+
+interface ArbMetadata {
+  description?: string;
+  context?: string;
+  placeholders?: Record<string, ArbPlaceholder>;
+  "x-l10n"?: {
+    id?: string;
+    keyName?: string;
+    namespaceId?: string;
+    tags?: string[];
+    maxLength?: number;
+    screenshots?: string[];
+    keyStatus?: string;
+    status?: string;
+    version?: number;
+  };
+}
+
+/**
+ * Convert a key name to an ARB message id, e.g. `checkout.pay-now` ->
+ * `checkoutPayNow`
+ */
+export function arbMessageId(keyName: string): string {
+  const words = keyName.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const id = words
+    .map((word, index) =>
+      index === 0
+        ? word[0].toLowerCase() + word.slice(1)
+        : word[0].toUpperCase() + word.slice(1),
+    )
+    .join("");
+  return /^[a-z]/.test(id) ? id : `key${id[0]?.toUpperCase() ?? ""}${id.slice(1)}`;
+}
+
+/**
+ * File name for a locale, following the `app_<locale>.arb` convention
+ */
+export function arbFileName(locale: string): string {
+  return `app_${locale.replace(/-/g, "_")}.arb`;
+}
+
+/**
+ * Derive the locale from an ARB file name such as `app_pt_BR.arb`
+ */
+export function localeFromArbPath(path: string): string | undefined {
+  const match = /_([a-z]{2,3}(?:_[A-Za-z0-9]{2,8})*)\.arb$/.exec(path);
+  return match?.[1].replace(/_/g, "-");
+}
+
+/**
+ * Collect the top-level ICU arguments of a message with gen-l10n types:
+ * plural arguments are `int`, select arguments `String`, and others untyped
+ */
+export function arbPlaceholders(value: string): Record<string, ArbPlaceholder> {
+  const placeholders: Record<string, ArbPlaceholder> = {};
+  let depth = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "'") {
+      // Skip quoted literal text
+      const end = value.indexOf("'", i + 1);
+      i = end === -1 ? value.length : end;
+    } else if (char === "{") {
+      if (depth === 0) {
+        const match = /^\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:,\s*([a-z]+))?/.exec(
+          value.slice(i),
+        );
+        if (match) {
+          const type = match[2];
+          placeholders[match[1]] =
+            type === "plural"
+              ? { type: "int" }
+              : type === "select"
+                ? { type: "String" }
+                : {};
+        }
+      }
+      depth++;
+    } else if (char === "}") {
+      depth = Math.max(0, depth - 1);
+    }
+  }
+
+  return placeholders;
+}
+
+/**
+ * Find key names that map to the same ARB message id
+ * @returns One message per collision, empty if every id is unique
+ */
+export function findArbIdCollisions(keyNames: string[]): string[] {
+  const byId = new Map<string, string[]>();
+  for (const keyName of keyNames) {
+    const id = arbMessageId(keyName);
+    byId.set(id, [...(byId.get(id) ?? []), keyName]);
+  }
+
+  return Array.from(byId.entries())
+    .filter(([, names]) => names.length > 1)
+    .map(
+      ([id, names]) =>
+        `${names.map((name) => `"${name}"`).join(", ")} all map to "${id}"`,
+    );
+}
+
+/**
+ * Serialize one locale of export data as an ARB file
+ * @throws Error if two key names map to the same message id
+ */
+export function serializeArb(data: ExportData, locale: string): string {
+  const translated = data.data.keys.flatMap((key) => {
+    const translation = key.translations.find((t) => t.locale === locale);
+    return translation ? [{ key, translation }] : [];
+  });
+
+  const collisions = findArbIdCollisions(translated.map(({ key }) => key.keyName));
+  if (collisions.length > 0) {
+    throw new Error(`Keys cannot be converted to ARB ids: ${collisions.join("; ")}`);
+  }
+
+  const arb: Record<string, unknown> = { "@@locale": locale };
+
+  for (const { key, translation } of translated) {
+    const id = arbMessageId(key.keyName);
+    const placeholders = arbPlaceholders(translation.value);
+
+    const metadata: ArbMetadata = {
+      ...(key.description ? { description: key.description } : {}),
+      ...(key.context ? { context: key.context } : {}),
+      ...(Object.keys(placeholders).length > 0 ? { placeholders } : {}),
+      "x-l10n": {
+        id: key.id,
+        ...(id !== key.keyName ? { keyName: key.keyName } : {}),
+        ...(key.namespaceId ? { namespaceId: key.namespaceId } : {}),
+        tags: key.tags,
+        ...(key.maxLength ? { maxLength: key.maxLength } : {}),
+        ...(key.screenshots?.length ? { screenshots: key.screenshots } : {}),
+        keyStatus: key.status,
+        status: translation.status,
+        version: translation.version,
+      },
+    };
+
+    arb[id] = translation.value;
+    arb[`@${id}`] = metadata;
+  }
+
+  return JSON.stringify(arb, null, 2) + "\n";
+}
+
+/**
+ * Parse an ARB file into import key data
+ * @param content - ARB JSON text
+ * @param fallbackLocale - Locale used when the file has no `@@locale`
+ * @throws Error on invalid JSON, a missing locale, non-string messages or
+ * messages that resolve to the same key name
+ */
+export function parseArb(content: string, fallbackLocale?: string): ImportFileData {
+  let arb: unknown;
+  try {
+    arb = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Invalid JSON: ${message}`);
+  }
+
+  if (typeof arb !== "object" || arb === null || Array.isArray(arb)) {
+    throw new Error("ARB file must be a JSON object");
+  }
+  const entries = arb as Record<string, unknown>;
+
+  const locale =
+    typeof entries["@@locale"] === "string" ? entries["@@locale"] : fallbackLocale;
+  if (!locale) {
+    throw new Error("Cannot determine locale; add @@locale or pass a locale");
+  }
+
+  const keys: ParsedKey[] = [];
+  const seenKeyNames = new Map<string, string>();
+
+  for (const [id, value] of Object.entries(entries)) {
+    if (id.startsWith("@")) continue;
+    if (typeof value !== "string") {
+      throw new Error(`Message "${id}" must be a string`);
+    }
+
+    const rawMetadata = entries[`@${id}`];
+    const metadata = (
+      typeof rawMetadata === "object" && rawMetadata !== null ? rawMetadata : {}
+    ) as ArbMetadata;
+    const extra = metadata["x-l10n"] ?? {};
+
+    const keyName = extra.keyName ?? id;
+    const previous = seenKeyNames.get(keyName);
+    if (previous) {
+      throw new Error(`Messages "${previous}" and "${id}" both resolve to "${keyName}"`);
+    }
+    seenKeyNames.set(keyName, id);
+
+    keys.push({
+      id: extra.id,
+      keyName,
+      namespaceId: extra.namespaceId,
+      description: metadata.description,
+      context: metadata.context,
+      maxLength: extra.maxLength,
+      screenshots: extra.screenshots,
+      tags: extra.tags ?? [],
+      status: extra.keyStatus ?? "draft",
+      translations: [
+        {
+          locale,
+          value,
+          status: extra.status ?? "active",
+          version: extra.version,
+        },
+      ],
+    });
+  }
+
+  return { keys };
+}
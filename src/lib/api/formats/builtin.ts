@@ -0,0 +1,392 @@
+import {
+  androidValuesDir,
+  localeFromAndroidPath,
+  parseAndroidStrings,
+  serializeAndroidStrings,
+} from "~/lib/api/formats/android";
+import {
+  appleStringsPath,
+  parseAppleBundle,
+  serializeAppleStrings,
+  serializeStringsdict,
+} from "~/lib/api/formats/apple";
+import {
+  arbFileName,
+  localeFromArbPath,
+  parseArb,
+  serializeArb,
+} from "~/lib/api/formats/arb";
+import { parseCsv, serializeCsv } from "~/lib/api/formats/csv";
+import {
+  isZipArchive,
+  mergeImportData,
+  resolveFileLocales,
+  toText,
+  unzipFiles,
+  type FileBytes,
+  type FormatFile,
+} from "~/lib/api/formats/files";
+import {
+  localeFromPoPath,
+  parsePo,
+  serializePo,
+  serializePot,
+} from "~/lib/api/formats/gettext";
+import {
+  localeFromI18nextPath,
+  parseI18next,
+  serializeI18next,
+} from "~/lib/api/formats/i18next";
+import { parseNdjson, serializeNdjson, streamNdjson } from "~/lib/api/formats/ndjson";
+import {
+  localeFromPropertiesPath,
+  parseProperties,
+  propertiesFileName,
+  serializeProperties,
+} from "~/lib/api/formats/properties";
+import type {
+  FormatAdapter,
+  FormatIssue,
+  FormatParseResult,
+} from "~/lib/api/formats/registry";
+import {
+  buildSpreadsheetRows,
+  parseSpreadsheetRows,
+  type SpreadsheetParseResult,
+} from "~/lib/api/formats/spreadsheet";
+import {
+  parseXcstrings,
+  serializeXcstrings,
+  XCSTRINGS_FILE_NAME,
+} from "~/lib/api/formats/xcstrings";
+import {
+  parseXliff,
+  serializeXliff,
+  XLIFF_SOURCE_LOCALE,
+  type XliffVersion,
+} from "~/lib/api/formats/xliff";
+import { parseXlsx, serializeXlsx } from "~/lib/api/formats/xlsx";
+import {
+  parseRailsYaml,
+  railsYamlPath,
+  serializeRailsYaml,
+} from "~/lib/api/formats/yaml";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * Format adapters shipped with the service, registered by the format registry
+ */
+
+/**
+ * Split an upload into its files; a ZIP archive holds several
+ */
+function uploadedFiles(bytes: FileBytes): FormatFile[] {
+  return isZipArchive(bytes) ? unzipFiles(bytes) : [{ path: "upload", content: bytes }];
+}
+
+/**
+ * Parse every uploaded file and merge the results by key id. Errors and
+ * issue locations name the file when the upload holds several.
+ * @throws Error prefixed with the path of the file that failed to parse
+ */
+function parseFiles(
+  bytes: FileBytes,
+  parseFile: (file: FormatFile, issues: FormatIssue[]) => ImportFileData,
+): FormatParseResult {
+  const files = uploadedFiles(bytes);
+  const issues: FormatIssue[] = [];
+
+  const parts = files.map((file) => {
+    const fileIssues: FormatIssue[] = [];
+    try {
+      const data = parseFile(file, fileIssues);
+      issues.push(
+        ...fileIssues.map((issue) =>
+          files.length > 1
+            ? { ...issue, location: `${file.path}!${issue.location}` }
+            : issue,
+        ),
+      );
+      return data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`${file.path}: ${message}`);
+    }
+  });
+
+  return { data: mergeImportData(parts), issues };
+}
+
+/**
+ * Resolve the locale of a file from its path, falling back to the request
+ * @throws Error with a hint on the expected layout if neither names one
+ */
+function requireLocale(fileLocale: string | undefined, layout: string): string {
+  if (!fileLocale) {
+    throw new Error(`Cannot determine locale; upload ${layout} or pass a locale`);
+  }
+  return fileLocale;
+}
+
+function spreadsheetIssues(result: SpreadsheetParseResult): FormatIssue[] {
+  return result.errors.map(({ cell, message }) => ({ location: cell, message }));
+}
+
+function xliffAdapter(id: string, version: XliffVersion): FormatAdapter {
+  return {
+    id,
+    label: `XLIFF ${version}`,
+    contentType: "application/xliff+xml",
+    extension: "xlf",
+    capabilities: { plurals: false, comments: true, multiLocale: true, metadata: true },
+    sourceLocale: XLIFF_SOURCE_LOCALE,
+    // One file per target locale, with source text from the source locale
+    serialize: (data, { locales }) =>
+      resolveFileLocales(data, locales)
+        .filter((locale) => locale !== XLIFF_SOURCE_LOCALE)
+        .map((targetLocale) => ({
+          path: `${data.service}.${targetLocale}.xlf`,
+          content: serializeXliff(data, { version, targetLocale }),
+        })),
+    parse: (bytes) => parseFiles(bytes, (file) => parseXliff(toText(file.content))),
+  };
+}
+
+export const builtInFormats: FormatAdapter[] = [
+  {
+    id: "json",
+    label: "JSON",
+    contentType: "application/json",
+    extension: "json",
+    capabilities: { plurals: true, comments: true, multiLocale: true, metadata: true },
+    serialize: (data) => [
+      {
+        path: `${data.service}-export-${data.exportedAt.split("T")[0]}.json`,
+        content: JSON.stringify(data, null, 2),
+      },
+    ],
+    // Reads files written by the JSON export, or import payloads
+    parse: (bytes) =>
+      parseFiles(bytes, (file) => {
+        const document: unknown = JSON.parse(toText(file.content));
+        const data = (document as { data?: unknown } | null)?.data;
+        if (typeof data !== "object" || data === null) {
+          throw new Error('Expected an export document with a "data" object');
+        }
+        return data as ExportData["data"];
+      }),
+  },
+  {
+    id: "ndjson",
+    label: "Newline-delimited JSON",
+    contentType: "application/x-ndjson",
+    extension: "ndjson",
+    capabilities: { plurals: true, comments: true, multiLocale: true, metadata: true },
+    serialize: (data) => [
+      {
+        path: `${data.service}-export-${data.exportedAt.split("T")[0]}.ndjson`,
+        content: serializeNdjson(data),
+      },
+    ],
+    serializeStream: streamNdjson,
+    parse: (bytes) => parseFiles(bytes, (file) => parseNdjson(toText(file.content))),
+  },
+  xliffAdapter("xliff12", "1.2"),
+  xliffAdapter("xliff20", "2.0"),
+  {
+    id: "po",
+    label: "gettext PO",
+    contentType: "text/x-gettext-translation",
+    extension: "po",
+    capabilities: { plurals: true, comments: true, multiLocale: true, metadata: true },
+    // A POT template plus one catalog per locale, in the
+    // `<locale>/LC_MESSAGES/<domain>.po` layout gettext expects
+    serialize: (data, { locales }) => [
+      { path: `${data.service}.pot`, content: serializePot(data) },
+      ...resolveFileLocales(data, locales).map((locale) => ({
+        path: `${locale}/LC_MESSAGES/${data.service}.po`,
+        content: serializePo(data, locale),
+      })),
+    ],
+    parse: (bytes) =>
+      parseFiles(bytes, (file) =>
+        parsePo(toText(file.content), { locale: localeFromPoPath(file.path) }),
+      ),
+  },
+  {
+    id: "android",
+    label: "Android strings.xml",
+    contentType: "application/xml",
+    extension: "xml",
+    capabilities: { plurals: true, comments: true, multiLocale: true, metadata: true },
+    serialize: (data, { locales }) =>
+      resolveFileLocales(data, locales).map((locale) => ({
+        path: `res/${androidValuesDir(locale)}/strings.xml`,
+        content: serializeAndroidStrings(data, locale),
+      })),
+    parse: (bytes, { locale }) =>
+      parseFiles(bytes, (file) =>
+        parseAndroidStrings(
+          toText(file.content),
+          requireLocale(
+            localeFromAndroidPath(file.path) ?? locale,
+            "res/values-<locale>/ directories",
+          ),
+        ),
+      ),
+  },
+  {
+    id: "ios",
+    label: "iOS .strings and .stringsdict",
+    // Always a ZIP: even one locale needs both .strings and .stringsdict
+    contentType: "application/zip",
+    extension: "zip",
+    capabilities: { plurals: true, comments: true, multiLocale: true, metadata: true },
+    serialize: (data, { locales }) =>
+      resolveFileLocales(data, locales).flatMap((locale) => [
+        {
+          path: appleStringsPath(locale, "strings"),
+          content: serializeAppleStrings(data, locale),
+        },
+        {
+          path: appleStringsPath(locale, "stringsdict"),
+          content: serializeStringsdict(data, locale),
+        },
+      ]),
+    // .strings and .stringsdict files of one locale are combined per key
+    parse: (bytes, { locale }) => ({
+      data: parseAppleBundle(uploadedFiles(bytes), locale),
+      issues: [],
+    }),
+  },
+  {
+    id: "xcstrings",
+    label: "Xcode String Catalog",
+    contentType: "application/json",
+    extension: "xcstrings",
+    capabilities: { plurals: true, comments: true, multiLocale: true, metadata: true },
+    serialize: (data) => [
+      { path: XCSTRINGS_FILE_NAME, content: serializeXcstrings(data) },
+    ],
+    parse: (bytes) => parseFiles(bytes, (file) => parseXcstrings(toText(file.content))),
+  },
+  {
+    id: "i18next",
+    label: "i18next JSON",
+    contentType: "application/json",
+    extension: "json",
+    capabilities: { plurals: true, comments: false, multiLocale: true, metadata: false },
+    // One file per locale, in the `<locale>/<namespace>.json` layout of
+    // i18next-http-backend
+    serialize: (data, { locales, separator }) =>
+      resolveFileLocales(data, locales).map((locale) => ({
+        path: `${locale}/${data.service}.json`,
+        content: serializeI18next(data, locale, separator),
+      })),
+    parse: (bytes, { locale, separator }) =>
+      parseFiles(bytes, (file) =>
+        parseI18next(
+          toText(file.content),
+          requireLocale(
+            localeFromI18nextPath(file.path) ?? locale,
+            "<locale>/<namespace>.json files",
+          ),
+          separator,
+        ),
+      ),
+  },
+  {
+    id: "arb",
+    label: "Flutter ARB",
+    contentType: "application/json",
+    extension: "arb",
+    capabilities: { plurals: true, comments: true, multiLocale: true, metadata: true },
+    serialize: (data, { locales }) =>
+      resolveFileLocales(data, locales).map((locale) => ({
+        path: arbFileName(locale),
+        content: serializeArb(data, locale),
+      })),
+    parse: (bytes, { locale }) =>
+      parseFiles(bytes, (file) =>
+        parseArb(toText(file.content), localeFromArbPath(file.path) ?? locale),
+      ),
+  },
+  {
+    id: "csv",
+    label: "CSV",
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    capabilities: { plurals: false, comments: true, multiLocale: true, metadata: false },
+    // One sheet with a column per locale
+    serialize: (data, { locales }) => [
+      {
+        path: `${data.service}.csv`,
+        content: serializeCsv(
+          buildSpreadsheetRows(data, resolveFileLocales(data, locales)),
+        ),
+      },
+    ],
+    parse: (bytes, { locales }) =>
+      parseFiles(bytes, (file, issues) => {
+        const result = parseSpreadsheetRows(parseCsv(toText(file.content)), locales);
+        issues.push(...spreadsheetIssues(result));
+        return result.data;
+      }),
+  },
+  {
+    id: "xlsx",
+    label: "Excel workbook",
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+    capabilities: { plurals: false, comments: true, multiLocale: true, metadata: false },
+    serialize: (data, { locales }) => [
+      {
+        path: `${data.service}.xlsx`,
+        content: serializeXlsx(
+          buildSpreadsheetRows(data, resolveFileLocales(data, locales)),
+        ),
+      },
+    ],
+    // An XLSX workbook is itself a ZIP archive, so it is never unpacked
+    parse: (bytes, { locales }) => {
+      const result = parseSpreadsheetRows(parseXlsx(bytes), locales);
+      return { data: result.data, issues: spreadsheetIssues(result) };
+    },
+  },
+  {
+    id: "yaml",
+    label: "Rails YAML",
+    contentType: "application/yaml; charset=utf-8",
+    extension: "yml",
+    capabilities: { plurals: true, comments: false, multiLocale: true, metadata: false },
+    serialize: (data, { locales, separator }) =>
+      resolveFileLocales(data, locales).map((locale) => ({
+        path: railsYamlPath(locale),
+        content: serializeRailsYaml(data, locale, separator),
+      })),
+    parse: (bytes, { separator }) =>
+      parseFiles(bytes, (file) => parseRailsYaml(toText(file.content), separator)),
+  },
+  {
+    id: "properties",
+    label: "Java properties",
+    contentType: "text/x-java-properties; charset=utf-8",
+    extension: "properties",
+    capabilities: { plurals: false, comments: true, multiLocale: true, metadata: true },
+    serialize: (data, { locales }) =>
+      resolveFileLocales(data, locales).map((locale) => ({
+        path: propertiesFileName(locale),
+        content: serializeProperties(data, locale),
+      })),
+    parse: (bytes, { locale }) =>
+      parseFiles(bytes, (file) =>
+        parseProperties(
+          toText(file.content),
+          requireLocale(
+            localeFromPropertiesPath(file.path) ?? locale,
+            "messages_<locale>.properties files",
+          ),
+        ),
+      ),
+  },
+];
@@ -0,0 +1,343 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+
+import {
+  mergeImportData,
+  resolveFileLocales,
+  toBytes,
+  toText,
+  zipFiles,
+  type FileBytes,
+  type FormatFile,
+} from "~/lib/api/formats/files";
+import type {
+  FormatAdapter,
+  FormatIssue,
+  FormatParseOptions,
+  FormatParseResult,
+} from "~/lib/api/formats/registry";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+/**
+ * Multi-file ZIP bundles with a `manifest.json`
+ *
+ * A bundle holds the files of one format split by namespace and locale,
+ * each under a `<namespace>/` directory. The manifest lists every file with
+ * its SHA-256 checksum and key count, plus the export filters, so an import
+ * can verify the bundle is complete and unmodified before applying it.
+ */
+
+export const BUNDLE_MANIFEST_PATH = "manifest.json";
+
+// Directory for keys outside any namespace
+export const BUNDLE_DEFAULT_NAMESPACE_DIR = "default";
+
+export const bundleManifestSchema = z.object({
+  version: z.literal(1),
+  service: z.string(),
+  format: z.string(),
+  exportedAt: z.string(),
+  filters: z.object({
+    locales: z.array(z.string()),
+    status: z.string().optional(),
+    includeEmpty: z.boolean(),
+    separator: z.string().min(1),
+  }),
+  files: z.array(
+    z.object({
+      path: z.string().min(1),
+      // Null for keys outside any namespace
+      namespace: z.string().nullable(),
+      // Null for files shared by every locale, such as a POT template
+      locale: z.string().nullable(),
+      keys: z.number().int().min(0),
+      sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    }),
+  ),
+});
+
+export type BundleManifest = z.infer<typeof bundleManifestSchema>;
+
+export type BundleFilters = BundleManifest["filters"];
+
+type BundleFileEntry = BundleManifest["files"][number];
+
+/**
+ * Hex-encoded SHA-256 digest of file content
+ */
+export function sha256Hex(content: string | FileBytes): string {
+  return createHash("sha256").update(toBytes(content)).digest("hex");
+}
+
+function namespaceDir(namespaceId: string | null): string {
+  return namespaceId === null
+    ? BUNDLE_DEFAULT_NAMESPACE_DIR
+    : namespaceId.replace(/[\\/]/g, "_");
+}
+
+/**
+ * Export data restricted to keys of one namespace and translations in the
+ * given locales
+ */
+function sliceExportData(
+  data: ExportData,
+  namespaceId: string | null,
+  locales: string[],
+): ExportData {
+  return {
+    ...data,
+    locales,
+    data: {
+      keys: data.data.keys
+        .filter((key) => (key.namespaceId ?? null) === namespaceId)
+        .map((key) => ({
+          ...key,
+          translations: key.translations.filter((t) => locales.includes(t.locale)),
+        })),
+    },
+  };
+}
+
+/**
+ * Serialize export data as a ZIP bundle with one set of format files per
+ * namespace and locale, plus a manifest
+ * @throws Error if the adapter cannot serialize the data
+ */
+export function buildBundle(
+  adapter: FormatAdapter,
+  data: ExportData,
+  filters: BundleFilters,
+): FileBytes {
+  const files: FormatFile[] = [];
+  const entries: BundleFileEntry[] = [];
+  const locales = resolveFileLocales(
+    data,
+    filters.locales.length > 0 ? filters.locales : undefined,
+  ).filter((locale) => locale !== adapter.sourceLocale);
+  const namespaces = Array.from(
+    new Set(data.data.keys.map((key) => key.namespaceId ?? null)),
+  );
+
+  for (const namespaceId of namespaces) {
+    const dir = namespaceDir(namespaceId);
+    const outputs = locales.map((locale) => {
+      const slice = sliceExportData(
+        data,
+        namespaceId,
+        adapter.sourceLocale ? [locale, adapter.sourceLocale] : [locale],
+      );
+      return {
+        locale,
+        keys: slice.data.keys.filter((key) =>
+          key.translations.some((t) => t.locale === locale),
+        ).length,
+        files: adapter.serialize!(slice, {
+          locales: [locale],
+          separator: filters.separator,
+        }),
+      };
+    });
+
+    // Paths written for several locales are either shared files, such as a
+    // POT template, or single-file formats that need a locale directory
+    const contentsByPath = new Map<string, Set<string>>();
+    for (const file of outputs.flatMap((output) => output.files)) {
+      const contents = contentsByPath.get(file.path) ?? new Set<string>();
+      contents.add(sha256Hex(file.content));
+      contentsByPath.set(file.path, contents);
+    }
+    const written = new Set<string>();
+
+    for (const output of outputs) {
+      for (const file of output.files) {
+        const shared = contentsByPath.get(file.path)!.size === 1;
+        const repeated = outputs.filter((other) =>
+          other.files.some((otherFile) => otherFile.path === file.path),
+        ).length;
+        const path =
+          repeated > 1 && !shared
+            ? `${dir}/${output.locale}/${file.path}`
+            : `${dir}/${file.path}`;
+
+        if (written.has(path)) continue;
+        written.add(path);
+
+        files.push({ path, content: file.content });
+        entries.push({
+          path,
+          namespace: namespaceId,
+          locale: repeated > 1 && shared ? null : output.locale,
+          keys:
+            repeated > 1 && shared
+              ? data.data.keys.filter((key) => (key.namespaceId ?? null) === namespaceId)
+                  .length
+              : output.keys,
+          sha256: sha256Hex(file.content),
+        });
+      }
+    }
+  }
+
+  const manifest: BundleManifest = {
+    version: 1,
+    service: data.service,
+    format: adapter.id,
+    exportedAt: data.exportedAt,
+    filters,
+    files: entries,
+  };
+
+  return zipFiles([
+    { path: BUNDLE_MANIFEST_PATH, content: JSON.stringify(manifest, null, 2) },
+    ...files,
+  ]);
+}
+
+/**
+ * Unpack a bundle, or return undefined if the archive has no manifest
+ * @throws Error if the manifest is not valid JSON or does not match the schema
+ */
+export function readBundle(
+  files: FormatFile[],
+): { manifest: BundleManifest; files: Map<string, FormatFile> } | undefined {
+  const manifestFile = files.find((file) => file.path === BUNDLE_MANIFEST_PATH);
+  if (!manifestFile) return undefined;
+
+  let document: unknown;
+  try {
+    document = JSON.parse(toText(manifestFile.content));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Invalid ${BUNDLE_MANIFEST_PATH}: ${message}`);
+  }
+
+  const manifest = bundleManifestSchema.safeParse(document);
+  if (!manifest.success) {
+    throw new Error(
+      `Invalid ${BUNDLE_MANIFEST_PATH}: ${manifest.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"} ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+
+  return {
+    manifest: manifest.data,
+    files: new Map(
+      files
+        .filter((file) => file.path !== BUNDLE_MANIFEST_PATH)
+        .map((file) => [file.path, file]),
+    ),
+  };
+}
+
+/**
+ * Check every manifest entry against the bundle files
+ * @returns One issue per missing, unlisted or modified file
+ */
+export function verifyBundle(
+  manifest: BundleManifest,
+  files: Map<string, FormatFile>,
+): FormatIssue[] {
+  const issues: FormatIssue[] = [];
+  const listed = new Set(manifest.files.map((entry) => entry.path));
+
+  for (const entry of manifest.files) {
+    const file = files.get(entry.path);
+    if (!file) {
+      issues.push({
+        location: entry.path,
+        message: "File listed in manifest is missing",
+      });
+    } else if (sha256Hex(file.content) !== entry.sha256) {
+      issues.push({ location: entry.path, message: "Checksum does not match manifest" });
+    }
+  }
+  for (const path of files.keys()) {
+    if (!listed.has(path)) {
+      issues.push({ location: path, message: "File is not listed in manifest" });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Parse a verified bundle. Files exported together for one namespace and
+ * locale are parsed together, and keys without a namespace take the one
+ * recorded in the manifest. Formats without ids use key names as ids, so
+ * those ids are qualified with the namespace, as in `checkout/title`, to keep
+ * same-named keys of different namespaces apart. Nothing is parsed if
+ * verification fails.
+ * @throws Error naming the file group that cannot be parsed
+ */
+export function parseBundle(
+  adapter: FormatAdapter,
+  bundle: { manifest: BundleManifest; files: Map<string, FormatFile> },
+  options: FormatParseOptions,
+): FormatParseResult {
+  const { manifest, files } = bundle;
+
+  if (manifest.format !== adapter.id) {
+    return {
+      data: { keys: [] },
+      issues: [
+        {
+          location: BUNDLE_MANIFEST_PATH,
+          message: `Bundle was exported as ${manifest.format}, not ${adapter.id}`,
+        },
+      ],
+    };
+  }
+
+  const issues = verifyBundle(manifest, files);
+  if (issues.length > 0) {
+    return { data: { keys: [] }, issues };
+  }
+
+  const groups = new Map<string, BundleFileEntry[]>();
+  for (const entry of manifest.files) {
+    const group = `${entry.namespace ?? ""}\0${entry.locale ?? ""}`;
+    groups.set(group, [...(groups.get(group) ?? []), entry]);
+  }
+
+  const parts = Array.from(groups.values()).map((entries) => {
+    const [{ namespace, locale }] = entries;
+    const prefix = `${namespaceDir(namespace)}/`;
+    const groupFiles = entries.map((entry) => ({
+      path: entry.path.slice(prefix.length),
+      content: toBytes(files.get(entry.path)!.content),
+    }));
+
+    let result: FormatParseResult;
+    try {
+      result = adapter.parse!(
+        groupFiles.length === 1 ? groupFiles[0].content : zipFiles(groupFiles),
+        {
+          locale: locale ?? options.locale,
+          locales: options.locales,
+          separator: manifest.filters.separator,
+        },
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`${entries.map((entry) => entry.path).join(", ")}: ${message}`);
+    }
+
+    issues.push(
+      ...result.issues.map((issue) => ({
+        ...issue,
+        location: `${entries[0].path}!${issue.location}`,
+      })),
+    );
+
+    return {
+      keys: result.data.keys.map((key) =>
+        key.namespaceId !== undefined || namespace === null
+          ? key
+          : { ...key, namespaceId: namespace },
+      ),
+    };
+  });
+
+  return { data: mergeImportData(parts), issues };
+}
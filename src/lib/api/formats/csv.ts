@@ -0,0 +1,105 @@
+import type { SpreadsheetRow } from "~/lib/api/formats/spreadsheet";
+
+/**
+ * RFC 4180 CSV encoding for spreadsheet rows
+ *
+ * Output starts with a UTF-8 BOM and uses CRLF line endings so Excel opens
+ * it with the right encoding. Input may use `,` or `;` as the delimiter
+ * (European Excel locales default to `;`), with or without a BOM.
+ */
+
+const BOM = "\uFEFF";
+
+function encodeField(value: string): string {
+  return /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize rows as CSV text
+ */
+export function serializeCsv(rows: SpreadsheetRow[]): string {
+  return BOM + rows.map((row) => row.map(encodeField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Guess the delimiter from the unquoted characters of the first line
+ */
+function detectDelimiter(content: string): "," | ";" {
+  let commas = 0;
+  let semicolons = 0;
+  let quoted = false;
+
+  for (const char of content) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === "\n" || char === "\r")) break;
+    else if (!quoted && char === ",") commas++;
+    else if (!quoted && char === ";") semicolons++;
+  }
+
+  return semicolons > commas ? ";" : ",";
+}
+
+/**
+ * Parse CSV text into rows. Quoted fields may contain delimiters, doubled
+ * quotes and line breaks.
+ * @throws Error with the line number if a quoted field is not terminated
+ */
+export function parseCsv(content: string): SpreadsheetRow[] {
+  const text = content.startsWith(BOM) ? content.slice(1) : content;
+  const delimiter = detectDelimiter(text);
+
+  const rows: SpreadsheetRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let line = 1;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' && field === "") {
+      const startLine = line;
+      i++;
+      for (;;) {
+        if (i >= text.length) {
+          throw new Error(`Unterminated quoted field starting at line ${startLine}`);
+        }
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        if (text[i] === "\n") line++;
+        field += text[i++];
+      }
+      continue;
+    }
+
+    if (char === delimiter) {
+      row.push(field);
+      field = "";
+      i++;
+    } else if (char === "\r" || char === "\n") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      i += char === "\r" && text[i + 1] === "\n" ? 2 : 1;
+      line++;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
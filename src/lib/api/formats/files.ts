@@ -0,0 +1,115 @@
+import { unzipSync, zipSync } from "fflate";
+
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+// fflate and TextEncoder always allocate plain ArrayBuffers, which is what
+// `Response` bodies require
+export type FileBytes = Uint8Array<ArrayBuffer>;
+
+/**
+ * A single file produced by a format serializer or read from an upload
+ */
+export interface FormatFile {
+  path: string;
+  content: string | FileBytes;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8");
+
+/**
+ * Convert file content to bytes
+ */
+export function toBytes(content: string | FileBytes): FileBytes {
+  return typeof content === "string" ? textEncoder.encode(content) : content;
+}
+
+/**
+ * Decode file content as UTF-8 text, dropping a leading byte order mark
+ */
+export function toText(content: string | FileBytes): string {
+  const text = typeof content === "string" ? content : textDecoder.decode(content);
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Check whether the given bytes start with a ZIP local file header
+ */
+export function isZipArchive(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 4 &&
+    bytes[0] === 0x50 &&
+    bytes[1] === 0x4b &&
+    bytes[2] === 0x03 &&
+    bytes[3] === 0x04
+  );
+}
+
+/**
+ * Pack files into a single ZIP archive
+ */
+export function zipFiles(files: FormatFile[]): FileBytes {
+  const entries: Record<string, Uint8Array> = {};
+  for (const file of files) {
+    entries[file.path] = toBytes(file.content);
+  }
+  return zipSync(entries) as FileBytes;
+}
+
+/**
+ * Unpack a ZIP archive, skipping directory entries and OS metadata files
+ */
+export function unzipFiles(bytes: Uint8Array): FormatFile[] {
+  const entries = unzipSync(bytes);
+
+  return Object.entries(entries)
+    .filter(([path]) => !path.endsWith("/") && !path.startsWith("__MACOSX/"))
+    .map(([path, content]) => ({ path, content: content as FileBytes }));
+}
+
+/**
+ * Merge key data parsed from several files into one key list.
+ * Keys are matched by id, or by namespace and key name when they carry no
+ * id; the first occurrence of a key or locale wins.
+ */
+export function mergeImportData(parts: ImportFileData[]): ImportFileData {
+  const keyMap = new Map<string, ImportFileData["keys"][number]>();
+
+  for (const part of parts) {
+    for (const key of part.keys) {
+      const mergeKey = key.id ?? `\0${key.namespaceId ?? ""}\0${key.keyName}`;
+      const existing = keyMap.get(mergeKey);
+
+      if (!existing) {
+        keyMap.set(mergeKey, { ...key, translations: [...key.translations] });
+        continue;
+      }
+
+      const knownLocales = new Set(existing.translations.map((t) => t.locale));
+      for (const translation of key.translations) {
+        if (!knownLocales.has(translation.locale)) {
+          existing.translations.push(translation);
+          knownLocales.add(translation.locale);
+        }
+      }
+    }
+  }
+
+  return { keys: Array.from(keyMap.values()) };
+}
+
+/**
+ * Resolve the locales to write files for: the requested locales, or every
+ * locale present in the export data
+ */
+export function resolveFileLocales(
+  data: ExportData,
+  locales: string[] | undefined,
+): string[] {
+  return (
+    locales ??
+    Array.from(
+      new Set(data.data.keys.flatMap((key) => key.translations.map((t) => t.locale))),
+    ).sort()
+  );
+}
@@ -0,0 +1,615 @@
+import {
+  DEFAULT_PLURAL_ARGUMENT,
+  formatIcuPlural,
+  pluralCategoriesFor,
+  translationPlural,
+  UnsupportedLocaleError,
+  type PluralCategory,
+} from "~/lib/api/formats/plurals";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * Gettext PO/POT serialization for backend services
+ *
+ * Entries are keyed by key name (`msgid`) with the namespace id in
+ * `msgctxt`; imports also accept contexts naming a namespace of the service.
+ * Key id, tags, key status, context, length limit, screenshots, translation
+ * version and the ICU plural argument travel as extracted comments (`#.`).
+ * The key description is written as translator comments (`# `) of PO files
+ * and as an extracted comment of templates; translator comments of files
+ * without a description comment are imported as the key description.
+ * Translation status `draft` maps to
+ * `#, fuzzy` and `archived` to obsolete (`#~`) entries. Top-level ICU plural
+ * values map to `msgid_plural`/`msgstr[n]` using the locale's gettext plural
+ * formula; PO files are not written for locales without a known formula
+ * when they contain plurals.
+ */
+
+export interface PoEntry {
+  translatorComments: string[];
+  extractedComments: string[];
+  references: string[];
+  flags: string[];
+  msgctxt?: string;
+  msgid: string;
+  msgidPlural?: string;
+  msgstr: string[];
+  obsolete: boolean;
+}
+
+export interface PoCatalog {
+  headers: Record<string, string>;
+  entries: PoEntry[];
+}
+
+type ExportKey = ExportData["data"]["keys"][number];
+
+type ParsedKey = ImportFileData["keys"][number];
+
+// A gettext plural formula and the CLDR category of each `msgstr[n]` index
+interface GettextPluralForms {
+  plural: string;
+  categories: PluralCategory[];
+}
+
+const ONE_OTHER: GettextPluralForms = {
+  plural: "(n != 1)",
+  categories: ["one", "other"],
+};
+
+const EAST_SLAVIC =
+  "n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2";
+
+// Gettext plural formulas of languages with more than one plural category
+const PLURAL_FORMS_BY_LANGUAGE: Record<string, GettextPluralForms> = {
+  af: ONE_OTHER,
+  bg: ONE_OTHER,
+  ca: ONE_OTHER,
+  da: ONE_OTHER,
+  de: ONE_OTHER,
+  el: ONE_OTHER,
+  en: ONE_OTHER,
+  es: ONE_OTHER,
+  et: ONE_OTHER,
+  eu: ONE_OTHER,
+  fi: ONE_OTHER,
+  gl: ONE_OTHER,
+  hi: ONE_OTHER,
+  hu: ONE_OTHER,
+  it: ONE_OTHER,
+  nb: ONE_OTHER,
+  nl: ONE_OTHER,
+  nn: ONE_OTHER,
+  sv: ONE_OTHER,
+  sw: ONE_OTHER,
+  tr: ONE_OTHER,
+  fr: { plural: "(n > 1)", categories: ["one", "other"] },
+  pt: { plural: "(n > 1)", categories: ["one", "other"] },
+  be: { plural: `(${EAST_SLAVIC})`, categories: ["one", "few", "many"] },
+  ru: { plural: `(${EAST_SLAVIC})`, categories: ["one", "few", "many"] },
+  uk: { plural: `(${EAST_SLAVIC})`, categories: ["one", "few", "many"] },
+  bs: { plural: `(${EAST_SLAVIC})`, categories: ["one", "few", "other"] },
+  hr: { plural: `(${EAST_SLAVIC})`, categories: ["one", "few", "other"] },
+  sr: { plural: `(${EAST_SLAVIC})`, categories: ["one", "few", "other"] },
+  pl: {
+    plural: "(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2)",
+    categories: ["one", "few", "many"],
+  },
+  cs: {
+    plural: "(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2)",
+    categories: ["one", "few", "other"],
+  },
+  sk: {
+    plural: "(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2)",
+    categories: ["one", "few", "other"],
+  },
+  lt: {
+    plural: "(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2)",
+    categories: ["one", "few", "other"],
+  },
+  lv: {
+    plural: "(n%10==1 && n%100!=11 ? 0 : n != 0 ? 1 : 2)",
+    categories: ["one", "other", "zero"],
+  },
+  ro: {
+    plural: "(n==1 ? 0 : (n==0 || (n%100 > 0 && n%100 < 20)) ? 1 : 2)",
+    categories: ["one", "few", "other"],
+  },
+  sl: {
+    plural: "(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3)",
+    categories: ["one", "two", "few", "other"],
+  },
+  ga: {
+    plural: "(n==1 ? 0 : n==2 ? 1 : n<7 ? 2 : n<11 ? 3 : 4)",
+    categories: ["one", "two", "few", "many", "other"],
+  },
+  ar: {
+    plural:
+      "(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5)",
+    categories: ["zero", "one", "two", "few", "many", "other"],
+  },
+};
+
+/**
+ * Gettext plural formula of a locale; locales whose CLDR rules have only
+ * `other` need none beyond `plural=0`
+ * @returns The formula, or undefined if none is known
+ */
+function gettextPluralForms(locale: string): GettextPluralForms | undefined {
+  const language = locale.split(/[-_]/)[0].toLowerCase();
+  const known = PLURAL_FORMS_BY_LANGUAGE[language];
+  if (known) return known;
+
+  const categories = pluralCategoriesFor(locale);
+  return categories.length === 1 ? { plural: "0", categories } : undefined;
+}
+
+const POT_PLURAL_FORMS = "nplurals=INTEGER; plural=EXPRESSION;";
+
+function escapePoString(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, "\\t")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n");
+}
+
+function unescapePoString(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => {
+    switch (char) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      default:
+        return char;
+    }
+  });
+}
+
+/**
+ * Format a keyword line, splitting multi-line values after each newline
+ */
+function formatPoField(keyword: string, value: string, prefix: string): string[] {
+  const segments = value.split(/(?<=\n)/).filter(Boolean);
+
+  if (segments.length <= 1) {
+    return [`${prefix}${keyword} "${escapePoString(value)}"`];
+  }
+
+  return [
+    `${prefix}${keyword} ""`,
+    ...segments.map((segment) => `${prefix}"${escapePoString(segment)}"`),
+  ];
+}
+
+function formatPoEntry(entry: PoEntry): string {
+  const prefix = entry.obsolete ? "#~ " : "";
+  const lines = [
+    ...entry.translatorComments.map((comment) => `# ${comment}`),
+    ...entry.extractedComments.map((comment) => `#. ${comment}`),
+    ...(entry.references.length > 0 ? [`#: ${entry.references.join(" ")}`] : []),
+    ...(entry.flags.length > 0 ? [`#, ${entry.flags.join(", ")}`] : []),
+  ];
+
+  if (entry.msgctxt !== undefined) {
+    lines.push(...formatPoField("msgctxt", entry.msgctxt, prefix));
+  }
+  lines.push(...formatPoField("msgid", entry.msgid, prefix));
+
+  if (entry.msgidPlural !== undefined) {
+    lines.push(...formatPoField("msgid_plural", entry.msgidPlural, prefix));
+    entry.msgstr.forEach((value, index) => {
+      lines.push(...formatPoField(`msgstr[${index}]`, value, prefix));
+    });
+  } else {
+    lines.push(...formatPoField("msgstr", entry.msgstr[0] ?? "", prefix));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Serialize a catalog as PO/POT text
+ */
+export function formatPoCatalog(catalog: PoCatalog): string {
+  const headerText = Object.entries(catalog.headers)
+    .map(([name, value]) => `${name}: ${value}\n`)
+    .join("");
+
+  const header = formatPoEntry({
+    translatorComments: [],
+    extractedComments: [],
+    references: [],
+    flags: [],
+    msgid: "",
+    msgstr: [headerText],
+    obsolete: false,
+  });
+
+  return [header, ...catalog.entries.map(formatPoEntry)].join("\n\n") + "\n";
+}
+
+function pluralArgumentFor(key: ExportKey): string | undefined {
+  for (const translation of key.translations) {
+    const plural = translationPlural(translation);
+    if (plural) return plural.argument;
+  }
+  return undefined;
+}
+
+function keyComments(key: ExportKey, pluralArgument?: string): string[] {
+  const comments = [
+    `id: ${key.id}`,
+    `tags: ${key.tags.join(",")}`,
+    `status: ${key.status}`,
+  ];
+  // Comments are single lines, so line breaks in free text become spaces
+  if (key.context) {
+    comments.push(`context: ${key.context.replace(/\s*\n\s*/g, " ")}`);
+  }
+  if (key.maxLength) {
+    comments.push(`max-length: ${key.maxLength}`);
+  }
+  for (const screenshot of key.screenshots ?? []) {
+    comments.push(`screenshot: ${screenshot}`);
+  }
+  if (pluralArgument) {
+    comments.push(`plural: ${pluralArgument}`);
+  }
+  return comments;
+}
+
+/**
+ * Catalog headers; `Plural-Forms` is left out of PO files for locales
+ * without a known formula, which only happens when they have no plurals
+ */
+function catalogHeaders(
+  service: string,
+  locale?: string,
+  pluralForms?: GettextPluralForms,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Project-Id-Version": service,
+    ...(locale ? { Language: locale } : {}),
+    "MIME-Version": "1.0",
+    "Content-Type": "text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding": "8bit",
+  };
+
+  if (!locale) {
+    headers["Plural-Forms"] = POT_PLURAL_FORMS;
+  } else if (pluralForms) {
+    headers["Plural-Forms"] =
+      `nplurals=${pluralForms.categories.length}; plural=${pluralForms.plural};`;
+  }
+  return headers;
+}
+
+/**
+ * Serialize export data as a POT template with empty translations
+ */
+export function serializePot(data: ExportData): string {
+  const entries = data.data.keys.map((key): PoEntry => {
+    const pluralArgument = pluralArgumentFor(key);
+
+    const extractedComments = keyComments(key, pluralArgument);
+    // One comment per line, so the description keeps its line breaks
+    for (const line of key.description ? key.description.split("\n") : []) {
+      extractedComments.push(`description: ${line}`);
+    }
+
+    return {
+      translatorComments: [],
+      extractedComments,
+      references: [],
+      flags: [],
+      msgctxt: key.namespaceId,
+      msgid: key.keyName,
+      msgidPlural: pluralArgument ? key.keyName : undefined,
+      msgstr: pluralArgument ? ["", ""] : [""],
+      obsolete: false,
+    };
+  });
+
+  return formatPoCatalog({ headers: catalogHeaders(data.service), entries });
+}
+
+/**
+ * Serialize export data as a PO catalog for one locale
+ * @param data - Export data
+ * @param locale - Locale whose translations fill `msgstr`
+ * @returns PO file text
+ * @throws UnsupportedLocaleError if the data has plurals and no gettext
+ * plural formula is known for the locale
+ */
+export function serializePo(data: ExportData, locale: string): string {
+  const pluralForms = gettextPluralForms(locale);
+  if (!pluralForms && data.data.keys.some((key) => pluralArgumentFor(key))) {
+    throw new UnsupportedLocaleError(
+      locale,
+      `No gettext plural formula is known for locale "${locale}"`,
+    );
+  }
+  const categories = pluralForms?.categories ?? [];
+
+  const entries = data.data.keys.map((key): PoEntry => {
+    const pluralArgument = pluralArgumentFor(key);
+    const translation = key.translations.find((t) => t.locale === locale);
+    const value = translation?.value ?? "";
+
+    let msgstr = [value];
+    if (pluralArgument) {
+      const plural = translation ? translationPlural(translation) : null;
+      msgstr = categories.map((category) =>
+        plural ? (plural.forms[category] ?? plural.forms.other) : value,
+      );
+    }
+
+    const extractedComments = keyComments(key, pluralArgument);
+    if (translation?.version !== undefined) {
+      extractedComments.push(`version: ${translation.version}`);
+    }
+
+    return {
+      // One comment per line, so the description keeps its line breaks
+      translatorComments: key.description ? key.description.split("\n") : [],
+      extractedComments,
+      references: [],
+      flags: translation?.status === "draft" ? ["fuzzy"] : [],
+      msgctxt: key.namespaceId,
+      msgid: key.keyName,
+      msgidPlural: pluralArgument ? key.keyName : undefined,
+      msgstr,
+      obsolete: translation?.status === "archived",
+    };
+  });
+
+  return formatPoCatalog({
+    headers: catalogHeaders(data.service, locale, pluralForms),
+    entries,
+  });
+}
+
+function emptyEntry(): PoEntry {
+  return {
+    translatorComments: [],
+    extractedComments: [],
+    references: [],
+    flags: [],
+    msgid: "",
+    msgstr: [],
+    obsolete: false,
+  };
+}
+
+/**
+ * Parse PO/POT text into a catalog of entries
+ * @throws Error with the line number on invalid syntax
+ */
+export function parsePoCatalog(content: string): PoCatalog {
+  const entries: PoEntry[] = [];
+  let entry = emptyEntry();
+  let hasKeyword = false;
+  let hasMsgstr = false;
+  let appendTo: ((value: string) => void) | null = null;
+
+  const finishEntry = () => {
+    if (hasKeyword) {
+      entries.push(entry);
+    }
+    entry = emptyEntry();
+    hasKeyword = false;
+    hasMsgstr = false;
+    appendTo = null;
+  };
+
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((rawLine, index) => {
+    let line = rawLine.trim();
+
+    if (line === "") {
+      finishEntry();
+      return;
+    }
+
+    let obsolete = false;
+    if (line.startsWith("#~")) {
+      obsolete = true;
+      line = line.slice(2).trim();
+      // Previous-msgid lines of obsolete entries carry no data
+      if (line.startsWith("|")) return;
+    }
+
+    if (!obsolete && line.startsWith("#")) {
+      // A comment after a complete entry starts the next one
+      if (hasMsgstr) finishEntry();
+
+      if (line.startsWith("#,")) {
+        entry.flags.push(
+          ...line
+            .slice(2)
+            .split(",")
+            .map((flag) => flag.trim())
+            .filter(Boolean),
+        );
+      } else if (line.startsWith("#.")) {
+        entry.extractedComments.push(line.slice(2).trim());
+      } else if (line.startsWith("#:")) {
+        entry.references.push(...line.slice(2).trim().split(/\s+/).filter(Boolean));
+      } else if (!line.startsWith("#|")) {
+        entry.translatorComments.push(rawLine.trim().slice(1).replace(/^ /, ""));
+      }
+      return;
+    }
+
+    const keyword = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"$/.exec(
+      line,
+    );
+    if (keyword) {
+      const [, name, pluralIndex, quoted] = keyword;
+      const value = unescapePoString(quoted);
+
+      if ((name === "msgctxt" || name === "msgid") && hasMsgstr) {
+        finishEntry();
+      }
+      if (name === "msgctxt" && hasKeyword) {
+        finishEntry();
+      }
+
+      hasKeyword = true;
+      entry.obsolete = entry.obsolete || obsolete;
+
+      const target = entry;
+      if (name === "msgctxt") {
+        target.msgctxt = value;
+        appendTo = (more) => (target.msgctxt += more);
+      } else if (name === "msgid") {
+        target.msgid = value;
+        appendTo = (more) => (target.msgid += more);
+      } else if (name === "msgid_plural") {
+        target.msgidPlural = value;
+        appendTo = (more) => (target.msgidPlural += more);
+      } else {
+        const slot = pluralIndex === undefined ? 0 : Number(pluralIndex);
+        hasMsgstr = true;
+        target.msgstr[slot] = value;
+        appendTo = (more) => (target.msgstr[slot] += more);
+      }
+      return;
+    }
+
+    const continuation = /^"(.*)"$/.exec(line);
+    if (continuation && appendTo) {
+      appendTo(unescapePoString(continuation[1]));
+      return;
+    }
+
+    throw new Error(`Invalid PO syntax at line ${index + 1}: ${rawLine.trim()}`);
+  });
+
+  finishEntry();
+
+  // The entry with an empty msgid and no context is the catalog header
+  const headers: Record<string, string> = {};
+  const headerIndex = entries.findIndex((e) => e.msgid === "" && e.msgctxt === undefined);
+  if (headerIndex !== -1) {
+    for (const headerLine of (entries[headerIndex].msgstr[0] ?? "").split("\n")) {
+      const separator = headerLine.indexOf(":");
+      if (separator > 0) {
+        headers[headerLine.slice(0, separator).trim()] = headerLine
+          .slice(separator + 1)
+          .trim();
+      }
+    }
+    entries.splice(headerIndex, 1);
+  }
+
+  return { headers, entries };
+}
+
+function readComment(comments: string[], name: string): string | undefined {
+  const prefix = `${name}:`;
+  const comment = comments.find((c) => c.startsWith(prefix));
+  return comment?.slice(prefix.length).trim();
+}
+
+function readComments(comments: string[], name: string): string[] {
+  const prefix = `${name}:`;
+  return comments
+    .filter((c) => c.startsWith(prefix))
+    .map((c) => c.slice(prefix.length).trim());
+}
+
+/**
+ * Guess the locale of a PO file from its path, e.g. `fr/LC_MESSAGES/app.po`
+ * or `pt_BR.po`
+ */
+export function localeFromPoPath(path: string): string | undefined {
+  const match =
+    /(?:^|\/)([A-Za-z]{2,3}(?:[_-][A-Za-z0-9]+)*)\/LC_MESSAGES\//.exec(path) ??
+    /(?:^|\/)([A-Za-z]{2,3}(?:[_-][A-Za-z0-9]+)*)\.po$/.exec(path);
+  return match?.[1];
+}
+
+/**
+ * Parse a PO or POT file into import key data. POT templates and entries
+ * with empty `msgstr` produce keys without translations.
+ * @param content - PO/POT file text
+ * @param options - Fallback locale for files without a `Language` header
+ * @throws Error on invalid syntax
+ */
+export function parsePo(
+  content: string,
+  options: { locale?: string } = {},
+): ImportFileData {
+  const catalog = parsePoCatalog(content);
+  const locale = (catalog.headers.Language || options.locale)?.replace(/_/g, "-");
+  // Files of locales without a known formula are read in CLDR category order
+  const categories: PluralCategory[] = locale
+    ? (gettextPluralForms(locale)?.categories ?? pluralCategoriesFor(locale))
+    : [];
+
+  const keys = catalog.entries.map((entry): ParsedKey => {
+    const comments = entry.extractedComments;
+
+    const maxLength = Number(readComment(comments, "max-length"));
+    const screenshots = readComments(comments, "screenshot").filter(Boolean);
+
+    const key: ParsedKey = {
+      id: readComment(comments, "id") || undefined,
+      keyName: entry.msgid,
+      namespaceId: entry.msgctxt || undefined,
+      description:
+        readComments(comments, "description").join("\n") ||
+        entry.translatorComments.join("\n") ||
+        undefined,
+      context: readComment(comments, "context") || undefined,
+      maxLength: Number.isInteger(maxLength) && maxLength > 0 ? maxLength : undefined,
+      screenshots: screenshots.length > 0 ? screenshots : undefined,
+      tags: (readComment(comments, "tags") ?? "")
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      status: readComment(comments, "status") || "draft",
+      translations: [],
+    };
+
+    const hasValue = entry.msgstr.some((value) => value !== "");
+    if (!locale || !hasValue) {
+      return key;
+    }
+
+    let value = entry.msgstr[0] ?? "";
+    if (entry.msgidPlural !== undefined) {
+      const forms: Partial<Record<PluralCategory, string>> = {};
+      categories.forEach((category, index) => {
+        forms[category] = entry.msgstr[index] ?? "";
+      });
+      value = formatIcuPlural({
+        argument: readComment(comments, "plural") || DEFAULT_PLURAL_ARGUMENT,
+        forms: { ...forms, other: forms.other ?? entry.msgstr[entry.msgstr.length - 1] },
+      });
+    }
+
+    const version = Number(readComment(comments, "version"));
+    key.translations.push({
+      locale,
+      value,
+      status: entry.obsolete
+        ? "archived"
+        : entry.flags.includes("fuzzy")
+          ? "draft"
+          : "active",
+      version: Number.isInteger(version) && version > 0 ? version : undefined,
+    });
+
+    return key;
+  });
+
+  return { keys };
+}
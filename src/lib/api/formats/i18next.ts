@@ -0,0 +1,131 @@
+import {
+  combinePluralEntries,
+  expandPluralEntries,
+  findKeyCollisions,
+  findPluralCollisions,
+  flattenNested,
+  nestEntries,
+} from "~/lib/api/formats/nested";
+import {
+  DEFAULT_PLURAL_ARGUMENT,
+  PLURAL_CATEGORIES,
+  type PluralCategory,
+} from "~/lib/api/formats/plurals";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * i18next nested JSON serialization
+ *
+ * Dotted key names become nested objects, e.g. `checkout.title` ->
+ * `{ "checkout": { "title": ... } }`. Top-level ICU plurals become sibling
+ * `_<category>` suffixed keys with `{{count}}` in place of `#`, which is how
+ * i18next v21+ resolves plurals.
+ */
+
+export const I18NEXT_DEFAULT_SEPARATOR = ".";
+
+type ParsedKey = ImportFileData["keys"][number];
+
+const PLURAL_SUFFIX = new RegExp(`^(.+)_(${PLURAL_CATEGORIES.join("|")})$`);
+
+const COUNT_PLACEHOLDER = `{{${DEFAULT_PLURAL_ARGUMENT}}}`;
+
+/**
+ * Serialize one locale of export data as nested i18next JSON
+ * @throws Error listing the colliding keys if the key names do not nest
+ */
+export function serializeI18next(
+  data: ExportData,
+  locale: string,
+  separator: string = I18NEXT_DEFAULT_SEPARATOR,
+): string {
+  const entries: Array<[string, string]> = [];
+
+  for (const key of data.data.keys) {
+    const translation = key.translations.find((t) => t.locale === locale);
+    if (!translation) continue;
+
+    entries.push(
+      ...expandPluralEntries(
+        key.keyName,
+        translation,
+        (keyName, category) => `${keyName}_${category}`,
+        COUNT_PLACEHOLDER,
+      ),
+    );
+  }
+
+  return JSON.stringify(nestEntries(entries, separator), null, 2) + "\n";
+}
+
+/**
+ * Derive the locale from an i18next resource path such as
+ * `locales/fr/billing.json` or `fr.json`
+ */
+export function localeFromI18nextPath(path: string): string | undefined {
+  const match =
+    /(?:^|\/)([a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*)\/[^/]+\.json$/.exec(path) ??
+    /(?:^|\/)([a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*)\.json$/.exec(path);
+  return match?.[1].replace(/_/g, "-");
+}
+
+/**
+ * Parse nested i18next JSON into import key data. Sibling keys with plural
+ * suffixes are combined into one ICU plural when an `_other` form exists.
+ * @param content - JSON text
+ * @param locale - Locale of the resource file
+ * @param separator - Separator used to join nested key segments
+ * @throws Error on invalid JSON, non-string values or colliding keys
+ */
+export function parseI18next(
+  content: string,
+  locale: string,
+  separator: string = I18NEXT_DEFAULT_SEPARATOR,
+): ImportFileData {
+  let root: unknown;
+  try {
+    root = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Invalid JSON: ${message}`);
+  }
+
+  if (typeof root !== "object" || root === null || Array.isArray(root)) {
+    throw new Error("i18next resources must be a JSON object");
+  }
+
+  const flat = flattenNested(root as Record<string, unknown>, separator);
+  const splitPluralKey = (keyName: string): [string, PluralCategory] | undefined => {
+    const match = PLURAL_SUFFIX.exec(keyName);
+    return match ? [match[1], match[2] as PluralCategory] : undefined;
+  };
+  const entries = combinePluralEntries(
+    flat,
+    splitPluralKey,
+    new RegExp(`\\{\\{\\s*${DEFAULT_PLURAL_ARGUMENT}\\s*\\}\\}`, "g"),
+    DEFAULT_PLURAL_ARGUMENT,
+  );
+
+  const collisions = [
+    ...findPluralCollisions(
+      flat.map(([keyName]) => keyName),
+      splitPluralKey,
+    ),
+    ...findKeyCollisions(
+      entries.map(([keyName]) => keyName),
+      separator,
+    ),
+  ];
+  if (collisions.length > 0) {
+    throw new Error(`Conflicting keys: ${collisions.join("; ")}`);
+  }
+
+  const keys: ParsedKey[] = entries.map(([keyName, value]) => ({
+    keyName,
+    tags: [],
+    status: "draft",
+    translations: [{ locale, value, status: "active" }],
+  }));
+
+  return { keys };
+}
@@ -0,0 +1,126 @@
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * Key metadata comments for formats without structured metadata (`.strings`,
+ * `.properties`)
+ *
+ * The comment preceding each entry holds the key description for
+ * translators, a `context: ...` line, and metadata written as `id: key-1;
+ * namespace: ns; tags: a,b; keyStatus: active; status: draft; version: 2`,
+ * so ids and statuses survive a round trip through translators' tools.
+ */
+
+type ExportKey = ExportData["data"]["keys"][number];
+
+type ExportTranslation = ExportKey["translations"][number];
+
+const METADATA_FIELDS = new Set([
+  "id",
+  "namespace",
+  "maxLength",
+  "tags",
+  "keyStatus",
+  "status",
+  "version",
+]);
+
+const CONTEXT_PREFIX = "context:";
+
+/**
+ * Format the metadata comment lines for a key and one of its translations
+ */
+export function formatMetadataComment(
+  key: ExportKey,
+  translation: ExportTranslation,
+): string[] {
+  const lines = key.description ? key.description.split(/\r\n|\r|\n/) : [];
+  // The context is one line, so line breaks in it become spaces
+  if (key.context) {
+    lines.push(`${CONTEXT_PREFIX} ${key.context.replace(/\s*[\r\n]\s*/g, " ")}`);
+  }
+
+  const fields: Array<[string, string]> = [["id", key.id]];
+  if (key.namespaceId) {
+    fields.push(["namespace", key.namespaceId]);
+  }
+  if (key.maxLength) {
+    fields.push(["maxLength", String(key.maxLength)]);
+  }
+  fields.push(
+    ["tags", key.tags.join(",")],
+    ["keyStatus", key.status],
+    ["status", translation.status],
+  );
+  if (translation.version !== undefined) {
+    fields.push(["version", String(translation.version)]);
+  }
+  lines.push(fields.map(([name, value]) => `${name}: ${value}`).join("; "));
+
+  return lines;
+}
+
+/**
+ * Read a metadata line; lines with other fields are description text
+ */
+function readMetadataLine(line: string): Map<string, string> | undefined {
+  const metadata = new Map<string, string>();
+  for (const field of line.split(";")) {
+    if (!field.trim()) continue;
+
+    const separator = field.indexOf(":");
+    const name = field.slice(0, separator).trim();
+    if (separator <= 0 || !METADATA_FIELDS.has(name)) return undefined;
+    metadata.set(name, field.slice(separator + 1).trim());
+  }
+  return metadata.size > 0 ? metadata : undefined;
+}
+
+/**
+ * Build import key data for one entry from its preceding comment. Missing
+ * metadata leaves the id out and falls back to an active translation, so
+ * hand-written files import as draft keys matched by key name; their
+ * comments become the key description.
+ */
+export function keyFromMetadataComment(
+  comment: string | undefined,
+  keyName: string,
+  translation: Pick<ExportTranslation, "locale" | "value">,
+): ImportFileData["keys"][number] {
+  const metadata = new Map<string, string>();
+  const description: string[] = [];
+  let context: string | undefined;
+
+  for (const line of (comment ?? "").split(/\r\n|\r|\n/).map((text) => text.trim())) {
+    const fields = readMetadataLine(line);
+    if (fields) {
+      fields.forEach((value, name) => metadata.set(name, value));
+    } else if (line.startsWith(CONTEXT_PREFIX)) {
+      context = line.slice(CONTEXT_PREFIX.length).trim();
+    } else {
+      description.push(line);
+    }
+  }
+
+  const maxLength = Number(metadata.get("maxLength"));
+  const version = Number(metadata.get("version"));
+  return {
+    id: metadata.get("id") || undefined,
+    keyName,
+    namespaceId: metadata.get("namespace") || undefined,
+    description: description.join("\n").trim() || undefined,
+    context: context || undefined,
+    maxLength: Number.isInteger(maxLength) && maxLength > 0 ? maxLength : undefined,
+    tags: (metadata.get("tags") ?? "")
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    status: metadata.get("keyStatus") || "draft",
+    translations: [
+      {
+        ...translation,
+        status: metadata.get("status") || "active",
+        version: Number.isInteger(version) && version > 0 ? version : undefined,
+      },
+    ],
+  };
+}
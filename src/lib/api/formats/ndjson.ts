@@ -0,0 +1,93 @@
+import type { ExportData } from "~/lib/api/import-export-types";
+
+/**
+ * Newline-delimited JSON export serialization
+ *
+ * The first line holds the export header (service, locales and export
+ * time) and every following line one key with its translations, in the
+ * same shape as the keys of the JSON export. Lines are independent, so
+ * large services can be written and read one key at a time.
+ */
+
+type ExportKey = ExportData["data"]["keys"][number];
+
+export type NdjsonHeader = Omit<ExportData, "data">;
+
+/**
+ * Header line of an NDJSON export
+ */
+export function serializeNdjsonHeader(header: NdjsonHeader): string {
+  const { service, locales, exportedAt } = header;
+  return `${JSON.stringify({ service, locales, exportedAt })}\n`;
+}
+
+/**
+ * One key line of an NDJSON export
+ */
+export function serializeNdjsonKey(key: ExportKey): string {
+  return `${JSON.stringify(key)}\n`;
+}
+
+/**
+ * Serialize export data as NDJSON
+ */
+export function serializeNdjson(data: ExportData): string {
+  return serializeNdjsonHeader(data) + data.data.keys.map(serializeNdjsonKey).join("");
+}
+
+/**
+ * Serialize keys as they arrive, header first
+ */
+export async function* streamNdjson(
+  header: NdjsonHeader,
+  keys: AsyncIterable<ExportKey>,
+): AsyncGenerator<string> {
+  yield serializeNdjsonHeader(header);
+  for await (const key of keys) {
+    yield serializeNdjsonKey(key);
+  }
+}
+
+/**
+ * Parse an NDJSON export into import key data. Blank lines are ignored.
+ * @throws Error naming the line that is not valid JSON or not a key object
+ */
+export function parseNdjson(content: string): ExportData["data"] {
+  const keys: ExportKey[] = [];
+  let header = false;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "") return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`Line ${index + 1}: ${message}`);
+    }
+
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`Line ${index + 1}: Expected a JSON object`);
+    }
+
+    if (!header) {
+      if (!("service" in value)) {
+        throw new Error(`Line ${index + 1}: Expected the export header`);
+      }
+      header = true;
+      return;
+    }
+
+    if (!("keyName" in value)) {
+      throw new Error(`Line ${index + 1}: Expected a key object`);
+    }
+    keys.push(value as ExportKey);
+  });
+
+  if (!header) {
+    throw new Error("Expected the export header");
+  }
+
+  return { keys };
+}
@@ -0,0 +1,282 @@
+import {
+  formatIcuPlural,
+  PLURAL_CATEGORIES,
+  translationPlural,
+  type IcuPlural,
+  type PluralCategory,
+  type PluralForms,
+} from "~/lib/api/formats/plurals";
+
+/**
+ * Helpers for formats that store key names as nested objects (i18next JSON,
+ * Rails YAML)
+ *
+ * Key names are split on a separator into object paths. Top-level ICU
+ * plurals are expanded into one entry per category, with the format's count
+ * placeholder in place of the forms' own `#` signs, and recombined on
+ * import. A `#` inside a nested argument is left alone, and a literal `#`
+ * is unquoted on export and quoted again (`'#'`) on import.
+ */
+
+export interface NestedObject {
+  [key: string]: string | NestedObject;
+}
+
+/**
+ * Find key names that cannot coexist in a nested object: duplicates, and
+ * keys that are both a value and a parent of other keys
+ * @returns One message per collision, empty if the keys nest cleanly
+ */
+export function findKeyCollisions(keyNames: string[], separator: string): string[] {
+  const collisions: string[] = [];
+  const seen = new Set<string>();
+
+  for (const keyName of keyNames) {
+    if (seen.has(keyName)) {
+      collisions.push(`"${keyName}" is defined more than once`);
+    }
+    seen.add(keyName);
+  }
+
+  for (const keyName of seen) {
+    const segments = keyName.split(separator);
+    for (let i = 1; i < segments.length; i++) {
+      const parent = segments.slice(0, i).join(separator);
+      if (seen.has(parent)) {
+        collisions.push(`"${parent}" is both a value and a parent of "${keyName}"`);
+      }
+    }
+  }
+
+  return collisions;
+}
+
+/**
+ * Find plain key names that are also the name of a plural group, such as
+ * `files` next to `files_one` and `files_other`
+ * @param splitPluralKey - Returns the base key and category of a plural entry
+ * @returns One message per collision, empty if there are none
+ */
+export function findPluralCollisions(
+  keyNames: string[],
+  splitPluralKey: (keyName: string) => [string, PluralCategory] | undefined,
+): string[] {
+  const groups = pluralGroups(keyNames, splitPluralKey);
+
+  return keyNames
+    .filter((keyName) => !splitPluralKey(keyName) && groups.has(keyName))
+    .map(
+      (keyName) =>
+        `"${keyName}" is both a value and a plural of ${groups
+          .get(keyName)!
+          .map((name) => `"${name}"`)
+          .join(", ")}`,
+    );
+}
+
+/**
+ * Names of the entries of each plural group with an `other` form, by base key
+ */
+function pluralGroups(
+  keyNames: string[],
+  splitPluralKey: (keyName: string) => [string, PluralCategory] | undefined,
+): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  const complete = new Set<string>();
+  for (const keyName of keyNames) {
+    const plural = splitPluralKey(keyName);
+    if (plural) {
+      groups.set(plural[0], [...(groups.get(plural[0]) ?? []), keyName]);
+      if (plural[1] === "other") complete.add(plural[0]);
+    }
+  }
+
+  return new Map([...groups].filter(([base]) => complete.has(base)));
+}
+
+/**
+ * Build a nested object from flat key name and value entries
+ * @throws Error listing the colliding keys if the key names do not nest
+ */
+export function nestEntries(
+  entries: Array<[string, string]>,
+  separator: string,
+): NestedObject {
+  const collisions = findKeyCollisions(
+    entries.map(([keyName]) => keyName),
+    separator,
+  );
+  if (collisions.length > 0) {
+    throw new Error(`Keys cannot be nested: ${collisions.join("; ")}`);
+  }
+
+  const root: NestedObject = {};
+  for (const [keyName, value] of entries) {
+    const segments = keyName.split(separator);
+    let node = root;
+    for (const segment of segments.slice(0, -1)) {
+      node = (node[segment] ??= {}) as NestedObject;
+    }
+    node[segments[segments.length - 1]] = value;
+  }
+
+  return root;
+}
+
+/**
+ * Flatten a nested object into key name and value entries. `null` values
+ * are treated as missing translations and skipped.
+ * @throws Error naming the key of any value that is not a string or object
+ */
+export function flattenNested(
+  root: Record<string, unknown>,
+  separator: string,
+): Array<[string, string]> {
+  const leaves: Array<[string, string]> = [];
+
+  const visit = (node: unknown, path: string[]) => {
+    if (typeof node === "string") {
+      leaves.push([path.join(separator), node]);
+    } else if (typeof node === "object" && node !== null && !Array.isArray(node)) {
+      for (const [segment, child] of Object.entries(node)) {
+        visit(child, [...path, segment]);
+      }
+    } else if (node !== null) {
+      throw new Error(`Value at "${path.join(separator)}" must be a string or object`);
+    }
+  };
+  visit(root, []);
+
+  return leaves;
+}
+
+/**
+ * Rewrite the `#` signs of a plural form that stand for its count, those
+ * outside nested arguments and quotes, as `count`, and quoted literal `'#'`
+ * signs as `literal`
+ */
+function replaceCountSigns(form: string, count: string, literal: string): string {
+  let result = "";
+  let depth = 0;
+
+  for (let i = 0; i < form.length; i++) {
+    const char = form[i];
+
+    if (char === "'" && depth === 0 && form.startsWith("'#'", i)) {
+      result += literal;
+      i += 2;
+    } else if (char === "'" && form[i + 1] === "'") {
+      result += "''";
+      i++;
+    } else if (char === "'" && "{}#".includes(form[i + 1] ?? "")) {
+      // Quoted text up to the next single apostrophe
+      const close = form.indexOf("'", i + 1);
+      const end = close === -1 ? form.length : close + 1;
+      result += form.slice(i, end);
+      i = end - 1;
+    } else {
+      if (char === "{") depth++;
+      if (char === "}") depth--;
+      result += char === "#" && depth === 0 ? count : char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Turn a file's plural form back into an ICU form: count placeholders
+ * outside nested arguments become `#`, and a literal `#` is quoted
+ */
+function restoreCountSigns(form: string, countPlaceholder: RegExp): string {
+  const placeholder = new RegExp(countPlaceholder.source, "y");
+  let result = "";
+  let depth = 0;
+
+  for (let i = 0; i < form.length; i++) {
+    placeholder.lastIndex = i;
+    const match = depth === 0 ? placeholder.exec(form) : null;
+
+    if (match) {
+      result += "#";
+      i += match[0].length - 1;
+    } else {
+      const char = form[i];
+      if (char === "{") depth++;
+      if (char === "}") depth--;
+      result += char === "#" && depth === 0 ? "'#'" : char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Expand a plural translation into one entry per category. Values that are
+ * not plurals are returned as a single entry.
+ * @param pluralKey - Builds the entry key for a category
+ * @param countPlaceholder - Replaces the count `#` of each form
+ */
+export function expandPluralEntries(
+  keyName: string,
+  translation: { value: string; plurals?: IcuPlural | null },
+  pluralKey: (keyName: string, category: PluralCategory) => string,
+  countPlaceholder: string,
+): Array<[string, string]> {
+  const plural = translationPlural(translation);
+  if (!plural) return [[keyName, translation.value]];
+
+  return PLURAL_CATEGORIES.filter((category) => plural.forms[category] !== undefined).map(
+    (category) => [
+      pluralKey(keyName, category),
+      replaceCountSigns(plural.forms[category]!, countPlaceholder, "#"),
+    ],
+  );
+}
+
+/**
+ * Combine per-category entries back into ICU plurals over `argument`.
+ * Categories are only combined when an `other` form exists and no plain
+ * entry has the base key (see `findPluralCollisions`); otherwise the entries
+ * are kept as plain values.
+ * @param splitPluralKey - Returns the base key and category of a plural entry
+ * @param countPlaceholder - Matches the placeholder to turn back into `#`
+ */
+export function combinePluralEntries(
+  entries: Array<[string, string]>,
+  splitPluralKey: (keyName: string) => [string, PluralCategory] | undefined,
+  countPlaceholder: RegExp,
+  argument: string,
+): Array<[string, string]> {
+  const keyNames = entries.map(([keyName]) => keyName);
+  const groups = pluralGroups(keyNames, splitPluralKey);
+  // Plain entries named like a group keep it from being combined
+  for (const keyName of keyNames) {
+    if (!splitPluralKey(keyName)) groups.delete(keyName);
+  }
+
+  const pluralForms = new Map<string, Partial<Record<PluralCategory, string>>>();
+  const combined: Array<[string, string]> = [];
+  for (const [keyName, value] of entries) {
+    const plural = splitPluralKey(keyName);
+    if (plural && groups.has(plural[0])) {
+      const forms = pluralForms.get(plural[0]) ?? {};
+      forms[plural[1]] = value;
+      pluralForms.set(plural[0], forms);
+    } else {
+      combined.push([keyName, value]);
+    }
+  }
+  for (const [keyName, forms] of pluralForms) {
+    const icuForms = Object.fromEntries(
+      Object.entries(forms).map(([category, form]) => [
+        category,
+        restoreCountSigns(form, countPlaceholder),
+      ]),
+    ) as PluralForms;
+
+    combined.push([keyName, formatIcuPlural({ argument, forms: icuForms })]);
+  }
+
+  return combined;
+}
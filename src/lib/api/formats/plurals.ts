@@ -0,0 +1,135 @@
+/**
+ * Plural helpers shared by the file formats
+ *
+ * Translations store plural messages as a single top-level ICU plural,
+ * e.g. `{count, plural, one {# file} other {# files}}`, and translations
+ * written as plural forms also keep those forms. Formats with native plural
+ * support (gettext, Android, stringsdict, ...) map the forms onto their own
+ * representation using the CLDR categories of each locale.
+ */
+
+export const PLURAL_CATEGORIES = ["zero", "one", "two", "few", "many", "other"] as const;
+
+export type PluralCategory = (typeof PLURAL_CATEGORIES)[number];
+
+export type PluralForms = Partial<Record<PluralCategory, string>> & { other: string };
+
+export interface IcuPlural {
+  argument: string;
+  forms: PluralForms;
+}
+
+/**
+ * Thrown by serializers for a requested locale whose plural forms the
+ * format cannot represent
+ */
+export class UnsupportedLocaleError extends Error {
+  constructor(
+    readonly locale: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export const DEFAULT_PLURAL_ARGUMENT = "count";
+
+/**
+ * Get the CLDR plural categories of a locale, in `PLURAL_CATEGORIES` order.
+ * They come from the runtime's CLDR data, as do the plural rules of
+ * registered locales.
+ */
+export function pluralCategoriesFor(locale: string): PluralCategory[] {
+  let categories: string[];
+  try {
+    categories = new Intl.PluralRules(locale).resolvedOptions().pluralCategories;
+  } catch {
+    // Not a valid locale tag
+    return ["other"];
+  }
+  return PLURAL_CATEGORIES.filter((category) => categories.includes(category));
+}
+
+function isPluralCategory(value: string): value is PluralCategory {
+  return (PLURAL_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * Find the index of the brace closing the one opened at `start`
+ */
+function findClosingBrace(value: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < value.length; i++) {
+    if (value[i] === "{") depth++;
+    if (value[i] === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse a value that consists of exactly one top-level ICU plural.
+ * Exact-value selectors such as `=0` are not representable in most file
+ * formats and are ignored.
+ * @returns The plural argument and forms, or null for any other value
+ */
+export function parseIcuPlural(value: string): IcuPlural | null {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("{") || findClosingBrace(trimmed, 0) !== trimmed.length - 1) {
+    return null;
+  }
+
+  const header = /^\{\s*([A-Za-z0-9_]+)\s*,\s*plural\s*,/.exec(trimmed);
+  if (!header) return null;
+
+  const forms: Partial<Record<PluralCategory, string>> = {};
+  let position = header[0].length;
+  const end = trimmed.length - 1;
+
+  while (position < end) {
+    const selector = /^\s*(=?[A-Za-z0-9]+)\s*\{/.exec(trimmed.slice(position, end));
+    if (!selector) {
+      if (trimmed.slice(position, end).trim() === "") break;
+      return null;
+    }
+
+    const open = position + selector[0].length - 1;
+    const close = findClosingBrace(trimmed, open);
+    if (close === -1) return null;
+
+    if (isPluralCategory(selector[1])) {
+      forms[selector[1]] = trimmed.slice(open + 1, close);
+    }
+    position = close + 1;
+  }
+
+  if (forms.other === undefined) return null;
+
+  return { argument: header[1], forms: forms as PluralForms };
+}
+
+/**
+ * Plural forms of a translation: its stored forms, or those of a value that
+ * is one top-level ICU plural
+ */
+export function translationPlural(translation: {
+  value: string;
+  plurals?: IcuPlural | null;
+}): IcuPlural | null {
+  return translation.plurals ?? parseIcuPlural(translation.value);
+}
+
+/**
+ * Format plural forms as a single top-level ICU plural
+ */
+export function formatIcuPlural(plural: IcuPlural): string {
+  const selectors = PLURAL_CATEGORIES.filter(
+    (category) => plural.forms[category] !== undefined,
+  )
+    .map((category) => `${category} {${plural.forms[category]}}`)
+    .join(" ");
+
+  return `{${plural.argument}, plural, ${selectors}}`;
+}
@@ -0,0 +1,195 @@
+import {
+  formatMetadataComment,
+  keyFromMetadataComment,
+} from "~/lib/api/formats/metadata";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * Java `messages_<locale>.properties` resource bundle serialization
+ *
+ * Output is pure ASCII: characters outside it are written as `\uXXXX`
+ * escapes, so files load under both the ISO-8859-1 (Java 8) and UTF-8
+ * (Java 9+) readers. Multi-line values are split after each `\n` with a
+ * line continuation. Every entry is preceded by a comment with the key
+ * description and metadata; values are ICU messages as read by ICU4J
+ * `MessageFormat`.
+ */
+
+export const PROPERTIES_BUNDLE_NAME = "messages";
+
+type ParsedKey = ImportFileData["keys"][number];
+
+/**
+ * Resource bundle file name for a locale, e.g. `messages_pt_BR.properties`
+ */
+export function propertiesFileName(locale: string): string {
+  return `${PROPERTIES_BUNDLE_NAME}_${locale.replace(/-/g, "_")}.properties`;
+}
+
+/**
+ * Derive the locale from a bundle file name such as
+ * `messages_pt_BR.properties`; the base bundle `messages.properties` has none
+ */
+export function localeFromPropertiesPath(path: string): string | undefined {
+  const match = /_([a-z]{2,3}(?:_[A-Za-z0-9]{2,8})*)\.properties$/.exec(path);
+  return match?.[1].replace(/_/g, "-");
+}
+
+function escapeUnicode(char: string): string {
+  return `\\u${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}`;
+}
+
+function escapeCharacters(value: string): string {
+  return value.replace(/[\\\t\n\r\f]|[^\x20-\x7E]/g, (char) => {
+    switch (char) {
+      case "\\":
+        return "\\\\";
+      case "\t":
+        return "\\t";
+      case "\n":
+        return "\\n";
+      case "\r":
+        return "\\r";
+      case "\f":
+        return "\\f";
+      default:
+        return escapeUnicode(char);
+    }
+  });
+}
+
+/**
+ * Escape a key; separators, comment markers and spaces are escaped as well
+ */
+export function escapePropertiesKey(key: string): string {
+  return escapeCharacters(key).replace(/[ =:#!]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Escape a value; only a leading space needs escaping besides the
+ * characters escaped in every position
+ */
+export function escapePropertiesValue(value: string): string {
+  return escapeCharacters(value).replace(/^ /, "\\ ");
+}
+
+/**
+ * Resolve the escapes of a logical line segment
+ */
+export function unescapeProperties(value: string): string {
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    if (escape.length === 5) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    switch (escape) {
+      case "t":
+        return "\t";
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "f":
+        return "\f";
+      default:
+        return escape;
+    }
+  });
+}
+
+/**
+ * Serialize one locale of export data as a `.properties` file
+ */
+export function serializeProperties(data: ExportData, locale: string): string {
+  const entries: string[] = [];
+
+  for (const key of data.data.keys) {
+    const translation = key.translations.find((t) => t.locale === locale);
+    if (!translation) continue;
+
+    // Continuation lines drop leading whitespace, so escape a leading space
+    const value = escapePropertiesValue(translation.value)
+      .split(/(?<=\\n)(?=.)/)
+      .map((segment) => segment.replace(/^ /, "\\ "))
+      .join("\\\n    ");
+    // Comments keep the file ASCII too; they are not unescaped by Java
+    const comment = formatMetadataComment(key, translation)
+      .map((line) => `# ${line.replace(/[^\x20-\x7E]/g, escapeUnicode)}`)
+      .join("\n");
+
+    entries.push(`${comment}\n${escapePropertiesKey(key.keyName)}=${value}`);
+  }
+
+  return entries.join("\n\n") + "\n";
+}
+
+/**
+ * Whether a line ends in an odd number of backslashes, i.e. continues on
+ * the next line
+ */
+function continuesLine(line: string): boolean {
+  const backslashes = /\\*$/.exec(line)![0].length;
+  return backslashes % 2 === 1;
+}
+
+/**
+ * Parse a `.properties` file into import key data. Supports `=`, `:` and
+ * whitespace separators, `#` and `!` comments, line continuations and
+ * `\uXXXX` escapes; the comment lines directly above an entry are read as
+ * its description and metadata.
+ * @param content - File text
+ * @param locale - Locale of the bundle
+ * @throws Error with the line number if a key is defined more than once
+ */
+export function parseProperties(content: string, locale: string): ImportFileData {
+  const lines = content.split(/\r\n|\r|\n/);
+  const keys: ParsedKey[] = [];
+  const seen = new Map<string, number>();
+  let lastComment: string | undefined;
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].replace(/^[ \t\f]+/, "");
+
+    if (line === "") {
+      lastComment = undefined;
+      continue;
+    }
+    if (line.startsWith("#") || line.startsWith("!")) {
+      const text = line
+        .slice(1)
+        .trim()
+        .replace(/\\u([0-9a-fA-F]{4})/g, (_, code: string) =>
+          String.fromCharCode(parseInt(code, 16)),
+        );
+      lastComment = lastComment === undefined ? text : `${lastComment}\n${text}`;
+      continue;
+    }
+
+    let logical = line;
+    while (continuesLine(logical) && index + 1 < lines.length) {
+      logical = logical.slice(0, -1) + lines[++index].replace(/^[ \t\f]+/, "");
+    }
+    if (continuesLine(logical)) {
+      logical = logical.slice(0, -1);
+    }
+
+    const keyEnd = /^(?:\\.|[^\\=: \t\f])*/.exec(logical)![0].length;
+    const keyName = unescapeProperties(logical.slice(0, keyEnd));
+    const value = unescapeProperties(
+      logical.slice(keyEnd).replace(/^[ \t\f]*(?:[=:][ \t\f]*)?/, ""),
+    );
+
+    const firstLine = seen.get(keyName);
+    if (firstLine !== undefined) {
+      throw new Error(
+        `Key "${keyName}" at line ${lineNumber} is already defined at line ${firstLine}`,
+      );
+    }
+    seen.set(keyName, lineNumber);
+
+    keys.push(keyFromMetadataComment(lastComment, keyName, { locale, value }));
+    lastComment = undefined;
+  }
+
+  return { keys };
+}
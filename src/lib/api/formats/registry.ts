@@ -0,0 +1,113 @@
+import { builtInFormats } from "~/lib/api/formats/builtin";
+import type { FileBytes, FormatFile } from "~/lib/api/formats/files";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * File format adapter registry behind `/api/export` and `/api/import`
+ *
+ * An adapter turns export data into the files of one format and uploaded
+ * bytes back into import key data. Both routes dispatch on the `format`
+ * query parameter through this registry, so a new format only needs an
+ * adapter passed to `registerFormat`.
+ */
+
+export interface FormatCapabilities {
+  // Plural forms map onto plural support of the format's own runtime or tools
+  plurals: boolean;
+  // Key descriptions travel as translator comments
+  comments: boolean;
+  // One export holds several locales, in one file or one file per locale
+  multiLocale: boolean;
+  // Key ids, namespaces, tags, statuses and versions survive a round trip
+  metadata: boolean;
+}
+
+export interface FormatSerializeOptions {
+  // Requested locales; every locale in the export data when omitted
+  locales?: string[];
+  // Separator splitting key names into nested objects
+  separator: string;
+}
+
+export interface FormatParseOptions {
+  // Locale for files whose path or content does not name one
+  locale?: string;
+  // Registered locales; spreadsheet headers naming other tags are ignored
+  locales?: string[];
+  // Separator joining nested keys into key names
+  separator: string;
+}
+
+export interface FormatIssue {
+  // Where in the upload the problem is, e.g. a spreadsheet cell reference
+  location: string;
+  message: string;
+}
+
+export interface FormatParseResult {
+  data: ImportFileData;
+  // Problems reported all at once instead of failing at the first one
+  issues: FormatIssue[];
+}
+
+export interface FormatAdapter {
+  id: string;
+  label: string;
+  // Content type of a single exported file; several files are zipped
+  contentType: string;
+  extension: string;
+  capabilities: FormatCapabilities;
+  // Locale exported alongside the requested ones as source text
+  sourceLocale?: string;
+  /**
+   * Serialize export data into one or more files
+   * @throws Error if the data cannot be represented, e.g. colliding key names
+   * @throws UnsupportedLocaleError if the plural forms of a requested locale
+   * cannot be written
+   */
+  serialize?: (data: ExportData, options: FormatSerializeOptions) => FormatFile[];
+  /**
+   * Serialize keys into chunks of one file as they are paged from the
+   * database, so exports of large services run in bounded memory
+   */
+  serializeStream?: (
+    header: Omit<ExportData, "data">,
+    keys: AsyncIterable<ExportData["data"]["keys"][number]>,
+  ) => AsyncIterable<string>;
+  /**
+   * Parse an uploaded file, or ZIP archive of files, into import key data
+   * @throws Error if the upload is not valid in this format
+   */
+  parse?: (bytes: FileBytes, options: FormatParseOptions) => FormatParseResult;
+}
+
+const formats = new Map<string, FormatAdapter>();
+
+/**
+ * Register a format adapter
+ * @throws Error if a format with the same id is already registered
+ */
+export function registerFormat(adapter: FormatAdapter): void {
+  if (formats.has(adapter.id)) {
+    throw new Error(`Format "${adapter.id}" is already registered`);
+  }
+  formats.set(adapter.id, adapter);
+}
+
+/**
+ * Look up a format adapter by id
+ */
+export function getFormat(id: string): FormatAdapter | undefined {
+  return formats.get(id);
+}
+
+/**
+ * List registered format adapters in registration order
+ */
+export function listFormats(): FormatAdapter[] {
+  return Array.from(formats.values());
+}
+
+for (const adapter of builtInFormats) {
+  registerFormat(adapter);
+}
@@ -0,0 +1,267 @@
+import {
+  translationStatusEnum,
+  type ExportData,
+  type ImportFileData,
+} from "~/lib/api/import-export-types";
+import { canonicalizeLocale } from "~/lib/api/locales";
+
+/**
+ * Spreadsheet layout shared by the CSV and XLSX formats
+ *
+ * One row per key with `id`, `key`, `namespace`, `tags`, `status`,
+ * `comment`, `context`, `max_length` and `screenshots` columns followed by
+ * one column per locale; screenshots are one per line. On import, columns
+ * are matched by header name, so translators may reorder, drop or add
+ * columns; unrecognized headers are ignored.
+ */
+
+export type SpreadsheetRow = string[];
+
+export interface SpreadsheetCellError {
+  cell: string;
+  message: string;
+}
+
+export interface SpreadsheetParseResult {
+  data: ImportFileData;
+  errors: SpreadsheetCellError[];
+}
+
+type ParsedKey = ImportFileData["keys"][number];
+
+const METADATA_COLUMNS = [
+  "id",
+  "key",
+  "namespace",
+  "tags",
+  "status",
+  "comment",
+  "context",
+  "max_length",
+  "screenshots",
+] as const;
+
+type MetadataColumn = (typeof METADATA_COLUMNS)[number];
+
+/**
+ * Spreadsheet column name for a zero-based index, e.g. 0 -> `A`, 27 -> `AB`
+ */
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Zero-based column index for a column name, e.g. `AB` -> 27
+ */
+export function columnIndex(name: string): number {
+  let index = 0;
+  for (const char of name.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * A1-style reference for zero-based row and column indexes
+ */
+export function cellReference(row: number, column: number): string {
+  return `${columnName(column)}${row + 1}`;
+}
+
+/**
+ * Order locale columns with the source locale first, then alphabetically
+ */
+function orderLocales(locales: string[]): string[] {
+  return [...new Set(locales)].sort((a, b) =>
+    a === "en" ? -1 : b === "en" ? 1 : a.localeCompare(b),
+  );
+}
+
+/**
+ * Build spreadsheet rows, header first, for the given locale columns
+ */
+export function buildSpreadsheetRows(
+  data: ExportData,
+  locales: string[],
+): SpreadsheetRow[] {
+  const localeColumns = orderLocales(locales);
+  const rows: SpreadsheetRow[] = [[...METADATA_COLUMNS, ...localeColumns]];
+
+  for (const key of data.data.keys) {
+    rows.push([
+      key.id,
+      key.keyName,
+      key.namespaceId ?? "",
+      key.tags.join(", "),
+      key.status,
+      key.description ?? "",
+      key.context ?? "",
+      key.maxLength ? String(key.maxLength) : "",
+      (key.screenshots ?? []).join("\n"),
+      ...localeColumns.map(
+        (locale) => key.translations.find((t) => t.locale === locale)?.value ?? "",
+      ),
+    ]);
+  }
+
+  return rows;
+}
+
+function normalizeLocaleHeader(
+  header: string,
+  knownLocales: string[] | undefined,
+): string | undefined {
+  const canonical = canonicalizeLocale(header);
+  if (!canonical || (knownLocales && !knownLocales.includes(canonical))) {
+    return undefined;
+  }
+  return canonical;
+}
+
+/**
+ * Parse spreadsheet rows into import key data. Problems are collected per
+ * cell instead of stopping at the first one; rows with errors are left out.
+ * Empty locale cells mean "no translation" and are skipped.
+ * @param knownLocales - Registered locales; when given, only headers naming
+ * one of them are locale columns
+ */
+export function parseSpreadsheetRows(
+  rows: SpreadsheetRow[],
+  knownLocales?: string[],
+): SpreadsheetParseResult {
+  const errors: SpreadsheetCellError[] = [];
+  const keys: ParsedKey[] = [];
+
+  const headerRowIndex = rows.findIndex((row) => row.some((cell) => cell?.trim()));
+  if (headerRowIndex === -1) {
+    return { data: { keys }, errors: [{ cell: "A1", message: "Missing header row" }] };
+  }
+  const header = rows[headerRowIndex];
+
+  const metadataColumns = new Map<MetadataColumn, number>();
+  const localeColumns: Array<{ locale: string; index: number }> = [];
+
+  header.forEach((rawHeader, index) => {
+    const name = (rawHeader ?? "").trim().toLowerCase();
+    const metadata = METADATA_COLUMNS.find((column) => column === name);
+    const locale = normalizeLocaleHeader(name, knownLocales);
+
+    if (metadata) {
+      metadataColumns.set(metadata, index);
+    } else if (locale) {
+      if (localeColumns.some((column) => column.locale === locale)) {
+        errors.push({
+          cell: cellReference(headerRowIndex, index),
+          message: `Duplicate column for locale "${locale}"`,
+        });
+      } else {
+        localeColumns.push({ locale, index });
+      }
+    }
+  });
+
+  const keyColumn = metadataColumns.get("key");
+  if (keyColumn === undefined) {
+    errors.push({
+      cell: cellReference(headerRowIndex, header.length),
+      message: 'Missing "key" column',
+    });
+    return { data: { keys }, errors };
+  }
+  if (localeColumns.length === 0) {
+    errors.push({
+      cell: cellReference(headerRowIndex, header.length),
+      message:
+        "No locale columns found; expected locale tag headers such as en, fr, pt-BR",
+    });
+  }
+
+  // Keys without an id are told apart by namespace and key name
+  const seenKeys = new Map<string, string>();
+
+  for (let rowIndex = headerRowIndex + 1; rowIndex < rows.length; rowIndex++) {
+    const row = rows[rowIndex];
+    if (!row.some((cell) => cell?.trim())) continue;
+
+    const read = (column: MetadataColumn) => {
+      const index = metadataColumns.get(column);
+      return index === undefined ? "" : (row[index] ?? "").trim();
+    };
+    const rowErrors: SpreadsheetCellError[] = [];
+
+    const keyName = read("key");
+    if (!keyName) {
+      rowErrors.push({
+        cell: cellReference(rowIndex, keyColumn),
+        message: "Key name is required",
+      });
+    }
+
+    const status = read("status") || "draft";
+    if (!(translationStatusEnum as readonly string[]).includes(status)) {
+      rowErrors.push({
+        cell: cellReference(rowIndex, metadataColumns.get("status")!),
+        message: `Unknown status "${status}"; expected ${translationStatusEnum.join(", ")}`,
+      });
+    }
+
+    const maxLength = read("max_length");
+    if (maxLength && !/^[1-9]\d*$/.test(maxLength)) {
+      rowErrors.push({
+        cell: cellReference(rowIndex, metadataColumns.get("max_length")!),
+        message: `Max length "${maxLength}" must be a positive whole number`,
+      });
+    }
+
+    const namespaceId = read("namespace") || undefined;
+    const id = read("id") || undefined;
+    const seenKey = id ?? (namespaceId ? `${namespaceId}/${keyName}` : keyName);
+    const firstCell = seenKeys.get(seenKey);
+    if (keyName && firstCell) {
+      rowErrors.push({
+        cell: cellReference(rowIndex, metadataColumns.get("id") ?? keyColumn),
+        message: `Key "${seenKey}" already appears at ${firstCell}`,
+      });
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      continue;
+    }
+    seenKeys.set(
+      seenKey,
+      cellReference(rowIndex, metadataColumns.get("id") ?? keyColumn),
+    );
+
+    keys.push({
+      id,
+      keyName,
+      namespaceId,
+      description: read("comment") || undefined,
+      context: read("context") || undefined,
+      maxLength: maxLength ? Number(maxLength) : undefined,
+      screenshots: read("screenshots")
+        .split("\n")
+        .map((screenshot) => screenshot.trim())
+        .filter(Boolean),
+      tags: read("tags")
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      status,
+      translations: localeColumns
+        .filter(({ index }) => (row[index] ?? "") !== "")
+        .map(({ locale, index }) => ({
+          locale,
+          value: row[index],
+          status: "active",
+        })),
+    });
+  }
+
+  return { data: { keys }, errors };
+}
@@ -0,0 +1,300 @@
+import {
+  DEFAULT_PLURAL_ARGUMENT,
+  formatIcuPlural,
+  PLURAL_CATEGORIES,
+  translationPlural,
+  type PluralCategory,
+} from "~/lib/api/formats/plurals";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * Xcode String Catalog (`.xcstrings`) serialization
+ *
+ * A catalog is a single JSON document holding every locale of a strings
+ * table. Catalog comments map to the key description and string unit states
+ * map to translation statuses. Key id, namespace, tags and versions have no
+ * catalog equivalent and travel in an `x-l10n` entry property, which Xcode
+ * ignores.
+ */
+
+export const XCSTRINGS_SOURCE_LANGUAGE = "en";
+
+export const XCSTRINGS_FILE_NAME = "Localizable.xcstrings";
+
+export type XcstringsState = "new" | "translated" | "needs_review" | "stale";
+
+type ExportKey = ExportData["data"]["keys"][number];
+
+type ParsedKey = ImportFileData["keys"][number];
+
+interface XcstringsStringUnit {
+  state?: XcstringsState;
+  value: string;
+}
+
+interface XcstringsVariations {
+  plural?: Partial<Record<PluralCategory, XcstringsVariant>>;
+  device?: Record<string, XcstringsVariant>;
+}
+
+interface XcstringsVariant {
+  stringUnit?: XcstringsStringUnit;
+  variations?: XcstringsVariations;
+}
+
+interface XcstringsLocalization extends XcstringsVariant {
+  substitutions?: Record<
+    string,
+    { argNum?: number; formatSpecifier?: string; variations?: XcstringsVariations }
+  >;
+}
+
+interface XcstringsMetadata {
+  id: string;
+  namespaceId?: string;
+  tags: string[];
+  status: string;
+  versions: Record<string, number>;
+  arguments?: Record<string, string>;
+}
+
+interface XcstringsEntry {
+  comment?: string;
+  extractionState?: string;
+  localizations?: Record<string, XcstringsLocalization>;
+  "x-l10n"?: XcstringsMetadata;
+}
+
+interface XcstringsCatalog {
+  sourceLanguage: string;
+  strings: Record<string, XcstringsEntry>;
+  version: string;
+}
+
+/**
+ * Map a translation status onto a string unit state. Drafts with a value
+ * need review; drafts without one are new.
+ */
+export function xcstringsStateFor(status: string, value: string): XcstringsState {
+  switch (status) {
+    case "active":
+      return "translated";
+    case "archived":
+      return "stale";
+    default:
+      return value ? "needs_review" : "new";
+  }
+}
+
+/**
+ * Map a string unit state onto a translation status
+ */
+export function statusFromXcstringsState(state: string | undefined): string {
+  switch (state) {
+    case "translated":
+      return "active";
+    case "stale":
+      return "archived";
+    default:
+      return "draft";
+  }
+}
+
+function localizationFor(
+  translation: ExportKey["translations"][number],
+): XcstringsLocalization {
+  const state = xcstringsStateFor(translation.status, translation.value);
+  const plural = translationPlural(translation);
+
+  if (!plural) {
+    return { stringUnit: { state, value: translation.value } };
+  }
+
+  const forms: Partial<Record<PluralCategory, XcstringsVariant>> = {};
+  for (const category of PLURAL_CATEGORIES) {
+    const form = plural.forms[category];
+    if (form !== undefined) {
+      forms[category] = { stringUnit: { state, value: form.replace(/#/g, "%lld") } };
+    }
+  }
+  return { variations: { plural: forms } };
+}
+
+/**
+ * Serialize export data as a String Catalog holding every exported locale
+ * @param sourceLanguage - Catalog development language
+ */
+export function serializeXcstrings(
+  data: ExportData,
+  sourceLanguage: string = XCSTRINGS_SOURCE_LANGUAGE,
+): string {
+  const strings: Record<string, XcstringsEntry> = {};
+
+  for (const key of [...data.data.keys].sort((a, b) =>
+    a.keyName.localeCompare(b.keyName),
+  )) {
+    const localizations: Record<string, XcstringsLocalization> = {};
+    const versions: Record<string, number> = {};
+    const pluralArguments: Record<string, string> = {};
+
+    for (const translation of key.translations) {
+      localizations[translation.locale] = localizationFor(translation);
+      if (translation.version !== undefined) {
+        versions[translation.locale] = translation.version;
+      }
+
+      const plural = translationPlural(translation);
+      if (plural && plural.argument !== DEFAULT_PLURAL_ARGUMENT) {
+        pluralArguments[translation.locale] = plural.argument;
+      }
+    }
+
+    strings[key.keyName] = {
+      ...(key.description ? { comment: key.description } : {}),
+      extractionState: key.status === "archived" ? "stale" : "manual",
+      ...(key.translations.length > 0 ? { localizations } : {}),
+      "x-l10n": {
+        id: key.id,
+        ...(key.namespaceId ? { namespaceId: key.namespaceId } : {}),
+        tags: key.tags,
+        status: key.status,
+        versions,
+        ...(Object.keys(pluralArguments).length > 0
+          ? { arguments: pluralArguments }
+          : {}),
+      },
+    };
+  }
+
+  const catalog: XcstringsCatalog = { sourceLanguage, strings, version: "1.0" };
+  return JSON.stringify(catalog, null, 2) + "\n";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Integer specifiers, plus `%arg` which substitution variants use for their argument
+function fromFormatSpecifier(value: string): string {
+  return value.replace(/%(?:l{0,2}[du]|arg)/g, "#");
+}
+
+/**
+ * Resolve a variant to a single value. Device variations collapse to their
+ * `other` variant (or the first one), since translations are device-neutral.
+ */
+function resolveVariant(
+  variant: XcstringsVariant,
+  argument: string,
+  context: string,
+): { value: string; state?: string } {
+  if (variant.stringUnit) {
+    return { value: variant.stringUnit.value ?? "", state: variant.stringUnit.state };
+  }
+
+  const device = variant.variations?.device;
+  if (device && Object.keys(device).length > 0) {
+    return resolveVariant(device.other ?? Object.values(device)[0], argument, context);
+  }
+
+  const plural = variant.variations?.plural;
+  if (plural) {
+    const forms: Partial<Record<PluralCategory, string>> = {};
+    let state: string | undefined;
+    for (const category of PLURAL_CATEGORIES) {
+      const unit = plural[category]?.stringUnit;
+      if (unit) {
+        forms[category] = fromFormatSpecifier(unit.value ?? "");
+        state = category === "other" || !state ? unit.state : state;
+      }
+    }
+    if (forms.other === undefined) {
+      throw new Error(`${context} has a plural variation without "other"`);
+    }
+    return {
+      value: formatIcuPlural({ argument, forms: { ...forms, other: forms.other } }),
+      state,
+    };
+  }
+
+  throw new Error(`${context} has neither a stringUnit nor variations`);
+}
+
+function translationFromLocalization(
+  localization: XcstringsLocalization,
+  argument: string,
+  context: string,
+): { value: string; state?: string } {
+  const resolved = resolveVariant(localization, argument, context);
+
+  // `%#@name@` tokens reference substitutions, each with its own variations
+  const value = resolved.value.replace(/%#@([A-Za-z0-9_]+)@/g, (token, name: string) => {
+    const substitution = localization.substitutions?.[name];
+    if (!substitution?.variations) return token;
+    return resolveVariant(
+      { variations: substitution.variations },
+      name,
+      `${context} substitution "${name}"`,
+    ).value;
+  });
+
+  return { value, state: resolved.state };
+}
+
+/**
+ * Parse a String Catalog into import key data
+ * @param content - `.xcstrings` JSON text
+ * @throws Error if the document is not a valid String Catalog
+ */
+export function parseXcstrings(content: string): ImportFileData {
+  let catalog: unknown;
+  try {
+    catalog = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Invalid String Catalog JSON: ${message}`);
+  }
+
+  if (!isObject(catalog) || !isObject(catalog.strings)) {
+    throw new Error("String Catalog must contain a strings object");
+  }
+
+  const keys: ParsedKey[] = [];
+
+  for (const [keyName, rawEntry] of Object.entries(catalog.strings)) {
+    if (!isObject(rawEntry)) {
+      throw new Error(`String Catalog entry "${keyName}" must be an object`);
+    }
+    const entry = rawEntry as XcstringsEntry;
+    const metadata = isObject(entry["x-l10n"]) ? entry["x-l10n"] : undefined;
+
+    const translations: ExportKey["translations"] = [];
+    for (const [locale, localization] of Object.entries(entry.localizations ?? {})) {
+      const { value, state } = translationFromLocalization(
+        localization,
+        metadata?.arguments?.[locale] ?? DEFAULT_PLURAL_ARGUMENT,
+        `String Catalog entry "${keyName}" (${locale})`,
+      );
+
+      translations.push({
+        locale,
+        value,
+        status: statusFromXcstringsState(state),
+        version: metadata?.versions?.[locale],
+      });
+    }
+
+    keys.push({
+      id: metadata?.id,
+      keyName,
+      namespaceId: metadata?.namespaceId,
+      description: entry.comment,
+      tags: metadata?.tags ?? [],
+      status:
+        metadata?.status ?? (entry.extractionState === "stale" ? "archived" : "draft"),
+      translations,
+    });
+  }
+
+  return { keys };
+}
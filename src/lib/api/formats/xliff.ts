@@ -0,0 +1,342 @@
+import { mergeImportData } from "~/lib/api/formats/files";
+import {
+  decodeXmlEntities,
+  elementAttr,
+  elementText,
+  escapeXml,
+  parseXmlDocument,
+  XML_DECLARATION,
+} from "~/lib/api/formats/xml";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * XLIFF 1.2 / 2.0 serialization for vendor translation tools
+ *
+ * Each document holds one source/target locale pair. Units are keyed by
+ * `l10nKey.id`; the key name travels in `resname` (1.2) or `name` (2.0),
+ * and key description, context, max length, tags, key status, namespace
+ * and translation version travel as `<note>`s so that files round-trip
+ * through `/api/import`. Notes without a name are read as the description.
+ */
+
+export type XliffVersion = "1.2" | "2.0";
+
+export const XLIFF_SOURCE_LOCALE = "en";
+
+export interface XliffOptions {
+  version: XliffVersion;
+  targetLocale: string;
+  sourceLocale?: string;
+}
+
+type ExportKey = ExportData["data"]["keys"][number];
+
+// Translation status <-> XLIFF 1.2 `target/@state`
+const XLIFF12_STATE_BY_STATUS: Record<string, string> = {
+  draft: "translated",
+  active: "final",
+  archived: "x-archived",
+};
+
+// Translation status <-> XLIFF 2.0 `segment/@state` (archived uses a subState)
+const XLIFF20_STATE_BY_STATUS: Record<string, string> = {
+  draft: "translated",
+  active: "final",
+  archived: "reviewed",
+};
+const XLIFF20_ARCHIVED_SUBSTATE = "tm:archived";
+
+/**
+ * Build the note entries carried by every unit
+ */
+function unitNotes(key: ExportKey, version?: number): Array<[string, string]> {
+  const notes: Array<[string, string]> = [];
+  if (key.description) {
+    notes.push(["description", key.description]);
+  }
+  if (key.context) {
+    notes.push(["context", key.context]);
+  }
+  if (key.maxLength) {
+    notes.push(["maxLength", String(key.maxLength)]);
+  }
+  notes.push(["tags", key.tags.join(",")], ["status", key.status]);
+  if (key.namespaceId) {
+    notes.push(["namespace", key.namespaceId]);
+  }
+  if (version !== undefined) {
+    notes.push(["version", String(version)]);
+  }
+  return notes;
+}
+
+function findTranslation(key: ExportKey, locale: string) {
+  return key.translations.find((t) => t.locale === locale);
+}
+
+function serializeXliff12(
+  data: ExportData,
+  sourceLocale: string,
+  targetLocale: string,
+): string {
+  const lines = [
+    XML_DECLARATION,
+    `<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">`,
+    `  <file original="${escapeXml(data.service)}" source-language="${escapeXml(sourceLocale)}" target-language="${escapeXml(targetLocale)}" datatype="plaintext">`,
+    `    <body>`,
+  ];
+
+  for (const key of data.data.keys) {
+    const source = findTranslation(key, sourceLocale);
+    const target = findTranslation(key, targetLocale);
+
+    lines.push(
+      `      <trans-unit id="${escapeXml(key.id)}" resname="${escapeXml(key.keyName)}">`,
+      `        <source>${escapeXml(source?.value ?? "")}</source>`,
+    );
+    if (target) {
+      const state = XLIFF12_STATE_BY_STATUS[target.status] ?? "translated";
+      lines.push(`        <target state="${state}">${escapeXml(target.value)}</target>`);
+    }
+    for (const [from, text] of unitNotes(key, target?.version)) {
+      lines.push(`        <note from="${from}">${escapeXml(text)}</note>`);
+    }
+    lines.push(`      </trans-unit>`);
+  }
+
+  lines.push(`    </body>`, `  </file>`, `</xliff>`, "");
+  return lines.join("\n");
+}
+
+function serializeXliff20(
+  data: ExportData,
+  sourceLocale: string,
+  targetLocale: string,
+): string {
+  const lines = [
+    XML_DECLARATION,
+    `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${escapeXml(sourceLocale)}" trgLang="${escapeXml(targetLocale)}">`,
+    `  <file id="${escapeXml(data.service)}">`,
+  ];
+
+  for (const key of data.data.keys) {
+    const source = findTranslation(key, sourceLocale);
+    const target = findTranslation(key, targetLocale);
+
+    lines.push(
+      `    <unit id="${escapeXml(key.id)}" name="${escapeXml(key.keyName)}">`,
+      `      <notes>`,
+    );
+    for (const [category, text] of unitNotes(key, target?.version)) {
+      lines.push(`        <note category="${category}">${escapeXml(text)}</note>`);
+    }
+    lines.push(`      </notes>`);
+
+    if (target) {
+      const state = XLIFF20_STATE_BY_STATUS[target.status] ?? "translated";
+      const subState =
+        target.status === "archived" ? ` subState="${XLIFF20_ARCHIVED_SUBSTATE}"` : "";
+      lines.push(
+        `      <segment state="${state}"${subState}>`,
+        `        <source>${escapeXml(source?.value ?? "")}</source>`,
+        `        <target>${escapeXml(target.value)}</target>`,
+        `      </segment>`,
+      );
+    } else {
+      lines.push(
+        `      <segment state="initial">`,
+        `        <source>${escapeXml(source?.value ?? "")}</source>`,
+        `      </segment>`,
+      );
+    }
+    lines.push(`    </unit>`);
+  }
+
+  lines.push(`  </file>`, `</xliff>`, "");
+  return lines.join("\n");
+}
+
+/**
+ * Serialize export data as an XLIFF document for one target locale
+ * @param data - Export data; must include the source locale translations
+ * @param options - XLIFF version and locale pair
+ * @returns XLIFF document text
+ */
+export function serializeXliff(data: ExportData, options: XliffOptions): string {
+  const sourceLocale = options.sourceLocale ?? XLIFF_SOURCE_LOCALE;
+
+  return options.version === "1.2"
+    ? serializeXliff12(data, sourceLocale, options.targetLocale)
+    : serializeXliff20(data, sourceLocale, options.targetLocale);
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Read notes by name; notes without one are joined under the empty name
+ */
+function readNotes(notes: unknown[], attribute: string): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const note of notes) {
+    const name = elementAttr(note, attribute) ?? "";
+    const text = elementText(note);
+    result.set(name, name === "" && result.has("") ? `${result.get("")}\n${text}` : text);
+  }
+  return result;
+}
+
+function keyFromNotes(
+  id: string,
+  keyName: string,
+  notes: Map<string, string>,
+): ExportKey {
+  const tags = (notes.get("tags") ?? "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+  const maxLength = Number(notes.get("maxLength"));
+
+  return {
+    id,
+    keyName,
+    namespaceId: notes.get("namespace") || undefined,
+    description: notes.get("description") || notes.get("") || undefined,
+    context: notes.get("context") || undefined,
+    maxLength: Number.isInteger(maxLength) && maxLength > 0 ? maxLength : undefined,
+    tags,
+    status: notes.get("status") || "draft",
+    translations: [],
+  };
+}
+
+function parseVersion(notes: Map<string, string>): number | undefined {
+  const version = Number(notes.get("version"));
+  return Number.isInteger(version) && version > 0 ? version : undefined;
+}
+
+/**
+ * Collect trans-units from a 1.2 body, descending into nested groups
+ */
+function collectTransUnits(container: Record<string, unknown>): unknown[] {
+  const units = [...asArray(container["trans-unit"] as unknown[])];
+  for (const group of asArray(container.group as Record<string, unknown>[])) {
+    units.push(...collectTransUnits(group));
+  }
+  return units;
+}
+
+function parseXliff12(root: Record<string, unknown>): ExportData["data"] {
+  const keys: ExportKey[] = [];
+
+  for (const file of asArray(root.file as Record<string, unknown>[])) {
+    const targetLocale = elementAttr(file, "target-language");
+    const body = (file.body ?? {}) as Record<string, unknown>;
+
+    for (const unit of collectTransUnits(body)) {
+      const unitObj = unit as Record<string, unknown>;
+      const id = elementAttr(unit, "id");
+      if (!id) {
+        throw new Error("XLIFF trans-unit is missing its id attribute");
+      }
+
+      const notes = readNotes(asArray(unitObj.note as unknown[]), "from");
+      const key = keyFromNotes(id, elementAttr(unit, "resname") ?? id, notes);
+
+      if (unitObj.target !== undefined && targetLocale) {
+        const state = elementAttr(unitObj.target, "state");
+        key.translations.push({
+          locale: targetLocale,
+          value: decodeXmlEntities(elementText(unitObj.target)),
+          status:
+            state === "final" || state === "signed-off"
+              ? "active"
+              : state === "x-archived"
+                ? "archived"
+                : "draft",
+          version: parseVersion(notes),
+        });
+      }
+
+      keys.push(key);
+    }
+  }
+
+  return { keys };
+}
+
+function parseXliff20(root: Record<string, unknown>): ExportData["data"] {
+  const keys: ExportKey[] = [];
+  const targetLocale = elementAttr(root, "trgLang");
+
+  for (const file of asArray(root.file as Record<string, unknown>[])) {
+    for (const unit of asArray(file.unit as Record<string, unknown>[])) {
+      const id = elementAttr(unit, "id");
+      if (!id) {
+        throw new Error("XLIFF unit is missing its id attribute");
+      }
+
+      const notesContainer = (unit.notes ?? {}) as Record<string, unknown>;
+      const notes = readNotes(asArray(notesContainer.note as unknown[]), "category");
+      const key = keyFromNotes(id, elementAttr(unit, "name") ?? id, notes);
+
+      const segments = asArray(unit.segment as Record<string, unknown>[]);
+      const withTarget = segments.filter((segment) => segment.target !== undefined);
+
+      if (withTarget.length > 0 && targetLocale) {
+        const state = elementAttr(withTarget[0], "state");
+        const subState = elementAttr(withTarget[0], "subState");
+        key.translations.push({
+          locale: targetLocale,
+          // Multi-segment units are joined back into a single value
+          value: withTarget
+            .map((segment) => decodeXmlEntities(elementText(segment.target)))
+            .join(""),
+          status:
+            subState === XLIFF20_ARCHIVED_SUBSTATE
+              ? "archived"
+              : state === "final"
+                ? "active"
+                : "draft",
+          version: parseVersion(notes),
+        });
+      }
+
+      keys.push(key);
+    }
+  }
+
+  return { keys };
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.0 document into import key data.
+ * Only target text is imported; source text is informational.
+ * @param content - XLIFF document text
+ * @throws Error if the document is malformed or not XLIFF 1.2/2.x
+ */
+export function parseXliff(content: string): ImportFileData {
+  const document = parseXmlDocument(content, {
+    arrayElements: ["file", "group", "trans-unit", "unit", "segment", "note"],
+    stopNodes: ["*.source", "*.target"],
+  });
+
+  const root = document.xliff as Record<string, unknown> | undefined;
+  if (!root || typeof root !== "object") {
+    throw new Error("Document root is not an <xliff> element");
+  }
+
+  // A key may appear once per <file>, so merge units by id across files
+  const version = elementAttr(root, "version");
+  if (version === "1.2") {
+    return mergeImportData([parseXliff12(root)]);
+  }
+  if (version?.startsWith("2.")) {
+    return mergeImportData([parseXliff20(root)]);
+  }
+
+  throw new Error(`Unsupported XLIFF version: ${version ?? "unknown"}`);
+}
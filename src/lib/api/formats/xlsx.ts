@@ -0,0 +1,209 @@
+import { toText, unzipFiles, zipFiles, type FileBytes } from "~/lib/api/formats/files";
+import {
+  cellReference,
+  columnIndex,
+  type SpreadsheetRow,
+} from "~/lib/api/formats/spreadsheet";
+import {
+  elementAttr,
+  elementText,
+  escapeXmlText,
+  parseXmlDocument,
+  XML_DECLARATION,
+} from "~/lib/api/formats/xml";
+
+/**
+ * Minimal Office Open XML workbook (`.xlsx`) support for spreadsheet rows
+ *
+ * Export writes a single worksheet of inline strings with a frozen header
+ * row. Import reads the first worksheet of any workbook, resolving shared
+ * strings, inline strings, and numeric or boolean cells as text.
+ */
+
+const SHEET_NAME = "Translations";
+
+const MAIN_NAMESPACE = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIP_NAMESPACE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIP_NAMESPACE =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+
+// Characters XML 1.0 cannot carry; OOXML escapes them as `_xHHHH_`
+const INVALID_XML_CHARS = /[^\t\n\r -\uFFFF]/g;
+
+function escapeCellText(value: string): string {
+  return escapeXmlText(
+    value
+      .replace(/_x[0-9A-Fa-f]{4}_/g, (match) => `_x005F${match}`)
+      .replace(
+        INVALID_XML_CHARS,
+        (char) => `_x${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}_`,
+      ),
+  );
+}
+
+function unescapeCellText(value: string): string {
+  return value.replace(/_x([0-9A-Fa-f]{4})_/g, (_, code: string) =>
+    String.fromCharCode(parseInt(code, 16)),
+  );
+}
+
+/**
+ * Serialize rows as a single-sheet XLSX workbook
+ */
+export function serializeXlsx(rows: SpreadsheetRow[]): FileBytes {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row
+      .map((value, columnIndex) =>
+        value === ""
+          ? ""
+          : `<c r="${cellReference(rowIndex, columnIndex)}" t="inlineStr"><is><t xml:space="preserve">${escapeCellText(value)}</t></is></c>`,
+      )
+      .join("");
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  });
+
+  const files = [
+    {
+      path: "[Content_Types].xml",
+      content: `${XML_DECLARATION}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    },
+    {
+      path: "_rels/.rels",
+      content: `${XML_DECLARATION}
+<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}"><Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      path: "xl/workbook.xml",
+      content: `${XML_DECLARATION}
+<workbook xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}"><sheets><sheet name="${SHEET_NAME}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      path: "xl/_rels/workbook.xml.rels",
+      content: `${XML_DECLARATION}
+<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}"><Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    },
+    {
+      path: "xl/worksheets/sheet1.xml",
+      content: `${XML_DECLARATION}
+<worksheet xmlns="${MAIN_NAMESPACE}"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${sheetRows.join("")}</sheetData></worksheet>`,
+    },
+  ];
+
+  return zipFiles(files);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Concatenate the `<t>` runs of a shared or inline string
+ */
+function richText(node: unknown): string {
+  if (!node || typeof node !== "object") return "";
+  const element = node as Record<string, unknown>;
+  const runs = [
+    element.t,
+    ...asArray(element.r).map((run) => (run as Record<string, unknown>)?.t),
+  ];
+  return unescapeCellText(
+    runs
+      .filter((run) => run !== undefined)
+      .map(elementText)
+      .join(""),
+  );
+}
+
+/**
+ * Resolve a workbook part path relative to the `xl/` directory
+ */
+function resolvePartPath(target: string): string {
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook into rows of cell text
+ * @throws Error if the archive is not a readable workbook
+ */
+export function parseXlsx(bytes: FileBytes): SpreadsheetRow[] {
+  const parts = new Map(unzipFiles(bytes).map((file) => [file.path, file.content]));
+  const readPart = (path: string) => {
+    const content = parts.get(path);
+    if (content === undefined) {
+      throw new Error(`Workbook is missing ${path}`);
+    }
+    return parseXmlDocument(toText(content), {
+      arrayElements: ["sheet", "Relationship", "si", "r", "row", "c"],
+    });
+  };
+
+  const workbook = readPart("xl/workbook.xml").workbook as Record<string, unknown>;
+  const firstSheet = asArray((workbook?.sheets as Record<string, unknown>)?.sheet)[0];
+  const relationshipId = elementAttr(firstSheet, "id");
+  if (!relationshipId) {
+    throw new Error("Workbook has no worksheets");
+  }
+
+  const relationships = asArray(
+    (readPart("xl/_rels/workbook.xml.rels").Relationships as Record<string, unknown>)
+      ?.Relationship,
+  );
+  const target = elementAttr(
+    relationships.find(
+      (relationship) => elementAttr(relationship, "Id") === relationshipId,
+    ),
+    "Target",
+  );
+  if (!target) {
+    throw new Error(`Workbook relationship ${relationshipId} not found`);
+  }
+
+  const sharedStrings = parts.has("xl/sharedStrings.xml")
+    ? asArray((readPart("xl/sharedStrings.xml").sst as Record<string, unknown>)?.si).map(
+        richText,
+      )
+    : [];
+
+  const worksheet = readPart(resolvePartPath(target)).worksheet as Record<
+    string,
+    unknown
+  >;
+  const sheetData = worksheet?.sheetData as Record<string, unknown> | undefined;
+  const rows: SpreadsheetRow[] = [];
+
+  asArray(sheetData?.row).forEach((rowNode, position) => {
+    const rowNumber = Number(elementAttr(rowNode, "r") ?? position + 1);
+    const row: SpreadsheetRow = [];
+
+    asArray((rowNode as Record<string, unknown>).c).forEach((cellNode, cellPosition) => {
+      const cell = cellNode as Record<string, unknown>;
+      const reference = elementAttr(cell, "r");
+      const column = reference
+        ? columnIndex(reference.replace(/\d+$/, ""))
+        : cellPosition;
+      const type = elementAttr(cell, "t");
+      const value = elementText(cell.v);
+
+      switch (type) {
+        case "s":
+          row[column] = sharedStrings[Number(value)] ?? "";
+          break;
+        case "inlineStr":
+          row[column] = richText(cell.is);
+          break;
+        case "b":
+          row[column] = value === "1" ? "TRUE" : "FALSE";
+          break;
+        default:
+          row[column] = unescapeCellText(value);
+      }
+    });
+
+    rows[rowNumber - 1] = Array.from(row, (value) => value ?? "");
+  });
+
+  return Array.from(rows, (row) => row ?? []);
+}
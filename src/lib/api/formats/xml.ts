@@ -0,0 +1,138 @@
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+
+/**
+ * Shared XML helpers for the XML-based file formats
+ */
+
+export const XML_DECLARATION = `<?xml version="1.0" encoding="UTF-8"?>`;
+
+/**
+ * Escape text for use in XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Escape text for use in XML element content only, leaving quotes as-is
+ */
+export function escapeXmlText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, entity) => {
+    switch (entity) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity.startsWith("#x")
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10),
+        );
+    }
+  });
+}
+
+/**
+ * A node of an order-preserving parse: either `{ "#text": string }` or
+ * `{ [tagName]: children, ":@"?: attributes }`
+ */
+export type OrderedXmlNode = Record<string, unknown>;
+
+function assertWellFormed(content: string) {
+  const validation = XMLValidator.validate(content);
+  if (validation !== true) {
+    throw new Error(
+      `Malformed XML at line ${validation.err.line}: ${validation.err.msg}`,
+    );
+  }
+}
+
+/**
+ * Parse an XML document keeping sibling order, for formats such as plist
+ * where meaning depends on element sequence
+ * @throws Error if the document is not well-formed
+ */
+export function parseXmlOrdered(content: string): OrderedXmlNode[] {
+  assertWellFormed(content);
+
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: false,
+    preserveOrder: true,
+  });
+
+  return parser.parse(content) as OrderedXmlNode[];
+}
+
+/**
+ * Parse an XML document into a plain object tree.
+ * Attributes are prefixed with `@_`, element text is kept verbatim, and
+ * elements listed in `stopNodes` keep their raw inner markup as `#text`.
+ * @throws Error if the document is not well-formed
+ */
+export function parseXmlDocument(
+  content: string,
+  options: { arrayElements: string[]; stopNodes?: string[] },
+): Record<string, unknown> {
+  assertWellFormed(content);
+
+  const arrayElements = new Set(options.arrayElements);
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: false,
+    removeNSPrefix: true,
+    stopNodes: options.stopNodes ?? [],
+    isArray: (name) => arrayElements.has(name),
+  });
+
+  return parser.parse(content) as Record<string, unknown>;
+}
+
+/**
+ * Read the text content of a parsed element, which may be a bare string
+ * or an object carrying attributes alongside `#text`
+ */
+export function elementText(node: unknown): string {
+  if (node === undefined || node === null) return "";
+  if (typeof node === "string") return node;
+  if (typeof node === "object" && "#text" in node) {
+    return String((node as { "#text": unknown })["#text"]);
+  }
+  return "";
+}
+
+/**
+ * Read an attribute from a parsed element
+ */
+export function elementAttr(node: unknown, name: string): string | undefined {
+  if (node && typeof node === "object") {
+    const value = (node as Record<string, unknown>)[`@_${name}`];
+    return typeof value === "string" ? value : undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,149 @@
+import { parseDocument, stringify, visit } from "yaml";
+import { mergeImportData } from "~/lib/api/formats/files";
+import {
+  combinePluralEntries,
+  expandPluralEntries,
+  findKeyCollisions,
+  findPluralCollisions,
+  flattenNested,
+  nestEntries,
+} from "~/lib/api/formats/nested";
+import {
+  DEFAULT_PLURAL_ARGUMENT,
+  PLURAL_CATEGORIES,
+  type PluralCategory,
+} from "~/lib/api/formats/plurals";
+import type { ExportData, ImportFileData } from "~/lib/api/import-export-types";
+
+/**
+ * Rails i18n YAML (`config/locales/<locale>.yml`) serialization
+ *
+ * Keys are nested under the locale as the root key, e.g. `checkout.title`
+ * -> `fr: { checkout: { title: ... } }`. Top-level ICU plurals become a hash
+ * of CLDR categories with `%{count}` in place of `#`, which is how the
+ * Rails I18n backend pluralizes.
+ */
+
+export const RAILS_YAML_SEPARATOR = ".";
+
+type ParsedKey = ImportFileData["keys"][number];
+
+const COUNT_PLACEHOLDER = `%{${DEFAULT_PLURAL_ARGUMENT}}`;
+
+/**
+ * Path of the Rails locale file for a locale, e.g. `config/locales/fr.yml`
+ */
+export function railsYamlPath(locale: string): string {
+  return `config/locales/${locale}.yml`;
+}
+
+/**
+ * Serialize one locale of export data as a Rails locale file. Output is
+ * YAML 1.1 compatible, so Ruby's parser keeps values such as `no` as strings.
+ * @throws Error listing the colliding keys if the key names do not nest
+ */
+export function serializeRailsYaml(
+  data: ExportData,
+  locale: string,
+  separator: string = RAILS_YAML_SEPARATOR,
+): string {
+  const entries: Array<[string, string]> = [];
+
+  for (const key of data.data.keys) {
+    const translation = key.translations.find((t) => t.locale === locale);
+    if (!translation) continue;
+
+    entries.push(
+      ...expandPluralEntries(
+        key.keyName,
+        translation,
+        (keyName, category) => `${keyName}${separator}${category}`,
+        COUNT_PLACEHOLDER,
+      ),
+    );
+  }
+
+  return stringify(
+    { [locale]: nestEntries(entries, separator) },
+    { version: "1.1", lineWidth: 0 },
+  );
+}
+
+/**
+ * Parse a Rails locale file into import key data. Every root key is a
+ * locale, so one file may hold several locales. Hashes with an `other`
+ * category are combined into one ICU plural; `~` values are skipped.
+ * Numbers and booleans are read as the text they were written as.
+ * @param content - YAML text
+ * @param separator - Separator used to join nested key segments
+ * @throws Error on invalid YAML, non-string values or colliding keys
+ */
+export function parseRailsYaml(
+  content: string,
+  separator: string = RAILS_YAML_SEPARATOR,
+): ImportFileData {
+  const document = parseDocument(content, { merge: true });
+  if (document.errors.length > 0) {
+    throw new Error(`Invalid YAML: ${document.errors[0].message.split("\n")[0]}`);
+  }
+
+  visit(document, {
+    Scalar(key, node) {
+      if (key !== "key" && node.value !== null && typeof node.value !== "string") {
+        node.value = node.source;
+      }
+    },
+  });
+
+  const root: unknown = document.toJS();
+  if (typeof root !== "object" || root === null || Array.isArray(root)) {
+    throw new Error("Rails locale files must have locales as top-level keys");
+  }
+
+  const pluralSuffix = new RegExp(
+    `^(.+)${separator.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(${PLURAL_CATEGORIES.join("|")})$`,
+  );
+
+  const parts = Object.entries(root).map(([rawLocale, resources]) => {
+    const locale = rawLocale.replace(/_/g, "-");
+    if (typeof resources !== "object" || resources === null || Array.isArray(resources)) {
+      throw new Error(`Locale "${rawLocale}" must contain a hash of keys`);
+    }
+
+    const flat = flattenNested(resources as Record<string, unknown>, separator);
+    const splitPluralKey = (keyName: string): [string, PluralCategory] | undefined => {
+      const match = pluralSuffix.exec(keyName);
+      return match ? [match[1], match[2] as PluralCategory] : undefined;
+    };
+    const entries = combinePluralEntries(
+      flat,
+      splitPluralKey,
+      new RegExp(`%\\{\\s*${DEFAULT_PLURAL_ARGUMENT}\\s*\\}`, "g"),
+      DEFAULT_PLURAL_ARGUMENT,
+    );
+
+    const collisions = [
+      ...findPluralCollisions(
+        flat.map(([keyName]) => keyName),
+        splitPluralKey,
+      ),
+      ...findKeyCollisions(
+        entries.map(([keyName]) => keyName),
+        separator,
+      ),
+    ];
+    if (collisions.length > 0) {
+      throw new Error(`Conflicting keys in "${rawLocale}": ${collisions.join("; ")}`);
+    }
+
+    const keys: ParsedKey[] = entries.map(([keyName, value]) => ({
+      keyName,
+      tags: [],
+      status: "draft",
+      translations: [{ locale, value, status: "active" }],
+    }));
+    return { keys };
+  });
+
+  return mergeImportData(parts);
+}
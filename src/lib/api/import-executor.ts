@@ -0,0 +1,835 @@
+import { and, eq, inArray } from "drizzle-orm";
+
+import type { IcuPlural } from "~/lib/api/formats/plurals";
+import type { ImportPayload } from "~/lib/api/import-export-types";
+import type { ResolvedImportData } from "~/lib/api/import-keys";
+import {
+  resolveKeyUpdate,
+  resolveTranslationUpdate,
+  type ImportSkipReason,
+} from "~/lib/api/import-strategy";
+import { storedChecksum, translationChecksum } from "~/lib/api/translation-checksum";
+import { nextImportedVersion } from "~/lib/api/translation-version";
+import type { TranslationValidation } from "~/lib/api/validation/translations";
+import type { ValidationIssue } from "~/lib/api/validation/validator";
+import { db } from "~/lib/db";
+import { event, l10nKey, translation } from "~/lib/db/schema";
+
+/**
+ * Import dry-run reports and execution shared by `/api/import` and import
+ * jobs
+ *
+ * Both work on payloads whose keys have been resolved to ids. A job passes
+ * its payload one chunk at a time along with the ids of the whole payload,
+ * so a sync only removes keys missing from all of it.
+ */
+
+export interface DiffReport {
+  summary: {
+    keysToCreate: number;
+    keysToUpdate: number;
+    translationsToCreate: number;
+    translationsToUpdate: number;
+    keysSkipped: number;
+    translationsSkipped: number;
+    keysToArchive: number;
+    keysToDelete: number;
+  };
+  changes: Array<{
+    type:
+      | "create_key"
+      | "update_key"
+      | "create_translation"
+      | "update_translation"
+      | "archive_key"
+      | "delete_key";
+    keyId: string;
+    keyName: string;
+    locale?: string;
+    before?: unknown;
+    after: unknown;
+    // Validation findings for the translation written
+    issues?: ValidationIssue[];
+  }>;
+  // Updates the import strategy keeps from being applied
+  skipped: Array<{
+    type: "update_key" | "update_translation";
+    keyId: string;
+    keyName: string;
+    locale?: string;
+    reason: ImportSkipReason;
+    message: string;
+    before: unknown;
+    after: unknown;
+  }>;
+}
+
+// Options controlling how the payload is merged into existing keys
+export type ImportOptions = Pick<
+  ImportPayload,
+  "strategy" | "mode" | "deleteMissing" | "namespaceId"
+>;
+
+export interface ImportResult {
+  // Existing keys and translations the strategy kept
+  skipped: { keys: number; translations: number };
+  // Keys a sync archived or deleted
+  archived: number;
+  deleted: number;
+}
+
+/**
+ * Combine the reports of several payload chunks into one
+ */
+export function mergeDiffReports(reports: DiffReport[]): DiffReport {
+  return {
+    summary: {
+      keysToCreate: sumOf(reports, (report) => report.summary.keysToCreate),
+      keysToUpdate: sumOf(reports, (report) => report.summary.keysToUpdate),
+      translationsToCreate: sumOf(
+        reports,
+        (report) => report.summary.translationsToCreate,
+      ),
+      translationsToUpdate: sumOf(
+        reports,
+        (report) => report.summary.translationsToUpdate,
+      ),
+      keysSkipped: sumOf(reports, (report) => report.summary.keysSkipped),
+      translationsSkipped: sumOf(reports, (report) => report.summary.translationsSkipped),
+      keysToArchive: sumOf(reports, (report) => report.summary.keysToArchive),
+      keysToDelete: sumOf(reports, (report) => report.summary.keysToDelete),
+    },
+    changes: reports.flatMap((report) => report.changes),
+    skipped: reports.flatMap((report) => report.skipped),
+  };
+}
+
+/**
+ * Attach validation findings to the translation changes they concern
+ */
+export function attachValidationIssues(
+  report: DiffReport,
+  validation: TranslationValidation[],
+): DiffReport {
+  if (validation.length === 0) return report;
+
+  const issuesByTranslation = new Map(
+    validation.map((result) => [`${result.keyId}:${result.locale}`, result.issues]),
+  );
+
+  return {
+    ...report,
+    changes: report.changes.map((change) => {
+      const issues =
+        change.type === "create_translation" || change.type === "update_translation"
+          ? issuesByTranslation.get(`${change.keyId}:${change.locale}`)
+          : undefined;
+      return issues ? { ...change, issues } : change;
+    }),
+  };
+}
+
+function sumOf<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((sum, item) => sum + value(item), 0);
+}
+
+/**
+ * Existing keys a sync import removes: keys of the service, or of the given
+ * namespace, that are missing from the payload
+ */
+function findMissingKeys<K extends { id: string; namespaceId: string | null }>(
+  existingKeys: K[],
+  importedIds: Set<string>,
+  namespaceId: string | undefined,
+): K[] {
+  return existingKeys.filter(
+    (key) =>
+      !importedIds.has(key.id) &&
+      (namespaceId === undefined || key.namespaceId === namespaceId),
+  );
+}
+
+export type ImportTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Key ids per query when loading keys by id
+const KEY_LOAD_BATCH_SIZE = 1000;
+
+/**
+ * Existing keys of the service that the import touches, with their
+ * translations: the keys of importData and, for a sync, the missing keys.
+ * Only the ids of the other keys of the service are read.
+ */
+async function loadExistingKeys(
+  queryDb: typeof db | ImportTransaction,
+  serviceId: string,
+  importData: ResolvedImportData,
+  options: ImportOptions,
+  importedIds: Set<string>,
+) {
+  const ids = importData.keys.map((key) => key.id);
+
+  if (options.mode === "sync") {
+    const serviceKeys = await queryDb
+      .select({ id: l10nKey.id, namespaceId: l10nKey.namespaceId })
+      .from(l10nKey)
+      .where(eq(l10nKey.serviceId, serviceId));
+    ids.push(
+      ...findMissingKeys(serviceKeys, importedIds, options.namespaceId).map(
+        (key) => key.id,
+      ),
+    );
+  }
+
+  const keys = [];
+  for (let start = 0; start < ids.length; start += KEY_LOAD_BATCH_SIZE) {
+    keys.push(
+      ...(await queryDb.query.l10nKey.findMany({
+        where: and(
+          eq(l10nKey.serviceId, serviceId),
+          inArray(l10nKey.id, ids.slice(start, start + KEY_LOAD_BATCH_SIZE)),
+        ),
+        with: {
+          translations: true,
+        },
+      })),
+    );
+  }
+
+  return keys;
+}
+
+/**
+ * Whether an import changes a key; omitted metadata is no change
+ */
+function keyChanged(
+  existing: typeof l10nKey.$inferSelect,
+  imported: ResolvedImportData["keys"][number],
+): boolean {
+  return (
+    existing.keyName !== imported.keyName ||
+    existing.namespaceId !== imported.namespaceId ||
+    (imported.description !== undefined &&
+      existing.description !== imported.description) ||
+    (imported.context !== undefined && existing.context !== imported.context) ||
+    (imported.maxLength !== undefined && existing.maxLength !== imported.maxLength) ||
+    (imported.screenshots !== undefined &&
+      JSON.stringify(existing.screenshots) !== JSON.stringify(imported.screenshots)) ||
+    JSON.stringify(existing.tags) !== JSON.stringify(imported.tags) ||
+    existing.status !== imported.status
+  );
+}
+
+/**
+ * Plural forms a translation has after an import: the payload's forms, or
+ * the stored forms when a plain value equals their ICU rendering
+ */
+function importedPlurals(
+  existing: { value: string | null; plurals: IcuPlural | null },
+  imported: { value: string; plurals?: IcuPlural },
+): IcuPlural | null {
+  if (imported.plurals) return imported.plurals;
+  return imported.value === existing.value ? existing.plurals : null;
+}
+
+/**
+ * Whether an import changes a translation; unchanged rows share the stored
+ * checksum, and an older or missing payload version alone is no change
+ */
+function translationChanged(
+  existing: {
+    locale: string;
+    value: string | null;
+    plurals: IcuPlural | null;
+    status: string;
+    version: number;
+    checksum: string | null;
+  },
+  imported: ResolvedImportData["keys"][number]["translations"][number],
+): boolean {
+  return (
+    storedChecksum(existing) !== translationChecksum(imported) ||
+    (imported.version !== undefined && imported.version > existing.version) ||
+    (importedPlurals(existing, imported) === null) !== (existing.plurals === null)
+  );
+}
+
+/**
+ * Generate diff report for dry-run mode
+ * @param importedIds Ids of every payload key, when importData is one chunk
+ */
+export async function generateDiffReport(
+  serviceId: string,
+  importData: ResolvedImportData,
+  options: ImportOptions,
+  importedIds: Set<string> = new Set(importData.keys.map((key) => key.id)),
+): Promise<DiffReport> {
+  const { strategy } = options;
+  const changes: DiffReport["changes"] = [];
+  const skipped: DiffReport["skipped"] = [];
+  let keysToCreate = 0;
+  let keysToUpdate = 0;
+  let translationsToCreate = 0;
+  let translationsToUpdate = 0;
+  let keysToArchive = 0;
+  let keysToDelete = 0;
+
+  const existingKeys = await loadExistingKeys(
+    db,
+    serviceId,
+    importData,
+    options,
+    importedIds,
+  );
+
+  const existingKeyMap = new Map(existingKeys.map((key) => [key.id, key]));
+
+  for (const keyData of importData.keys) {
+    const existingKey = existingKeyMap.get(keyData.id);
+
+    if (!existingKey) {
+      // Key doesn't exist - will be created
+      keysToCreate++;
+      changes.push({
+        type: "create_key",
+        keyId: keyData.id,
+        keyName: keyData.keyName,
+        after: {
+          keyName: keyData.keyName,
+          namespaceId: keyData.namespaceId,
+          description: keyData.description,
+          context: keyData.context,
+          maxLength: keyData.maxLength,
+          screenshots: keyData.screenshots,
+          tags: keyData.tags,
+          status: keyData.status,
+        },
+      });
+
+      // All translations for new key will be created
+      translationsToCreate += keyData.translations.length;
+      for (const translation of keyData.translations) {
+        changes.push({
+          type: "create_translation",
+          keyId: keyData.id,
+          keyName: keyData.keyName,
+          locale: translation.locale,
+          after: {
+            locale: translation.locale,
+            value: translation.value,
+            plurals: translation.plurals,
+            status: translation.status,
+            version: translation.version ?? 1,
+          },
+        });
+      }
+    } else {
+      // Key exists - check for updates
+      if (keyChanged(existingKey, keyData)) {
+        const change = {
+          type: "update_key" as const,
+          keyId: keyData.id,
+          keyName: keyData.keyName,
+          before: {
+            keyName: existingKey.keyName,
+            namespaceId: existingKey.namespaceId,
+            description: existingKey.description,
+            context: existingKey.context,
+            maxLength: existingKey.maxLength,
+            screenshots: existingKey.screenshots,
+            tags: existingKey.tags,
+            status: existingKey.status,
+          },
+          after: {
+            keyName: keyData.keyName,
+            namespaceId: keyData.namespaceId,
+            description: keyData.description,
+            context: keyData.context,
+            maxLength: keyData.maxLength,
+            screenshots: keyData.screenshots,
+            tags: keyData.tags,
+            status: keyData.status,
+          },
+        };
+        const resolution = resolveKeyUpdate(strategy);
+
+        if (resolution.action === "update") {
+          keysToUpdate++;
+          changes.push(change);
+        } else {
+          skipped.push({
+            ...change,
+            reason: resolution.reason,
+            message: resolution.message,
+          });
+        }
+      }
+
+      // Check translations
+      const existingTranslationMap = new Map(
+        existingKey.translations.map((t) => [t.locale, t]),
+      );
+
+      for (const translationData of keyData.translations) {
+        const existingTranslation = existingTranslationMap.get(translationData.locale);
+
+        if (!existingTranslation) {
+          translationsToCreate++;
+          changes.push({
+            type: "create_translation",
+            keyId: keyData.id,
+            keyName: keyData.keyName,
+            locale: translationData.locale,
+            after: {
+              locale: translationData.locale,
+              value: translationData.value,
+              plurals: translationData.plurals,
+              status: translationData.status,
+              version: translationData.version ?? 1,
+            },
+          });
+        } else {
+          // Translation exists - check for updates
+          if (translationChanged(existingTranslation, translationData)) {
+            const change = {
+              type: "update_translation" as const,
+              keyId: keyData.id,
+              keyName: keyData.keyName,
+              locale: translationData.locale,
+              before: {
+                locale: existingTranslation.locale,
+                value: existingTranslation.value,
+                plurals: existingTranslation.plurals ?? undefined,
+                status: existingTranslation.status,
+                version: existingTranslation.version,
+              },
+              after: {
+                locale: translationData.locale,
+                value: translationData.value,
+                plurals:
+                  importedPlurals(existingTranslation, translationData) ?? undefined,
+                status: translationData.status,
+                version: nextImportedVersion(
+                  existingTranslation.version,
+                  translationData.version,
+                ),
+              },
+            };
+            const resolution = resolveTranslationUpdate(
+              strategy,
+              existingTranslation,
+              translationData,
+            );
+
+            if (resolution.action === "update") {
+              translationsToUpdate++;
+              changes.push(change);
+            } else {
+              skipped.push({
+                ...change,
+                reason: resolution.reason,
+                message: resolution.message,
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  if (options.mode === "sync") {
+    for (const missingKey of findMissingKeys(
+      existingKeys,
+      importedIds,
+      options.namespaceId,
+    )) {
+      const before = {
+        keyName: missingKey.keyName,
+        namespaceId: missingKey.namespaceId,
+        description: missingKey.description,
+        context: missingKey.context,
+        maxLength: missingKey.maxLength,
+        screenshots: missingKey.screenshots,
+        tags: missingKey.tags,
+        status: missingKey.status,
+      };
+
+      if (options.deleteMissing) {
+        keysToDelete++;
+        changes.push({
+          type: "delete_key",
+          keyId: missingKey.id,
+          keyName: missingKey.keyName,
+          before,
+          after: null,
+        });
+      } else if (missingKey.status !== "archived") {
+        keysToArchive++;
+        changes.push({
+          type: "archive_key",
+          keyId: missingKey.id,
+          keyName: missingKey.keyName,
+          before,
+          after: { ...before, status: "archived" },
+        });
+      }
+    }
+  }
+
+  return {
+    summary: {
+      keysToCreate,
+      keysToUpdate,
+      translationsToCreate,
+      translationsToUpdate,
+      keysSkipped: skipped.filter((change) => change.type === "update_key").length,
+      translationsSkipped: skipped.filter(
+        (change) => change.type === "update_translation",
+      ).length,
+      keysToArchive,
+      keysToDelete,
+    },
+    changes,
+    skipped,
+  };
+}
+
+/**
+ * Execute import with database transaction
+ * @param batchId Id stamped on every event of the import, used to revert it
+ * @param importedIds Ids of every payload key, when importData is one chunk
+ * @param onApplied Runs in the import transaction once every change is
+ * written, e.g. to record progress atomically with the changes
+ * @returns Numbers of existing keys and translations the strategy kept, and
+ * of keys a sync archived or deleted
+ */
+export async function executeImport(
+  serviceId: string,
+  importData: ResolvedImportData,
+  userId: string,
+  batchId: string,
+  options: ImportOptions,
+  importedIds: Set<string> = new Set(importData.keys.map((key) => key.id)),
+  onApplied?: (tx: ImportTransaction, result: ImportResult) => Promise<void>,
+): Promise<ImportResult> {
+  const { strategy } = options;
+  const skipped = { keys: 0, translations: 0 };
+  let archived = 0;
+  let deleted = 0;
+
+  await db.transaction(async (tx) => {
+    const existingKeys = await loadExistingKeys(
+      tx,
+      serviceId,
+      importData,
+      options,
+      importedIds,
+    );
+
+    const existingKeyMap = new Map(existingKeys.map((key) => [key.id, key]));
+
+    for (const keyData of importData.keys) {
+      const existingKey = existingKeyMap.get(keyData.id);
+
+      if (!existingKey) {
+        // Create new key
+        await tx.insert(l10nKey).values({
+          id: keyData.id,
+          serviceId,
+          keyName: keyData.keyName,
+          namespaceId: keyData.namespaceId ?? null,
+          description: keyData.description ?? null,
+          context: keyData.context ?? null,
+          maxLength: keyData.maxLength ?? null,
+          screenshots: keyData.screenshots ?? [],
+          tags: keyData.tags,
+          status: keyData.status,
+        });
+
+        // Log key creation event
+        await tx.insert(event).values({
+          id: crypto.randomUUID(),
+          actor: userId,
+          batchId,
+          action: "create",
+          entityType: "l10n_key",
+          entityId: keyData.id,
+          before: null,
+          after: {
+            keyName: keyData.keyName,
+            serviceId,
+            namespaceId: keyData.namespaceId,
+            description: keyData.description,
+            context: keyData.context,
+            maxLength: keyData.maxLength,
+            screenshots: keyData.screenshots,
+            tags: keyData.tags,
+            status: keyData.status,
+          },
+        });
+
+        // Create translations for new key
+        for (const translationData of keyData.translations) {
+          const translationId = crypto.randomUUID();
+          await tx.insert(translation).values({
+            id: translationId,
+            keyId: keyData.id,
+            locale: translationData.locale,
+            value: translationData.value,
+            plurals: translationData.plurals ?? null,
+            status: translationData.status,
+            version: translationData.version ?? 1,
+            checksum: translationChecksum(translationData),
+          });
+
+          // Log translation creation event
+          await tx.insert(event).values({
+            id: crypto.randomUUID(),
+            actor: userId,
+            batchId,
+            action: "create",
+            entityType: "translation",
+            entityId: translationId,
+            before: null,
+            after: {
+              keyId: keyData.id,
+              locale: translationData.locale,
+              value: translationData.value,
+              plurals: translationData.plurals ?? null,
+              status: translationData.status,
+              version: translationData.version ?? 1,
+            },
+          });
+        }
+      } else {
+        // Update existing key if changed
+        const changed = keyChanged(existingKey, keyData);
+
+        if (changed && resolveKeyUpdate(strategy).action === "skip") {
+          skipped.keys++;
+        } else if (changed) {
+          const beforeState = {
+            keyName: existingKey.keyName,
+            namespaceId: existingKey.namespaceId,
+            description: existingKey.description,
+            context: existingKey.context,
+            maxLength: existingKey.maxLength,
+            screenshots: existingKey.screenshots,
+            tags: existingKey.tags,
+            status: existingKey.status,
+          };
+
+          await tx
+            .update(l10nKey)
+            .set({
+              keyName: keyData.keyName,
+              namespaceId: keyData.namespaceId,
+              description: keyData.description,
+              context: keyData.context,
+              maxLength: keyData.maxLength,
+              screenshots: keyData.screenshots,
+              tags: keyData.tags,
+              status: keyData.status,
+            })
+            .where(eq(l10nKey.id, keyData.id));
+
+          // Log key update event
+          await tx.insert(event).values({
+            id: crypto.randomUUID(),
+            actor: userId,
+            batchId,
+            action: "update",
+            entityType: "l10n_key",
+            entityId: keyData.id,
+            before: beforeState,
+            after: {
+              keyName: keyData.keyName,
+              namespaceId: keyData.namespaceId,
+              description: keyData.description,
+              context: keyData.context,
+              maxLength: keyData.maxLength,
+              screenshots: keyData.screenshots,
+              tags: keyData.tags,
+              status: keyData.status,
+            },
+          });
+        }
+
+        // Handle translations
+        const existingTranslationMap = new Map(
+          existingKey.translations.map((t) => [t.locale, t]),
+        );
+
+        for (const translationData of keyData.translations) {
+          const existingTranslation = existingTranslationMap.get(translationData.locale);
+
+          if (!existingTranslation) {
+            // Create new translation
+            const translationId = crypto.randomUUID();
+            await tx.insert(translation).values({
+              id: translationId,
+              keyId: keyData.id,
+              locale: translationData.locale,
+              value: translationData.value,
+              plurals: translationData.plurals ?? null,
+              status: translationData.status,
+              version: translationData.version ?? 1,
+              checksum: translationChecksum(translationData),
+            });
+
+            // Log translation creation event
+            await tx.insert(event).values({
+              id: crypto.randomUUID(),
+              actor: userId,
+              batchId,
+              action: "create",
+              entityType: "translation",
+              entityId: translationId,
+              before: null,
+              after: {
+                keyId: keyData.id,
+                locale: translationData.locale,
+                value: translationData.value,
+                plurals: translationData.plurals ?? null,
+                status: translationData.status,
+                version: translationData.version ?? 1,
+              },
+            });
+          } else {
+            // Update existing translation if changed
+            const changed = translationChanged(existingTranslation, translationData);
+
+            if (
+              changed &&
+              resolveTranslationUpdate(strategy, existingTranslation, translationData)
+                .action === "skip"
+            ) {
+              skipped.translations++;
+            } else if (changed) {
+              const beforeState = {
+                locale: existingTranslation.locale,
+                value: existingTranslation.value,
+                plurals: existingTranslation.plurals,
+                status: existingTranslation.status,
+                version: existingTranslation.version,
+              };
+              const plurals = importedPlurals(existingTranslation, translationData);
+              const version = nextImportedVersion(
+                existingTranslation.version,
+                translationData.version,
+              );
+
+              await tx
+                .update(translation)
+                .set({
+                  value: translationData.value,
+                  plurals,
+                  status: translationData.status,
+                  version,
+                  checksum: translationChecksum(translationData),
+                })
+                .where(eq(translation.id, existingTranslation.id));
+
+              // Log translation update event
+              await tx.insert(event).values({
+                id: crypto.randomUUID(),
+                actor: userId,
+                batchId,
+                action: "update",
+                entityType: "translation",
+                entityId: existingTranslation.id,
+                before: beforeState,
+                after: {
+                  locale: translationData.locale,
+                  value: translationData.value,
+                  plurals,
+                  status: translationData.status,
+                  version,
+                },
+              });
+            }
+          }
+        }
+      }
+    }
+
+    if (options.mode === "sync") {
+      for (const missingKey of findMissingKeys(
+        existingKeys,
+        importedIds,
+        options.namespaceId,
+      )) {
+        const beforeState = {
+          keyName: missingKey.keyName,
+          namespaceId: missingKey.namespaceId,
+          description: missingKey.description,
+          context: missingKey.context,
+          maxLength: missingKey.maxLength,
+          screenshots: missingKey.screenshots,
+          tags: missingKey.tags,
+          status: missingKey.status,
+        };
+
+        if (options.deleteMissing) {
+          // Translations are removed by the cascade; their events keep them
+          // restorable when the import is reverted
+          await tx.delete(l10nKey).where(eq(l10nKey.id, missingKey.id));
+          deleted++;
+
+          for (const missingTranslation of missingKey.translations) {
+            await tx.insert(event).values({
+              id: crypto.randomUUID(),
+              actor: userId,
+              batchId,
+              action: "delete",
+              entityType: "translation",
+              entityId: missingTranslation.id,
+              before: {
+                keyId: missingKey.id,
+                locale: missingTranslation.locale,
+                value: missingTranslation.value,
+                plurals: missingTranslation.plurals,
+                status: missingTranslation.status,
+                version: missingTranslation.version,
+              },
+              after: null,
+            });
+          }
+
+          // Log key deletion event
+          await tx.insert(event).values({
+            id: crypto.randomUUID(),
+            actor: userId,
+            batchId,
+            action: "delete",
+            entityType: "l10n_key",
+            entityId: missingKey.id,
+            before: beforeState,
+            after: null,
+          });
+        } else if (missingKey.status !== "archived") {
+          await tx
+            .update(l10nKey)
+            .set({ status: "archived" })
+            .where(eq(l10nKey.id, missingKey.id));
+          archived++;
+
+          // Log key archival event
+          await tx.insert(event).values({
+            id: crypto.randomUUID(),
+            actor: userId,
+            batchId,
+            action: "update",
+            entityType: "l10n_key",
+            entityId: missingKey.id,
+            before: beforeState,
+            after: { ...beforeState, status: "archived" },
+          });
+        }
+      }
+    }
+
+    await onApplied?.(tx, { skipped, archived, deleted });
+  });
+
+  return { skipped, archived, deleted };
+}
@@ -1,52 +1,132 @@
 import { z } from "zod";
 
-export const supportedLocales = [
-  "en",
-  "es",
-  "fr",
-  "de",
-  "it",
-  "pt",
-  "ru",
-  "ja",
-  "ko",
-  "zh",
-  "ar",
-  "hi",
-] as const;
-
-export type SupportedLocale = (typeof supportedLocales)[number];
+import {
+  DEFAULT_PLURAL_ARGUMENT,
+  formatIcuPlural,
+  type IcuPlural,
+} from "~/lib/api/formats/plurals";
+import { localeTagSchema } from "~/lib/api/locales";
 
 export const translationStatusEnum = ["draft", "active", "archived"] as const;
 
 export type TranslationStatus = (typeof translationStatusEnum)[number];
 
-export const importPayloadSchema = z.object({
-  dryRun: z.boolean().default(false),
-  service: z.string().min(1),
-  data: z.object({
-    keys: z.array(
-      z.object({
-        id: z.string().min(1),
-        keyName: z.string().min(1),
-        namespaceId: z.string().optional(),
-        tags: z.array(z.string()).default([]),
-        status: z.enum(translationStatusEnum).default("draft"),
-        translations: z
-          .array(
-            z.object({
-              locale: z.enum(supportedLocales),
-              value: z.string(),
-              status: z.enum(translationStatusEnum).default("draft"),
-              version: z.number().int().positive().default(1),
-            }),
-          )
-          .default([]),
-      }),
-    ),
+// How an import treats keys and translations that already exist
+export const importStrategies = [
+  // Replace anything that differs from the payload
+  "overwrite",
+  // Only create missing translations and fill existing ones without a value
+  "fillMissing",
+  // Only create what does not exist yet
+  "skipExisting",
+  // Replace translations only with a higher version
+  "higherVersionWins",
+] as const;
+
+export type ImportStrategy = (typeof importStrategies)[number];
+
+// `sync` also removes keys that are missing from the payload
+export const importModes = ["merge", "sync"] as const;
+
+export type ImportMode = (typeof importModes)[number];
+
+// How payload keys are matched to existing keys: by id, or by key name
+// within the service and namespace for files that carry no ids
+export const importMatchModes = ["id", "keyName"] as const;
+
+export type ImportMatchBy = (typeof importMatchModes)[number];
+
+// Reference to a screenshot showing a key's string: a URL or storage path
+export const screenshotRefSchema = z.string().trim().min(1).max(2048);
+
+// Plural forms per CLDR category; the ICU argument the forms are selected by
+export const translationPluralsSchema = z.object({
+  argument: z
+    .string()
+    .regex(/^[\p{L}\p{N}_]+$/u, "Invalid plural argument name")
+    .default(DEFAULT_PLURAL_ARGUMENT),
+  forms: z.strictObject({
+    zero: z.string().optional(),
+    one: z.string().optional(),
+    two: z.string().optional(),
+    few: z.string().optional(),
+    many: z.string().optional(),
+    other: z.string(),
   }),
 });
 
+export const importPayloadSchema = z
+  .object({
+    dryRun: z.boolean().default(false),
+    service: z.string().min(1),
+    strategy: z.enum(importStrategies).default("overwrite"),
+    mode: z.enum(importModes).default("merge"),
+    // Sync deletes missing keys instead of archiving them
+    deleteMissing: z.boolean().default(false),
+    // Sync only removes missing keys of this namespace
+    namespaceId: z.string().min(1).optional(),
+    matchBy: z.enum(importMatchModes).default("id"),
+    data: z.object({
+      keys: z.array(
+        z.object({
+          // Ignored when matching by key name; new keys get generated ids
+          id: z.string().min(1).optional(),
+          keyName: z.string().min(1),
+          namespaceId: z.string().optional(),
+          // Omitted metadata leaves the stored metadata unchanged
+          description: z.string().optional(),
+          context: z.string().optional(),
+          maxLength: z.number().int().positive().optional(),
+          screenshots: z.array(screenshotRefSchema).optional(),
+          tags: z.array(z.string()).default([]),
+          status: z.enum(translationStatusEnum).default("draft"),
+          translations: z
+            .array(
+              z
+                .object({
+                  locale: localeTagSchema,
+                  // Derived from the plural forms when they are given
+                  value: z.string().optional(),
+                  plurals: translationPluralsSchema.optional(),
+                  status: z.enum(translationStatusEnum).default("draft"),
+                  // Left out by formats that carry no versions; such
+                  // translations are never behind the stored version
+                  version: z.number().int().positive().optional(),
+                  // Set on values an export filled in from another locale
+                  fallbackLocale: localeTagSchema.optional(),
+                })
+                .refine((t) => t.value !== undefined || t.plurals !== undefined, {
+                  message: "A translation needs a value or plural forms",
+                  path: ["value"],
+                })
+                .transform(({ value, ...t }) => ({
+                  ...t,
+                  value: t.plurals ? formatIcuPlural(t.plurals) : value!,
+                })),
+            )
+            // Filled-in values are not the locale's own, so they are skipped
+            .transform((translations) =>
+              translations.filter((t) => t.fallbackLocale === undefined),
+            )
+            .default([]),
+        }),
+      ),
+    }),
+  })
+  .superRefine((payload, ctx) => {
+    if (payload.matchBy !== "id") return;
+
+    payload.data.keys.forEach((key, index) => {
+      if (key.id === undefined) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["data", "keys", index, "id"],
+          message: 'Key id is required unless matchBy is "keyName"',
+        });
+      }
+    });
+  });
+
 export type ImportPayload = z.infer<typeof importPayloadSchema>;
 
 export interface ExportData {
@@ -58,14 +138,42 @@ export interface ExportData {
       id: string;
       keyName: string;
       namespaceId?: string;
+      description?: string;
+      context?: string;
+      maxLength?: number;
+      screenshots?: string[];
       tags: string[];
       status: string;
       translations: Array<{
         locale: string;
         value: string;
         status: string;
-        version: number;
+        // Absent in files of formats that carry no versions
+        version?: number;
+        // Checksum of the stored translation; ignored on import
+        checksum?: string;
+        // Plural forms of translations written as forms
+        plurals?: IcuPlural;
+        // Locale the value was filled in from by a `fallback=true` export
+        fallbackLocale?: string;
       }>;
     }>;
   };
 }
+
+// Key data parsed from an uploaded file; files that carry no key ids leave
+// them out, and their keys are matched by key name
+export interface ImportFileData {
+  keys: Array<Omit<ExportData["data"]["keys"][number], "id"> & { id?: string }>;
+}
+
+// Query parameters of both JSON and file imports
+export const importRequestQuerySchema = z.object({
+  // Queue the import as a job instead of running it within the request
+  async: z.stringbool().default(false),
+});
+
+// Request body for reverting an import batch
+export const importRevertPayloadSchema = z.object({
+  dryRun: z.boolean().default(false),
+});
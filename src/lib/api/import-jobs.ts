@@ -0,0 +1,335 @@
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+
+import {
+  attachValidationIssues,
+  executeImport,
+  generateDiffReport,
+  mergeDiffReports,
+  type DiffReport,
+  type ImportOptions,
+  type ImportResult,
+  type ImportTransaction,
+} from "~/lib/api/import-executor";
+import type { ResolvedImportData } from "~/lib/api/import-keys";
+import type { TranslationValidation } from "~/lib/api/validation/translations";
+import { db } from "~/lib/db";
+import { event, importJob, importJobStatusEnum } from "~/lib/db/schema";
+
+/**
+ * Asynchronous import jobs backed by the `import_job` table
+ *
+ * A job stores the resolved payload and is processed in chunks of keys,
+ * each applied in its own transaction, so large imports do not have to fit
+ * in one request or one transaction. Progress and the diff report are saved
+ * in the transaction of every chunk, so a job resumes after its last applied
+ * chunk. A failed job keeps the chunks applied before the failure; its
+ * errors name the keys of the chunk that failed. The job id is the batch id
+ * of the events its chunks write.
+ *
+ * No worker outlives a request: requests advance a job for a bounded time
+ * and queue it again when the time is up. A running job whose heartbeat is
+ * older than the lease lost its worker and is claimed again.
+ */
+
+export const IMPORT_JOB_CHUNK_SIZE = 200;
+
+// A running job is taken over once its heartbeat is this old
+export const IMPORT_JOB_LEASE_MS = 60_000;
+
+// Time a request spends on a job before responding
+export const IMPORT_JOB_TIME_BUDGET_MS = 5_000;
+
+type ImportJobStatus = (typeof importJobStatusEnum.enumValues)[number];
+
+export interface ImportJobPayload {
+  service: string;
+  options: ImportOptions;
+  data: ResolvedImportData;
+  // Validation findings of the payload, attached to the diff report
+  validation?: TranslationValidation[];
+}
+
+export interface ImportJobError {
+  message: string;
+  // Range of payload keys in the chunk that failed
+  keys: { from: number; to: number };
+}
+
+interface ImportJobClaim {
+  jobId: string;
+  claimId: string;
+}
+
+// Thrown when another worker claimed the job, rolling back the chunk
+class JobTakenOver extends Error {}
+
+const emptyResult: ImportResult = {
+  skipped: { keys: 0, translations: 0 },
+  archived: 0,
+  deleted: 0,
+};
+
+/**
+ * Queue an import of a resolved payload
+ * @returns Id of the queued job
+ */
+export async function createImportJob(job: {
+  serviceId: string;
+  actor: string;
+  dryRun: boolean;
+  payload: ImportJobPayload;
+}): Promise<string> {
+  const id = crypto.randomUUID();
+
+  await db.insert(importJob).values({
+    id,
+    serviceId: job.serviceId,
+    actor: job.actor,
+    dryRun: job.dryRun,
+    payload: job.payload,
+    totalKeys: job.payload.data.keys.length,
+  });
+
+  return id;
+}
+
+/**
+ * Update a job the claim still holds and renew its heartbeat
+ */
+async function saveJobProgress(
+  queryDb: typeof db | ImportTransaction,
+  claim: ImportJobClaim,
+  values: Partial<typeof importJob.$inferInsert>,
+): Promise<void> {
+  // Locks the job until the transaction of a chunk ends
+  const [current] = await queryDb
+    .select({ claimId: importJob.claimId })
+    .from(importJob)
+    .where(eq(importJob.id, claim.jobId))
+    .for("update");
+
+  if (current?.claimId !== claim.claimId) {
+    throw new JobTakenOver(`Import job ${claim.jobId} was claimed by another worker`);
+  }
+
+  await queryDb
+    .update(importJob)
+    .set({ ...values, heartbeatAt: new Date() })
+    .where(eq(importJob.id, claim.jobId));
+}
+
+/**
+ * Process the remaining chunks of a claimed job and record its outcome
+ * @param deadline Time after which no further chunk is started; the job is
+ * then queued again
+ * @returns Status of the job afterwards, or undefined if another worker
+ * took it over
+ */
+export async function processImportJob(
+  claim: ImportJobClaim,
+  chunkSize: number = IMPORT_JOB_CHUNK_SIZE,
+  deadline: number = Infinity,
+): Promise<ImportJobStatus | undefined> {
+  const job = await db.query.importJob.findFirst({
+    where: eq(importJob.id, claim.jobId),
+  });
+  if (!job) return undefined;
+
+  const { service, options, data, validation = [] } = job.payload as ImportJobPayload;
+  const importedIds = new Set(data.keys.map((key) => key.id));
+  let report = (job.report as DiffReport | null) ?? mergeDiffReports([]);
+  let result = (job.result as ImportResult | null) ?? emptyResult;
+  let offset = job.processedKeys;
+  let end = offset;
+
+  try {
+    // Runs at least once so a sync of an empty payload still removes keys
+    do {
+      const chunk = { keys: data.keys.slice(offset, offset + chunkSize) };
+      end = offset + chunk.keys.length;
+      const last = end >= data.keys.length;
+      // Missing keys are only known once the whole payload is seen
+      const chunkOptions: ImportOptions = last ? options : { ...options, mode: "merge" };
+
+      report = mergeDiffReports([
+        report,
+        attachValidationIssues(
+          await generateDiffReport(job.serviceId, chunk, chunkOptions, importedIds),
+          validation,
+        ),
+      ]);
+
+      // Saved with the chunk's changes, so no chunk is applied twice
+      const finishChunk = async (
+        queryDb: typeof db | ImportTransaction,
+        applied?: ImportResult,
+      ) => {
+        if (applied) {
+          result = {
+            skipped: {
+              keys: result.skipped.keys + applied.skipped.keys,
+              translations: result.skipped.translations + applied.skipped.translations,
+            },
+            archived: result.archived + applied.archived,
+            deleted: result.deleted + applied.deleted,
+          };
+        }
+
+        await saveJobProgress(queryDb, claim, {
+          processedKeys: end,
+          report,
+          result: job.dryRun ? null : result,
+          ...(last && { status: "succeeded" as const, finishedAt: new Date() }),
+        });
+
+        if (last && !job.dryRun) {
+          // Log import operation
+          await queryDb.insert(event).values({
+            id: crypto.randomUUID(),
+            actor: job.actor,
+            batchId: job.id,
+            action: "import",
+            entityType: "service",
+            entityId: job.serviceId,
+            before: null,
+            after: {
+              service,
+              strategy: options.strategy,
+              mode: options.mode,
+              jobId: job.id,
+              keysCount: data.keys.length,
+              translationsCount: data.keys.reduce(
+                (sum, key) => sum + key.translations.length,
+                0,
+              ),
+            },
+          });
+        }
+      };
+
+      if (job.dryRun) {
+        await finishChunk(db);
+      } else {
+        await executeImport(
+          job.serviceId,
+          chunk,
+          job.actor,
+          job.id,
+          chunkOptions,
+          importedIds,
+          finishChunk,
+        );
+      }
+
+      offset = end;
+    } while (offset < data.keys.length && Date.now() < deadline);
+
+    if (offset < data.keys.length) {
+      await saveJobProgress(db, claim, { status: "queued" });
+      return "queued";
+    }
+
+    return "succeeded";
+  } catch (error) {
+    if (error instanceof JobTakenOver) return undefined;
+
+    console.error("Import job failed:", error);
+
+    const jobError: ImportJobError = {
+      message: error instanceof Error ? error.message : "Unknown error",
+      keys: { from: offset, to: end },
+    };
+
+    await db
+      .update(importJob)
+      .set({
+        status: "failed",
+        finishedAt: new Date(),
+        errors: [...(job.errors as ImportJobError[]), jobError],
+      })
+      .where(and(eq(importJob.id, job.id), eq(importJob.claimId, claim.claimId)));
+
+    return "failed";
+  }
+}
+
+/**
+ * Claim the oldest queued job, or running job whose heartbeat is stale;
+ * concurrent workers never claim the same one
+ * @param jobId Only claim this job
+ * @returns Claim of the job, or undefined if none can be claimed
+ */
+async function claimImportJob(jobId?: string): Promise<ImportJobClaim | undefined> {
+  const staleBefore = new Date(Date.now() - IMPORT_JOB_LEASE_MS);
+
+  return db.transaction(async (tx) => {
+    const [next] = await tx
+      .select({ id: importJob.id, startedAt: importJob.startedAt })
+      .from(importJob)
+      .where(
+        and(
+          jobId === undefined ? undefined : eq(importJob.id, jobId),
+          or(
+            eq(importJob.status, "queued"),
+            and(
+              eq(importJob.status, "running"),
+              or(isNull(importJob.heartbeatAt), lt(importJob.heartbeatAt, staleBefore)),
+            ),
+          ),
+        ),
+      )
+      .orderBy(importJob.createdAt)
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    if (!next) return undefined;
+
+    const claimId = crypto.randomUUID();
+    await tx
+      .update(importJob)
+      .set({
+        status: "running",
+        claimId,
+        heartbeatAt: new Date(),
+        startedAt: next.startedAt ?? new Date(),
+      })
+      .where(eq(importJob.id, next.id));
+
+    return { jobId: next.id, claimId };
+  });
+}
+
+/**
+ * Process claimable jobs one at a time until none is left
+ * @returns Number of jobs processed
+ */
+export async function runQueuedImportJobs(
+  chunkSize: number = IMPORT_JOB_CHUNK_SIZE,
+): Promise<number> {
+  let processed = 0;
+
+  for (let claim = await claimImportJob(); claim; claim = await claimImportJob()) {
+    await processImportJob(claim, chunkSize);
+    processed++;
+  }
+
+  return processed;
+}
+
+/**
+ * Process a job within a request's time budget. At least one chunk is
+ * processed; a job left unfinished is queued for the next call.
+ * @returns Status of the job afterwards, or undefined if it could not be
+ * claimed, e.g. because another worker runs it
+ */
+export async function advanceImportJob(
+  jobId: string,
+  budgetMs: number = IMPORT_JOB_TIME_BUDGET_MS,
+  chunkSize: number = IMPORT_JOB_CHUNK_SIZE,
+): Promise<ImportJobStatus | undefined> {
+  const deadline = Date.now() + budgetMs;
+  const claim = await claimImportJob(jobId);
+  if (!claim) return undefined;
+
+  return processImportJob(claim, chunkSize, deadline);
+}
@@ -0,0 +1,87 @@
+import type { ImportMatchBy, ImportPayload } from "~/lib/api/import-export-types";
+
+/**
+ * Matching of import payload keys to the existing keys of a service
+ *
+ * Keys are matched by id, or by key name within their namespace for files
+ * that carry no stable ids. Key names are unique per service and namespace,
+ * so resolution also reports payloads that would break that constraint.
+ */
+
+type PayloadKey = ImportPayload["data"]["keys"][number];
+
+export type ResolvedImportKey = PayloadKey & { id: string };
+
+export interface ResolvedImportData {
+  keys: ResolvedImportKey[];
+}
+
+interface ExistingKeyRef {
+  id: string;
+  namespaceId: string | null;
+  keyName: string;
+}
+
+// Keys that would share one name in one namespace after the import; a key
+// the payload holds twice is listed with its id twice
+export interface KeyNameConflict {
+  keyName: string;
+  namespaceId: string | null;
+  keyIds: string[];
+}
+
+function keyNameSlot(namespaceId: string | null | undefined, keyName: string): string {
+  return `${namespaceId ?? ""}\0${keyName}`;
+}
+
+/**
+ * Give every payload key the id of the existing key it matches, or a new id
+ * when matching by key name finds none
+ * @param generateId Id generator for new keys
+ * @returns The payload with ids, and key name conflicts it would cause
+ */
+export function resolveImportKeys(
+  existingKeys: ExistingKeyRef[],
+  importData: ImportPayload["data"],
+  matchBy: ImportMatchBy,
+  generateId: () => string = () => crypto.randomUUID(),
+): { data: ResolvedImportData; conflicts: KeyNameConflict[] } {
+  const existingBySlot = new Map(
+    existingKeys.map((key) => [keyNameSlot(key.namespaceId, key.keyName), key]),
+  );
+
+  const keys = importData.keys.map((key): ResolvedImportKey => {
+    if (matchBy === "id") {
+      // Required by the payload schema when matching by id
+      return { ...key, id: key.id! };
+    }
+
+    const existing = existingBySlot.get(keyNameSlot(key.namespaceId, key.keyName));
+    return { ...key, id: existing?.id ?? generateId() };
+  });
+
+  // Key names after the import: payload keys take their new names and
+  // existing keys outside the payload keep theirs
+  const importedIds = new Set(keys.map((key) => key.id));
+  const keysBySlot = new Map<string, KeyNameConflict>();
+
+  for (const { id, namespaceId, keyName } of [
+    ...existingKeys.filter((key) => !importedIds.has(key.id)),
+    ...keys,
+  ]) {
+    const slot = keyNameSlot(namespaceId, keyName);
+    const entry = keysBySlot.get(slot) ?? {
+      keyName,
+      namespaceId: namespaceId ?? null,
+      keyIds: [],
+    };
+    entry.keyIds.push(id);
+    keysBySlot.set(slot, entry);
+  }
+
+  const conflicts = Array.from(keysBySlot.values()).filter(
+    (entry) => entry.keyIds.length > 1,
+  );
+
+  return { data: { keys }, conflicts };
+}
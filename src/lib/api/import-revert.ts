@@ -0,0 +1,505 @@
+import { and, asc, eq, sql } from "drizzle-orm";
+
+import type { IcuPlural } from "~/lib/api/formats/plurals";
+import { translationChecksum } from "~/lib/api/translation-checksum";
+import { db } from "~/lib/db";
+import { event, importJob, l10nKey, statusEnum, translation } from "~/lib/db/schema";
+
+/**
+ * Reverting an import from the events of its batch
+ *
+ * Every event an import writes carries its batch id. Reverting deletes the
+ * keys and translations the import created, restores the ones it deleted
+ * and puts back the `before` state of the ones it updated. An entity that
+ * no longer matches the state the import left it in was changed later; it
+ * is reported as a conflict and nothing is reverted.
+ */
+
+type State = Record<string, unknown>;
+
+type RevertEntityType = "l10n_key" | "translation";
+
+type EntityStatus = (typeof statusEnum.enumValues)[number];
+
+interface BatchEvent {
+  action: string;
+  entityType: string;
+  entityId: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface CurrentTranslation {
+  id: string;
+  keyId: string;
+  locale: string;
+  value: string | null;
+  status: string;
+  version: number;
+}
+
+interface CurrentKey {
+  id: string;
+  keyName: string;
+  namespaceId: string | null;
+  description: string | null;
+  tags: string[];
+  status: string;
+  translations: CurrentTranslation[];
+}
+
+export type RevertConflictReason =
+  | "changed_since_import"
+  | "removed_since_import"
+  | "exists_since_import";
+
+export interface RevertReport {
+  summary: {
+    keysToDelete: number;
+    keysToRestore: number;
+    keysToRevert: number;
+    translationsToDelete: number;
+    translationsToRestore: number;
+    translationsToRevert: number;
+    conflicts: number;
+  };
+  // `before` is the current state and `after` the state the revert writes
+  changes: Array<{
+    type:
+      | "delete_key"
+      | "restore_key"
+      | "revert_key"
+      | "delete_translation"
+      | "restore_translation"
+      | "revert_translation";
+    entityId: string;
+    before: State | null;
+    after: State | null;
+  }>;
+  // `expected` is the state the import left the entity in
+  conflicts: Array<{
+    entityType: RevertEntityType;
+    entityId: string;
+    reason: RevertConflictReason;
+    message: string;
+    expected: State | null;
+    current: State | null;
+  }>;
+}
+
+export interface ImportBatch {
+  batchId: string;
+  serviceId: string;
+  events: BatchEvent[];
+}
+
+// Fields an import writes; a translation's key and locale never change
+const keyFields = [
+  "keyName",
+  "namespaceId",
+  "description",
+  "context",
+  "maxLength",
+  "screenshots",
+  "tags",
+  "status",
+];
+const translationFields = ["value", "plurals", "status", "version"];
+
+function pick(state: object, fields: string[]): State {
+  return Object.fromEntries(
+    fields.map((field) => [field, (state as State)[field] ?? null]),
+  );
+}
+
+/**
+ * Whether the current state still has every field the import wrote
+ */
+function matchesImported(current: State, imported: State, fields: string[]): boolean {
+  return fields.every(
+    (field) =>
+      imported[field] === undefined ||
+      JSON.stringify(current[field] ?? null) === JSON.stringify(imported[field]),
+  );
+}
+
+// Column values of a key or translation state read back from an event
+function keyValues(state: State) {
+  return {
+    keyName: state.keyName as string,
+    namespaceId: state.namespaceId as string | null,
+    description: state.description as string | null,
+    context: (state.context as string | null | undefined) ?? null,
+    maxLength: (state.maxLength as number | null | undefined) ?? null,
+    // Events written before screenshots were stored have none
+    screenshots: (state.screenshots as string[] | null | undefined) ?? [],
+    tags: state.tags as string[],
+    status: state.status as EntityStatus,
+  };
+}
+
+function translationValues(state: State) {
+  const content = {
+    locale: state.locale as string,
+    value: state.value as string | null,
+    status: state.status as EntityStatus,
+  };
+
+  return {
+    value: content.value,
+    // Events written before plural forms were stored have none
+    plurals: (state.plurals as IcuPlural | null | undefined) ?? null,
+    status: content.status,
+    version: state.version as number,
+    checksum: translationChecksum(content),
+  };
+}
+
+function keyNameSlot(namespaceId: unknown, keyName: unknown): string {
+  return `${namespaceId ?? ""}\0${keyName}`;
+}
+
+/**
+ * Plan the revert of an import batch against the current keys of its service
+ * @param events Key and translation events of the batch, oldest first
+ * @param currentKeys Keys of the service with their translations
+ * @returns Changes the revert makes, and conflicts that prevent it
+ */
+export function planImportRevert(
+  events: BatchEvent[],
+  currentKeys: CurrentKey[],
+): RevertReport {
+  const changes: RevertReport["changes"] = [];
+  const conflicts: RevertReport["conflicts"] = [];
+
+  const keysById = new Map(currentKeys.map((key) => [key.id, key]));
+  const translationsById = new Map(
+    currentKeys.flatMap((key) => key.translations.map((t) => [t.id, t] as const)),
+  );
+  const keysBySlot = new Map(
+    currentKeys.map((key) => [keyNameSlot(key.namespaceId, key.keyName), key]),
+  );
+
+  // State before the first and after the last event of each entity
+  const entities = new Map<
+    string,
+    {
+      entityType: RevertEntityType;
+      entityId: string;
+      original: State | null;
+      imported: State | null;
+    }
+  >();
+  for (const batchEvent of events) {
+    if (batchEvent.entityType !== "l10n_key" && batchEvent.entityType !== "translation") {
+      continue;
+    }
+
+    const id = `${batchEvent.entityType}:${batchEvent.entityId}`;
+    const entity = entities.get(id) ?? {
+      entityType: batchEvent.entityType,
+      entityId: batchEvent.entityId,
+      original: (batchEvent.before as State | null) ?? null,
+      imported: null,
+    };
+    entity.imported = (batchEvent.after as State | null) ?? null;
+    entities.set(id, entity);
+  }
+
+  const createdTranslationIds = new Set(
+    Array.from(entities.values())
+      .filter((entity) => entity.entityType === "translation" && !entity.original)
+      .map((entity) => entity.entityId),
+  );
+  const restoredKeyIds = new Set(
+    Array.from(entities.values())
+      .filter((entity) => entity.entityType === "l10n_key" && !entity.imported)
+      .map((entity) => entity.entityId),
+  );
+
+  for (const { entityType, entityId, original, imported } of entities.values()) {
+    const fields = entityType === "l10n_key" ? keyFields : translationFields;
+    const currentEntity =
+      entityType === "l10n_key" ? keysById.get(entityId) : translationsById.get(entityId);
+    const current = currentEntity ? pick(currentEntity, fields) : null;
+    const conflict = (reason: RevertConflictReason, message: string) =>
+      conflicts.push({
+        entityType,
+        entityId,
+        reason,
+        message,
+        expected: imported && pick(imported, fields),
+        current,
+      });
+
+    if (imported) {
+      // Created or updated by the import
+      if (!current) {
+        conflict("removed_since_import", "Removed after the import");
+        continue;
+      }
+
+      if (!matchesImported(current, imported, fields)) {
+        conflict("changed_since_import", "Changed after the import");
+        continue;
+      }
+
+      const addedTranslations =
+        entityType === "l10n_key" && !original
+          ? keysById
+              .get(entityId)!
+              .translations.filter((t) => !createdTranslationIds.has(t.id))
+          : [];
+      if (addedTranslations.length > 0) {
+        conflict("changed_since_import", "Translations were added after the import");
+        continue;
+      }
+
+      changes.push(
+        original
+          ? {
+              type: entityType === "l10n_key" ? "revert_key" : "revert_translation",
+              entityId,
+              before: current,
+              // Versions only move forward, so clients holding the imported
+              // version see the revert as a change
+              after:
+                entityType === "l10n_key"
+                  ? pick(original, fields)
+                  : {
+                      ...pick(original, ["locale", ...fields]),
+                      version: (current.version as number) + 1,
+                    },
+            }
+          : {
+              type: entityType === "l10n_key" ? "delete_key" : "delete_translation",
+              entityId,
+              before: current,
+              after: null,
+            },
+      );
+    } else if (original) {
+      // Deleted by the import
+      if (current) {
+        conflict("exists_since_import", "Recreated after the import");
+        continue;
+      }
+
+      if (entityType === "l10n_key") {
+        if (keysBySlot.has(keyNameSlot(original.namespaceId, original.keyName))) {
+          conflict("exists_since_import", "Key name was reused after the import");
+          continue;
+        }
+      } else {
+        const key = keysById.get(original.keyId as string);
+        if (!key && !restoredKeyIds.has(original.keyId as string)) {
+          conflict("removed_since_import", "Key was removed after the import");
+          continue;
+        }
+        if (key?.translations.some((t) => t.locale === original.locale)) {
+          conflict("exists_since_import", "Locale was translated again after the import");
+          continue;
+        }
+      }
+
+      changes.push({
+        type: entityType === "l10n_key" ? "restore_key" : "restore_translation",
+        entityId,
+        before: null,
+        after:
+          entityType === "l10n_key"
+            ? pick(original, keyFields)
+            : pick(original, ["keyId", "locale", ...translationFields]),
+      });
+    }
+  }
+
+  // Keys a restored translation belongs to may themselves be in conflict
+  const restoredKeys = new Set(
+    changes.filter((change) => change.type === "restore_key").map((c) => c.entityId),
+  );
+  const plannedChanges = changes.filter((change) => {
+    if (change.type !== "restore_translation") return true;
+
+    const keyId = change.after!.keyId as string;
+    if (keysById.has(keyId) || restoredKeys.has(keyId)) return true;
+
+    conflicts.push({
+      entityType: "translation",
+      entityId: change.entityId,
+      reason: "removed_since_import",
+      message: "Key cannot be restored",
+      expected: null,
+      current: null,
+    });
+    return false;
+  });
+
+  const count = (type: RevertReport["changes"][number]["type"]) =>
+    plannedChanges.filter((change) => change.type === type).length;
+
+  return {
+    summary: {
+      keysToDelete: count("delete_key"),
+      keysToRestore: count("restore_key"),
+      keysToRevert: count("revert_key"),
+      translationsToDelete: count("delete_translation"),
+      translationsToRestore: count("restore_translation"),
+      translationsToRevert: count("revert_translation"),
+      conflicts: conflicts.length,
+    },
+    changes: plannedChanges,
+    conflicts,
+  };
+}
+
+/**
+ * Load the events of an import batch and the service it imported into
+ * @returns The batch, or undefined if no import wrote events with this id
+ */
+export async function findImportBatch(batchId: string): Promise<ImportBatch | undefined> {
+  const events = await db
+    .select()
+    .from(event)
+    .where(eq(event.batchId, batchId))
+    .orderBy(asc(event.createdAt));
+
+  // Jobs that failed part way log no import event; their id is the batch id
+  const serviceId =
+    events.find((batchEvent) => batchEvent.entityType === "service")?.entityId ??
+    (await db.query.importJob.findFirst({ where: eq(importJob.id, batchId) }))?.serviceId;
+
+  if (events.length === 0 || !serviceId) return undefined;
+
+  return { batchId, serviceId, events };
+}
+
+/**
+ * Whether a revert of the batch has already been applied
+ */
+export async function isImportBatchReverted(batch: ImportBatch): Promise<boolean> {
+  const reverts = await db
+    .select({ id: event.id })
+    .from(event)
+    .where(
+      and(
+        eq(event.action, "revert"),
+        eq(event.entityId, batch.serviceId),
+        sql`${event.after} ->> 'batchId' = ${batch.batchId}`,
+      ),
+    )
+    .limit(1);
+
+  return reverts.length > 0;
+}
+
+/**
+ * Revert an import batch in one transaction, unless it has conflicts
+ * @param dryRun Only plan the revert
+ * @returns The plan, and the batch id of the revert's own events when applied
+ */
+export async function revertImportBatch(
+  batch: ImportBatch,
+  userId: string,
+  dryRun: boolean,
+): Promise<{ report: RevertReport; revertBatchId?: string }> {
+  return db.transaction(async (tx) => {
+    const currentKeys = await tx.query.l10nKey.findMany({
+      where: eq(l10nKey.serviceId, batch.serviceId),
+      with: {
+        translations: true,
+      },
+    });
+    const report = planImportRevert(batch.events, currentKeys);
+
+    if (dryRun || report.conflicts.length > 0) {
+      return { report };
+    }
+
+    const revertBatchId = crypto.randomUUID();
+
+    // Deletes first so restored keys can take back their names
+    const order = [
+      "delete_translation",
+      "delete_key",
+      "revert_key",
+      "restore_key",
+      "restore_translation",
+      "revert_translation",
+    ];
+    const changes = [...report.changes].sort(
+      (a, b) => order.indexOf(a.type) - order.indexOf(b.type),
+    );
+
+    for (const change of changes) {
+      switch (change.type) {
+        case "delete_key":
+          await tx.delete(l10nKey).where(eq(l10nKey.id, change.entityId));
+          break;
+        case "delete_translation":
+          await tx.delete(translation).where(eq(translation.id, change.entityId));
+          break;
+        case "revert_key":
+          await tx
+            .update(l10nKey)
+            .set(keyValues(change.after!))
+            .where(eq(l10nKey.id, change.entityId));
+          break;
+        case "revert_translation":
+          await tx
+            .update(translation)
+            .set(translationValues(change.after!))
+            .where(eq(translation.id, change.entityId));
+          break;
+        case "restore_key":
+          await tx.insert(l10nKey).values({
+            id: change.entityId,
+            serviceId: batch.serviceId,
+            ...keyValues(change.after!),
+          });
+          break;
+        case "restore_translation":
+          await tx.insert(translation).values({
+            id: change.entityId,
+            keyId: change.after!.keyId as string,
+            locale: change.after!.locale as string,
+            ...translationValues(change.after!),
+          });
+          break;
+      }
+
+      // Log the revert of each entity
+      await tx.insert(event).values({
+        id: crypto.randomUUID(),
+        actor: userId,
+        batchId: revertBatchId,
+        action: change.type.startsWith("delete")
+          ? "delete"
+          : change.type.startsWith("restore")
+            ? "create"
+            : "update",
+        entityType: change.type.endsWith("_key") ? "l10n_key" : "translation",
+        entityId: change.entityId,
+        before: change.before,
+        after: change.after,
+      });
+    }
+
+    // Log revert operation
+    await tx.insert(event).values({
+      id: crypto.randomUUID(),
+      actor: userId,
+      batchId: revertBatchId,
+      action: "revert",
+      entityType: "service",
+      entityId: batch.serviceId,
+      before: null,
+      after: {
+        batchId: batch.batchId,
+        changesCount: changes.length,
+      },
+    });
+
+    return { report, revertBatchId };
+  });
+}
@@ -0,0 +1,118 @@
+import type { ImportStrategy } from "~/lib/api/import-export-types";
+
+/**
+ * Merge decisions for imports of keys and translations that already exist
+ *
+ * Creating missing keys and translations is allowed by every strategy;
+ * these helpers decide whether an existing record that differs from the
+ * payload is replaced or kept, and why it is kept. A translation version
+ * works like the expected version of an API update: payloads behind the
+ * stored version never replace it, whatever the strategy. Payloads of
+ * formats that carry no versions are never behind.
+ */
+
+export type ImportSkipReason =
+  | "key_exists"
+  | "translation_exists"
+  | "translation_has_value"
+  | "version_not_higher"
+  | "version_conflict";
+
+export type ImportResolution =
+  | { action: "update" }
+  | { action: "skip"; reason: ImportSkipReason; message: string };
+
+interface TranslationState {
+  value: string | null;
+  version: number;
+}
+
+interface IncomingTranslation {
+  value: string | null;
+  // Absent when the payload's format carries no versions
+  version?: number;
+}
+
+/**
+ * Decide whether an existing key whose metadata differs is updated. Keys
+ * carry no version, so only `overwrite` replaces their metadata.
+ */
+export function resolveKeyUpdate(strategy: ImportStrategy): ImportResolution {
+  if (strategy === "overwrite") {
+    return { action: "update" };
+  }
+
+  return {
+    action: "skip",
+    reason: "key_exists",
+    message: `Existing key metadata is kept by the ${strategy} strategy`,
+  };
+}
+
+/**
+ * Decide whether an existing translation that differs from the payload is
+ * updated
+ */
+export function resolveTranslationUpdate(
+  strategy: ImportStrategy,
+  existing: TranslationState,
+  incoming: IncomingTranslation,
+): ImportResolution {
+  const resolution = resolveByStrategy(strategy, existing, incoming);
+
+  // The translation was updated after the payload's version was exported
+  if (
+    resolution.action === "update" &&
+    incoming.version !== undefined &&
+    incoming.version < existing.version
+  ) {
+    return {
+      action: "skip",
+      reason: "version_conflict",
+      message: `Version ${incoming.version} is behind existing version ${existing.version}`,
+    };
+  }
+
+  return resolution;
+}
+
+function resolveByStrategy(
+  strategy: ImportStrategy,
+  existing: TranslationState,
+  incoming: IncomingTranslation,
+): ImportResolution {
+  switch (strategy) {
+    case "overwrite":
+      return { action: "update" };
+    case "fillMissing":
+      // Untranslated rows may exist without a value
+      return existing.value === null || existing.value === ""
+        ? { action: "update" }
+        : {
+            action: "skip",
+            reason: "translation_has_value",
+            message: "Translation already has a value",
+          };
+    case "skipExisting":
+      return {
+        action: "skip",
+        reason: "translation_exists",
+        message: "Translation already exists",
+      };
+    case "higherVersionWins":
+      if (incoming.version === undefined) {
+        return {
+          action: "skip",
+          reason: "version_not_higher",
+          message: `Payload has no version to compare with existing version ${existing.version}`,
+        };
+      }
+      return incoming.version > existing.version
+        ? { action: "update" }
+        : {
+            action: "skip",
+            reason: "version_not_higher",
+            message: `Version ${incoming.version} is not higher than existing version ${existing.version}`,
+          };
+  }
+}
@@ -0,0 +1,89 @@
+import { and, asc, eq, gt, type SQL } from "drizzle-orm";
+
+import { translationChecksum } from "~/lib/api/translation-checksum";
+import { db } from "~/lib/db";
+import { l10nKey, translation } from "~/lib/db/schema";
+
+/**
+ * Verification of stored translation checksums
+ *
+ * Translations are scanned in pages of ids so a large service is checked
+ * without loading every row at once.
+ */
+
+export const INTEGRITY_PAGE_SIZE = 1000;
+
+export interface ChecksumMismatch {
+  translationId: string;
+  keyId: string;
+  keyName: string;
+  locale: string;
+  stored: string;
+  computed: string;
+}
+
+export interface IntegrityReport {
+  checked: number;
+  // Rows written before checksums were stored
+  missing: number;
+  mismatches: ChecksumMismatch[];
+}
+
+/**
+ * Compare the stored checksum of every translation of a service with the
+ * checksum of its content
+ */
+export async function checkTranslationIntegrity(
+  serviceId: string,
+  pageSize: number = INTEGRITY_PAGE_SIZE,
+): Promise<IntegrityReport> {
+  const report: IntegrityReport = { checked: 0, missing: 0, mismatches: [] };
+  let after: string | undefined;
+
+  for (;;) {
+    const conds: SQL[] = [eq(l10nKey.serviceId, serviceId)];
+    if (after !== undefined) {
+      conds.push(gt(translation.id, after));
+    }
+
+    const rows = await db
+      .select({
+        id: translation.id,
+        keyId: translation.keyId,
+        keyName: l10nKey.keyName,
+        locale: translation.locale,
+        value: translation.value,
+        status: translation.status,
+        checksum: translation.checksum,
+      })
+      .from(translation)
+      .innerJoin(l10nKey, eq(l10nKey.id, translation.keyId))
+      .where(and(...conds))
+      .orderBy(asc(translation.id))
+      .limit(pageSize);
+
+    for (const row of rows) {
+      report.checked++;
+
+      if (row.checksum === null) {
+        report.missing++;
+        continue;
+      }
+
+      const computed = translationChecksum(row);
+      if (computed !== row.checksum) {
+        report.mismatches.push({
+          translationId: row.id,
+          keyId: row.keyId,
+          keyName: row.keyName,
+          locale: row.locale,
+          stored: row.checksum,
+          computed,
+        });
+      }
+    }
+
+    if (rows.length < pageSize) return report;
+    after = rows[rows.length - 1].id;
+  }
+}
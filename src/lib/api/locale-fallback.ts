@@ -0,0 +1,134 @@
+import type { ExportKeyPageSource } from "~/lib/api/export-stream";
+import type { ExportData } from "~/lib/api/import-export-types";
+
+/**
+ * Locale fallback chains
+ *
+ * A locale's chain lists the locales tried in order when one of its
+ * translations is missing or empty. Services may configure a chain per
+ * locale; otherwise it is the tag's parents, `pt-BR` -> `pt`, then `en`.
+ */
+
+type ExportKey = ExportData["data"]["keys"][number];
+
+// Fallback chain of each exported locale, without the locale itself
+export type FallbackChains = Map<string, string[]>;
+
+// Last locale of every default chain
+export const DEFAULT_FALLBACK_LOCALE = "en";
+
+/**
+ * Parent tags of a locale, most specific first, then the default locale,
+ * e.g. `zh-Hant-TW` -> `zh-Hant`, `zh`, `en`
+ */
+export function defaultFallbackChain(code: string): string[] {
+  const subtags = code.split("-");
+  const chain: string[] = [];
+
+  for (let length = subtags.length - 1; length > 0; length--) {
+    chain.push(subtags.slice(0, length).join("-"));
+  }
+  chain.push(DEFAULT_FALLBACK_LOCALE);
+
+  return [...new Set(chain)].filter((fallback) => fallback !== code);
+}
+
+/**
+ * Fallback chain of a locale
+ * @param configured - Chain configured for the service, or null for the default
+ */
+export function fallbackChain(code: string, configured?: string[] | null): string[] {
+  return configured ?? defaultFallbackChain(code);
+}
+
+/**
+ * Problem with a configured chain, if any
+ * @returns An error message, or undefined if the chain is valid
+ */
+export function validateFallbackChain(code: string, chain: string[]): string | undefined {
+  if (chain.includes(code)) {
+    return `Fallback chain of "${code}" cannot include the locale itself`;
+  }
+
+  const duplicate = chain.find((fallback, index) => chain.indexOf(fallback) !== index);
+  if (duplicate) {
+    return `Fallback chain of "${code}" lists "${duplicate}" more than once`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Locales to read so that the given locales can be filled from their chains
+ */
+export function fallbackReadLocales(locales: string[], chains: FallbackChains): string[] {
+  return [...new Set(locales.flatMap((code) => [code, ...(chains.get(code) ?? [])]))];
+}
+
+/**
+ * Fill the missing and empty translations of a key from the fallback chains.
+ * Filled translations name the locale their value came from in
+ * `fallbackLocale`; translations of locales outside `locales` are dropped.
+ */
+export function fillFromFallbacks(
+  key: ExportKey,
+  locales: string[],
+  chains: FallbackChains,
+): ExportKey {
+  const byLocale = new Map(
+    key.translations.filter((t) => t.value !== "").map((t) => [t.locale, t]),
+  );
+  const translations: ExportKey["translations"] = [];
+
+  for (const code of locales) {
+    const own = byLocale.get(code);
+    if (own) {
+      translations.push(own);
+      continue;
+    }
+
+    const fallbackLocale = chains.get(code)?.find((fallback) => byLocale.has(fallback));
+    if (fallbackLocale) {
+      const { value, plurals, status, version } = byLocale.get(fallbackLocale)!;
+      translations.push({
+        locale: code,
+        value,
+        ...(plurals && { plurals }),
+        status,
+        version,
+        fallbackLocale,
+      });
+    } else {
+      // Keep empty values so includeEmpty exports still list the gap
+      const empty = key.translations.find((t) => t.locale === code);
+      if (empty) translations.push(empty);
+    }
+  }
+
+  return {
+    ...key,
+    translations: translations.sort((a, b) => a.locale.localeCompare(b.locale)),
+  };
+}
+
+/**
+ * Page source filling every key of another source from the fallback chains
+ * @param includeEmpty - Keep keys left without translations
+ */
+export function fallbackKeyPages(
+  source: ExportKeyPageSource,
+  locales: string[],
+  chains: FallbackChains,
+  includeEmpty: boolean,
+): ExportKeyPageSource {
+  return async (after, limit) => {
+    const page = await source(after, limit);
+
+    return {
+      ...page,
+      keys: page.keys
+        .map((key) => fillFromFallbacks(key, locales, chains))
+        .filter((key) => includeEmpty || key.translations.length > 0),
+    };
+  };
+}
@@ -0,0 +1,124 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+
+import { fallbackChain, type FallbackChains } from "~/lib/api/locale-fallback";
+import { db } from "~/lib/db";
+import {
+  l10nKey,
+  locale as localeTbl,
+  serviceLocale,
+  translation,
+} from "~/lib/db/schema";
+
+/**
+ * Lookups in the `locale` table of registered locales and the locale
+ * settings of services
+ */
+
+/**
+ * List registered locales ordered by code
+ */
+export async function listLocales() {
+  return db.select().from(localeTbl).orderBy(asc(localeTbl.code));
+}
+
+/**
+ * CLDR plural categories of registered locales
+ * @returns Categories by locale code; unregistered codes are left out
+ */
+export async function loadPluralRules(codes: string[]): Promise<Map<string, string[]>> {
+  const unique = [...new Set(codes)];
+  if (unique.length === 0) return new Map();
+
+  const rows = await db
+    .select({ code: localeTbl.code, pluralRules: localeTbl.pluralRules })
+    .from(localeTbl)
+    .where(inArray(localeTbl.code, unique));
+
+  return new Map(rows.map((row) => [row.code, row.pluralRules]));
+}
+
+/**
+ * Locales that are not registered in the `locale` table
+ * @param codes - Canonical locale tags
+ * @returns The unregistered tags, without duplicates
+ */
+export async function findUnknownLocales(codes: string[]): Promise<string[]> {
+  const unique = [...new Set(codes)];
+  if (unique.length === 0) return [];
+
+  const known = await db
+    .select({ code: localeTbl.code })
+    .from(localeTbl)
+    .where(inArray(localeTbl.code, unique));
+  const knownCodes = new Set(known.map((row) => row.code));
+
+  return unique.filter((code) => !knownCodes.has(code));
+}
+
+/**
+ * Locales a service has translations in, ordered by code
+ */
+export async function listTranslatedLocales(serviceId: string): Promise<string[]> {
+  const rows = await db
+    .selectDistinct({ locale: translation.locale })
+    .from(translation)
+    .innerJoin(l10nKey, eq(l10nKey.id, translation.keyId))
+    .where(eq(l10nKey.serviceId, serviceId))
+    .orderBy(asc(translation.locale));
+
+  return rows.map((row) => row.locale);
+}
+
+/**
+ * Fallback chains of a service's locales, configured or default
+ */
+export async function loadFallbackChains(
+  serviceId: string,
+  locales: string[],
+): Promise<FallbackChains> {
+  const configured =
+    locales.length === 0
+      ? []
+      : await db
+          .select({ code: serviceLocale.localeCode, fallbacks: serviceLocale.fallbacks })
+          .from(serviceLocale)
+          .where(
+            and(
+              eq(serviceLocale.serviceId, serviceId),
+              inArray(serviceLocale.localeCode, locales),
+            ),
+          );
+  const byCode = new Map(configured.map((row) => [row.code, row.fallbacks]));
+
+  return new Map(locales.map((code) => [code, fallbackChain(code, byCode.get(code))]));
+}
+
+/**
+ * Locale settings of a service ordered by locale code
+ */
+export async function listServiceLocales(serviceId: string) {
+  return db
+    .select({
+      locale: serviceLocale.localeCode,
+      enabled: serviceLocale.enabled,
+      required: serviceLocale.required,
+    })
+    .from(serviceLocale)
+    .where(eq(serviceLocale.serviceId, serviceId))
+    .orderBy(asc(serviceLocale.localeCode));
+}
+
+/**
+ * Locales a service ships
+ * @returns The enabled locales, or an empty list if the service has not
+ * declared any
+ */
+export async function listEnabledLocales(serviceId: string): Promise<string[]> {
+  const rows = await db
+    .select({ locale: serviceLocale.localeCode })
+    .from(serviceLocale)
+    .where(and(eq(serviceLocale.serviceId, serviceId), eq(serviceLocale.enabled, true)))
+    .orderBy(asc(serviceLocale.localeCode));
+
+  return rows.map((row) => row.locale);
+}
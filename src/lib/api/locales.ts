@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+/**
+ * BCP-47 locale tags
+ *
+ * Locales are stored under their canonical tag (`pt-BR`, `zh-Hant`,
+ * `es-419`), so tags from requests and files are canonicalized before they
+ * are compared or looked up. Syntax is checked by the schemas below; routes
+ * then check that the locale is registered, see `locale-registry.ts`.
+ */
+
+export type TextDirection = "ltr" | "rtl";
+
+export interface LocaleDescription {
+  displayName: string;
+  direction: TextDirection;
+  // CLDR plural categories the locale uses
+  pluralRules: string[];
+}
+
+// Scripts written right to left
+const RTL_SCRIPTS = new Set([
+  "Adlm",
+  "Arab",
+  "Hebr",
+  "Mand",
+  "Mend",
+  "Nkoo",
+  "Rohg",
+  "Samr",
+  "Syrc",
+  "Thaa",
+]);
+
+/**
+ * Canonical form of a BCP-47 tag; underscores as in `pt_BR` are accepted.
+ * Only ISO 639 language subtags (two or three letters) are allowed, which
+ * keeps words such as `invalid` from passing as registered-language tags.
+ * @returns The canonical tag, or undefined if the tag is not valid
+ */
+export function canonicalizeLocale(tag: string): string | undefined {
+  let canonical: string | undefined;
+  try {
+    [canonical] = Intl.getCanonicalLocales(tag.trim().replace(/_/g, "-"));
+  } catch {
+    return undefined;
+  }
+
+  return canonical && /^[a-z]{2,3}(-|$)/.test(canonical) ? canonical : undefined;
+}
+
+// A BCP-47 tag, parsed into its canonical form
+export const localeTagSchema = z.string().transform((tag, ctx) => {
+  const canonical = canonicalizeLocale(tag);
+
+  if (!canonical) {
+    ctx.addIssue({
+      code: "custom",
+      message: `Invalid BCP-47 locale tag "${tag}"`,
+    });
+    return z.NEVER;
+  }
+
+  return canonical;
+});
+
+/**
+ * Default display name, direction and plural categories of a locale, as
+ * known to the runtime's CLDR data
+ * @param code - Canonical locale tag
+ */
+export function describeLocale(code: string): LocaleDescription {
+  const displayName =
+    new Intl.DisplayNames(["en"], { type: "language" }).of(code) ?? code;
+  const script = new Intl.Locale(code).maximize().script;
+  const pluralRules = new Intl.PluralRules(code).resolvedOptions().pluralCategories;
+
+  return {
+    displayName,
+    direction: script && RTL_SCRIPTS.has(script) ? "rtl" : "ltr",
+    pluralRules: [...pluralRules],
+  };
+}
@@ -0,0 +1,146 @@
+import { and, eq, isNull } from "drizzle-orm";
+
+import { db } from "~/lib/db";
+import { l10nKey } from "~/lib/db/schema";
+
+/**
+ * Namespaces of a service and moves of keys between them
+ *
+ * Key names are unique per namespace, so keys only move when none of them
+ * would share its name with a key of the target namespace or with another
+ * moved key. Deleting a namespace that still has keys is blocked unless the
+ * keys are deleted with it or reassigned to another namespace.
+ */
+
+export const namespaceDeleteModes = ["block", "cascade", "reassign"] as const;
+
+export type NamespaceDeleteMode = (typeof namespaceDeleteModes)[number];
+
+type QueryDb = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface NamespaceKey {
+  id: string;
+  keyName: string;
+  namespaceId: string | null;
+}
+
+export interface KeyMoveConflict {
+  keyId: string;
+  keyName: string;
+  // Key of the target namespace, or moved key, that already has the name
+  conflictingKeyId: string;
+}
+
+/**
+ * Keys of one namespace of a service; null selects keys without a namespace
+ * @param queryDb - Transaction to read the keys in
+ */
+export async function listNamespaceKeys(
+  serviceId: string,
+  namespaceId: string | null,
+  queryDb: QueryDb = db,
+): Promise<NamespaceKey[]> {
+  return queryDb
+    .select({
+      id: l10nKey.id,
+      keyName: l10nKey.keyName,
+      namespaceId: l10nKey.namespaceId,
+    })
+    .from(l10nKey)
+    .where(
+      and(
+        eq(l10nKey.serviceId, serviceId),
+        namespaceId === null
+          ? isNull(l10nKey.namespaceId)
+          : eq(l10nKey.namespaceId, namespaceId),
+      ),
+    );
+}
+
+/**
+ * Resolve the namespaces of import keys, given by id or by name as in the
+ * contexts of third-party gettext files
+ * @param namespaces - Namespaces of the service
+ * @returns Keys with namespace ids, and the indexes of keys naming a
+ * namespace the service does not have
+ */
+export function resolveKeyNamespaces<Key extends { namespaceId?: string }>(
+  keys: Key[],
+  namespaces: Array<{ id: string; name: string }>,
+): { keys: Key[]; unknown: Array<{ index: number; namespace: string }> } {
+  const ids = new Set(namespaces.map((ns) => ns.id));
+  const idsByName = new Map(namespaces.map((ns) => [ns.name, ns.id]));
+  const unknown: Array<{ index: number; namespace: string }> = [];
+
+  const resolved = keys.map((key, index) => {
+    if (key.namespaceId === undefined || ids.has(key.namespaceId)) return key;
+
+    const namespaceId = idsByName.get(key.namespaceId);
+    if (namespaceId === undefined) {
+      unknown.push({ index, namespace: key.namespaceId });
+      return key;
+    }
+    return { ...key, namespaceId };
+  });
+
+  return { keys: resolved, unknown };
+}
+
+/**
+ * Moved keys whose names are already taken in the target namespace
+ * @param targetKeys - Keys of the target namespace; moved keys already in it
+ * are ignored
+ */
+export function findKeyMoveConflicts(
+  moving: NamespaceKey[],
+  targetKeys: NamespaceKey[],
+): KeyMoveConflict[] {
+  const movingIds = new Set(moving.map((key) => key.id));
+  const taken = new Map(
+    targetKeys
+      .filter((key) => !movingIds.has(key.id))
+      .map((key) => [key.keyName, key.id]),
+  );
+  const conflicts: KeyMoveConflict[] = [];
+
+  for (const key of moving) {
+    const conflictingKeyId = taken.get(key.keyName);
+    if (conflictingKeyId !== undefined && conflictingKeyId !== key.id) {
+      conflicts.push({ keyId: key.id, keyName: key.keyName, conflictingKeyId });
+    } else {
+      taken.set(key.keyName, key.id);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Whether a write failed on a unique constraint, such as a key name taken by
+ * a key written concurrently
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  // Drizzle wraps driver errors; the Postgres error is the cause
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if ((current as Error & { code?: unknown }).code === "23505") return true;
+  }
+  return false;
+}
+
+/**
+ * 409 response for keys that cannot move because their names are taken
+ * @param conflicts - Conflicts found by the check; left out when a write hit
+ * the unique constraint instead
+ */
+export function keyMoveConflictResponse(conflicts?: KeyMoveConflict[]): Response {
+  return new Response(
+    JSON.stringify({
+      error: "Key names already exist in the target namespace",
+      conflicts,
+    }),
+    {
+      status: 409,
+      headers: { "content-type": "application/json" },
+    },
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * Checks of import data against the locales a service ships
+ */
+
+export interface DisabledLocaleWarning {
+  locale: string;
+  // Translations in the payload for the locale
+  translations: number;
+  message: string;
+}
+
+/**
+ * Warnings for translations into locales the service does not ship; they are
+ * still imported
+ * @param enabledLocales - Enabled locales; none when the service has not
+ * declared any, which enables every locale
+ */
+export function disabledLocaleWarnings(
+  data: { keys: Array<{ translations: Array<{ locale: string }> }> },
+  enabledLocales: string[],
+): DisabledLocaleWarning[] {
+  if (enabledLocales.length === 0) return [];
+
+  const counts = new Map<string, number>();
+  for (const key of data.keys) {
+    for (const { locale } of key.translations) {
+      if (!enabledLocales.includes(locale)) {
+        counts.set(locale, (counts.get(locale) ?? 0) + 1);
+      }
+    }
+  }
+
+  return [...counts].map(([locale, translations]) => ({
+    locale,
+    translations,
+    message: `Locale "${locale}" is not enabled for this service`,
+  }));
+}
@@ -0,0 +1,41 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Checksums of translation content
+ *
+ * Every write stores the checksum of a translation's locale, value and
+ * status, so imports can tell unchanged rows apart with one comparison and
+ * `/api/integrity` can find rows edited outside the API.
+ */
+
+interface TranslationContent {
+  locale: string;
+  value: string | null;
+  status: string;
+}
+
+/**
+ * SHA-256 of a translation's content; values are compared in Unicode NFC
+ * with `\n` line endings, and a missing value differs from an empty one
+ * @returns Lowercase hex digest
+ */
+export function translationChecksum(content: TranslationContent): string {
+  const value =
+    content.value === null
+      ? null
+      : content.value.normalize("NFC").replace(/\r\n?/g, "\n");
+
+  return createHash("sha256")
+    .update(JSON.stringify([content.locale, value, content.status]))
+    .digest("hex");
+}
+
+/**
+ * Stored checksum of a translation, computed for rows written before
+ * checksums were stored
+ */
+export function storedChecksum(
+  row: TranslationContent & { checksum: string | null },
+): string {
+  return row.checksum ?? translationChecksum(row);
+}
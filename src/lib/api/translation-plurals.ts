@@ -0,0 +1,53 @@
+import type { IcuPlural } from "~/lib/api/formats/plurals";
+
+/**
+ * Plural forms as translation data
+ *
+ * A translation written as plural forms keeps them in `translation.plurals`
+ * and their ICU rendering in `value`, so readers of plain values keep
+ * working. Forms must cover every CLDR category of the locale's plural
+ * rules; plain values, ICU plurals included, are left to the validators.
+ */
+
+export interface IncompletePlural {
+  keyName: string;
+  locale: string;
+  missing: string[];
+}
+
+/**
+ * Categories of a locale's plural rules the forms lack
+ * @param required - CLDR plural categories of the locale
+ */
+export function missingPluralCategories(plural: IcuPlural, required: string[]): string[] {
+  return required.filter(
+    (category) => plural.forms[category as keyof IcuPlural["forms"]] === undefined,
+  );
+}
+
+/**
+ * Translations of import data whose plural forms lack categories of their
+ * locale; locales without plural rules only need `other`
+ * @param pluralRules - CLDR plural categories by locale
+ */
+export function findIncompletePlurals(
+  data: {
+    keys: Array<{
+      keyName: string;
+      translations: Array<{ locale: string; plurals?: IcuPlural }>;
+    }>;
+  },
+  pluralRules: Map<string, string[]>,
+): IncompletePlural[] {
+  return data.keys.flatMap((key) =>
+    key.translations.flatMap(({ locale, plurals }) => {
+      if (!plurals) return [];
+
+      const missing = missingPluralCategories(
+        plurals,
+        pluralRules.get(locale) ?? ["other"],
+      );
+      return missing.length > 0 ? [{ keyName: key.keyName, locale, missing }] : [];
+    }),
+  );
+}
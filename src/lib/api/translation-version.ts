@@ -0,0 +1,65 @@
+/**
+ * Optimistic concurrency for translation writes
+ *
+ * Every write bumps a translation's version, so a client that read version N
+ * can ask for its update to apply only while the translation is still at N,
+ * either through `If-Match` with the `ETag` it was served or through an
+ * expected version.
+ */
+
+interface VersionedTranslation {
+  version: number;
+  checksum: string | null;
+}
+
+/**
+ * Strong entity tag of a translation's current state
+ */
+export function translationETag(current: VersionedTranslation): string {
+  return current.checksum
+    ? `"${current.version}-${current.checksum}"`
+    : `"${current.version}"`;
+}
+
+/**
+ * Whether an `If-Match` or `If-None-Match` header lists the entity tag; weak
+ * tags never match
+ * @param header Header value, or null when the request has none
+ */
+export function etagMatches(header: string | null, etag: string): boolean {
+  if (header === null) return false;
+
+  return header
+    .split(",")
+    .map((tag) => tag.trim())
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+/**
+ * Whether an update based on the client's view of a translation may apply
+ * @param ifMatch `If-Match` header value, or null when the request has none
+ * @param expectedVersion Version the client read, if it sent one
+ */
+export function isCurrentTranslation(
+  current: VersionedTranslation,
+  ifMatch: string | null,
+  expectedVersion: number | undefined,
+): boolean {
+  if (ifMatch !== null && !etagMatches(ifMatch, translationETag(current))) {
+    return false;
+  }
+
+  return expectedVersion === undefined || expectedVersion === current.version;
+}
+
+/**
+ * Version an imported translation update is written with: the payload's
+ * version when it is ahead, otherwise the next version
+ * @param incomingVersion - Version of the payload, if its format carries one
+ */
+export function nextImportedVersion(
+  existingVersion: number,
+  incomingVersion: number | undefined,
+) {
+  return Math.max(incomingVersion ?? 0, existingVersion + 1);
+}
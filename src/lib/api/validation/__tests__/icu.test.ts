@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { collectArguments, parseIcuMessage, positionAt } from "~/lib/api/validation/icu";
+
+function argumentNames(message: string) {
+  return collectArguments(parseIcuMessage(message).nodes).map(
+    (arg) => `${arg.name}:${arg.argType}`,
+  );
+}
+
+describe("ICU message parser", () => {
+  it("should parse simple, formatted and nested arguments", () => {
+    expect(argumentNames("Hello {name}")).toEqual(["name:none"]);
+    expect(
+      argumentNames("Due {due, date, short} for {price, number, ::currency/EUR}"),
+    ).toEqual(["due:date", "price:number"]);
+    expect(
+      argumentNames(
+        "{gender, select, female {{count, plural, one {# message from her} other {# messages from {sender}}}} other {Messages}}",
+      ),
+    ).toEqual(["gender:select", "count:plural", "sender:none"]);
+  });
+
+  it("should keep positions of nodes", () => {
+    const { nodes } = parseIcuMessage("Hi {name}!");
+
+    expect(nodes).toEqual([
+      { type: "literal", value: "Hi ", start: 0, end: 3 },
+      { type: "argument", name: "name", argType: "none", options: [], start: 3, end: 9 },
+      { type: "literal", value: "!", start: 9, end: 10 },
+    ]);
+  });
+
+  it("should treat # as the plural number only inside plural options", () => {
+    const { nodes } = parseIcuMessage("#{n, plural, offset:1 =0 {none} other {# more}}");
+    const [literal, plural] = nodes;
+
+    expect(literal).toMatchObject({ type: "literal", value: "#" });
+    expect(plural).toMatchObject({ argType: "plural" });
+    if (plural.type === "argument") {
+      expect(plural.options.map((option) => option.selector)).toEqual(["=0", "other"]);
+      expect(plural.options[1].nodes[0]).toMatchObject({ type: "pound" });
+    }
+  });
+
+  it("should unquote apostrophes", () => {
+    const { nodes, error } = parseIcuMessage("It''s '{literal}' and don't");
+
+    expect(error).toBeUndefined();
+    expect(nodes).toEqual([
+      { type: "literal", value: "It's {literal} and don't", start: 0, end: 27 },
+    ]);
+  });
+
+  it.each([
+    ["Hello {name", 'Argument "name" is not closed', 6],
+    ["Hello }", "Unmatched closing brace", 6],
+    ["{}", "Expected an argument name", 1],
+    ["{n, currency}", 'Unknown argument type "currency"', 4],
+    ["{n, plural, one {#}}", 'plural argument "n" requires an "other" option', 0],
+    ["{n, plural, few {#} lots {#} other {#}}", 'Unknown plural category "lots"', 20],
+    ["{n, select, a {x} a {y} other {z}}", 'Duplicate selector "a" in argument "n"', 18],
+    ["{n, plural, other {# items}", 'Argument "n" is not closed', 0],
+    ["{n, plural, other # items}", 'Expected "{" after selector "other"', 18],
+  ])("should report syntax errors in %j", (message, error, offset) => {
+    expect(parseIcuMessage(message)).toEqual({
+      nodes: [],
+      error: { message: error, offset },
+    });
+  });
+
+  it("should report lines and columns", () => {
+    expect(positionAt("one\ntwo {x", 8)).toEqual({ offset: 8, line: 2, column: 5 });
+    expect(positionAt("abc", 0)).toEqual({ offset: 0, line: 1, column: 1 });
+  });
+});
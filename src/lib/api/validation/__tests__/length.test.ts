@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { checkMaxLength, translationLength } from "~/lib/api/validation/length";
+
+describe("Translation length", () => {
+  it("should count code points rather than UTF-16 units", () => {
+    expect(translationLength("Olá")).toBe(3);
+    expect(translationLength("👍 ok")).toBe(4);
+  });
+
+  it("should measure plurals by their longest form", () => {
+    expect(translationLength("{count, plural, one {# file} other {# files left}}")).toBe(
+      12,
+    );
+  });
+
+  it("should report translations longer than the key allows", () => {
+    expect(checkMaxLength("Checkout", 8)).toEqual([]);
+    expect(checkMaxLength("Finalizar compra", null)).toEqual([]);
+    expect(checkMaxLength("Finalizar compra", 10)).toEqual([
+      {
+        code: "max_length_exceeded",
+        severity: "error",
+        message: "Translation is 16 characters long; the key allows 10",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkPlaceholders,
+  getPlaceholderSyntax,
+  listPlaceholderSyntaxes,
+  registerPlaceholderSyntax,
+} from "~/lib/api/validation/placeholders";
+
+const context = { pluralCategories: ["one", "other"] };
+
+function codes(value: string, source: string | null, syntaxes: string[]) {
+  return checkPlaceholders(value, source, syntaxes, context).map((issue) => issue.code);
+}
+
+describe("Placeholder syntax registry", () => {
+  it("should register the built-in syntaxes", () => {
+    expect(listPlaceholderSyntaxes().map((syntax) => syntax.id)).toEqual(
+      expect.arrayContaining(["icu", "html", "printf", "mustache", "template"]),
+    );
+  });
+
+  it("should reject syntaxes registered twice", () => {
+    expect(() =>
+      registerPlaceholderSyntax({ id: "html", description: "", check: () => [] }),
+    ).toThrow('Placeholder syntax "html" is already registered');
+  });
+
+  it("should run registered syntaxes and skip unknown ones", () => {
+    registerPlaceholderSyntax({
+      id: "shouting",
+      description: "Rejects upper-case translations",
+      check: (value) =>
+        value === value.toUpperCase()
+          ? [{ code: "syntax_error", severity: "warning", message: "Too loud" }]
+          : [],
+    });
+
+    expect(getPlaceholderSyntax("shouting")).toBeDefined();
+    expect(checkPlaceholders("BONJOUR", "Hello", ["shouting", "gone"], context)).toEqual([
+      {
+        code: "syntax_error",
+        severity: "warning",
+        message: "Too loud",
+        syntax: "shouting",
+      },
+    ]);
+  });
+
+  it("should tag issues with the syntax that reported them", () => {
+    const issues = checkPlaceholders("Salut {nom}", "Hello {name}", ["icu"], context);
+
+    expect(issues.every((issue) => issue.syntax === "icu")).toBe(true);
+  });
+});
+
+describe("HTML tags", () => {
+  it("should accept balanced tags with translated attributes", () => {
+    expect(
+      codes(
+        'Lire <a href="/fr/aide" title="Aide">l\'aide</a><br>',
+        'Read <a href="/help" title="Help">the help</a><br>',
+        ["html"],
+      ),
+    ).toEqual([]);
+  });
+
+  it("should report unclosed and stray closing tags with their position", () => {
+    const issues = checkPlaceholders("<b>Gras <i>et</b>", null, ["html"], context);
+
+    expect(issues).toEqual([
+      {
+        code: "unbalanced_tag",
+        severity: "error",
+        message: "Expected </i> but found </b>",
+        placeholder: "</b>",
+        position: { offset: 13, line: 1, column: 14 },
+        syntax: "html",
+      },
+    ]);
+    expect(codes("Fin</b>", null, ["html"])).toEqual(["unbalanced_tag"]);
+    expect(codes("<b>Gras", null, ["html"])).toEqual(["unbalanced_tag"]);
+  });
+
+  it("should report tags missing from or added to the translation", () => {
+    expect(codes("<i>Important</i>", "<b>Important</b>", ["html"])).toEqual([
+      "missing_placeholder",
+      "missing_placeholder",
+      "extra_placeholder",
+      "extra_placeholder",
+    ]);
+  });
+});
+
+describe("printf placeholders", () => {
+  it("should accept the source's placeholders with other flags and widths", () => {
+    expect(codes("%05.2f € pour %s, 100 %%", "%.2f € for %s, 100%%", ["printf"])).toEqual(
+      [],
+    );
+  });
+
+  it("should allow positional placeholders to be reordered", () => {
+    expect(codes("%2$s a %1$d fichiers", "%1$d files by %2$s", ["printf"])).toEqual([]);
+  });
+
+  it("should report reordered sequential placeholders", () => {
+    expect(codes("%d fichiers de %s", "%s has %d files", ["printf"])).toEqual([
+      "placeholder_order_mismatch",
+    ]);
+  });
+
+  it("should report missing and extra placeholders", () => {
+    const issues = checkPlaceholders("Bonjour %d", "Hello %s", ["printf"], context);
+
+    expect(issues).toMatchObject([
+      { code: "missing_placeholder", placeholder: "%s" },
+      {
+        code: "extra_placeholder",
+        placeholder: "%d",
+        position: { offset: 8, line: 1, column: 9 },
+      },
+    ]);
+  });
+});
+
+describe("Mustache and template placeholders", () => {
+  it("should compare placeholders regardless of inner whitespace", () => {
+    expect(codes("Bonjour {{ name }}", "Hello {{name}}", ["mustache"])).toEqual([]);
+    expect(codes("Bonjour ${ user.name }", "Hello ${user.name}", ["template"])).toEqual(
+      [],
+    );
+  });
+
+  it("should report renamed placeholders", () => {
+    expect(codes("Bonjour {{nom}}", "Hello {{name}}", ["mustache"])).toEqual([
+      "missing_placeholder",
+      "extra_placeholder",
+    ]);
+    expect(codes("Bonjour ${nom}", "Hello ${name}", ["template"])).toEqual([
+      "missing_placeholder",
+      "extra_placeholder",
+    ]);
+  });
+
+  it("should combine syntaxes", () => {
+    expect(
+      codes("<b>{{count}}</b> fichiers", "<b>{{count}}</b> files", ["html", "mustache"]),
+    ).toEqual([]);
+  });
+});
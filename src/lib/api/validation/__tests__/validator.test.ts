@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { blocksWrite, validateTranslation } from "~/lib/api/validation/validator";
+
+const ONE_OTHER = ["one", "other"];
+
+describe("Translation validator", () => {
+  it("should accept translations with the source's arguments", () => {
+    expect(
+      validateTranslation(
+        "{count, plural, one {# fichier de {owner}} other {# fichiers de {owner}}}",
+        "{count, plural, one {# file by {owner}} other {# files by {owner}}}",
+        ONE_OTHER,
+      ),
+    ).toEqual([]);
+  });
+
+  it("should report syntax errors with their position", () => {
+    expect(validateTranslation("Bonjour\n{name", "Hello {name}", ONE_OTHER)).toEqual([
+      {
+        code: "syntax_error",
+        severity: "error",
+        message: 'Argument "name" is not closed',
+        position: { offset: 8, line: 2, column: 1 },
+      },
+    ]);
+  });
+
+  it("should report missing and extra arguments", () => {
+    const issues = validateTranslation("Salut {nom}", "Hello {name}", ONE_OTHER);
+
+    expect(issues).toEqual([
+      {
+        code: "missing_argument",
+        severity: "error",
+        message: 'Argument "name" of the source is missing',
+        argument: "name",
+      },
+      {
+        code: "extra_argument",
+        severity: "error",
+        message: 'Argument "nom" is not in the source',
+        argument: "nom",
+        position: { offset: 6, line: 1, column: 7 },
+      },
+    ]);
+  });
+
+  it("should report incompatible argument types", () => {
+    const [issue] = validateTranslation(
+      "{when, number} restantes",
+      "{when, date} left",
+      ONE_OTHER,
+    );
+    expect(issue).toMatchObject({ code: "argument_type_mismatch", argument: "when" });
+
+    // Plain and numeric uses are compatible with plurals
+    expect(
+      validateTranslation(
+        "{n} Dateien",
+        "{n, plural, one {# file} other {# files}}",
+        ONE_OTHER,
+      ),
+    ).toEqual([]);
+  });
+
+  it("should report plural categories the locale needs", () => {
+    const [issue] = validateTranslation(
+      "{n, plural, one {# файл} other {# файла}}",
+      "{n, plural, one {# file} other {# files}}",
+      ["one", "few", "many", "other"],
+    );
+
+    expect(issue).toEqual({
+      code: "missing_plural_category",
+      severity: "error",
+      message: 'Plural argument "n" is missing few, many',
+      argument: "n",
+      position: { offset: 0, line: 1, column: 1 },
+    });
+  });
+
+  it("should only check syntax without a valid source", () => {
+    expect(validateTranslation("Hello {name}", null, ONE_OTHER)).toEqual([]);
+    expect(validateTranslation("Hello {name}", "Broken {", ONE_OTHER)).toEqual([]);
+  });
+
+  it("should block writes with errors only under the block policy", () => {
+    const issues = validateTranslation("{", null, ONE_OTHER);
+
+    expect(blocksWrite("block", issues)).toBe(true);
+    expect(blocksWrite("warn", issues)).toBe(false);
+    expect(blocksWrite("block", [])).toBe(false);
+  });
+});
@@ -0,0 +1,312 @@
+import { PLURAL_CATEGORIES } from "~/lib/api/formats/plurals";
+
+/**
+ * ICU MessageFormat parser
+ *
+ * Parses messages such as `{count, plural, one {# file} other {# files}}`
+ * into a tree of literals, `#` placeholders and arguments, keeping the
+ * offset of every node so problems can be reported where they are.
+ * Apostrophes quote only before `{`, `}` and, in plural options, `#`; a
+ * doubled apostrophe is a literal one.
+ */
+
+export type IcuArgumentType =
+  | "none"
+  | "number"
+  | "date"
+  | "time"
+  | "spellout"
+  | "ordinal"
+  | "duration"
+  | "plural"
+  | "selectordinal"
+  | "select";
+
+export interface IcuLiteral {
+  type: "literal";
+  value: string;
+  start: number;
+  end: number;
+}
+
+// `#` inside a plural option, formatted as the plural argument
+export interface IcuPound {
+  type: "pound";
+  start: number;
+  end: number;
+}
+
+export interface IcuOption {
+  // Plural category, exact value such as `=0`, or select keyword
+  selector: string;
+  nodes: IcuNode[];
+  start: number;
+  end: number;
+}
+
+export interface IcuArgument {
+  type: "argument";
+  name: string;
+  argType: IcuArgumentType;
+  style?: string;
+  options: IcuOption[];
+  start: number;
+  end: number;
+}
+
+export type IcuNode = IcuLiteral | IcuPound | IcuArgument;
+
+export interface IcuSyntaxError {
+  message: string;
+  offset: number;
+}
+
+export interface IcuParseResult {
+  nodes: IcuNode[];
+  // First syntax error; nodes are empty when set
+  error?: IcuSyntaxError;
+}
+
+export interface IcuPosition {
+  offset: number;
+  // One-based line and column
+  line: number;
+  column: number;
+}
+
+const SIMPLE_TYPES = ["number", "date", "time", "spellout", "ordinal", "duration"];
+const OPTION_TYPES = ["plural", "selectordinal", "select"];
+
+const NAME = /[\p{L}\p{N}_]+/uy;
+const TYPE = /[A-Za-z]+/y;
+const PLURAL_SELECTOR = /=-?\d+(?:\.\d+)?|[A-Za-z]+/y;
+const SELECT_SELECTOR = /[\p{L}\p{N}_-]+/uy;
+const PLURAL_OFFSET = /offset:\s*(\d+)/y;
+
+// Unwinds the recursive descent to `parseIcuMessage`
+class ParseFailure extends Error {
+  constructor(
+    message: string,
+    readonly offset: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Parse an ICU message
+ * @returns The message's nodes, or the first syntax error
+ */
+export function parseIcuMessage(message: string): IcuParseResult {
+  let pos = 0;
+
+  const fail = (text: string, offset = pos): never => {
+    throw new ParseFailure(text, offset);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < message.length && /\s/.test(message[pos])) pos++;
+  };
+
+  const read = (pattern: RegExp): string | undefined => {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(message);
+    if (!match) return undefined;
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const expect = (char: string, text: string) => {
+    if (message[pos] !== char) fail(text);
+    pos++;
+  };
+
+  function parseNodes(depth: number, inPlural: boolean): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let text = "";
+    let textStart = pos;
+
+    const flush = () => {
+      if (text) nodes.push({ type: "literal", value: text, start: textStart, end: pos });
+      text = "";
+    };
+
+    while (pos < message.length) {
+      const char = message[pos];
+
+      if (char === "{") {
+        flush();
+        nodes.push(parseArgument(depth));
+        textStart = pos;
+      } else if (char === "}") {
+        if (depth === 0) fail("Unmatched closing brace");
+        break;
+      } else if (char === "#" && inPlural) {
+        flush();
+        nodes.push({ type: "pound", start: pos, end: pos + 1 });
+        pos++;
+        textStart = pos;
+      } else if (char === "'") {
+        const next = message[pos + 1];
+        if (next === "'") {
+          text += "'";
+          pos += 2;
+        } else if (next === "{" || next === "}" || (next === "#" && inPlural)) {
+          // Quoted literal up to the next single apostrophe
+          pos++;
+          while (pos < message.length) {
+            if (message[pos] === "'") {
+              if (message[pos + 1] !== "'") {
+                pos++;
+                break;
+              }
+              pos++;
+            }
+            text += message[pos];
+            pos++;
+          }
+        } else {
+          text += char;
+          pos++;
+        }
+      } else {
+        text += char;
+        pos++;
+      }
+    }
+
+    flush();
+    return nodes;
+  }
+
+  function parseArgument(depth: number): IcuArgument {
+    const start = pos;
+    pos++;
+    skipWhitespace();
+
+    const name = read(NAME);
+    if (!name) fail("Expected an argument name");
+    skipWhitespace();
+
+    const argument: IcuArgument = {
+      type: "argument",
+      name: name!,
+      argType: "none",
+      options: [],
+      start,
+      end: start,
+    };
+
+    if (message[pos] === ",") {
+      pos++;
+      skipWhitespace();
+      const typeStart = pos;
+      const argType = read(TYPE);
+      if (!argType) fail("Expected an argument type");
+
+      if (OPTION_TYPES.includes(argType!)) {
+        argument.argType = argType as IcuArgumentType;
+        skipWhitespace();
+        expect(",", `Expected options for ${argType} argument "${name}"`);
+        argument.options = parseOptions(argument, depth);
+      } else if (SIMPLE_TYPES.includes(argType!)) {
+        argument.argType = argType as IcuArgumentType;
+        skipWhitespace();
+        if (message[pos] === ",") {
+          pos++;
+          const styleStart = pos;
+          while (pos < message.length && message[pos] !== "}" && message[pos] !== "{") {
+            pos++;
+          }
+          argument.style = message.slice(styleStart, pos).trim();
+          if (!argument.style) fail(`Expected a style for ${argType} argument "${name}"`);
+        }
+      } else {
+        fail(`Unknown argument type "${argType}"`, typeStart);
+      }
+    }
+
+    skipWhitespace();
+    if (pos >= message.length) fail(`Argument "${name}" is not closed`, start);
+    expect("}", `Expected "}" to close argument "${name}"`);
+    argument.end = pos;
+
+    return argument;
+  }
+
+  function parseOptions(argument: IcuArgument, depth: number): IcuOption[] {
+    const isPlural = argument.argType !== "select";
+    const options: IcuOption[] = [];
+
+    skipWhitespace();
+    if (isPlural && read(PLURAL_OFFSET) !== undefined) skipWhitespace();
+
+    while (pos < message.length && message[pos] !== "}") {
+      const start = pos;
+      const selector = read(isPlural ? PLURAL_SELECTOR : SELECT_SELECTOR);
+      if (!selector) fail(`Expected a selector in argument "${argument.name}"`);
+
+      if (
+        isPlural &&
+        !selector!.startsWith("=") &&
+        !(PLURAL_CATEGORIES as readonly string[]).includes(selector!)
+      ) {
+        fail(`Unknown plural category "${selector}"`, start);
+      }
+      if (options.some((option) => option.selector === selector)) {
+        fail(`Duplicate selector "${selector}" in argument "${argument.name}"`, start);
+      }
+
+      skipWhitespace();
+      expect("{", `Expected "{" after selector "${selector}"`);
+      const nodes = parseNodes(depth + 1, isPlural);
+      if (pos >= message.length) fail(`Option "${selector}" is not closed`, start);
+      pos++;
+
+      options.push({ selector: selector!, nodes, start, end: pos });
+      skipWhitespace();
+    }
+
+    if (pos >= message.length)
+      fail(`Argument "${argument.name}" is not closed`, argument.start);
+    if (!options.some((option) => option.selector === "other")) {
+      fail(
+        `${argument.argType} argument "${argument.name}" requires an "other" option`,
+        argument.start,
+      );
+    }
+
+    return options;
+  }
+
+  try {
+    return { nodes: parseNodes(0, false) };
+  } catch (error) {
+    if (!(error instanceof ParseFailure)) throw error;
+    return { nodes: [], error: { message: error.message, offset: error.offset } };
+  }
+}
+
+/**
+ * Line and column of an offset in a message
+ */
+export function positionAt(message: string, offset: number): IcuPosition {
+  const before = message.slice(0, offset).split("\n");
+
+  return {
+    offset,
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+  };
+}
+
+/**
+ * Every argument of a message, nested ones included, in order of appearance
+ */
+export function collectArguments(nodes: IcuNode[]): IcuArgument[] {
+  return nodes.flatMap((node) =>
+    node.type === "argument"
+      ? [node, ...node.options.flatMap((option) => collectArguments(option.nodes))]
+      : [],
+  );
+}
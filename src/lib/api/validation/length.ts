@@ -0,0 +1,42 @@
+import { parseIcuPlural } from "~/lib/api/formats/plurals";
+import type { ValidationIssue } from "~/lib/api/validation/validator";
+
+/**
+ * Length limits of keys whose strings must fit a fixed space in the UI
+ *
+ * Lengths count Unicode code points. A plural translation is as long as its
+ * longest form; placeholders count as written, since the values they stand
+ * for are unknown.
+ */
+
+/**
+ * Length of a translation as checked against a key's limit
+ */
+export function translationLength(value: string): number {
+  const plural = parseIcuPlural(value);
+  const texts = plural ? Object.values(plural.forms) : [value];
+
+  return Math.max(...texts.map((text) => [...text].length));
+}
+
+/**
+ * Check a translation against the maximum length of its key
+ * @param maxLength - Limit of the key, or null when it has none
+ */
+export function checkMaxLength(
+  value: string,
+  maxLength: number | null,
+): ValidationIssue[] {
+  if (maxLength === null) return [];
+
+  const length = translationLength(value);
+  if (length <= maxLength) return [];
+
+  return [
+    {
+      code: "max_length_exceeded",
+      severity: "error",
+      message: `Translation is ${length} characters long; the key allows ${maxLength}`,
+    },
+  ];
+}
@@ -0,0 +1,328 @@
+import { positionAt } from "~/lib/api/validation/icu";
+import {
+  validateTranslation,
+  type ValidationIssue,
+} from "~/lib/api/validation/validator";
+
+/**
+ * Registry of placeholder syntaxes translations are checked for
+ *
+ * Each service picks the syntaxes its strings use. A syntax checks a
+ * translation on its own, such as HTML tag balance, and against its source
+ * text for placeholder parity. ICU MessageFormat is a syntax like the others,
+ * so services whose strings use `{{name}}` can turn it off.
+ */
+
+export interface PlaceholderContext {
+  // CLDR plural categories of the translation's locale
+  pluralCategories: string[];
+}
+
+export interface PlaceholderSyntax {
+  id: string;
+  description: string;
+  /**
+   * Check a translation
+   * @param source - Source text, or null for source translations themselves
+   * and keys without one
+   */
+  check(
+    value: string,
+    source: string | null,
+    context: PlaceholderContext,
+  ): ValidationIssue[];
+}
+
+interface PlaceholderToken {
+  // Normalized placeholder, as reported
+  text: string;
+  start: number;
+}
+
+// Syntaxes of services that have not picked any
+export const DEFAULT_PLACEHOLDER_SYNTAXES = ["icu"];
+
+const registry = new Map<string, PlaceholderSyntax>();
+
+/**
+ * Register a placeholder syntax services can enable
+ */
+export function registerPlaceholderSyntax(syntax: PlaceholderSyntax): void {
+  if (registry.has(syntax.id)) {
+    throw new Error(`Placeholder syntax "${syntax.id}" is already registered`);
+  }
+  registry.set(syntax.id, syntax);
+}
+
+export function getPlaceholderSyntax(id: string): PlaceholderSyntax | undefined {
+  return registry.get(id);
+}
+
+export function listPlaceholderSyntaxes(): PlaceholderSyntax[] {
+  return [...registry.values()];
+}
+
+/**
+ * Check a translation with the given syntaxes; syntaxes that are no longer
+ * registered are skipped
+ */
+export function checkPlaceholders(
+  value: string,
+  source: string | null,
+  syntaxIds: string[],
+  context: PlaceholderContext,
+): ValidationIssue[] {
+  return syntaxIds.flatMap((id) => {
+    const syntax = registry.get(id);
+    if (!syntax) return [];
+
+    return syntax
+      .check(value, source, context)
+      .map((issue) => ({ ...issue, syntax: syntax.id }));
+  });
+}
+
+/**
+ * Tokens of every match of a global pattern
+ */
+function matchTokens(
+  value: string,
+  pattern: RegExp,
+  normalize: (match: RegExpExecArray) => string | undefined,
+): PlaceholderToken[] {
+  const tokens: PlaceholderToken[] = [];
+  for (const match of value.matchAll(pattern)) {
+    const text = normalize(match);
+    if (text !== undefined) tokens.push({ text, start: match.index });
+  }
+  return tokens;
+}
+
+/**
+ * Placeholders of the source missing from the translation and placeholders
+ * of the translation not in the source; how often each is used may differ,
+ * as plural options repeat them
+ */
+function parityIssues(
+  value: string,
+  sourceTokens: PlaceholderToken[],
+  targetTokens: PlaceholderToken[],
+): ValidationIssue[] {
+  const sourceTexts = new Set(sourceTokens.map((token) => token.text));
+  const targetTexts = new Set(targetTokens.map((token) => token.text));
+  const issues: ValidationIssue[] = [];
+
+  for (const text of sourceTexts) {
+    if (!targetTexts.has(text)) {
+      issues.push({
+        code: "missing_placeholder",
+        severity: "error",
+        message: `Placeholder "${text}" of the source is missing`,
+        placeholder: text,
+      });
+    }
+  }
+
+  const reported = new Set<string>();
+  for (const token of targetTokens) {
+    if (sourceTexts.has(token.text) || reported.has(token.text)) continue;
+    reported.add(token.text);
+    issues.push({
+      code: "extra_placeholder",
+      severity: "error",
+      message: `Placeholder "${token.text}" is not in the source`,
+      placeholder: token.text,
+      position: positionAt(value, token.start),
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Syntax whose placeholders only need to match the source's
+ */
+function tokenSyntax(
+  id: string,
+  description: string,
+  tokenize: (value: string) => PlaceholderToken[],
+): PlaceholderSyntax {
+  return {
+    id,
+    description,
+    check: (value, source) =>
+      source === null ? [] : parityIssues(value, tokenize(source), tokenize(value)),
+  };
+}
+
+const TAG = /<(\/?)([A-Za-z][\w-]*)(?:\s[^<>]*?)?(\/?)>/g;
+
+// Elements without a closing tag
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+interface HtmlTag extends PlaceholderToken {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+}
+
+function htmlTags(value: string): HtmlTag[] {
+  return [...value.matchAll(TAG)].map((match) => {
+    const name = match[2].toLowerCase();
+    const closing = match[1] === "/";
+    const selfClosing = match[3] === "/" || VOID_ELEMENTS.has(name);
+
+    return {
+      // Attributes may be translated, so only the tag itself must match
+      text: closing ? `</${name}>` : selfClosing ? `<${name}/>` : `<${name}>`,
+      start: match.index,
+      name,
+      closing,
+      selfClosing,
+    };
+  });
+}
+
+/**
+ * Closing tags without an open tag and open tags that are never closed
+ */
+function tagBalanceIssues(value: string, tags: HtmlTag[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const open: HtmlTag[] = [];
+
+  for (const tag of tags) {
+    if (tag.selfClosing) continue;
+
+    if (!tag.closing) {
+      open.push(tag);
+    } else if (open.at(-1)?.name === tag.name) {
+      open.pop();
+    } else {
+      const expected = open.at(-1);
+      issues.push({
+        code: "unbalanced_tag",
+        severity: "error",
+        message: expected
+          ? `Expected </${expected.name}> but found ${tag.text}`
+          : `Closing tag ${tag.text} has no opening tag`,
+        placeholder: tag.text,
+        position: positionAt(value, tag.start),
+      });
+      // Recover when the tag closes an outer element
+      const index = open.map((candidate) => candidate.name).lastIndexOf(tag.name);
+      if (index >= 0) open.splice(index);
+    }
+  }
+
+  for (const tag of open) {
+    issues.push({
+      code: "unbalanced_tag",
+      severity: "error",
+      message: `Tag ${tag.text} is not closed`,
+      placeholder: tag.text,
+      position: positionAt(value, tag.start),
+    });
+  }
+
+  return issues;
+}
+
+const PRINTF =
+  /%%|%(?:(\d+)\$)?[-+0#]*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|ll|[hlLqjzt])?([diouxXeEfFgGaAcspn@])/g;
+
+/**
+ * printf placeholders; flags, width and precision are not compared, and
+ * `%%` is a literal percent sign
+ */
+function printfTokens(value: string): PlaceholderToken[] {
+  return matchTokens(value, PRINTF, (match) =>
+    match[0] === "%%"
+      ? undefined
+      : match[1]
+        ? `%${match[1]}$${match[2]}`
+        : `%${match[2]}`,
+  );
+}
+
+/**
+ * Placeholders without a position are filled in order, so their order and
+ * number must match the source's
+ */
+function printfOrderIssues(
+  sourceTokens: PlaceholderToken[],
+  targetTokens: PlaceholderToken[],
+): ValidationIssue[] {
+  const sequential = (tokens: PlaceholderToken[]) =>
+    tokens.filter((token) => !token.text.includes("$")).map((token) => token.text);
+  const sourceOrder = sequential(sourceTokens);
+  const targetOrder = sequential(targetTokens);
+
+  if (sourceOrder.join(" ") === targetOrder.join(" ")) return [];
+
+  return [
+    {
+      code: "placeholder_order_mismatch",
+      severity: "error",
+      message: `Placeholders ${targetOrder.join(" ") || "(none)"} do not match ${sourceOrder.join(" ") || "(none)"} of the source; use positions such as %1$s to reorder them`,
+    },
+  ];
+}
+
+registerPlaceholderSyntax({
+  id: "icu",
+  description: "ICU MessageFormat arguments such as {name} and plurals",
+  check: (value, source, { pluralCategories }) =>
+    validateTranslation(value, source, pluralCategories),
+});
+
+registerPlaceholderSyntax({
+  id: "html",
+  description: "HTML tags such as <b> and <a href>, which must be balanced",
+  check: (value, source) => {
+    const tags = htmlTags(value);
+    const issues = tagBalanceIssues(value, tags);
+    return source === null
+      ? issues
+      : [...issues, ...parityIssues(value, htmlTags(source), tags)];
+  },
+});
+
+registerPlaceholderSyntax({
+  id: "printf",
+  description: "printf placeholders such as %s and %1$d",
+  check: (value, source) => {
+    if (source === null) return [];
+
+    const sourceTokens = printfTokens(source);
+    const targetTokens = printfTokens(value);
+    const issues = parityIssues(value, sourceTokens, targetTokens);
+    // Order only matters once the same placeholders are used
+    return issues.length > 0 ? issues : printfOrderIssues(sourceTokens, targetTokens);
+  },
+});
+
+registerPlaceholderSyntax(
+  tokenSyntax("mustache", "Mustache placeholders such as {{name}}", (value) =>
+    matchTokens(value, /\{\{\s*([\w.]+)\s*\}\}/g, (match) => `{{${match[1]}}}`),
+  ),
+);
+
+registerPlaceholderSyntax(
+  tokenSyntax("template", "Template literal placeholders such as ${var}", (value) =>
+    matchTokens(value, /\$\{\s*([\w.]+)\s*\}/g, (match) => `\${${match[1]}}`),
+  ),
+);
@@ -0,0 +1,135 @@
+import { and, eq, isNotNull } from "drizzle-orm";
+
+import type { ResolvedImportData } from "~/lib/api/import-keys";
+import { loadPluralRules } from "~/lib/api/locale-registry";
+import { checkMaxLength } from "~/lib/api/validation/length";
+import { checkPlaceholders } from "~/lib/api/validation/placeholders";
+import type { ValidationIssue } from "~/lib/api/validation/validator";
+import { db } from "~/lib/db";
+import { l10nKey, translation } from "~/lib/db/schema";
+
+/**
+ * Validation of translation writes against stored source text and the
+ * plural rules of the `locale` table, with the placeholder syntaxes of the
+ * service and the length limits of keys
+ */
+
+export interface TranslationValidation {
+  keyId: string;
+  keyName: string;
+  locale: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Stored source text of one key, or of every key of a service
+ */
+async function loadSourceValues(
+  scope: { keyId: string } | { serviceId: string },
+  sourceLocale: string,
+): Promise<Map<string, string | null>> {
+  const rows = await db
+    .select({ keyId: translation.keyId, value: translation.value })
+    .from(translation)
+    .innerJoin(l10nKey, eq(l10nKey.id, translation.keyId))
+    .where(
+      and(
+        "keyId" in scope
+          ? eq(translation.keyId, scope.keyId)
+          : eq(l10nKey.serviceId, scope.serviceId),
+        eq(translation.locale, sourceLocale),
+      ),
+    );
+
+  return new Map(rows.map((row) => [row.keyId, row.value]));
+}
+
+/**
+ * Length limits of one key, or of every key of a service that has one
+ */
+async function loadMaxLengths(
+  scope: { keyId: string } | { serviceId: string },
+): Promise<Map<string, number | null>> {
+  const rows = await db
+    .select({ keyId: l10nKey.id, maxLength: l10nKey.maxLength })
+    .from(l10nKey)
+    .where(
+      and(
+        "keyId" in scope
+          ? eq(l10nKey.id, scope.keyId)
+          : eq(l10nKey.serviceId, scope.serviceId),
+        isNotNull(l10nKey.maxLength),
+      ),
+    );
+
+  return new Map(rows.map((row) => [row.keyId, row.maxLength]));
+}
+
+/**
+ * Validate a translation about to be written for a key
+ * @param syntaxes - Placeholder syntaxes of the key's service
+ * @param sourceLocale - Source locale of the key's service
+ */
+export async function validateTranslationWrite(
+  keyId: string,
+  locale: string,
+  value: string,
+  syntaxes: string[],
+  sourceLocale: string,
+): Promise<ValidationIssue[]> {
+  const pluralCategories = await loadPluralRules([locale]);
+  const source =
+    locale === sourceLocale
+      ? null
+      : ((await loadSourceValues({ keyId }, sourceLocale)).get(keyId) ?? null);
+
+  const maxLength = (await loadMaxLengths({ keyId })).get(keyId) ?? null;
+
+  return [
+    ...checkPlaceholders(value, source, syntaxes, {
+      pluralCategories: pluralCategories.get(locale) ?? ["other"],
+    }),
+    ...checkMaxLength(value, maxLength),
+  ];
+}
+
+/**
+ * Validate the translations of an import; source text and length limits in
+ * the payload take precedence over stored ones
+ * @returns Translations with issues
+ */
+export async function validateImportTranslations(
+  serviceId: string,
+  data: ResolvedImportData,
+  syntaxes: string[],
+  sourceLocale: string,
+): Promise<TranslationValidation[]> {
+  const pluralCategories = await loadPluralRules(
+    data.keys.flatMap((key) => key.translations.map((t) => t.locale)),
+  );
+  const storedSources = await loadSourceValues({ serviceId }, sourceLocale);
+  const storedMaxLengths = await loadMaxLengths({ serviceId });
+  const results: TranslationValidation[] = [];
+
+  for (const key of data.keys) {
+    const source =
+      key.translations.find((t) => t.locale === sourceLocale)?.value ??
+      storedSources.get(key.id) ??
+      null;
+    const maxLength = key.maxLength ?? storedMaxLengths.get(key.id) ?? null;
+
+    for (const { locale, value } of key.translations) {
+      const issues = [
+        ...checkPlaceholders(value, locale === sourceLocale ? null : source, syntaxes, {
+          pluralCategories: pluralCategories.get(locale) ?? ["other"],
+        }),
+        ...checkMaxLength(value, maxLength),
+      ];
+      if (issues.length > 0) {
+        results.push({ keyId: key.id, keyName: key.keyName, locale, issues });
+      }
+    }
+  }
+
+  return results;
+}
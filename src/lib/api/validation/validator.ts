@@ -0,0 +1,174 @@
+import {
+  collectArguments,
+  parseIcuMessage,
+  positionAt,
+  type IcuArgument,
+  type IcuArgumentType,
+  type IcuPosition,
+} from "~/lib/api/validation/icu";
+
+/**
+ * Checks of a translation against its source text
+ *
+ * A translation must be a valid ICU message that uses the same arguments as
+ * the source, with compatible types, and that covers every plural category
+ * of its locale. The source is the text in the service's source locale.
+ * Services decide through their validation policy whether
+ * problems block a write or are only reported.
+ */
+
+// Source locale of services that do not set one
+export const DEFAULT_SOURCE_LOCALE = "en";
+
+export const validationPolicies = ["off", "warn", "block"] as const;
+
+export type ValidationPolicy = (typeof validationPolicies)[number];
+
+export type ValidationIssueCode =
+  | "syntax_error"
+  | "missing_argument"
+  | "extra_argument"
+  | "argument_type_mismatch"
+  | "missing_plural_category"
+  | "missing_placeholder"
+  | "extra_placeholder"
+  | "placeholder_order_mismatch"
+  | "unbalanced_tag"
+  | "max_length_exceeded";
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: "error" | "warning";
+  message: string;
+  argument?: string;
+  // Placeholder or tag, for issues of other placeholder syntaxes
+  placeholder?: string;
+  // Placeholder syntax that reported the issue
+  syntax?: string;
+  // Where in the translation; absent for things the translation lacks
+  position?: IcuPosition;
+}
+
+// Argument types that accept the same values
+const TYPE_GROUPS: Partial<Record<IcuArgumentType, string>> = {
+  number: "number",
+  plural: "number",
+  selectordinal: "number",
+  spellout: "number",
+  ordinal: "number",
+  duration: "number",
+  date: "date",
+  time: "date",
+  select: "select",
+};
+
+/**
+ * Type of each argument; a formatted use wins over a plain `{name}`
+ */
+function argumentTypes(args: IcuArgument[]): Map<string, IcuArgument> {
+  const byName = new Map<string, IcuArgument>();
+  for (const arg of args) {
+    const seen = byName.get(arg.name);
+    if (!seen || seen.argType === "none") byName.set(arg.name, arg);
+  }
+  return byName;
+}
+
+/**
+ * Validate a translation as an ICU message
+ * @param source - Source text, or null for source translations themselves
+ * and keys without one; only the syntax is checked then
+ * @param pluralCategories - CLDR plural categories of the translation's locale
+ */
+export function validateTranslation(
+  value: string,
+  source: string | null,
+  pluralCategories: string[],
+): ValidationIssue[] {
+  const target = parseIcuMessage(value);
+  if (target.error) {
+    return [
+      {
+        code: "syntax_error",
+        severity: "error",
+        message: target.error.message,
+        position: positionAt(value, target.error.offset),
+      },
+    ];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const targetArgs = collectArguments(target.nodes);
+
+  for (const arg of targetArgs) {
+    if (arg.argType !== "plural") continue;
+
+    const selectors = new Set(arg.options.map((option) => option.selector));
+    const missing = pluralCategories.filter((category) => !selectors.has(category));
+    if (missing.length > 0) {
+      issues.push({
+        code: "missing_plural_category",
+        severity: "error",
+        message: `Plural argument "${arg.name}" is missing ${missing.join(", ")}`,
+        argument: arg.name,
+        position: positionAt(value, arg.start),
+      });
+    }
+  }
+
+  // Parity is only checked against a source that parses
+  const parsedSource = source === null ? undefined : parseIcuMessage(source);
+  if (!parsedSource || parsedSource.error) return issues;
+
+  const sourceTypes = argumentTypes(collectArguments(parsedSource.nodes));
+  const targetTypes = argumentTypes(targetArgs);
+
+  for (const [name, arg] of sourceTypes) {
+    if (!targetTypes.has(name)) {
+      issues.push({
+        code: "missing_argument",
+        severity: "error",
+        message: `Argument "${name}" of the source is missing`,
+        argument: name,
+      });
+    } else {
+      const targetArg = targetTypes.get(name)!;
+      const sourceGroup = TYPE_GROUPS[arg.argType];
+      const targetGroup = TYPE_GROUPS[targetArg.argType];
+
+      if (sourceGroup && targetGroup && sourceGroup !== targetGroup) {
+        issues.push({
+          code: "argument_type_mismatch",
+          severity: "error",
+          message: `Argument "${name}" is ${targetArg.argType} but ${arg.argType} in the source`,
+          argument: name,
+          position: positionAt(value, targetArg.start),
+        });
+      }
+    }
+  }
+
+  for (const [name, arg] of targetTypes) {
+    if (!sourceTypes.has(name)) {
+      issues.push({
+        code: "extra_argument",
+        severity: "error",
+        message: `Argument "${name}" is not in the source`,
+        argument: name,
+        position: positionAt(value, arg.start),
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Whether the issues keep a write from being applied under a policy
+ */
+export function blocksWrite(
+  policy: ValidationPolicy,
+  issues: ValidationIssue[],
+): boolean {
+  return policy === "block" && issues.some((issue) => issue.severity === "error");
+}
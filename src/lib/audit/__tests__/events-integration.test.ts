@@ -1,6 +1,7 @@
 import { eq, gte } from "drizzle-orm";
 import { beforeEach, describe, expect, it } from "vitest";
 import { db } from "~/lib/db";
+import { registerLocales } from "~/lib/db/migrate-locales";
 import { event, l10nKey, translation } from "~/lib/db/schema";
 import { logEvent } from "../event-logger";
 
@@ -10,6 +11,7 @@ describe("Events API Integration", () => {
     await db.delete(event);
     await db.delete(translation);
     await db.delete(l10nKey);
+    await registerLocales(["en"]);
   });
 
   describe("Event creation during CRUD operations", () => {
@@ -4,7 +4,7 @@ import { event } from "~/lib/db/schema";
 export interface EventLogData {
   actor: string;
   action: "create" | "update" | "delete" | "import" | "export";
-  entityType: "l10n_key" | "translation" | "service";
+  entityType: "l10n_key" | "translation" | "service" | "namespace";
   entityId: string;
   before?: Record<string, unknown>;
   after?: Record<string, unknown>;
@@ -0,0 +1,134 @@
+import { sql } from "drizzle-orm";
+
+import { describeLocale } from "~/lib/api/locales";
+import { db } from "./index";
+import { locale, translation } from "./schema";
+
+/**
+ * Migration from the `locale` enum to the `locale` table
+ *
+ * Translations used to store their locale as one of twelve enum values. The
+ * column becomes text referencing `locale.code`, every value in use is
+ * registered, and services are enabled for the locales they have
+ * translations in. Each step checks the current state, so the script can run
+ * again, e.g. against a database `db push` already half-migrated.
+ */
+
+// Values of the former `locale` enum
+export const DEFAULT_LOCALES = [
+  "en",
+  "es",
+  "fr",
+  "de",
+  "it",
+  "pt",
+  "ru",
+  "ja",
+  "ko",
+  "zh",
+  "ar",
+  "hi",
+];
+
+/**
+ * Register locales with the display name, direction and plural categories
+ * known to the runtime; registered locales are left unchanged
+ */
+export async function registerLocales(codes: string[]) {
+  if (codes.length === 0) return;
+
+  await db
+    .insert(locale)
+    .values(codes.map((code) => ({ code, ...describeLocale(code) })))
+    .onConflictDoNothing();
+}
+
+export async function migrateLocales() {
+  console.log("🌐 Migrating translation locales...");
+
+  // The enum type is named like the new table, so it goes first
+  await db.execute(
+    sql`ALTER TABLE "translation" ALTER COLUMN "locale" TYPE text USING "locale"::text`,
+  );
+  await db.execute(sql`
+    DO $$ BEGIN
+      IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'locale' AND typtype = 'e') THEN
+        DROP TYPE "locale";
+      END IF;
+    END $$
+  `);
+
+  await db.execute(sql`
+    DO $$ BEGIN
+      CREATE TYPE "text_direction" AS ENUM ('ltr', 'rtl');
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END $$
+  `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "locale" (
+      "code" text PRIMARY KEY,
+      "display_name" text NOT NULL,
+      "direction" "text_direction" DEFAULT 'ltr' NOT NULL,
+      "plural_rules" text[] DEFAULT '{"other"}' NOT NULL,
+      "created_at" timestamp DEFAULT now() NOT NULL,
+      "updated_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "service_locale" (
+      "service_id" text NOT NULL REFERENCES "service"("id") ON DELETE CASCADE,
+      "locale_code" text NOT NULL REFERENCES "locale"("code") ON DELETE CASCADE,
+      "enabled" boolean DEFAULT true NOT NULL,
+      "created_at" timestamp DEFAULT now() NOT NULL,
+      "updated_at" timestamp DEFAULT now() NOT NULL,
+      PRIMARY KEY ("service_id", "locale_code")
+    )
+  `);
+  // Tables created before fallback chains lack their column
+  await db.execute(sql`
+    ALTER TABLE "service_locale" ADD COLUMN IF NOT EXISTS "fallbacks" text[]
+  `);
+  // Tables created before required locales lack their column, and enabled
+  // every locale by default
+  await db.execute(sql`
+    ALTER TABLE "service_locale" ADD COLUMN IF NOT EXISTS "required" boolean DEFAULT false NOT NULL
+  `);
+  await db.execute(sql`
+    ALTER TABLE "service_locale" ALTER COLUMN "enabled" SET DEFAULT false
+  `);
+
+  // Services created before per-service source locales checked against en
+  await db.execute(sql`
+    ALTER TABLE "service" ADD COLUMN IF NOT EXISTS "source_locale" text DEFAULT 'en' NOT NULL
+  `);
+
+  // Register the former enum values and anything else already stored
+  const inUse = await db.selectDistinct({ locale: translation.locale }).from(translation);
+  const codes = [...new Set([...DEFAULT_LOCALES, ...inUse.map((row) => row.locale)])];
+  await registerLocales(codes);
+  console.log(`✅ Registered ${codes.length} locales`);
+
+  await db.execute(sql`
+    DO $$ BEGIN
+      ALTER TABLE "translation" ADD CONSTRAINT "translation_locale_locale_code_fk"
+        FOREIGN KEY ("locale") REFERENCES "locale"("code");
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END $$
+  `);
+
+  await db.execute(sql`
+    INSERT INTO "service_locale" ("service_id", "locale_code", "enabled")
+    SELECT DISTINCT k."service_id", t."locale", true
+    FROM "translation" t
+    JOIN "l10n_key" k ON k."id" = t."key_id"
+    WHERE k."service_id" IS NOT NULL
+    ON CONFLICT DO NOTHING
+  `);
+  console.log("🎉 Locale migration completed successfully!");
+}
+
+// Allow direct execution
+if (import.meta.main) {
+  await migrateLocales();
+  process.exit(0);
+}
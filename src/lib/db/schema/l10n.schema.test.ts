@@ -1,11 +1,13 @@
+import { getTableConfig } from "drizzle-orm/pg-core";
 import { describe, expect, it } from "vitest";
 import {
   event,
   l10nKey,
-  localeEnum,
+  locale,
   namespace,
   releaseBundle,
   service,
+  serviceLocale,
   statusEnum,
   translation,
 } from "./l10n.schema";
@@ -36,16 +38,31 @@ describe("L10n Schema Constraints", () => {
     });
   });
 
-  describe("Locale Enum", () => {
-    it("should contain common locale codes", () => {
-      const localeValues = localeEnum.enumValues;
-      expect(localeValues).toContain("en");
-      expect(localeValues).toContain("es");
-      expect(localeValues).toContain("fr");
-      expect(localeValues).toContain("de");
-      expect(localeValues).toContain("ja");
-      expect(localeValues).toContain("ko");
-      expect(localeValues).toContain("zh");
+  describe("Locale Schema", () => {
+    it("should key locales by BCP-47 code", () => {
+      expect(locale.code.primary).toBe(true);
+      expect(locale.displayName).toBeDefined();
+      expect(locale.direction.default).toBe("ltr");
+      expect(locale.pluralRules.default).toEqual(["other"]);
+    });
+
+    it("should enable locales per service", () => {
+      const [primaryKey] = getTableConfig(serviceLocale).primaryKeys;
+      expect(primaryKey.columns.map((column) => column.name)).toEqual([
+        "service_id",
+        "locale_code",
+      ]);
+      expect(serviceLocale.enabled.default).toBe(false);
+      expect(serviceLocale.required.default).toBe(false);
+    });
+
+    it("should reference registered locales from translations", () => {
+      const [foreignKey] = getTableConfig(translation).foreignKeys.filter(
+        (fk) => fk.reference().foreignTable === locale,
+      );
+      expect(foreignKey.reference().columns.map((column) => column.name)).toEqual([
+        "locale",
+      ]);
     });
   });
 
@@ -73,6 +90,7 @@ describe("L10n Schema Constraints", () => {
       expect(l10nKey.id).toBeDefined();
       expect(l10nKey.serviceId).toBeDefined();
       expect(l10nKey.namespaceId).toBeDefined();
+      expect(l10nKey.description).toBeDefined();
       expect(l10nKey.keyName).toBeDefined();
       expect(l10nKey.tags).toBeDefined();
       expect(l10nKey.status).toBeDefined();
@@ -85,6 +103,17 @@ describe("L10n Schema Constraints", () => {
     it("should use status enum with default", () => {
       expect(l10nKey.status.default).toBe("draft");
     });
+
+    it("should make key names unique per service and namespace", () => {
+      const [constraint] = getTableConfig(l10nKey).uniqueConstraints;
+      expect(constraint.getName()).toBe("l10n_key_service_namespace_key_name_unique");
+      expect(constraint.columns.map((column) => column.name)).toEqual([
+        "service_id",
+        "namespace_id",
+        "key_name",
+      ]);
+      expect(constraint.nullsNotDistinct).toBe(true);
+    });
   });
 
   describe("Namespace Schema", () => {
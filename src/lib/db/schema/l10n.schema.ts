@@ -1,36 +1,38 @@
 import { relations } from "drizzle-orm";
 import {
+  boolean,
   index,
   integer,
   jsonb,
   pgEnum,
   pgTable,
+  primaryKey,
   text,
   timestamp,
+  unique,
 } from "drizzle-orm/pg-core";
 
-// Enums for statuses and locales
+import type { IcuPlural } from "~/lib/api/formats/plurals";
+
+// Enums for statuses, text directions and validation policies
 export const statusEnum = pgEnum("status", ["draft", "active", "archived"]);
-export const localeEnum = pgEnum("locale", [
-  "en",
-  "es",
-  "fr",
-  "de",
-  "it",
-  "pt",
-  "ru",
-  "ja",
-  "ko",
-  "zh",
-  "ar",
-  "hi",
+export const importJobStatusEnum = pgEnum("import_job_status", [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
 ]);
+export const textDirectionEnum = pgEnum("text_direction", ["ltr", "rtl"]);
+// Whether translation writes that fail validation are applied
+export const validationPolicyEnum = pgEnum("validation_policy", ["off", "warn", "block"]);
 
-export const service = pgTable("service", {
-  id: text("id").primaryKey(),
-  code: text("code").notNull().unique(),
-  name: text("name").notNull(),
-  owners: text("owners").array().notNull().default(["admin@local"]),
+// Locales keyed by canonical BCP-47 tag, e.g. `pt-BR` or `zh-Hant`
+export const locale = pgTable("locale", {
+  code: text("code").primaryKey(),
+  displayName: text("display_name").notNull(),
+  direction: textDirectionEnum("direction").notNull().default("ltr"),
+  // CLDR plural categories the locale uses, e.g. `one` and `other`
+  pluralRules: text("plural_rules").array().notNull().default(["other"]),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -38,10 +40,16 @@ export const service = pgTable("service", {
     .notNull(),
 });
 
-export const namespace = pgTable("namespace", {
+export const service = pgTable("service", {
   id: text("id").primaryKey(),
-  serviceId: text("service_id").references(() => service.id, { onDelete: "cascade" }),
+  code: text("code").notNull().unique(),
   name: text("name").notNull(),
+  owners: text("owners").array().notNull().default(["admin@local"]),
+  validationPolicy: validationPolicyEnum("validation_policy").notNull().default("warn"),
+  // Placeholder syntaxes translations are checked for
+  placeholderSyntaxes: text("placeholder_syntaxes").array().notNull().default(["icu"]),
+  // Locale of the source text translations are checked against
+  sourceLocale: text("source_locale").notNull().default("en"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -49,15 +57,36 @@ export const namespace = pgTable("namespace", {
     .notNull(),
 });
 
-export const l10nKey = pgTable("l10n_key", {
+// Locales a service ships and their settings
+export const serviceLocale = pgTable(
+  "service_locale",
+  {
+    serviceId: text("service_id")
+      .notNull()
+      .references(() => service.id, { onDelete: "cascade" }),
+    localeCode: text("locale_code")
+      .notNull()
+      .references(() => locale.code, { onDelete: "cascade" }),
+    // Whether the service ships the locale; rows may exist only for settings
+    enabled: boolean("enabled").notNull().default(false),
+    // Shipped locales that must be fully translated
+    required: boolean("required").notNull().default(false),
+    // Locales tried in order when a translation is missing; null for the
+    // default chain of parent tags, then `en`
+    fallbacks: text("fallbacks").array(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.serviceId, table.localeCode] })],
+);
+
+export const namespace = pgTable("namespace", {
   id: text("id").primaryKey(),
-  serviceId: text("service_id").references(() => service.id, { onDelete: "set null" }),
-  namespaceId: text("namespace_id").references(() => namespace.id, {
-    onDelete: "set null",
-  }),
-  keyName: text("key_name").notNull(),
-  tags: text("tags").array().notNull().default([]),
-  status: statusEnum("status").notNull().default("draft"),
+  serviceId: text("service_id").references(() => service.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -65,13 +94,51 @@ export const l10nKey = pgTable("l10n_key", {
     .notNull(),
 });
 
+export const l10nKey = pgTable(
+  "l10n_key",
+  {
+    id: text("id").primaryKey(),
+    serviceId: text("service_id").references(() => service.id, { onDelete: "set null" }),
+    namespaceId: text("namespace_id").references(() => namespace.id, {
+      onDelete: "set null",
+    }),
+    keyName: text("key_name").notNull(),
+    description: text("description"),
+    // Where and how the string is used, for translators
+    context: text("context"),
+    // Longest translation the UI has room for, in characters
+    maxLength: integer("max_length"),
+    // URLs or storage paths of screenshots showing the string
+    screenshots: text("screenshots").array().notNull().default([]),
+    tags: text("tags").array().notNull().default([]),
+    status: statusEnum("status").notNull().default("draft"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    // Key names are unique per namespace; keys without a namespace count as
+    // one namespace
+    unique("l10n_key_service_namespace_key_name_unique")
+      .on(table.serviceId, table.namespaceId, table.keyName)
+      .nullsNotDistinct(),
+  ],
+);
+
 export const translation = pgTable("translation", {
   id: text("id").primaryKey(),
   keyId: text("key_id")
     .notNull()
     .references(() => l10nKey.id, { onDelete: "cascade" }),
-  locale: localeEnum("locale").notNull(),
+  locale: text("locale")
+    .notNull()
+    .references(() => locale.code),
   value: text("value"),
+  // Plural forms of translations written as forms; `value` holds them as
+  // an ICU plural
+  plurals: jsonb("plurals").$type<IcuPlural>(),
   status: statusEnum("status").notNull().default("draft"),
   version: integer("version").notNull().default(1),
   checksum: text("checksum"),
@@ -102,20 +169,74 @@ export const event = pgTable(
     entityId: text("entity_id").notNull(),
     before: jsonb("before"),
     after: jsonb("after"),
+    // Groups the events written by one import or revert
+    batchId: text("batch_id"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
     index("event_entity_type_idx").on(table.entityType),
     index("event_entity_id_idx").on(table.entityId),
     index("event_created_at_idx").on(table.createdAt),
+    index("event_batch_id_idx").on(table.batchId),
   ],
 );
 
+export const importJob = pgTable(
+  "import_job",
+  {
+    id: text("id").primaryKey(),
+    serviceId: text("service_id")
+      .notNull()
+      .references(() => service.id, { onDelete: "cascade" }),
+    actor: text("actor").notNull(),
+    status: importJobStatusEnum("status").notNull().default("queued"),
+    dryRun: boolean("dry_run").notNull().default(false),
+    // Import options and the payload with resolved key ids
+    payload: jsonb("payload").notNull(),
+    totalKeys: integer("total_keys").notNull(),
+    processedKeys: integer("processed_keys").notNull().default(0),
+    // Diff report of the chunks processed so far
+    report: jsonb("report"),
+    // Totals of the chunks applied so far
+    result: jsonb("result"),
+    errors: jsonb("errors").notNull().default([]),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+    // Claim of the worker running the job, renewed after every chunk; a
+    // running job with a stale heartbeat is claimed again
+    claimId: text("claim_id"),
+    heartbeatAt: timestamp("heartbeat_at"),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [index("import_job_status_idx").on(table.status, table.createdAt)],
+);
+
 // Relations
 export const serviceRelations = relations(service, ({ many }) => ({
   namespaces: many(namespace),
   keys: many(l10nKey),
   releaseBundles: many(releaseBundle),
+  importJobs: many(importJob),
+  locales: many(serviceLocale),
+}));
+
+export const localeRelations = relations(locale, ({ many }) => ({
+  services: many(serviceLocale),
+}));
+
+export const serviceLocaleRelations = relations(serviceLocale, ({ one }) => ({
+  service: one(service, {
+    fields: [serviceLocale.serviceId],
+    references: [service.id],
+  }),
+  locale: one(locale, {
+    fields: [serviceLocale.localeCode],
+    references: [locale.code],
+  }),
 }));
 
 export const namespaceRelations = relations(namespace, ({ one, many }) => ({
@@ -151,3 +272,10 @@ export const releaseBundleRelations = relations(releaseBundle, ({ one }) => ({
     references: [service.id],
   }),
 }));
+
+export const importJobRelations = relations(importJob, ({ one }) => ({
+  service: one(service, {
+    fields: [importJob.serviceId],
+    references: [service.id],
+  }),
+}));
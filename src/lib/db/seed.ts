@@ -1,5 +1,6 @@
 import { eq } from "drizzle-orm";
 import { db } from "./index";
+import { DEFAULT_LOCALES, registerLocales } from "./migrate-locales";
 import { role, service } from "./schema";
 
 /**
@@ -73,6 +74,10 @@ export async function seed() {
       }
     }
 
+    // Register the default locales
+    await registerLocales(DEFAULT_LOCALES);
+    console.log(`✅ Registered ${DEFAULT_LOCALES.length} default locales`);
+
     console.log("🎉 Database seed completed successfully!");
   } catch (error) {
     console.error("❌ Error during seed:", error);
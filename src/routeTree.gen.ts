@@ -18,12 +18,25 @@ import { Route as authPagesSignupRouteImport } from "./routes/(auth-pages)/signu
 import { Route as authPagesLoginRouteImport } from "./routes/(auth-pages)/login";
 import { Route as authenticatedDashboardRouteRouteImport } from "./routes/(authenticated)/dashboard/route";
 import { Route as authenticatedDashboardIndexRouteImport } from "./routes/(authenticated)/dashboard/index";
+import { ServerRoute as ApiLocalesServerRouteImport } from "./routes/api/locales";
+import { ServerRoute as ApiIntegrityServerRouteImport } from "./routes/api/integrity";
 import { ServerRoute as ApiImportServerRouteImport } from "./routes/api/import";
+import { ServerRoute as ApiFormatsServerRouteImport } from "./routes/api/formats";
 import { ServerRoute as ApiExportServerRouteImport } from "./routes/api/export";
 import { ServerRoute as ApiEventsServerRouteImport } from "./routes/api/events";
 import { ServerRoute as ApiKeysIndexServerRouteImport } from "./routes/api/keys/index";
 import { ServerRoute as ApiTranslationsIdServerRouteImport } from "./routes/api/translations/$id";
+import { ServerRoute as ApiKeysIdServerRouteImport } from "./routes/api/keys/$id";
 import { ServerRoute as ApiAuthSplatServerRouteImport } from "./routes/api/auth/$";
+import { ServerRoute as ApiServicesCodeValidationServerRouteImport } from "./routes/api/services/$code/validation";
+import { ServerRoute as ApiServicesCodeNamespacesServerRouteImport } from "./routes/api/services/$code/namespaces";
+import { ServerRoute as ApiServicesCodeLocalesServerRouteImport } from "./routes/api/services/$code/locales";
+import { ServerRoute as ApiServicesCodeFallbacksServerRouteImport } from "./routes/api/services/$code/fallbacks";
+import { ServerRoute as ApiServicesCodeCoverageServerRouteImport } from "./routes/api/services/$code/coverage";
+import { ServerRoute as ApiImportJobsIdServerRouteImport } from "./routes/api/import/jobs/$id";
+import { ServerRoute as ApiImportBatchIdRevertServerRouteImport } from "./routes/api/import/$batchId/revert";
+import { ServerRoute as ApiServicesCodeNamespacesMoveServerRouteImport } from "./routes/api/services/$code/namespaces/move";
+import { ServerRoute as ApiServicesCodeNamespacesIdServerRouteImport } from "./routes/api/services/$code/namespaces/$id";
 
 const rootServerRouteImport = createServerRootRoute();
 
@@ -62,11 +75,26 @@ const authenticatedDashboardIndexRoute =
     path: "/",
     getParentRoute: () => authenticatedDashboardRouteRoute,
   } as any);
+const ApiLocalesServerRoute = ApiLocalesServerRouteImport.update({
+  id: "/api/locales",
+  path: "/api/locales",
+  getParentRoute: () => rootServerRouteImport,
+} as any);
+const ApiIntegrityServerRoute = ApiIntegrityServerRouteImport.update({
+  id: "/api/integrity",
+  path: "/api/integrity",
+  getParentRoute: () => rootServerRouteImport,
+} as any);
 const ApiImportServerRoute = ApiImportServerRouteImport.update({
   id: "/api/import",
   path: "/api/import",
   getParentRoute: () => rootServerRouteImport,
 } as any);
+const ApiFormatsServerRoute = ApiFormatsServerRouteImport.update({
+  id: "/api/formats",
+  path: "/api/formats",
+  getParentRoute: () => rootServerRouteImport,
+} as any);
 const ApiExportServerRoute = ApiExportServerRouteImport.update({
   id: "/api/export",
   path: "/api/export",
@@ -87,11 +115,69 @@ const ApiTranslationsIdServerRoute = ApiTranslationsIdServerRouteImport.update({
   path: "/api/translations/$id",
   getParentRoute: () => rootServerRouteImport,
 } as any);
+const ApiKeysIdServerRoute = ApiKeysIdServerRouteImport.update({
+  id: "/api/keys/$id",
+  path: "/api/keys/$id",
+  getParentRoute: () => rootServerRouteImport,
+} as any);
 const ApiAuthSplatServerRoute = ApiAuthSplatServerRouteImport.update({
   id: "/api/auth/$",
   path: "/api/auth/$",
   getParentRoute: () => rootServerRouteImport,
 } as any);
+const ApiServicesCodeValidationServerRoute =
+  ApiServicesCodeValidationServerRouteImport.update({
+    id: "/api/services/$code/validation",
+    path: "/api/services/$code/validation",
+    getParentRoute: () => rootServerRouteImport,
+  } as any);
+const ApiServicesCodeNamespacesServerRoute =
+  ApiServicesCodeNamespacesServerRouteImport.update({
+    id: "/api/services/$code/namespaces",
+    path: "/api/services/$code/namespaces",
+    getParentRoute: () => rootServerRouteImport,
+  } as any);
+const ApiServicesCodeLocalesServerRoute =
+  ApiServicesCodeLocalesServerRouteImport.update({
+    id: "/api/services/$code/locales",
+    path: "/api/services/$code/locales",
+    getParentRoute: () => rootServerRouteImport,
+  } as any);
+const ApiServicesCodeFallbacksServerRoute =
+  ApiServicesCodeFallbacksServerRouteImport.update({
+    id: "/api/services/$code/fallbacks",
+    path: "/api/services/$code/fallbacks",
+    getParentRoute: () => rootServerRouteImport,
+  } as any);
+const ApiServicesCodeCoverageServerRoute =
+  ApiServicesCodeCoverageServerRouteImport.update({
+    id: "/api/services/$code/coverage",
+    path: "/api/services/$code/coverage",
+    getParentRoute: () => rootServerRouteImport,
+  } as any);
+const ApiImportJobsIdServerRoute = ApiImportJobsIdServerRouteImport.update({
+  id: "/jobs/$id",
+  path: "/jobs/$id",
+  getParentRoute: () => ApiImportServerRoute,
+} as any);
+const ApiImportBatchIdRevertServerRoute =
+  ApiImportBatchIdRevertServerRouteImport.update({
+    id: "/$batchId/revert",
+    path: "/$batchId/revert",
+    getParentRoute: () => ApiImportServerRoute,
+  } as any);
+const ApiServicesCodeNamespacesMoveServerRoute =
+  ApiServicesCodeNamespacesMoveServerRouteImport.update({
+    id: "/move",
+    path: "/move",
+    getParentRoute: () => ApiServicesCodeNamespacesServerRoute,
+  } as any);
+const ApiServicesCodeNamespacesIdServerRoute =
+  ApiServicesCodeNamespacesIdServerRouteImport.update({
+    id: "/$id",
+    path: "/$id",
+    getParentRoute: () => ApiServicesCodeNamespacesServerRoute,
+  } as any);
 
 export interface FileRoutesByFullPath {
   "/": typeof authenticatedRouteRouteWithChildren;
@@ -140,62 +226,149 @@ export interface RootRouteChildren {
 export interface FileServerRoutesByFullPath {
   "/api/events": typeof ApiEventsServerRoute;
   "/api/export": typeof ApiExportServerRoute;
-  "/api/import": typeof ApiImportServerRoute;
+  "/api/formats": typeof ApiFormatsServerRoute;
+  "/api/import": typeof ApiImportServerRouteWithChildren;
+  "/api/integrity": typeof ApiIntegrityServerRoute;
+  "/api/locales": typeof ApiLocalesServerRoute;
   "/api/auth/$": typeof ApiAuthSplatServerRoute;
+  "/api/keys/$id": typeof ApiKeysIdServerRoute;
   "/api/translations/$id": typeof ApiTranslationsIdServerRoute;
   "/api/keys": typeof ApiKeysIndexServerRoute;
+  "/api/import/$batchId/revert": typeof ApiImportBatchIdRevertServerRoute;
+  "/api/import/jobs/$id": typeof ApiImportJobsIdServerRoute;
+  "/api/services/$code/coverage": typeof ApiServicesCodeCoverageServerRoute;
+  "/api/services/$code/fallbacks": typeof ApiServicesCodeFallbacksServerRoute;
+  "/api/services/$code/locales": typeof ApiServicesCodeLocalesServerRoute;
+  "/api/services/$code/namespaces": typeof ApiServicesCodeNamespacesServerRouteWithChildren;
+  "/api/services/$code/validation": typeof ApiServicesCodeValidationServerRoute;
+  "/api/services/$code/namespaces/$id": typeof ApiServicesCodeNamespacesIdServerRoute;
+  "/api/services/$code/namespaces/move": typeof ApiServicesCodeNamespacesMoveServerRoute;
 }
 export interface FileServerRoutesByTo {
   "/api/events": typeof ApiEventsServerRoute;
   "/api/export": typeof ApiExportServerRoute;
-  "/api/import": typeof ApiImportServerRoute;
+  "/api/formats": typeof ApiFormatsServerRoute;
+  "/api/import": typeof ApiImportServerRouteWithChildren;
+  "/api/integrity": typeof ApiIntegrityServerRoute;
+  "/api/locales": typeof ApiLocalesServerRoute;
   "/api/auth/$": typeof ApiAuthSplatServerRoute;
+  "/api/keys/$id": typeof ApiKeysIdServerRoute;
   "/api/translations/$id": typeof ApiTranslationsIdServerRoute;
   "/api/keys": typeof ApiKeysIndexServerRoute;
+  "/api/import/$batchId/revert": typeof ApiImportBatchIdRevertServerRoute;
+  "/api/import/jobs/$id": typeof ApiImportJobsIdServerRoute;
+  "/api/services/$code/coverage": typeof ApiServicesCodeCoverageServerRoute;
+  "/api/services/$code/fallbacks": typeof ApiServicesCodeFallbacksServerRoute;
+  "/api/services/$code/locales": typeof ApiServicesCodeLocalesServerRoute;
+  "/api/services/$code/namespaces": typeof ApiServicesCodeNamespacesServerRouteWithChildren;
+  "/api/services/$code/validation": typeof ApiServicesCodeValidationServerRoute;
+  "/api/services/$code/namespaces/$id": typeof ApiServicesCodeNamespacesIdServerRoute;
+  "/api/services/$code/namespaces/move": typeof ApiServicesCodeNamespacesMoveServerRoute;
 }
 export interface FileServerRoutesById {
   __root__: typeof rootServerRouteImport;
   "/api/events": typeof ApiEventsServerRoute;
   "/api/export": typeof ApiExportServerRoute;
-  "/api/import": typeof ApiImportServerRoute;
+  "/api/formats": typeof ApiFormatsServerRoute;
+  "/api/import": typeof ApiImportServerRouteWithChildren;
+  "/api/integrity": typeof ApiIntegrityServerRoute;
+  "/api/locales": typeof ApiLocalesServerRoute;
   "/api/auth/$": typeof ApiAuthSplatServerRoute;
+  "/api/keys/$id": typeof ApiKeysIdServerRoute;
   "/api/translations/$id": typeof ApiTranslationsIdServerRoute;
   "/api/keys/": typeof ApiKeysIndexServerRoute;
+  "/api/import/$batchId/revert": typeof ApiImportBatchIdRevertServerRoute;
+  "/api/import/jobs/$id": typeof ApiImportJobsIdServerRoute;
+  "/api/services/$code/coverage": typeof ApiServicesCodeCoverageServerRoute;
+  "/api/services/$code/fallbacks": typeof ApiServicesCodeFallbacksServerRoute;
+  "/api/services/$code/locales": typeof ApiServicesCodeLocalesServerRoute;
+  "/api/services/$code/namespaces": typeof ApiServicesCodeNamespacesServerRouteWithChildren;
+  "/api/services/$code/validation": typeof ApiServicesCodeValidationServerRoute;
+  "/api/services/$code/namespaces/$id": typeof ApiServicesCodeNamespacesIdServerRoute;
+  "/api/services/$code/namespaces/move": typeof ApiServicesCodeNamespacesMoveServerRoute;
 }
 export interface FileServerRouteTypes {
   fileServerRoutesByFullPath: FileServerRoutesByFullPath;
   fullPaths:
     | "/api/events"
     | "/api/export"
+    | "/api/formats"
     | "/api/import"
+    | "/api/integrity"
+    | "/api/locales"
     | "/api/auth/$"
+    | "/api/keys/$id"
     | "/api/translations/$id"
-    | "/api/keys";
+    | "/api/keys"
+    | "/api/import/$batchId/revert"
+    | "/api/import/jobs/$id"
+    | "/api/services/$code/coverage"
+    | "/api/services/$code/fallbacks"
+    | "/api/services/$code/locales"
+    | "/api/services/$code/namespaces"
+    | "/api/services/$code/validation"
+    | "/api/services/$code/namespaces/$id"
+    | "/api/services/$code/namespaces/move";
   fileServerRoutesByTo: FileServerRoutesByTo;
   to:
     | "/api/events"
     | "/api/export"
+    | "/api/formats"
     | "/api/import"
+    | "/api/integrity"
+    | "/api/locales"
     | "/api/auth/$"
+    | "/api/keys/$id"
     | "/api/translations/$id"
-    | "/api/keys";
+    | "/api/keys"
+    | "/api/import/$batchId/revert"
+    | "/api/import/jobs/$id"
+    | "/api/services/$code/coverage"
+    | "/api/services/$code/fallbacks"
+    | "/api/services/$code/locales"
+    | "/api/services/$code/namespaces"
+    | "/api/services/$code/validation"
+    | "/api/services/$code/namespaces/$id"
+    | "/api/services/$code/namespaces/move";
   id:
     | "__root__"
     | "/api/events"
     | "/api/export"
+    | "/api/formats"
     | "/api/import"
+    | "/api/integrity"
+    | "/api/locales"
     | "/api/auth/$"
+    | "/api/keys/$id"
     | "/api/translations/$id"
-    | "/api/keys/";
+    | "/api/keys/"
+    | "/api/import/$batchId/revert"
+    | "/api/import/jobs/$id"
+    | "/api/services/$code/coverage"
+    | "/api/services/$code/fallbacks"
+    | "/api/services/$code/locales"
+    | "/api/services/$code/namespaces"
+    | "/api/services/$code/validation"
+    | "/api/services/$code/namespaces/$id"
+    | "/api/services/$code/namespaces/move";
   fileServerRoutesById: FileServerRoutesById;
 }
 export interface RootServerRouteChildren {
   ApiEventsServerRoute: typeof ApiEventsServerRoute;
   ApiExportServerRoute: typeof ApiExportServerRoute;
-  ApiImportServerRoute: typeof ApiImportServerRoute;
+  ApiFormatsServerRoute: typeof ApiFormatsServerRoute;
+  ApiImportServerRoute: typeof ApiImportServerRouteWithChildren;
+  ApiIntegrityServerRoute: typeof ApiIntegrityServerRoute;
+  ApiLocalesServerRoute: typeof ApiLocalesServerRoute;
   ApiAuthSplatServerRoute: typeof ApiAuthSplatServerRoute;
+  ApiKeysIdServerRoute: typeof ApiKeysIdServerRoute;
   ApiTranslationsIdServerRoute: typeof ApiTranslationsIdServerRoute;
   ApiKeysIndexServerRoute: typeof ApiKeysIndexServerRoute;
+  ApiServicesCodeCoverageServerRoute: typeof ApiServicesCodeCoverageServerRoute;
+  ApiServicesCodeFallbacksServerRoute: typeof ApiServicesCodeFallbacksServerRoute;
+  ApiServicesCodeLocalesServerRoute: typeof ApiServicesCodeLocalesServerRoute;
+  ApiServicesCodeNamespacesServerRoute: typeof ApiServicesCodeNamespacesServerRouteWithChildren;
+  ApiServicesCodeValidationServerRoute: typeof ApiServicesCodeValidationServerRoute;
 }
 
 declare module "@tanstack/react-router" {
@@ -253,6 +426,20 @@ declare module "@tanstack/react-router" {
 }
 declare module "@tanstack/react-start/server" {
   interface ServerFileRoutesByPath {
+    "/api/locales": {
+      id: "/api/locales";
+      path: "/api/locales";
+      fullPath: "/api/locales";
+      preLoaderRoute: typeof ApiLocalesServerRouteImport;
+      parentRoute: typeof rootServerRouteImport;
+    };
+    "/api/integrity": {
+      id: "/api/integrity";
+      path: "/api/integrity";
+      fullPath: "/api/integrity";
+      preLoaderRoute: typeof ApiIntegrityServerRouteImport;
+      parentRoute: typeof rootServerRouteImport;
+    };
     "/api/import": {
       id: "/api/import";
       path: "/api/import";
@@ -260,6 +447,13 @@ declare module "@tanstack/react-start/server" {
       preLoaderRoute: typeof ApiImportServerRouteImport;
       parentRoute: typeof rootServerRouteImport;
     };
+    "/api/formats": {
+      id: "/api/formats";
+      path: "/api/formats";
+      fullPath: "/api/formats";
+      preLoaderRoute: typeof ApiFormatsServerRouteImport;
+      parentRoute: typeof rootServerRouteImport;
+    };
     "/api/export": {
       id: "/api/export";
       path: "/api/export";
@@ -288,6 +482,13 @@ declare module "@tanstack/react-start/server" {
       preLoaderRoute: typeof ApiTranslationsIdServerRouteImport;
       parentRoute: typeof rootServerRouteImport;
     };
+    "/api/keys/$id": {
+      id: "/api/keys/$id";
+      path: "/api/keys/$id";
+      fullPath: "/api/keys/$id";
+      preLoaderRoute: typeof ApiKeysIdServerRouteImport;
+      parentRoute: typeof rootServerRouteImport;
+    };
     "/api/auth/$": {
       id: "/api/auth/$";
       path: "/api/auth/$";
@@ -295,6 +496,69 @@ declare module "@tanstack/react-start/server" {
       preLoaderRoute: typeof ApiAuthSplatServerRouteImport;
       parentRoute: typeof rootServerRouteImport;
     };
+    "/api/services/$code/validation": {
+      id: "/api/services/$code/validation";
+      path: "/api/services/$code/validation";
+      fullPath: "/api/services/$code/validation";
+      preLoaderRoute: typeof ApiServicesCodeValidationServerRouteImport;
+      parentRoute: typeof rootServerRouteImport;
+    };
+    "/api/services/$code/namespaces": {
+      id: "/api/services/$code/namespaces";
+      path: "/api/services/$code/namespaces";
+      fullPath: "/api/services/$code/namespaces";
+      preLoaderRoute: typeof ApiServicesCodeNamespacesServerRouteImport;
+      parentRoute: typeof rootServerRouteImport;
+    };
+    "/api/services/$code/locales": {
+      id: "/api/services/$code/locales";
+      path: "/api/services/$code/locales";
+      fullPath: "/api/services/$code/locales";
+      preLoaderRoute: typeof ApiServicesCodeLocalesServerRouteImport;
+      parentRoute: typeof rootServerRouteImport;
+    };
+    "/api/services/$code/fallbacks": {
+      id: "/api/services/$code/fallbacks";
+      path: "/api/services/$code/fallbacks";
+      fullPath: "/api/services/$code/fallbacks";
+      preLoaderRoute: typeof ApiServicesCodeFallbacksServerRouteImport;
+      parentRoute: typeof rootServerRouteImport;
+    };
+    "/api/services/$code/coverage": {
+      id: "/api/services/$code/coverage";
+      path: "/api/services/$code/coverage";
+      fullPath: "/api/services/$code/coverage";
+      preLoaderRoute: typeof ApiServicesCodeCoverageServerRouteImport;
+      parentRoute: typeof rootServerRouteImport;
+    };
+    "/api/import/jobs/$id": {
+      id: "/api/import/jobs/$id";
+      path: "/jobs/$id";
+      fullPath: "/api/import/jobs/$id";
+      preLoaderRoute: typeof ApiImportJobsIdServerRouteImport;
+      parentRoute: typeof ApiImportServerRoute;
+    };
+    "/api/import/$batchId/revert": {
+      id: "/api/import/$batchId/revert";
+      path: "/$batchId/revert";
+      fullPath: "/api/import/$batchId/revert";
+      preLoaderRoute: typeof ApiImportBatchIdRevertServerRouteImport;
+      parentRoute: typeof ApiImportServerRoute;
+    };
+    "/api/services/$code/namespaces/move": {
+      id: "/api/services/$code/namespaces/move";
+      path: "/move";
+      fullPath: "/api/services/$code/namespaces/move";
+      preLoaderRoute: typeof ApiServicesCodeNamespacesMoveServerRouteImport;
+      parentRoute: typeof ApiServicesCodeNamespacesServerRoute;
+    };
+    "/api/services/$code/namespaces/$id": {
+      id: "/api/services/$code/namespaces/$id";
+      path: "/$id";
+      fullPath: "/api/services/$code/namespaces/$id";
+      preLoaderRoute: typeof ApiServicesCodeNamespacesIdServerRouteImport;
+      parentRoute: typeof ApiServicesCodeNamespacesServerRoute;
+    };
   }
 }
 
@@ -338,6 +602,38 @@ const authenticatedRouteRouteChildren: authenticatedRouteRouteChildren = {
 const authenticatedRouteRouteWithChildren =
   authenticatedRouteRoute._addFileChildren(authenticatedRouteRouteChildren);
 
+interface ApiImportServerRouteChildren {
+  ApiImportBatchIdRevertServerRoute: typeof ApiImportBatchIdRevertServerRoute;
+  ApiImportJobsIdServerRoute: typeof ApiImportJobsIdServerRoute;
+}
+
+const ApiImportServerRouteChildren: ApiImportServerRouteChildren = {
+  ApiImportBatchIdRevertServerRoute: ApiImportBatchIdRevertServerRoute,
+  ApiImportJobsIdServerRoute: ApiImportJobsIdServerRoute,
+};
+
+const ApiImportServerRouteWithChildren = ApiImportServerRoute._addFileChildren(
+  ApiImportServerRouteChildren,
+);
+
+interface ApiServicesCodeNamespacesServerRouteChildren {
+  ApiServicesCodeNamespacesIdServerRoute: typeof ApiServicesCodeNamespacesIdServerRoute;
+  ApiServicesCodeNamespacesMoveServerRoute: typeof ApiServicesCodeNamespacesMoveServerRoute;
+}
+
+const ApiServicesCodeNamespacesServerRouteChildren: ApiServicesCodeNamespacesServerRouteChildren =
+  {
+    ApiServicesCodeNamespacesIdServerRoute:
+      ApiServicesCodeNamespacesIdServerRoute,
+    ApiServicesCodeNamespacesMoveServerRoute:
+      ApiServicesCodeNamespacesMoveServerRoute,
+  };
+
+const ApiServicesCodeNamespacesServerRouteWithChildren =
+  ApiServicesCodeNamespacesServerRoute._addFileChildren(
+    ApiServicesCodeNamespacesServerRouteChildren,
+  );
+
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   authPagesRouteRoute: authPagesRouteRouteWithChildren,
@@ -349,10 +645,20 @@ export const routeTree = rootRouteImport
 const rootServerRouteChildren: RootServerRouteChildren = {
   ApiEventsServerRoute: ApiEventsServerRoute,
   ApiExportServerRoute: ApiExportServerRoute,
-  ApiImportServerRoute: ApiImportServerRoute,
+  ApiFormatsServerRoute: ApiFormatsServerRoute,
+  ApiImportServerRoute: ApiImportServerRouteWithChildren,
+  ApiIntegrityServerRoute: ApiIntegrityServerRoute,
+  ApiLocalesServerRoute: ApiLocalesServerRoute,
   ApiAuthSplatServerRoute: ApiAuthSplatServerRoute,
+  ApiKeysIdServerRoute: ApiKeysIdServerRoute,
   ApiTranslationsIdServerRoute: ApiTranslationsIdServerRoute,
   ApiKeysIndexServerRoute: ApiKeysIndexServerRoute,
+  ApiServicesCodeCoverageServerRoute: ApiServicesCodeCoverageServerRoute,
+  ApiServicesCodeFallbacksServerRoute: ApiServicesCodeFallbacksServerRoute,
+  ApiServicesCodeLocalesServerRoute: ApiServicesCodeLocalesServerRoute,
+  ApiServicesCodeNamespacesServerRoute:
+    ApiServicesCodeNamespacesServerRouteWithChildren,
+  ApiServicesCodeValidationServerRoute: ApiServicesCodeValidationServerRoute,
 };
 export const serverRouteTree = rootServerRouteImport
   ._addFileChildren(rootServerRouteChildren)
@@ -144,7 +144,7 @@ describe("Events API Query Schema", () => {
     });
 
     it("should accept all valid action types", () => {
-      const validActions = ["create", "update", "delete", "import", "export"];
+      const validActions = ["create", "update", "delete", "import", "export", "revert"];
 
       for (const action of validActions) {
         const query = { action };
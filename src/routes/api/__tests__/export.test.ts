@@ -62,7 +62,7 @@ describe("Export API Schema Validation", () => {
     it("should reject invalid format values", () => {
       const invalidQuery = {
         service: "web-app",
-        format: "xml", // only json is supported
+        format: "xml", // not a supported export format
       };
 
       const result = exportQuerySchema.safeParse(invalidQuery);
@@ -79,6 +79,99 @@ describe("Export API Schema Validation", () => {
       }
     });
 
+    it("should accept XLIFF formats", () => {
+      for (const format of ["xliff12", "xliff20"]) {
+        const result = exportQuerySchema.safeParse({ service: "web-app", format });
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.format).toBe(format);
+        }
+      }
+    });
+
+    it("should accept Android and iOS formats", () => {
+      for (const format of ["android", "ios", "xcstrings"]) {
+        const result = exportQuerySchema.safeParse({ service: "web-app", format });
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it("should accept spreadsheet formats", () => {
+      for (const format of ["csv", "xlsx"]) {
+        const result = exportQuerySchema.safeParse({ service: "web-app", format });
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it("should accept Rails YAML and Java properties formats", () => {
+      for (const format of ["yaml", "properties"]) {
+        const result = exportQuerySchema.safeParse({ service: "web-app", format });
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it("should accept the streaming NDJSON format", () => {
+      const result = exportQuerySchema.safeParse({
+        service: "web-app",
+        format: "ndjson",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept nested JSON formats with a separator", () => {
+      const result = exportQuerySchema.safeParse({
+        service: "web-app",
+        format: "i18next",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.separator).toBe(".");
+      }
+
+      const arb = exportQuerySchema.safeParse({
+        service: "web-app",
+        format: "arb",
+        separator: ":",
+      });
+      expect(arb.success).toBe(true);
+    });
+
+    it("should parse the bundle flag", () => {
+      const bundled = exportQuerySchema.safeParse({
+        service: "web-app",
+        format: "po",
+        bundle: "true",
+      });
+      expect(bundled.success).toBe(true);
+      if (bundled.success) {
+        expect(bundled.data.bundle).toBe(true);
+      }
+
+      const result = exportQuerySchema.safeParse({ service: "web-app" });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.bundle).toBe(false);
+      }
+    });
+
+    it("should parse the fallback flag", () => {
+      const filled = exportQuerySchema.safeParse({
+        service: "web-app",
+        locales: "pt-BR",
+        fallback: "true",
+      });
+      expect(filled.success).toBe(true);
+      if (filled.success) {
+        expect(filled.data.fallback).toBe(true);
+      }
+
+      const result = exportQuerySchema.safeParse({ service: "web-app" });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.fallback).toBe(false);
+      }
+    });
+
     it("should reject invalid status values", () => {
       const invalidQuery = {
         service: "web-app",
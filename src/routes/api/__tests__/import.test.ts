@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
-import { importPayloadSchema, type SupportedLocale } from "~/lib/api/import-export-types";
+import {
+  importPayloadSchema,
+  importRequestQuerySchema,
+} from "~/lib/api/import-export-types";
+import { importFileQuerySchema } from "~/routes/api/import";
 
 describe("Import API Schema Validation", () => {
   describe("importPayloadSchema", () => {
@@ -69,7 +73,7 @@ describe("Import API Schema Validation", () => {
         expect(result.data.data.keys[0].tags).toEqual([]); // default
         expect(result.data.data.keys[0].status).toBe("draft"); // default
         expect(result.data.data.keys[0].translations[0].status).toBe("draft"); // default
-        expect(result.data.data.keys[0].translations[0].version).toBe(1); // default
+        expect(result.data.data.keys[0].translations[0].version).toBeUndefined(); // not supplied
       }
     });
 
@@ -215,8 +219,8 @@ describe("Import API Schema Validation", () => {
       }
     });
 
-    it("should validate all supported locales", () => {
-      const supportedLocales = [
+    it("should validate BCP-47 locale tags", () => {
+      const localeTags = [
         "en",
         "es",
         "fr",
@@ -229,9 +233,14 @@ describe("Import API Schema Validation", () => {
         "zh",
         "ar",
         "hi",
+        "en-US",
+        "pt-BR",
+        "zh-Hant",
+        "es-419",
+        "sr-Latn-RS",
       ];
 
-      for (const locale of supportedLocales) {
+      for (const locale of localeTags) {
         const payload = {
           service: "web-app",
           data: {
@@ -241,7 +250,7 @@ describe("Import API Schema Validation", () => {
                 keyName: "test.key",
                 translations: [
                   {
-                    locale: locale as SupportedLocale,
+                    locale,
                     value: "Test value",
                   },
                 ],
@@ -255,6 +264,84 @@ describe("Import API Schema Validation", () => {
       }
     });
 
+    it("should skip values filled in from fallback locales", () => {
+      const result = importPayloadSchema.safeParse({
+        service: "web-app",
+        data: {
+          keys: [
+            {
+              id: "key-1",
+              keyName: "test.key",
+              translations: [
+                { locale: "pt", value: "Olá" },
+                { locale: "pt-BR", value: "Olá", fallbackLocale: "pt" },
+              ],
+            },
+          ],
+        },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.data.keys[0].translations.map((t) => t.locale)).toEqual([
+          "pt",
+        ]);
+      }
+    });
+
+    it("should derive values from plural forms", () => {
+      const result = importPayloadSchema.safeParse({
+        service: "web-app",
+        data: {
+          keys: [
+            {
+              id: "key-1",
+              keyName: "files.count",
+              translations: [
+                { locale: "en", plurals: { forms: { one: "# file", other: "# files" } } },
+                { locale: "de", value: "Dateien" },
+              ],
+            },
+          ],
+        },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.data.keys[0].translations).toMatchObject([
+          {
+            locale: "en",
+            value: "{count, plural, one {# file} other {# files}}",
+            plurals: { argument: "count", forms: { one: "# file", other: "# files" } },
+          },
+          { locale: "de", value: "Dateien" },
+        ]);
+      }
+    });
+
+    it("should reject translations without a value or plural forms", () => {
+      const payload = (translation: object) => ({
+        service: "web-app",
+        data: {
+          keys: [{ id: "key-1", keyName: "files.count", translations: [translation] }],
+        },
+      });
+
+      expect(importPayloadSchema.safeParse(payload({ locale: "en" })).success).toBe(
+        false,
+      );
+      expect(
+        importPayloadSchema.safeParse(
+          payload({ locale: "en", plurals: { forms: { one: "# file" } } }),
+        ).success,
+      ).toBe(false);
+      expect(
+        importPayloadSchema.safeParse(
+          payload({ locale: "en", plurals: { forms: { several: "#", other: "#" } } }),
+        ).success,
+      ).toBe(false);
+    });
+
     it("should handle complex nested structure", () => {
       const complexPayload = {
         dryRun: true,
@@ -317,4 +404,208 @@ describe("Import API Schema Validation", () => {
       }
     });
   });
+
+  describe("strategy", () => {
+    const payload = {
+      service: "web-app",
+      data: { keys: [{ id: "key-1", keyName: "home.title" }] },
+    };
+
+    it("should default to overwrite", () => {
+      const result = importPayloadSchema.safeParse(payload);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.strategy).toBe("overwrite");
+      }
+    });
+
+    it("should accept every merge strategy", () => {
+      for (const strategy of [
+        "overwrite",
+        "fillMissing",
+        "skipExisting",
+        "higherVersionWins",
+      ]) {
+        expect(importPayloadSchema.safeParse({ ...payload, strategy }).success).toBe(
+          true,
+        );
+        expect(
+          importFileQuerySchema.safeParse({ format: "csv", service: "web-app", strategy })
+            .success,
+        ).toBe(true);
+      }
+    });
+
+    it("should reject unknown strategies", () => {
+      expect(
+        importPayloadSchema.safeParse({ ...payload, strategy: "merge" }).success,
+      ).toBe(false);
+    });
+  });
+
+  describe("sync mode", () => {
+    const payload = {
+      service: "web-app",
+      data: { keys: [{ id: "key-1", keyName: "home.title" }] },
+    };
+
+    it("should default to merging without removing keys", () => {
+      const result = importPayloadSchema.safeParse(payload);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.mode).toBe("merge");
+        expect(result.data.deleteMissing).toBe(false);
+        expect(result.data.namespaceId).toBeUndefined();
+      }
+    });
+
+    it("should accept a sync scoped to a namespace", () => {
+      const result = importPayloadSchema.safeParse({
+        ...payload,
+        mode: "sync",
+        deleteMissing: true,
+        namespaceId: "checkout",
+      });
+      expect(result.success).toBe(true);
+
+      expect(importPayloadSchema.safeParse({ ...payload, mode: "replace" }).success).toBe(
+        false,
+      );
+    });
+
+    it("should parse sync options from upload query parameters", () => {
+      const result = importFileQuerySchema.safeParse({
+        format: "i18next",
+        service: "web-app",
+        mode: "sync",
+        deleteMissing: "true",
+        namespaceId: "checkout",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.mode).toBe("sync");
+        expect(result.data.deleteMissing).toBe(true);
+        expect(result.data.namespaceId).toBe("checkout");
+      }
+    });
+  });
+
+  describe("matchBy", () => {
+    it("should require key ids when matching by id", () => {
+      const result = importPayloadSchema.safeParse({
+        service: "web-app",
+        data: { keys: [{ keyName: "home.title" }] },
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues).toEqual([
+          expect.objectContaining({
+            path: ["data", "keys", 0, "id"],
+            message: 'Key id is required unless matchBy is "keyName"',
+          }),
+        ]);
+      }
+    });
+
+    it("should accept keys without ids when matching by key name", () => {
+      const result = importPayloadSchema.safeParse({
+        service: "web-app",
+        matchBy: "keyName",
+        data: { keys: [{ keyName: "home.title" }] },
+      });
+      expect(result.success).toBe(true);
+
+      const query = importFileQuerySchema.safeParse({
+        format: "i18next",
+        service: "web-app",
+        matchBy: "keyName",
+      });
+      expect(query.success).toBe(true);
+      if (query.success) {
+        expect(query.data.matchBy).toBe("keyName");
+      }
+    });
+
+    it("should leave the file match mode to the format when omitted", () => {
+      const query = importFileQuerySchema.safeParse({
+        format: "i18next",
+        service: "web-app",
+      });
+      expect(query.success).toBe(true);
+      if (query.success) {
+        expect(query.data.matchBy).toBeUndefined();
+      }
+    });
+  });
+
+  describe("importFileQuerySchema", () => {
+    it("should validate file upload query parameters", () => {
+      const result = importFileQuerySchema.safeParse({
+        format: "xliff12",
+        service: "web-app",
+        dryRun: "true",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.format).toBe("xliff12");
+        expect(result.data.dryRun).toBe(true);
+      }
+    });
+
+    it("should parse dryRun=false as false", () => {
+      const result = importFileQuerySchema.safeParse({
+        format: "xliff20",
+        service: "web-app",
+        dryRun: "false",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.dryRun).toBe(false);
+      }
+    });
+
+    it("should accept a fallback locale for platform formats", () => {
+      const result = importFileQuerySchema.safeParse({
+        format: "android",
+        service: "web-app",
+        locale: "fr",
+      });
+      expect(result.success).toBe(true);
+
+      const invalid = importFileQuerySchema.safeParse({
+        format: "ios",
+        service: "web-app",
+        locale: "not a locale",
+      });
+      expect(invalid.success).toBe(false);
+    });
+
+    it("should reject unknown file formats", () => {
+      const result = importFileQuerySchema.safeParse({
+        format: "docx",
+        service: "web-app",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("importRequestQuerySchema", () => {
+    it("should run imports synchronously by default", () => {
+      const result = importRequestQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.async).toBe(false);
+      }
+    });
+
+    it("should parse async=true", () => {
+      const result = importRequestQuerySchema.safeParse({ async: "true" });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.async).toBe(true);
+      }
+
+      expect(importRequestQuerySchema.safeParse({ async: "later" }).success).toBe(false);
+    });
+  });
 });
@@ -15,10 +15,14 @@ const MAX_QUERY_WINDOW_DAYS = 90;
 // Zod schema for events query parameters with time-based constraints
 export const eventsQuerySchema = z
   .object({
-    entity: z.enum(["l10n_key", "translation", "service"]).optional(),
+    entity: z.enum(["l10n_key", "translation", "service", "namespace"]).optional(),
     entityId: z.string().optional(),
     actor: z.string().optional(),
-    action: z.enum(["create", "update", "delete", "import", "export"]).optional(),
+    action: z
+      .enum(["create", "update", "delete", "import", "export", "revert"])
+      .optional(),
+    // Events written by one import or revert
+    batchId: z.string().optional(),
     startDate: z
       .string()
       .refine((val) => !isNaN(Date.parse(val)), { message: "Invalid datetime format" })
@@ -165,7 +169,7 @@ export const ServerRoute = createServerFileRoute("/api/events").methods({
       });
     }
 
-    const { entity, entityId, actor, action, limit, offset } = parsed.data;
+    const { entity, entityId, actor, action, batchId, limit, offset } = parsed.data;
     let { startDate, endDate } = parsed.data;
 
     // Apply default time window if no dates specified
@@ -199,6 +203,11 @@ export const ServerRoute = createServerFileRoute("/api/events").methods({
       conds.push(eq(event.action, action));
     }
 
+    // Import batch filtering
+    if (batchId) {
+      conds.push(eq(event.batchId, batchId));
+    }
+
     // Date range filtering
     if (startDate) {
       conds.push(gte(event.createdAt, new Date(startDate)));
@@ -236,6 +245,7 @@ export const ServerRoute = createServerFileRoute("/api/events").methods({
       entityId,
       actor,
       action,
+      batchId,
       hasDateFilter: !!(startDate || endDate),
       limit,
       offset,
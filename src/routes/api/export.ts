@@ -2,6 +2,30 @@ import { createServerFileRoute } from "@tanstack/react-start/server";
 import { and, eq, inArray, type SQL } from "drizzle-orm";
 import { z } from "zod";
 
+import {
+  createExportStream,
+  databaseKeyPages,
+  pageExportKeys,
+} from "~/lib/api/export-stream";
+import { buildBundle } from "~/lib/api/formats/bundle";
+import { zipFiles, type FormatFile } from "~/lib/api/formats/files";
+import { UnsupportedLocaleError, type IcuPlural } from "~/lib/api/formats/plurals";
+import { getFormat } from "~/lib/api/formats/registry";
+import {
+  fallbackKeyPages,
+  fallbackReadLocales,
+  fillFromFallbacks,
+  type FallbackChains,
+} from "~/lib/api/locale-fallback";
+import {
+  findUnknownLocales,
+  listEnabledLocales,
+  listLocales,
+  listTranslatedLocales,
+  loadFallbackChains,
+} from "~/lib/api/locale-registry";
+import { canonicalizeLocale } from "~/lib/api/locales";
+import { storedChecksum } from "~/lib/api/translation-checksum";
 import { auth } from "~/lib/auth/auth";
 import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
 import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
@@ -11,11 +35,22 @@ import { event, l10nKey, service as serviceTbl, translation } from "~/lib/db/sch
 
 // Zod schema for export query parameters
 export const exportQuerySchema = z.object({
-  format: z.enum(["json"]).default("json"),
+  format: z
+    .string()
+    .refine((id) => getFormat(id)?.serialize !== undefined, {
+      message: "Unsupported export format",
+    })
+    .default("json"),
   service: z.string().min(1),
   locales: z.string().optional(),
   status: z.enum(["draft", "active", "archived"]).optional(),
   includeEmpty: z.coerce.boolean().default(false),
+  // Separator splitting key names into nested i18next and YAML objects
+  separator: z.string().min(1).default("."),
+  // ZIP of one file set per namespace and locale, with a checksum manifest
+  bundle: z.stringbool().default(false),
+  // Fill missing translations from each locale's fallback chain
+  fallback: z.stringbool().default(false),
 });
 
 export type ExportQuery = z.infer<typeof exportQuerySchema>;
@@ -30,13 +65,20 @@ export interface ExportData {
       id: string;
       keyName: string;
       namespaceId?: string;
+      description?: string;
+      context?: string;
+      maxLength?: number;
+      screenshots?: string[];
       tags: string[];
       status: string;
       translations: Array<{
         locale: string;
         value: string;
         status: string;
-        version: number;
+        version?: number;
+        checksum?: string;
+        plurals?: IcuPlural;
+        fallbackLocale?: string;
       }>;
     }>;
   };
@@ -72,6 +114,33 @@ async function getAuthenticatedUser(request: Request): Promise<IdentityUser | nu
   return null;
 }
 
+/**
+ * Build the download response for a set of exported files.
+ * A single file is returned as-is; several files are bundled into a ZIP.
+ */
+function createFileResponse(
+  files: FormatFile[],
+  contentType: string,
+  serviceCode: string,
+): Response {
+  if (files.length === 1) {
+    const [file] = files;
+    return new Response(file.content, {
+      headers: {
+        "content-type": contentType,
+        "content-disposition": `attachment; filename="${file.path}"`,
+      },
+    });
+  }
+
+  return new Response(zipFiles(files), {
+    headers: {
+      "content-type": "application/zip",
+      "content-disposition": `attachment; filename="${serviceCode}-export-${new Date().toISOString().split("T")[0]}.zip"`,
+    },
+  });
+}
+
 /**
  * Generate export data with filtering
  */
@@ -97,25 +166,7 @@ async function generateExportData(
   const translationConds: SQL<unknown>[] = [];
 
   if (locales && locales.length > 0) {
-    translationConds.push(
-      inArray(
-        translation.locale,
-        locales as (
-          | "en"
-          | "es"
-          | "fr"
-          | "de"
-          | "it"
-          | "pt"
-          | "ru"
-          | "ja"
-          | "ko"
-          | "zh"
-          | "ar"
-          | "hi"
-        )[],
-      ),
-    );
+    translationConds.push(inArray(translation.locale, locales));
   }
 
   if (status) {
@@ -171,13 +222,20 @@ async function generateExportData(
       id: string;
       keyName: string;
       namespaceId?: string;
+      description?: string;
+      context?: string;
+      maxLength?: number;
+      screenshots?: string[];
       tags: string[];
       status: string;
       translations: Array<{
         locale: string;
         value: string;
         status: string;
-        version: number;
+        version?: number;
+        checksum?: string;
+        plurals?: IcuPlural;
+        fallbackLocale?: string;
       }>;
     }
   >();
@@ -191,6 +249,10 @@ async function generateExportData(
         id: key.id,
         keyName: key.keyName,
         namespaceId: key.namespaceId || undefined,
+        description: key.description || undefined,
+        context: key.context || undefined,
+        maxLength: key.maxLength ?? undefined,
+        screenshots: key.screenshots.length > 0 ? key.screenshots : undefined,
         tags: key.tags,
         status: key.status,
         translations: [],
@@ -202,8 +264,10 @@ async function generateExportData(
       keyMap.get(key.id)!.translations.push({
         locale: trans.locale,
         value: trans.value || "",
+        ...(trans.plurals && { plurals: trans.plurals }),
         status: trans.status,
         version: trans.version,
+        checksum: storedChecksum(trans),
       });
     }
   }
@@ -258,38 +322,32 @@ export const ServerRoute = createServerFileRoute("/api/export").methods({
       locales: localesParam,
       status,
       includeEmpty,
+      separator,
+      bundle,
+      fallback,
     } = parsed.data;
 
-    // Parse locales parameter (comma-separated)
-    const locales = localesParam
+    // Parse locales parameter (comma-separated BCP-47 tags)
+    const localeTags = localesParam
       ? localesParam
           .split(",")
           .map((l) => l.trim())
           .filter(Boolean)
       : undefined;
 
-    // Validate locales if provided
-    const validLocales = [
-      "en",
-      "es",
-      "fr",
-      "de",
-      "it",
-      "pt",
-      "ru",
-      "ja",
-      "ko",
-      "zh",
-      "ar",
-      "hi",
-    ];
-    if (locales) {
-      const invalidLocales = locales.filter((locale) => !validLocales.includes(locale));
+    // Validate locales if provided: tags must be well-formed and registered
+    let locales: string[] | undefined;
+    if (localeTags) {
+      const canonical = localeTags.map(canonicalizeLocale);
+      const invalidLocales = localeTags.filter((_, index) => !canonical[index]);
+      locales = canonical.filter((code) => code !== undefined);
+      invalidLocales.push(...(await findUnknownLocales(locales)));
+
       if (invalidLocales.length > 0) {
         return new Response(
           JSON.stringify({
             error: `Invalid locales: ${invalidLocales.join(`, `)}`,
-            validLocales,
+            validLocales: (await listLocales()).map((row) => row.code),
           }),
           {
             status: 400,
@@ -319,15 +377,162 @@ export const ServerRoute = createServerFileRoute("/api/export").methods({
       );
     }
 
+    // Without a locales parameter, export the locales the service ships
+    if (!locales) {
+      const enabledLocales = await listEnabledLocales(svc.id);
+      if (enabledLocales.length > 0) locales = enabledLocales;
+    }
+
+    const adapter = getFormat(format)!;
+    const { sourceLocale } = adapter;
+
+    if (sourceLocale && locales?.every((locale) => locale === sourceLocale)) {
+      return new Response(
+        JSON.stringify({
+          error: `${adapter.label} export requires at least one target locale besides ${sourceLocale}`,
+        }),
+        {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+
+    // Formats with source text always need the source locale
+    const exportLocales =
+      sourceLocale && locales && !locales.includes(sourceLocale)
+        ? [...locales, sourceLocale]
+        : locales;
+
+    // Gaps are filled from each locale's chain, so the chains are read too
+    let fallbackTargets: string[] | undefined;
+    let chains: FallbackChains | undefined;
+    if (fallback) {
+      fallbackTargets = exportLocales ?? (await listTranslatedLocales(svc.id));
+      chains = await loadFallbackChains(svc.id, fallbackTargets);
+    }
+    const readLocales =
+      fallbackTargets && chains
+        ? fallbackReadLocales(fallbackTargets, chains)
+        : exportLocales;
+
+    // Streaming formats page through keys instead of loading the whole service
+    if (adapter.serializeStream && !bundle) {
+      const exportedAt = new Date().toISOString();
+      const source = databaseKeyPages(svc.id, {
+        locales: readLocales,
+        status,
+        includeEmpty,
+      });
+      const keys = pageExportKeys(
+        fallbackTargets && chains
+          ? fallbackKeyPages(source, fallbackTargets, chains, includeEmpty)
+          : source,
+      );
+
+      const stream = createExportStream(
+        adapter,
+        { service: serviceCode, locales: locales || [], exportedAt },
+        keys,
+        async ({ keysExported, translationsExported, fallbacksFilled }) => {
+          // Log export operation once every key has been written
+          await db.insert(event).values({
+            id: crypto.randomUUID(),
+            actor: user.sub,
+            action: "export",
+            entityType: "service",
+            entityId: svc.id,
+            before: null,
+            after: {
+              service: serviceCode,
+              locales: locales || [],
+              status: status || "all",
+              includeEmpty,
+              fallback,
+              keysExported,
+              translationsExported,
+              fallbacksFilled,
+            },
+          });
+        },
+      );
+
+      return new Response(stream, {
+        headers: {
+          "content-type": adapter.contentType,
+          "content-disposition": `attachment; filename="${serviceCode}-export-${exportedAt.split("T")[0]}.${adapter.extension}"`,
+        },
+      });
+    }
+
     try {
       // Generate export data
       const exportData = await generateExportData(svc.id, serviceCode, {
-        locales,
+        locales: readLocales,
         status,
         includeEmpty,
       });
 
-      // Log export operation
+      if (fallbackTargets && chains) {
+        exportData.locales = exportLocales ?? [];
+        exportData.data.keys = exportData.data.keys
+          .map((key) => fillFromFallbacks(key, fallbackTargets, chains))
+          .filter((key) => includeEmpty || key.translations.length > 0);
+      }
+      let files: FormatFile[];
+      try {
+        files = bundle
+          ? [
+              {
+                path: `${serviceCode}-bundle-${exportData.exportedAt.split("T")[0]}.zip`,
+                content: buildBundle(adapter, exportData, {
+                  locales: locales ?? [],
+                  status,
+                  includeEmpty,
+                  separator,
+                }),
+              },
+            ]
+          : adapter.serialize!(exportData, { locales, separator });
+      } catch (error) {
+        if (error instanceof UnsupportedLocaleError) {
+          return new Response(
+            JSON.stringify({
+              error: `${adapter.label} export does not support locale "${error.locale}"`,
+              message: error.message,
+            }),
+            {
+              status: 400,
+              headers: { "content-type": "application/json" },
+            },
+          );
+        }
+
+        return new Response(
+          JSON.stringify({
+            error: "Keys conflict in the requested format",
+            message: error instanceof Error ? error.message : "Unknown error",
+          }),
+          {
+            status: 409,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
+      if (files.length === 0) {
+        return new Response(
+          JSON.stringify({ error: "No target locales found to export" }),
+          {
+            status: 404,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
+      const translations = exportData.data.keys.flatMap((key) => key.translations);
+
+      // Log export operation once the files are written
       await db.insert(event).values({
         id: crypto.randomUUID(),
         actor: user.sub,
@@ -340,29 +545,18 @@ export const ServerRoute = createServerFileRoute("/api/export").methods({
           locales: locales || [],
           status: status || "all",
           includeEmpty,
+          fallback,
           keysExported: exportData.data.keys.length,
-          translationsExported: exportData.data.keys.reduce(
-            (sum, key) => sum + key.translations.length,
-            0,
-          ),
+          translationsExported: translations.length,
+          fallbacksFilled: translations.filter((t) => t.fallbackLocale).length,
         },
       });
 
-      // Determine content type and response based on format
-      if (format === "json") {
-        return new Response(JSON.stringify(exportData, null, 2), {
-          headers: {
-            "content-type": "application/json",
-            "content-disposition": `attachment; filename="${serviceCode}-export-${new Date().toISOString().split("T")[0]}.json"`,
-          },
-        });
-      }
-
-      // This shouldn't happen due to schema validation, but just in case
-      return new Response(JSON.stringify({ error: "Unsupported format" }), {
-        status: 400,
-        headers: { "content-type": "application/json" },
-      });
+      return createFileResponse(
+        files,
+        bundle ? "application/zip" : adapter.contentType,
+        serviceCode,
+      );
     } catch (error) {
       console.error("Export operation failed:", error);
 
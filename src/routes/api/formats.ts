@@ -0,0 +1,63 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+
+import { listFormats } from "~/lib/api/formats/registry";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute("/api/formats").methods({
+  GET: async ({ request }: { request: Request }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    // Formats usable as `format` on /api/export and /api/import
+    const formats = listFormats().map((adapter) => ({
+      id: adapter.id,
+      label: adapter.label,
+      contentType: adapter.contentType,
+      extension: adapter.extension,
+      capabilities: adapter.capabilities,
+      export: adapter.serialize !== undefined,
+      import: adapter.parse !== undefined,
+    }));
+
+    return new Response(JSON.stringify({ formats }), {
+      headers: { "content-type": "application/json" },
+    });
+  },
+});
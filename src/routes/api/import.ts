@@ -2,33 +2,66 @@ import { createServerFileRoute } from "@tanstack/react-start/server";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 
-import { importPayloadSchema, type ImportPayload } from "~/lib/api/import-export-types";
+import { parseBundle, readBundle } from "~/lib/api/formats/bundle";
+import { isZipArchive, unzipFiles } from "~/lib/api/formats/files";
+import { getFormat, type FormatParseResult } from "~/lib/api/formats/registry";
+import {
+  attachValidationIssues,
+  executeImport,
+  generateDiffReport,
+} from "~/lib/api/import-executor";
+import {
+  importMatchModes,
+  importModes,
+  importPayloadSchema,
+  importRequestQuerySchema,
+  importStrategies,
+} from "~/lib/api/import-export-types";
+import { advanceImportJob, createImportJob } from "~/lib/api/import-jobs";
+import { resolveImportKeys } from "~/lib/api/import-keys";
+import {
+  findUnknownLocales,
+  listEnabledLocales,
+  listLocales,
+  loadPluralRules,
+} from "~/lib/api/locale-registry";
+import { localeTagSchema } from "~/lib/api/locales";
+import { resolveKeyNamespaces } from "~/lib/api/namespaces";
+import { disabledLocaleWarnings } from "~/lib/api/service-locales";
+import { findIncompletePlurals } from "~/lib/api/translation-plurals";
+import { validateImportTranslations } from "~/lib/api/validation/translations";
+import { blocksWrite } from "~/lib/api/validation/validator";
 import { auth } from "~/lib/auth/auth";
 import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
 import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
 import { validateServiceAccess } from "~/lib/auth/service-access";
 import { db } from "~/lib/db";
-import { event, l10nKey, service as serviceTbl, translation } from "~/lib/db/schema";
+import { event, l10nKey, namespace, service as serviceTbl } from "~/lib/db/schema";
 
 // Schema and types imported from side-effect-free module
 
-// Type for diff report
-export interface DiffReport {
-  summary: {
-    keysToCreate: number;
-    keysToUpdate: number;
-    translationsToCreate: number;
-    translationsToUpdate: number;
-  };
-  changes: Array<{
-    type: "create_key" | "update_key" | "create_translation" | "update_translation";
-    keyId: string;
-    keyName: string;
-    locale?: string;
-    before?: unknown;
-    after: unknown;
-  }>;
-}
+// Zod schema for file upload query parameters; the request body carries the
+// raw file (or a ZIP archive of files) instead of the JSON import payload
+export const importFileQuerySchema = z.object({
+  // Id of a registered format that can parse uploads
+  format: z.string().refine((id) => getFormat(id)?.parse !== undefined, {
+    message: "Unsupported import format",
+  }),
+  service: z.string().min(1),
+  dryRun: z.stringbool().default(false),
+  strategy: z.enum(importStrategies).default("overwrite"),
+  mode: z.enum(importModes).default("merge"),
+  deleteMissing: z.stringbool().default(false),
+  namespaceId: z.string().min(1).optional(),
+  // Defaults to id for formats that carry key ids, key name otherwise
+  matchBy: z.enum(importMatchModes).optional(),
+  // Locale for files whose path or content does not name one
+  locale: localeTagSchema.optional(),
+  // Separator joining nested i18next and YAML keys into key names
+  separator: z.string().min(1).default("."),
+});
+
+export type ImportFileQuery = z.infer<typeof importFileQuerySchema>;
 
 /**
  * Get authenticated user from request headers
@@ -60,377 +93,105 @@ async function getAuthenticatedUser(request: Request): Promise<IdentityUser | nu
   return null;
 }
 
-/**
- * Generate diff report for dry-run mode
- */
-async function generateDiffReport(
-  serviceId: string,
-  importData: ImportPayload["data"],
-): Promise<DiffReport> {
-  const changes: DiffReport["changes"] = [];
-  let keysToCreate = 0;
-  let keysToUpdate = 0;
-  let translationsToCreate = 0;
-  let translationsToUpdate = 0;
-
-  // Get existing keys for this service
-  const existingKeys = await db.query.l10nKey.findMany({
-    where: eq(l10nKey.serviceId, serviceId),
-    with: {
-      translations: true,
-    },
-  });
+export const ServerRoute = createServerFileRoute("/api/import").methods({
+  POST: async ({ request }: { request: Request }) => {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
 
-  const existingKeyMap = new Map(existingKeys.map((key) => [key.id, key]));
-
-  for (const keyData of importData.keys) {
-    const existingKey = existingKeyMap.get(keyData.id);
-
-    if (!existingKey) {
-      // Key doesn't exist - will be created
-      keysToCreate++;
-      changes.push({
-        type: "create_key",
-        keyId: keyData.id,
-        keyName: keyData.keyName,
-        after: {
-          keyName: keyData.keyName,
-          namespaceId: keyData.namespaceId,
-          tags: keyData.tags,
-          status: keyData.status,
-        },
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
       });
-
-      // All translations for new key will be created
-      translationsToCreate += keyData.translations.length;
-      for (const translation of keyData.translations) {
-        changes.push({
-          type: "create_translation",
-          keyId: keyData.id,
-          keyName: keyData.keyName,
-          locale: translation.locale,
-          after: {
-            locale: translation.locale,
-            value: translation.value,
-            status: translation.status,
-            version: translation.version,
-          },
-        });
-      }
-    } else {
-      // Key exists - check for updates
-      const keyChanged =
-        existingKey.keyName !== keyData.keyName ||
-        existingKey.namespaceId !== keyData.namespaceId ||
-        JSON.stringify(existingKey.tags) !== JSON.stringify(keyData.tags) ||
-        existingKey.status !== keyData.status;
-
-      if (keyChanged) {
-        keysToUpdate++;
-        changes.push({
-          type: "update_key",
-          keyId: keyData.id,
-          keyName: keyData.keyName,
-          before: {
-            keyName: existingKey.keyName,
-            namespaceId: existingKey.namespaceId,
-            tags: existingKey.tags,
-            status: existingKey.status,
-          },
-          after: {
-            keyName: keyData.keyName,
-            namespaceId: keyData.namespaceId,
-            tags: keyData.tags,
-            status: keyData.status,
-          },
-        });
-      }
-
-      // Check translations
-      const existingTranslationMap = new Map(
-        existingKey.translations.map((t) => [t.locale, t]),
-      );
-
-      for (const translationData of keyData.translations) {
-        const existingTranslation = existingTranslationMap.get(translationData.locale);
-
-        if (!existingTranslation) {
-          translationsToCreate++;
-          changes.push({
-            type: "create_translation",
-            keyId: keyData.id,
-            keyName: keyData.keyName,
-            locale: translationData.locale,
-            after: {
-              locale: translationData.locale,
-              value: translationData.value,
-              status: translationData.status,
-              version: translationData.version,
-            },
-          });
-        } else {
-          // Translation exists - check for updates
-          const translationChanged =
-            existingTranslation.value !== translationData.value ||
-            existingTranslation.status !== translationData.status ||
-            existingTranslation.version !== translationData.version;
-
-          if (translationChanged) {
-            translationsToUpdate++;
-            changes.push({
-              type: "update_translation",
-              keyId: keyData.id,
-              keyName: keyData.keyName,
-              locale: translationData.locale,
-              before: {
-                locale: existingTranslation.locale,
-                value: existingTranslation.value,
-                status: existingTranslation.status,
-                version: existingTranslation.version,
-              },
-              after: {
-                locale: translationData.locale,
-                value: translationData.value,
-                status: translationData.status,
-                version: translationData.version,
-              },
-            });
-          }
-        }
-      }
     }
-  }
 
-  return {
-    summary: {
-      keysToCreate,
-      keysToUpdate,
-      translationsToCreate,
-      translationsToUpdate,
-    },
-    changes,
-  };
-}
+    // Parse and validate request body; non-JSON formats upload the raw file
+    // and pass import options as query parameters
+    const url = new URL(request.url);
+    const format = url.searchParams.get("format");
+    let body: unknown;
 
-/**
- * Execute import with database transaction
- */
-async function executeImport(
-  serviceId: string,
-  importData: ImportPayload["data"],
-  userId: string,
-): Promise<void> {
-  await db.transaction(async (tx) => {
-    // Get existing keys for this service
-    const existingKeys = await tx.query.l10nKey.findMany({
-      where: eq(l10nKey.serviceId, serviceId),
-      with: {
-        translations: true,
-      },
+    const requestQuery = importRequestQuerySchema.safeParse({
+      async: url.searchParams.get("async") ?? undefined,
     });
 
-    const existingKeyMap = new Map(existingKeys.map((key) => [key.id, key]));
+    if (!requestQuery.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(requestQuery.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
 
-    for (const keyData of importData.keys) {
-      const existingKey = existingKeyMap.get(keyData.id);
+    if (format && format !== "json") {
+      const query = importFileQuerySchema.safeParse(Object.fromEntries(url.searchParams));
 
-      if (!existingKey) {
-        // Create new key
-        await tx.insert(l10nKey).values({
-          id: keyData.id,
-          serviceId,
-          keyName: keyData.keyName,
-          namespaceId: keyData.namespaceId ?? null,
-          tags: keyData.tags,
-          status: keyData.status,
+      if (!query.success) {
+        return new Response(JSON.stringify({ error: z.treeifyError(query.error) }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
         });
+      }
 
-        // Log key creation event
-        await tx.insert(event).values({
-          id: crypto.randomUUID(),
-          actor: userId,
-          action: "create",
-          entityType: "l10n_key",
-          entityId: keyData.id,
-          before: null,
-          after: {
-            keyName: keyData.keyName,
-            serviceId,
-            namespaceId: keyData.namespaceId,
-            tags: keyData.tags,
-            status: keyData.status,
+      // Spreadsheet columns are matched against the registered locales
+      const parseOptions = {
+        ...query.data,
+        locales: (await listLocales()).map((row) => row.code),
+      };
+
+      const adapter = getFormat(query.data.format)!;
+      let file: FormatParseResult;
+      try {
+        const bytes = new Uint8Array(await request.arrayBuffer());
+
+        // Bundles from `bundle=true` exports are verified against their manifest
+        const bundle = isZipArchive(bytes) ? readBundle(unzipFiles(bytes)) : undefined;
+        file = bundle
+          ? parseBundle(adapter, bundle, parseOptions)
+          : adapter.parse!(bytes, parseOptions);
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid import file",
+            message: error instanceof Error ? error.message : "Unknown error",
+          }),
+          {
+            status: 400,
+            headers: { "content-type": "application/json" },
           },
-        });
-
-        // Create translations for new key
-        for (const translationData of keyData.translations) {
-          const translationId = crypto.randomUUID();
-          await tx.insert(translation).values({
-            id: translationId,
-            keyId: keyData.id,
-            locale: translationData.locale,
-            value: translationData.value,
-            status: translationData.status,
-            version: translationData.version,
-          });
-
-          // Log translation creation event
-          await tx.insert(event).values({
-            id: crypto.randomUUID(),
-            actor: userId,
-            action: "create",
-            entityType: "translation",
-            entityId: translationId,
-            before: null,
-            after: {
-              keyId: keyData.id,
-              locale: translationData.locale,
-              value: translationData.value,
-              status: translationData.status,
-              version: translationData.version,
-            },
-          });
-        }
-      } else {
-        // Update existing key if changed
-        const keyChanged =
-          existingKey.keyName !== keyData.keyName ||
-          existingKey.namespaceId !== keyData.namespaceId ||
-          JSON.stringify(existingKey.tags) !== JSON.stringify(keyData.tags) ||
-          existingKey.status !== keyData.status;
-
-        if (keyChanged) {
-          const beforeState = {
-            keyName: existingKey.keyName,
-            namespaceId: existingKey.namespaceId,
-            tags: existingKey.tags,
-            status: existingKey.status,
-          };
-
-          await tx
-            .update(l10nKey)
-            .set({
-              keyName: keyData.keyName,
-              namespaceId: keyData.namespaceId,
-              tags: keyData.tags,
-              status: keyData.status,
-            })
-            .where(eq(l10nKey.id, keyData.id));
-
-          // Log key update event
-          await tx.insert(event).values({
-            id: crypto.randomUUID(),
-            actor: userId,
-            action: "update",
-            entityType: "l10n_key",
-            entityId: keyData.id,
-            before: beforeState,
-            after: {
-              keyName: keyData.keyName,
-              namespaceId: keyData.namespaceId,
-              tags: keyData.tags,
-              status: keyData.status,
-            },
-          });
-        }
-
-        // Handle translations
-        const existingTranslationMap = new Map(
-          existingKey.translations.map((t) => [t.locale, t]),
         );
-
-        for (const translationData of keyData.translations) {
-          const existingTranslation = existingTranslationMap.get(translationData.locale);
-
-          if (!existingTranslation) {
-            // Create new translation
-            const translationId = crypto.randomUUID();
-            await tx.insert(translation).values({
-              id: translationId,
-              keyId: keyData.id,
-              locale: translationData.locale,
-              value: translationData.value,
-              status: translationData.status,
-              version: translationData.version,
-            });
-
-            // Log translation creation event
-            await tx.insert(event).values({
-              id: crypto.randomUUID(),
-              actor: userId,
-              action: "create",
-              entityType: "translation",
-              entityId: translationId,
-              before: null,
-              after: {
-                keyId: keyData.id,
-                locale: translationData.locale,
-                value: translationData.value,
-                status: translationData.status,
-                version: translationData.version,
-              },
-            });
-          } else {
-            // Update existing translation if changed
-            const translationChanged =
-              existingTranslation.value !== translationData.value ||
-              existingTranslation.status !== translationData.status ||
-              existingTranslation.version !== translationData.version;
-
-            if (translationChanged) {
-              const beforeState = {
-                locale: existingTranslation.locale,
-                value: existingTranslation.value,
-                status: existingTranslation.status,
-                version: existingTranslation.version,
-              };
-
-              await tx
-                .update(translation)
-                .set({
-                  value: translationData.value,
-                  status: translationData.status,
-                  version: translationData.version,
-                })
-                .where(eq(translation.id, existingTranslation.id));
-
-              // Log translation update event
-              await tx.insert(event).values({
-                id: crypto.randomUUID(),
-                actor: userId,
-                action: "update",
-                entityType: "translation",
-                entityId: existingTranslation.id,
-                before: beforeState,
-                after: {
-                  locale: translationData.locale,
-                  value: translationData.value,
-                  status: translationData.status,
-                  version: translationData.version,
-                },
-              });
-            }
-          }
-        }
       }
-    }
-  });
-}
 
-export const ServerRoute = createServerFileRoute("/api/import").methods({
-  POST: async ({ request }: { request: Request }) => {
-    // Get authenticated user
-    const user = await getAuthenticatedUser(request);
+      // Report every problem at once, keyed by location (spreadsheet cell or
+      // bundle file)
+      if (file.issues.length > 0) {
+        const issueError = new z.ZodError(
+          file.issues.map(({ location, message }) => ({
+            code: "custom" as const,
+            path: [location],
+            message,
+            input: undefined,
+          })),
+        );
+        return new Response(JSON.stringify({ error: z.treeifyError(issueError) }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        });
+      }
 
-    if (!user) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { "content-type": "application/json" },
-      });
+      body = {
+        dryRun: query.data.dryRun,
+        service: query.data.service,
+        strategy: query.data.strategy,
+        mode: query.data.mode,
+        deleteMissing: query.data.deleteMissing,
+        namespaceId: query.data.namespaceId,
+        matchBy: query.data.matchBy ?? (adapter.capabilities.metadata ? "id" : "keyName"),
+        data: file.data,
+      };
+    } else {
+      body = await request.json().catch(() => ({}));
     }
 
-    // Parse and validate request body
-    const body = await request.json().catch(() => ({}));
     const parsed = importPayloadSchema.safeParse(body);
 
     if (!parsed.success) {
@@ -440,7 +201,13 @@ export const ServerRoute = createServerFileRoute("/api/import").methods({
       });
     }
 
-    const { dryRun, service: serviceCode, data: importData } = parsed.data;
+    const {
+      dryRun,
+      service: serviceCode,
+      matchBy,
+      data: payloadData,
+      ...options
+    } = parsed.data;
 
     // Resolve service by code
     const svc = await db.query.service.findFirst({
@@ -463,34 +230,199 @@ export const ServerRoute = createServerFileRoute("/api/import").methods({
     }
 
     try {
+      // Translations may only target registered locales
+      const unknownLocales = await findUnknownLocales(
+        payloadData.keys.flatMap((key) => key.translations.map((t) => t.locale)),
+      );
+
+      if (unknownLocales.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: `Unknown locales: ${unknownLocales.join(", ")}`,
+          }),
+          {
+            status: 400,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
+      // Plural forms must cover the plural categories of their locale
+      const incompletePlurals = findIncompletePlurals(
+        payloadData,
+        await loadPluralRules(
+          payloadData.keys.flatMap((key) =>
+            key.translations.filter((t) => t.plurals).map((t) => t.locale),
+          ),
+        ),
+      );
+
+      if (incompletePlurals.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: "Plural forms are missing categories",
+            plurals: incompletePlurals,
+          }),
+          {
+            status: 400,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
+      // Keys name namespaces of the service by id, or by name as the contexts
+      // of third-party gettext files do
+      const namespaces = resolveKeyNamespaces(
+        payloadData.keys,
+        await db
+          .select({ id: namespace.id, name: namespace.name })
+          .from(namespace)
+          .where(eq(namespace.serviceId, svc.id)),
+      );
+
+      if (namespaces.unknown.length > 0) {
+        const namespaceError = new z.ZodError(
+          namespaces.unknown.map(({ index, namespace: name }) => ({
+            code: "custom" as const,
+            path: ["data", "keys", index, "namespaceId"],
+            message: `Unknown namespace "${name}"`,
+            input: undefined,
+          })),
+        );
+        return new Response(JSON.stringify({ error: z.treeifyError(namespaceError) }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        });
+      }
+
+      const keysData = { keys: namespaces.keys };
+
+      // Translations into locales the service does not ship are imported with
+      // a warning
+      const warnings = disabledLocaleWarnings(keysData, await listEnabledLocales(svc.id));
+
+      // Match payload keys to existing keys by id or by key name
+      const existingKeyRefs = await db
+        .select({
+          id: l10nKey.id,
+          namespaceId: l10nKey.namespaceId,
+          keyName: l10nKey.keyName,
+        })
+        .from(l10nKey)
+        .where(eq(l10nKey.serviceId, svc.id));
+      const { data: importData, conflicts } = resolveImportKeys(
+        existingKeyRefs,
+        keysData,
+        matchBy,
+      );
+
+      if (conflicts.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: "Key names must be unique within a namespace",
+            conflicts,
+          }),
+          {
+            status: 409,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
+      // Check translations against their source text, plural rules and the
+      // service's placeholder syntaxes; a dry run reports problems the import
+      // would be blocked by
+      const policy = svc.validationPolicy;
+      const validation =
+        policy === "off"
+          ? []
+          : await validateImportTranslations(
+              svc.id,
+              importData,
+              svc.placeholderSyntaxes,
+              svc.sourceLocale,
+            );
+
+      if (!dryRun && validation.some(({ issues }) => blocksWrite(policy, issues))) {
+        return new Response(
+          JSON.stringify({ error: "Translations failed validation", validation }),
+          {
+            status: 422,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
+      // Queue the import and start on it within the request's time budget;
+      // POST requests to the status URL advance the rest
+      if (requestQuery.data.async) {
+        const jobId = await createImportJob({
+          serviceId: svc.id,
+          actor: user.sub,
+          dryRun,
+          payload: { service: serviceCode, options, data: importData, validation },
+        });
+        const status = (await advanceImportJob(jobId)) ?? "running";
+
+        return new Response(
+          JSON.stringify({
+            jobId,
+            status,
+            dryRun,
+            statusUrl: `/api/import/jobs/${jobId}`,
+            warnings,
+            validation,
+          }),
+          {
+            status: 202,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
       if (dryRun) {
         // Generate diff report without making changes
-        const diffReport = await generateDiffReport(svc.id, importData);
+        const diffReport = attachValidationIssues(
+          await generateDiffReport(svc.id, importData, options),
+          validation,
+        );
 
         return new Response(
           JSON.stringify({
             dryRun: true,
             service: serviceCode,
             report: diffReport,
+            warnings,
+            validation,
           }),
           {
             headers: { "content-type": "application/json" },
           },
         );
       } else {
-        // Execute the import with transaction
-        await executeImport(svc.id, importData, user.sub);
+        // Execute the import with transaction; its events share the batch id
+        const batchId = crypto.randomUUID();
+        const result = await executeImport(
+          svc.id,
+          importData,
+          user.sub,
+          batchId,
+          options,
+        );
 
         // Log import operation
         await db.insert(event).values({
           id: crypto.randomUUID(),
           actor: user.sub,
+          batchId,
           action: "import",
           entityType: "service",
           entityId: svc.id,
           before: null,
           after: {
             service: serviceCode,
+            strategy: options.strategy,
+            mode: options.mode,
             keysCount: importData.keys.length,
             translationsCount: importData.keys.reduce(
               (sum, key) => sum + key.translations.length,
@@ -503,6 +435,7 @@ export const ServerRoute = createServerFileRoute("/api/import").methods({
           JSON.stringify({
             success: true,
             service: serviceCode,
+            batchId,
             imported: {
               keys: importData.keys.length,
               translations: importData.keys.reduce(
@@ -510,6 +443,11 @@ export const ServerRoute = createServerFileRoute("/api/import").methods({
                 0,
               ),
             },
+            skipped: result.skipped,
+            archived: result.archived,
+            deleted: result.deleted,
+            warnings,
+            validation,
           }),
           {
             status: 201,
@@ -0,0 +1,148 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { z } from "zod";
+
+import { importRevertPayloadSchema } from "~/lib/api/import-export-types";
+import {
+  findImportBatch,
+  isImportBatchReverted,
+  revertImportBatch,
+} from "~/lib/api/import-revert";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute("/api/import/$batchId/revert").methods({
+  POST: async ({ request, params }) => {
+    const { batchId } = params;
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = importRevertPayloadSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const batch = await findImportBatch(batchId);
+
+    if (!batch) {
+      return new Response(JSON.stringify({ error: "Import batch not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    // Check if user has write access to the service the batch imported into
+    const hasAccess = await validateServiceAccess(
+      user,
+      batch.serviceId,
+      PERMISSIONS.WRITE,
+    );
+    if (!hasAccess) {
+      return createForbiddenResponse(
+        "You don't have permission to revert imports for this service",
+      );
+    }
+
+    if (await isImportBatchReverted(batch)) {
+      return new Response(
+        JSON.stringify({ error: "Import batch has already been reverted" }),
+        {
+          status: 409,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+
+    try {
+      const { dryRun } = parsed.data;
+      const { report, revertBatchId } = await revertImportBatch(batch, user.sub, dryRun);
+
+      if (dryRun) {
+        return new Response(JSON.stringify({ dryRun: true, batchId, report }), {
+          headers: { "content-type": "application/json" },
+        });
+      }
+
+      // Later edits are never overwritten; nothing was reverted
+      if (!revertBatchId) {
+        return new Response(
+          JSON.stringify({
+            error: "Import batch has changes made after the import",
+            report,
+          }),
+          {
+            status: 409,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          batchId,
+          revertBatchId,
+          report,
+        }),
+        {
+          headers: { "content-type": "application/json" },
+        },
+      );
+    } catch (error) {
+      console.error("Import revert failed:", error);
+
+      return new Response(
+        JSON.stringify({
+          error: "Import revert failed",
+          message: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: 500,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+  },
+});
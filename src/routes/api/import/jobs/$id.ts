@@ -0,0 +1,142 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+
+import { advanceImportJob } from "~/lib/api/import-jobs";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS, type Permission } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { importJob } from "~/lib/db/schema";
+
+type ImportJobRow = typeof importJob.$inferSelect;
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Respond with the state of a job; the payload is left out, as it can be as
+ * large as the import itself
+ */
+function importJobResponse(job: ImportJobRow): Response {
+  return new Response(
+    JSON.stringify({
+      id: job.id,
+      status: job.status,
+      dryRun: job.dryRun,
+      progress: {
+        processedKeys: job.processedKeys,
+        totalKeys: job.totalKeys,
+      },
+      report: job.report,
+      result: job.result,
+      errors: job.errors,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+    }),
+    {
+      headers: { "content-type": "application/json" },
+    },
+  );
+}
+
+/**
+ * Load a job the user has the given permission on the service of
+ * @returns The job, or the response to send instead
+ */
+async function loadImportJob(
+  request: Request,
+  id: string,
+  permission: Permission,
+  deniedMessage: string,
+): Promise<ImportJobRow | Response> {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  const job = await db.query.importJob.findFirst({
+    where: eq(importJob.id, id),
+  });
+
+  if (!job) {
+    return new Response(JSON.stringify({ error: "Import job not found" }), {
+      status: 404,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  const hasAccess = await validateServiceAccess(user, job.serviceId, permission);
+  if (!hasAccess) {
+    return createForbiddenResponse(deniedMessage);
+  }
+
+  return job;
+}
+
+export const ServerRoute = createServerFileRoute("/api/import/jobs/$id").methods({
+  GET: async ({ request, params }) => {
+    // Check if user has read access to the service the job imports into
+    const job = await loadImportJob(
+      request,
+      params.id,
+      PERMISSIONS.READ,
+      "You don't have permission to view imports for this service",
+    );
+    if (job instanceof Response) return job;
+
+    return importJobResponse(job);
+  },
+  // Advances an unfinished job within the request's time budget, as no
+  // worker outlives a request; this writes the import, so it needs write access
+  POST: async ({ request, params }) => {
+    const job = await loadImportJob(
+      request,
+      params.id,
+      PERMISSIONS.WRITE,
+      "You don't have permission to run imports for this service",
+    );
+    if (job instanceof Response) return job;
+
+    if (job.status !== "queued" && job.status !== "running") {
+      return importJobResponse(job);
+    }
+
+    await advanceImportJob(job.id);
+    return importJobResponse(
+      (await db.query.importJob.findFirst({ where: eq(importJob.id, job.id) })) ?? job,
+    );
+  },
+});
@@ -0,0 +1,105 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { checkTranslationIntegrity } from "~/lib/api/integrity";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { service as serviceTbl } from "~/lib/db/schema";
+
+// Zod schema for integrity check query parameters
+export const integrityQuerySchema = z.object({
+  service: z.string().min(1),
+});
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute("/api/integrity").methods({
+  GET: async ({ request }) => {
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    // Parse and validate query parameters
+    const url = new URL(request.url);
+    const parsed = integrityQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    // Resolve service by code
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, parsed.data.service),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    // Check if user has read access to this service
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.READ);
+    if (!hasAccess) {
+      return createForbiddenResponse(
+        "You don't have permission to check data of this service",
+      );
+    }
+
+    const report = await checkTranslationIntegrity(svc.id);
+
+    return new Response(
+      JSON.stringify({
+        service: svc.code,
+        checkedAt: new Date().toISOString(),
+        ok: report.mismatches.length === 0,
+        ...report,
+      }),
+      {
+        headers: { "content-type": "application/json" },
+      },
+    );
+  },
+});
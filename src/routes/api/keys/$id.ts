@@ -0,0 +1,172 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { screenshotRefSchema } from "~/lib/api/import-export-types";
+import { logEvent } from "~/lib/audit/event-logger";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { l10nKey } from "~/lib/db/schema";
+
+// Zod schema for key metadata updates; null clears a field
+export const updateKeyMetadataSchema = z
+  .object({
+    description: z.string().nullable().optional(),
+    // Where and how the string is used, for translators
+    context: z.string().nullable().optional(),
+    // Longest translation the UI has room for, in characters
+    maxLength: z.number().int().positive().nullable().optional(),
+    // Replaces the stored screenshots; an empty list removes them
+    screenshots: z.array(screenshotRefSchema).optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one metadata field is required",
+  });
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Key metadata returned to clients and written to the audit log
+ */
+function keyMetadata(row: typeof l10nKey.$inferSelect) {
+  return {
+    description: row.description,
+    context: row.context,
+    maxLength: row.maxLength,
+    screenshots: row.screenshots,
+  };
+}
+
+export const ServerRoute = createServerFileRoute("/api/keys/$id").methods({
+  GET: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const key = await db.query.l10nKey.findFirst({ where: eq(l10nKey.id, params.id) });
+
+    if (!key) {
+      return new Response(JSON.stringify({ error: "Key not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    if (key.serviceId) {
+      const hasAccess = await validateServiceAccess(
+        user,
+        key.serviceId,
+        PERMISSIONS.READ,
+      );
+      if (!hasAccess) {
+        return createForbiddenResponse("You don't have permission to view this key");
+      }
+    }
+
+    return new Response(JSON.stringify(key), {
+      headers: { "content-type": "application/json" },
+    });
+  },
+  PATCH: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = updateKeyMetadataSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const key = await db.query.l10nKey.findFirst({ where: eq(l10nKey.id, params.id) });
+
+    if (!key) {
+      return new Response(JSON.stringify({ error: "Key not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    if (key.serviceId) {
+      const hasAccess = await validateServiceAccess(
+        user,
+        key.serviceId,
+        PERMISSIONS.WRITE,
+      );
+      if (!hasAccess) {
+        return createForbiddenResponse(
+          "You don't have permission to modify keys for this service",
+        );
+      }
+    } else if (!user.roles?.includes("Admin") && !user.roles?.includes("Editor")) {
+      // For keys without a service, only allow users with edit permissions
+      return createForbiddenResponse(
+        "You need Editor role or higher to modify keys without a service",
+      );
+    }
+
+    const [updated] = await db
+      .update(l10nKey)
+      .set(parsed.data)
+      .where(eq(l10nKey.id, key.id))
+      .returning();
+
+    await logEvent({
+      actor: user.sub,
+      action: "update",
+      entityType: "l10n_key",
+      entityId: key.id,
+      before: keyMetadata(key),
+      after: keyMetadata(updated),
+    });
+
+    return new Response(JSON.stringify({ success: true, key: updated }), {
+      headers: { "content-type": "application/json" },
+    });
+  },
+});
@@ -248,7 +248,7 @@ describe("Keys API Filters", () => {
   });
 
   describe("BCP-47 Locale Validation", () => {
-    it("should only accept supported BCP-47 locale codes", () => {
+    it("should only accept well-formed BCP-47 locale codes", () => {
       const validBCP47Codes = [
         "en",
         "es",
@@ -262,8 +262,11 @@ describe("Keys API Filters", () => {
         "zh",
         "ar",
         "hi",
+        "en-US",
+        "es-ES",
+        "zh-Hant",
       ];
-      const invalidCodes = ["en-US", "es-ES", "invalid", "123", ""];
+      const invalidCodes = ["invalid", "123", ""];
 
       validBCP47Codes.forEach((code) => {
         const result = getKeysQuerySchema.safeParse({ locale: code });
@@ -1,7 +1,9 @@
 import { createServerFileRoute } from "@tanstack/react-start/server";
-import { and, eq, ilike, inArray, or, sql, type SQL } from "drizzle-orm";
+import { and, eq, ilike, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
 import { z } from "zod";
 
+import { screenshotRefSchema } from "~/lib/api/import-export-types";
+import { localeTagSchema } from "~/lib/api/locales";
 import { logEvent } from "~/lib/audit/event-logger";
 import { auth } from "~/lib/auth/auth";
 import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
@@ -16,14 +18,18 @@ export const createKeySchema = z.object({
   serviceCode: z.string().min(1).optional(),
   namespaceId: z.string().optional(),
   tags: z.array(z.string()).optional(),
+  description: z.string().optional(),
+  // Where and how the string is used, for translators
+  context: z.string().optional(),
+  // Longest translation the UI has room for, in characters
+  maxLength: z.number().int().positive().optional(),
+  screenshots: z.array(screenshotRefSchema).optional(),
 });
 
 export const getKeysQuerySchema = z.object({
   prefix: z.string().optional(),
   service: z.string().optional(),
-  locale: z
-    .enum(["en", "es", "fr", "de", "it", "pt", "ru", "ja", "ko", "zh", "ar", "hi"])
-    .optional(),
+  locale: localeTagSchema.optional(),
   status: z.enum(["draft", "active", "archived"]).optional(),
   limit: z.coerce.number().min(1).max(100).default(100),
   offset: z.coerce.number().min(0).default(0),
@@ -214,7 +220,17 @@ export const ServerRoute = createServerFileRoute("/api/keys/").methods({
         headers: { "content-type": "application/json" },
       });
     }
-    const { id, keyName, serviceCode, namespaceId, tags } = parsed.data;
+    const {
+      id,
+      keyName,
+      serviceCode,
+      namespaceId,
+      tags,
+      description,
+      context,
+      maxLength,
+      screenshots,
+    } = parsed.data;
 
     let serviceId: string | null = null;
     if (serviceCode) {
@@ -252,8 +268,33 @@ export const ServerRoute = createServerFileRoute("/api/keys/").methods({
       serviceId,
       namespaceId: namespaceId ?? null,
       tags: tags ?? [],
+      description: description ?? null,
+      context: context ?? null,
+      maxLength: maxLength ?? null,
+      screenshots: screenshots ?? [],
     };
 
+    // Key names are unique per service and namespace
+    const duplicate = await db.query.l10nKey.findFirst({
+      where: and(
+        serviceId ? eq(l10nKey.serviceId, serviceId) : isNull(l10nKey.serviceId),
+        namespaceId ? eq(l10nKey.namespaceId, namespaceId) : isNull(l10nKey.namespaceId),
+        eq(l10nKey.keyName, keyName),
+      ),
+    });
+    if (duplicate) {
+      return new Response(
+        JSON.stringify({
+          error: "Key name already exists in this namespace",
+          keyId: duplicate.id,
+        }),
+        {
+          status: 409,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+
     await db.insert(l10nKey).values(keyData);
 
     // Log key creation event
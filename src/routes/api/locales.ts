@@ -0,0 +1,120 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { listLocales } from "~/lib/api/locale-registry";
+import { describeLocale, localeTagSchema } from "~/lib/api/locales";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, isAdmin } from "~/lib/auth/rbac";
+import { db } from "~/lib/db";
+import { locale as localeTbl } from "~/lib/db/schema";
+
+// Zod schema for registering a locale; omitted fields come from CLDR data
+export const createLocaleSchema = z.object({
+  code: localeTagSchema,
+  displayName: z.string().min(1).optional(),
+  direction: z.enum(["ltr", "rtl"]).optional(),
+  pluralRules: z
+    .array(z.enum(["zero", "one", "two", "few", "many", "other"]))
+    .min(1)
+    .optional(),
+});
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute("/api/locales").methods({
+  GET: async ({ request }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const locales = await listLocales();
+
+    return new Response(JSON.stringify({ locales }), {
+      headers: { "content-type": "application/json" },
+    });
+  },
+  POST: async ({ request }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    // Locales are shared by every service
+    if (!isAdmin(user)) {
+      return createForbiddenResponse("Only admins can register locales");
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = createLocaleSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const { code, ...overrides } = parsed.data;
+
+    const existing = await db.query.locale.findFirst({
+      where: eq(localeTbl.code, code),
+    });
+
+    if (existing) {
+      return new Response(
+        JSON.stringify({ error: `Locale "${code}" is already registered` }),
+        {
+          status: 409,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+
+    const values = { code, ...describeLocale(code), ...overrides };
+    await db.insert(localeTbl).values(values);
+
+    return new Response(JSON.stringify({ success: true, locale: values }), {
+      status: 201,
+      headers: { "content-type": "application/json" },
+    });
+  },
+});
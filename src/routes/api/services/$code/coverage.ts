@@ -0,0 +1,90 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+
+import { getServiceCoverage } from "~/lib/api/coverage";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { service as serviceTbl } from "~/lib/db/schema";
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute("/api/services/$code/coverage").methods({
+  GET: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.READ);
+    if (!hasAccess) {
+      return createForbiddenResponse("You don't have permission to view this service");
+    }
+
+    try {
+      const report = await getServiceCoverage(svc.id);
+
+      return new Response(JSON.stringify({ service: svc.code, ...report }), {
+        headers: { "content-type": "application/json" },
+      });
+    } catch (error) {
+      console.error("Coverage report failed:", error);
+
+      return new Response(
+        JSON.stringify({
+          error: "Coverage report failed",
+          message: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: 500,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+  },
+});
@@ -0,0 +1,225 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { validateFallbackChain } from "~/lib/api/locale-fallback";
+import {
+  findUnknownLocales,
+  listTranslatedLocales,
+  loadFallbackChains,
+} from "~/lib/api/locale-registry";
+import { localeTagSchema } from "~/lib/api/locales";
+import { logEvent } from "~/lib/audit/event-logger";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { serviceLocale, service as serviceTbl } from "~/lib/db/schema";
+
+// Zod schema for configuring fallback chains; null restores the default chain
+export const updateFallbacksSchema = z.object({
+  chains: z
+    .array(
+      z.object({
+        locale: localeTagSchema,
+        fallbacks: z.array(localeTagSchema).nullable(),
+      }),
+    )
+    .min(1)
+    .superRefine((chains, ctx) => {
+      chains.forEach(({ locale, fallbacks }, index) => {
+        const message = fallbacks && validateFallbackChain(locale, fallbacks);
+        if (message) {
+          ctx.addIssue({ code: "custom", path: [index, "fallbacks"], message });
+        }
+      });
+    }),
+});
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Fallback chain of every locale the service has settings or translations for
+ */
+async function serviceFallbackChains(serviceId: string) {
+  const configured = await db
+    .select({ code: serviceLocale.localeCode, fallbacks: serviceLocale.fallbacks })
+    .from(serviceLocale)
+    .where(eq(serviceLocale.serviceId, serviceId));
+  const configuredCodes = new Set(
+    configured.filter((row) => row.fallbacks !== null).map((row) => row.code),
+  );
+
+  const locales = [
+    ...new Set([
+      ...configured.map((row) => row.code),
+      ...(await listTranslatedLocales(serviceId)),
+    ]),
+  ].sort();
+  const chains = await loadFallbackChains(serviceId, locales);
+
+  return locales.map((code) => ({
+    locale: code,
+    fallbacks: chains.get(code)!,
+    configured: configuredCodes.has(code),
+  }));
+}
+
+export const ServerRoute = createServerFileRoute("/api/services/$code/fallbacks").methods(
+  {
+    GET: async ({ request, params }) => {
+      const user = await getAuthenticatedUser(request);
+
+      if (!user) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { "content-type": "application/json" },
+        });
+      }
+
+      const svc = await db.query.service.findFirst({
+        where: eq(serviceTbl.code, params.code),
+      });
+
+      if (!svc) {
+        return new Response(JSON.stringify({ error: "Service not found" }), {
+          status: 404,
+          headers: { "content-type": "application/json" },
+        });
+      }
+
+      const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.READ);
+      if (!hasAccess) {
+        return createForbiddenResponse("You don't have permission to view this service");
+      }
+
+      return new Response(
+        JSON.stringify({
+          service: svc.code,
+          chains: await serviceFallbackChains(svc.id),
+        }),
+        {
+          headers: { "content-type": "application/json" },
+        },
+      );
+    },
+    PUT: async ({ request, params }) => {
+      const user = await getAuthenticatedUser(request);
+
+      if (!user) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { "content-type": "application/json" },
+        });
+      }
+
+      const body = await request.json().catch(() => ({}));
+      const parsed = updateFallbacksSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        });
+      }
+
+      const { chains } = parsed.data;
+
+      const unknownLocales = await findUnknownLocales(
+        chains.flatMap(({ locale, fallbacks }) => [locale, ...(fallbacks ?? [])]),
+      );
+      if (unknownLocales.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `Unknown locales: ${unknownLocales.join(", ")}` }),
+          {
+            status: 400,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
+      const svc = await db.query.service.findFirst({
+        where: eq(serviceTbl.code, params.code),
+      });
+
+      if (!svc) {
+        return new Response(JSON.stringify({ error: "Service not found" }), {
+          status: 404,
+          headers: { "content-type": "application/json" },
+        });
+      }
+
+      const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.WRITE);
+      if (!hasAccess) {
+        return createForbiddenResponse(
+          "You don't have permission to configure this service",
+        );
+      }
+
+      const before = await serviceFallbackChains(svc.id);
+
+      await db.transaction(async (tx) => {
+        for (const { locale, fallbacks } of chains) {
+          await tx
+            .insert(serviceLocale)
+            .values({ serviceId: svc.id, localeCode: locale, fallbacks })
+            .onConflictDoUpdate({
+              target: [serviceLocale.serviceId, serviceLocale.localeCode],
+              set: { fallbacks },
+            });
+        }
+      });
+
+      const after = await serviceFallbackChains(svc.id);
+
+      await logEvent({
+        actor: user.sub,
+        action: "update",
+        entityType: "service",
+        entityId: svc.id,
+        before: { fallbacks: before },
+        after: { fallbacks: after },
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          service: svc.code,
+          chains: after,
+        }),
+        {
+          headers: { "content-type": "application/json" },
+        },
+      );
+    },
+  },
+);
@@ -0,0 +1,181 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { findUnknownLocales, listServiceLocales } from "~/lib/api/locale-registry";
+import { localeTagSchema } from "~/lib/api/locales";
+import { logEvent } from "~/lib/audit/event-logger";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { serviceLocale, service as serviceTbl } from "~/lib/db/schema";
+
+// Zod schema for declaring the locales a service ships
+export const updateServiceLocalesSchema = z.object({
+  locales: z
+    .array(
+      z
+        .object({
+          locale: localeTagSchema,
+          enabled: z.boolean(),
+          required: z.boolean().default(false),
+        })
+        .refine(({ enabled, required }) => enabled || !required, {
+          message: "Required locales must be enabled",
+          path: ["required"],
+        }),
+    )
+    .min(1),
+});
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute("/api/services/$code/locales").methods({
+  GET: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.READ);
+    if (!hasAccess) {
+      return createForbiddenResponse("You don't have permission to view this service");
+    }
+
+    return new Response(
+      JSON.stringify({ service: svc.code, locales: await listServiceLocales(svc.id) }),
+      {
+        headers: { "content-type": "application/json" },
+      },
+    );
+  },
+  PUT: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = updateServiceLocalesSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const { locales } = parsed.data;
+
+    const unknownLocales = await findUnknownLocales(locales.map((row) => row.locale));
+    if (unknownLocales.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Unknown locales: ${unknownLocales.join(", ")}` }),
+        {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.WRITE);
+    if (!hasAccess) {
+      return createForbiddenResponse(
+        "You don't have permission to configure this service",
+      );
+    }
+
+    const before = await listServiceLocales(svc.id);
+
+    // Locales left out keep their settings
+    await db.transaction(async (tx) => {
+      for (const { locale, enabled, required } of locales) {
+        await tx
+          .insert(serviceLocale)
+          .values({ serviceId: svc.id, localeCode: locale, enabled, required })
+          .onConflictDoUpdate({
+            target: [serviceLocale.serviceId, serviceLocale.localeCode],
+            set: { enabled, required },
+          });
+      }
+    });
+
+    const after = await listServiceLocales(svc.id);
+
+    await logEvent({
+      actor: user.sub,
+      action: "update",
+      entityType: "service",
+      entityId: svc.id,
+      before: { locales: before },
+      after: { locales: after },
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, service: svc.code, locales: after }),
+      {
+        headers: { "content-type": "application/json" },
+      },
+    );
+  },
+});
@@ -0,0 +1,179 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { and, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+
+import { logEvent } from "~/lib/audit/event-logger";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { l10nKey, namespace, service as serviceTbl } from "~/lib/db/schema";
+
+// Zod schema for creating a namespace; ids are generated when left out
+export const createNamespaceSchema = z.object({
+  id: z.string().trim().min(1).optional(),
+  name: z.string().trim().min(1),
+});
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute(
+  "/api/services/$code/namespaces",
+).methods({
+  GET: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.READ);
+    if (!hasAccess) {
+      return createForbiddenResponse("You don't have permission to view this service");
+    }
+
+    const namespaces = await db
+      .select({
+        id: namespace.id,
+        name: namespace.name,
+        keys: sql<number>`count(${l10nKey.id})::int`,
+        createdAt: namespace.createdAt,
+        updatedAt: namespace.updatedAt,
+      })
+      .from(namespace)
+      .leftJoin(l10nKey, eq(l10nKey.namespaceId, namespace.id))
+      .where(eq(namespace.serviceId, svc.id))
+      .groupBy(namespace.id)
+      .orderBy(namespace.name);
+
+    return new Response(JSON.stringify({ service: svc.code, namespaces }), {
+      headers: { "content-type": "application/json" },
+    });
+  },
+  POST: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = createNamespaceSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.WRITE);
+    if (!hasAccess) {
+      return createForbiddenResponse(
+        "You don't have permission to create namespaces for this service",
+      );
+    }
+
+    const { id = crypto.randomUUID(), name } = parsed.data;
+
+    // Namespace names are unique per service
+    const duplicate = await db.query.namespace.findFirst({
+      where: and(eq(namespace.serviceId, svc.id), eq(namespace.name, name)),
+    });
+    if (duplicate) {
+      return new Response(
+        JSON.stringify({
+          error: "Namespace name already exists in this service",
+          namespaceId: duplicate.id,
+        }),
+        {
+          status: 409,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+
+    const existing = await db.query.namespace.findFirst({ where: eq(namespace.id, id) });
+    if (existing) {
+      return new Response(JSON.stringify({ error: "Namespace id already exists" }), {
+        status: 409,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const [created] = await db
+      .insert(namespace)
+      .values({ id, serviceId: svc.id, name })
+      .returning();
+
+    await logEvent({
+      actor: user.sub,
+      action: "create",
+      entityType: "namespace",
+      entityId: id,
+      after: { serviceId: svc.id, name },
+    });
+
+    return new Response(JSON.stringify({ success: true, namespace: created }), {
+      status: 201,
+      headers: { "content-type": "application/json" },
+    });
+  },
+});
@@ -0,0 +1,396 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { and, eq, inArray, ne } from "drizzle-orm";
+import { z } from "zod";
+
+import {
+  findKeyMoveConflicts,
+  isUniqueViolation,
+  keyMoveConflictResponse,
+  listNamespaceKeys,
+  namespaceDeleteModes,
+} from "~/lib/api/namespaces";
+import { logEvent } from "~/lib/audit/event-logger";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { event, l10nKey, namespace, service as serviceTbl } from "~/lib/db/schema";
+
+// Zod schema for renaming a namespace
+export const updateNamespaceSchema = z.object({
+  name: z.string().trim().min(1),
+});
+
+// Zod schema for what happens to the keys of a deleted namespace
+export const deleteNamespaceQuerySchema = z
+  .object({
+    mode: z.enum(namespaceDeleteModes).default("block"),
+    // Namespace reassigned keys move to; they leave namespaces when omitted
+    reassignTo: z.string().min(1).optional(),
+  })
+  .refine((data) => data.mode === "reassign" || data.reassignTo === undefined, {
+    message: "reassignTo only applies to the reassign mode",
+    path: ["reassignTo"],
+  });
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute(
+  "/api/services/$code/namespaces/$id",
+).methods({
+  PATCH: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = updateNamespaceSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.WRITE);
+    if (!hasAccess) {
+      return createForbiddenResponse(
+        "You don't have permission to modify namespaces of this service",
+      );
+    }
+
+    const ns = await db.query.namespace.findFirst({
+      where: and(eq(namespace.id, params.id), eq(namespace.serviceId, svc.id)),
+    });
+
+    if (!ns) {
+      return new Response(JSON.stringify({ error: "Namespace not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const { name } = parsed.data;
+
+    // Namespace names are unique per service
+    const duplicate = await db.query.namespace.findFirst({
+      where: and(
+        eq(namespace.serviceId, svc.id),
+        eq(namespace.name, name),
+        ne(namespace.id, ns.id),
+      ),
+    });
+    if (duplicate) {
+      return new Response(
+        JSON.stringify({
+          error: "Namespace name already exists in this service",
+          namespaceId: duplicate.id,
+        }),
+        {
+          status: 409,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+
+    const [updated] = await db
+      .update(namespace)
+      .set({ name })
+      .where(eq(namespace.id, ns.id))
+      .returning();
+
+    await logEvent({
+      actor: user.sub,
+      action: "update",
+      entityType: "namespace",
+      entityId: ns.id,
+      before: { name: ns.name },
+      after: { name },
+    });
+
+    return new Response(JSON.stringify({ success: true, namespace: updated }), {
+      headers: { "content-type": "application/json" },
+    });
+  },
+  DELETE: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const url = new URL(request.url);
+    const queryParams = Object.fromEntries(url.searchParams);
+    const parsed = deleteNamespaceQuerySchema.safeParse(queryParams);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const { mode, reassignTo } = parsed.data;
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.WRITE);
+    if (!hasAccess) {
+      return createForbiddenResponse(
+        "You don't have permission to delete namespaces of this service",
+      );
+    }
+
+    const ns = await db.query.namespace.findFirst({
+      where: and(eq(namespace.id, params.id), eq(namespace.serviceId, svc.id)),
+    });
+
+    if (!ns) {
+      return new Response(JSON.stringify({ error: "Namespace not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const targetId = reassignTo ?? null;
+
+    if (mode === "reassign") {
+      if (targetId === ns.id) {
+        return new Response(
+          JSON.stringify({ error: "Keys cannot be reassigned to the deleted namespace" }),
+          {
+            status: 400,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+
+      if (targetId !== null) {
+        const target = await db.query.namespace.findFirst({
+          where: and(eq(namespace.id, targetId), eq(namespace.serviceId, svc.id)),
+        });
+        if (!target) {
+          return new Response(JSON.stringify({ error: "Target namespace not found" }), {
+            status: 404,
+            headers: { "content-type": "application/json" },
+          });
+        }
+      }
+    }
+
+    // Keys are checked and changed in one transaction. Locking the namespaces
+    // keeps keys from being added to them meanwhile. Events are written from
+    // the rows the transaction sees, so they hold the full state needed to
+    // restore what was deleted.
+    let outcome: Response | number;
+    try {
+      outcome = await db.transaction(async (tx) => {
+        const namespaceIds =
+          mode === "reassign" && targetId !== null ? [ns.id, targetId] : [ns.id];
+        const locked = await tx
+          .select({ id: namespace.id })
+          .from(namespace)
+          .where(inArray(namespace.id, namespaceIds))
+          .orderBy(namespace.id)
+          .for("update");
+
+        // Deleted by another request since it was looked up
+        if (locked.length < namespaceIds.length) {
+          return new Response(JSON.stringify({ error: "Namespace not found" }), {
+            status: 404,
+            headers: { "content-type": "application/json" },
+          });
+        }
+
+        // Waits for moves of the namespace's keys and skips keys moved away
+        await tx
+          .select({ id: l10nKey.id })
+          .from(l10nKey)
+          .where(and(eq(l10nKey.serviceId, svc.id), eq(l10nKey.namespaceId, ns.id)))
+          .for("update");
+
+        const rows = await tx.query.l10nKey.findMany({
+          where: and(eq(l10nKey.serviceId, svc.id), eq(l10nKey.namespaceId, ns.id)),
+          with: {
+            translations: true,
+          },
+        });
+
+        if (mode === "block" && rows.length > 0) {
+          return new Response(
+            JSON.stringify({
+              error:
+                "Namespace still has keys; delete them with mode=cascade or move them with mode=reassign",
+              keys: rows.length,
+            }),
+            {
+              status: 409,
+              headers: { "content-type": "application/json" },
+            },
+          );
+        }
+
+        if (mode === "reassign") {
+          const conflicts = findKeyMoveConflicts(
+            rows,
+            await listNamespaceKeys(svc.id, targetId, tx),
+          );
+          if (conflicts.length > 0) {
+            return keyMoveConflictResponse(conflicts);
+          }
+        }
+
+        const keyIds = rows.map((row) => row.id);
+
+        if (keyIds.length > 0) {
+          if (mode === "reassign") {
+            await tx
+              .update(l10nKey)
+              .set({ namespaceId: targetId })
+              .where(inArray(l10nKey.id, keyIds));
+          } else {
+            // Translations go with their keys
+            await tx.delete(l10nKey).where(inArray(l10nKey.id, keyIds));
+          }
+        }
+        await tx.delete(namespace).where(eq(namespace.id, ns.id));
+
+        for (const row of rows) {
+          const before = {
+            serviceId: row.serviceId,
+            keyName: row.keyName,
+            namespaceId: row.namespaceId,
+            description: row.description,
+            context: row.context,
+            maxLength: row.maxLength,
+            screenshots: row.screenshots,
+            tags: row.tags,
+            status: row.status,
+          };
+
+          if (mode === "reassign") {
+            await tx.insert(event).values({
+              id: crypto.randomUUID(),
+              actor: user.sub,
+              action: "update",
+              entityType: "l10n_key",
+              entityId: row.id,
+              before,
+              after: { ...before, namespaceId: targetId },
+            });
+            continue;
+          }
+
+          for (const deleted of row.translations) {
+            await tx.insert(event).values({
+              id: crypto.randomUUID(),
+              actor: user.sub,
+              action: "delete",
+              entityType: "translation",
+              entityId: deleted.id,
+              before: {
+                keyId: row.id,
+                locale: deleted.locale,
+                value: deleted.value,
+                plurals: deleted.plurals,
+                status: deleted.status,
+                version: deleted.version,
+              },
+              after: null,
+            });
+          }
+
+          await tx.insert(event).values({
+            id: crypto.randomUUID(),
+            actor: user.sub,
+            action: "delete",
+            entityType: "l10n_key",
+            entityId: row.id,
+            before,
+            after: null,
+          });
+        }
+
+        await tx.insert(event).values({
+          id: crypto.randomUUID(),
+          actor: user.sub,
+          action: "delete",
+          entityType: "namespace",
+          entityId: ns.id,
+          before: { serviceId: svc.id, name: ns.name },
+          after: null,
+        });
+
+        return rows.length;
+      });
+    } catch (error) {
+      // A key took the name of a reassigned key after the check
+      if (isUniqueViolation(error)) return keyMoveConflictResponse();
+      throw error;
+    }
+
+    if (outcome instanceof Response) return outcome;
+
+    return new Response(JSON.stringify({ success: true, mode, keys: outcome }), {
+      headers: { "content-type": "application/json" },
+    });
+  },
+});
@@ -0,0 +1,208 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { and, eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+
+import {
+  findKeyMoveConflicts,
+  isUniqueViolation,
+  keyMoveConflictResponse,
+  listNamespaceKeys,
+} from "~/lib/api/namespaces";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { event, l10nKey, namespace, service as serviceTbl } from "~/lib/db/schema";
+
+// Zod schema for moving keys of a service into one namespace
+export const moveKeysSchema = z.object({
+  keyIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "Key ids must be unique",
+    }),
+  // Target namespace; null moves the keys out of their namespaces
+  namespaceId: z.string().min(1).nullable(),
+});
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute(
+  "/api/services/$code/namespaces/move",
+).methods({
+  POST: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = moveKeysSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const { keyIds, namespaceId } = parsed.data;
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.WRITE);
+    if (!hasAccess) {
+      return createForbiddenResponse(
+        "You don't have permission to modify keys for this service",
+      );
+    }
+
+    if (namespaceId !== null) {
+      const target = await db.query.namespace.findFirst({
+        where: and(eq(namespace.id, namespaceId), eq(namespace.serviceId, svc.id)),
+      });
+      if (!target) {
+        return new Response(JSON.stringify({ error: "Namespace not found" }), {
+          status: 404,
+          headers: { "content-type": "application/json" },
+        });
+      }
+    }
+
+    // Keys are checked and moved in one transaction with their events.
+    // Locking the target namespace and the keys keeps keys from being added
+    // to the namespace or renamed meanwhile.
+    let outcome: Response | number;
+    try {
+      outcome = await db.transaction(async (tx) => {
+        if (namespaceId !== null) {
+          const [target] = await tx
+            .select({ id: namespace.id })
+            .from(namespace)
+            .where(eq(namespace.id, namespaceId))
+            .for("update");
+
+          // Deleted by another request since it was looked up
+          if (!target) {
+            return new Response(JSON.stringify({ error: "Namespace not found" }), {
+              status: 404,
+              headers: { "content-type": "application/json" },
+            });
+          }
+        }
+
+        const keys = await tx
+          .select({
+            id: l10nKey.id,
+            keyName: l10nKey.keyName,
+            namespaceId: l10nKey.namespaceId,
+          })
+          .from(l10nKey)
+          .where(and(eq(l10nKey.serviceId, svc.id), inArray(l10nKey.id, keyIds)))
+          .for("update");
+
+        const found = new Set(keys.map((key) => key.id));
+        const missing = keyIds.filter((id) => !found.has(id));
+        if (missing.length > 0) {
+          return new Response(
+            JSON.stringify({ error: "Keys not found in this service", keyIds: missing }),
+            {
+              status: 404,
+              headers: { "content-type": "application/json" },
+            },
+          );
+        }
+
+        const conflicts = findKeyMoveConflicts(
+          keys,
+          await listNamespaceKeys(svc.id, namespaceId, tx),
+        );
+        if (conflicts.length > 0) {
+          return keyMoveConflictResponse(conflicts);
+        }
+
+        // Keys already in the target namespace stay as they are
+        const moved = keys.filter((key) => key.namespaceId !== namespaceId);
+
+        if (moved.length > 0) {
+          await tx
+            .update(l10nKey)
+            .set({ namespaceId })
+            .where(
+              inArray(
+                l10nKey.id,
+                moved.map((key) => key.id),
+              ),
+            );
+        }
+
+        for (const key of moved) {
+          await tx.insert(event).values({
+            id: crypto.randomUUID(),
+            actor: user.sub,
+            action: "update",
+            entityType: "l10n_key",
+            entityId: key.id,
+            before: { keyName: key.keyName, namespaceId: key.namespaceId },
+            after: { keyName: key.keyName, namespaceId },
+          });
+        }
+
+        return moved.length;
+      });
+    } catch (error) {
+      // A key took the name of a moved key after the check
+      if (isUniqueViolation(error)) return keyMoveConflictResponse();
+      throw error;
+    }
+
+    if (outcome instanceof Response) return outcome;
+
+    return new Response(JSON.stringify({ success: true, moved: outcome }), {
+      headers: { "content-type": "application/json" },
+    });
+  },
+});
@@ -0,0 +1,212 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { findUnknownLocales } from "~/lib/api/locale-registry";
+import { localeTagSchema } from "~/lib/api/locales";
+import {
+  getPlaceholderSyntax,
+  listPlaceholderSyntaxes,
+} from "~/lib/api/validation/placeholders";
+import { validationPolicies } from "~/lib/api/validation/validator";
+import { logEvent } from "~/lib/audit/event-logger";
+import { auth } from "~/lib/auth/auth";
+import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
+import { createForbiddenResponse, PERMISSIONS } from "~/lib/auth/rbac";
+import { validateServiceAccess } from "~/lib/auth/service-access";
+import { db } from "~/lib/db";
+import { service as serviceTbl } from "~/lib/db/schema";
+
+// Zod schema for a service's translation validation settings
+export const updateValidationSettingsSchema = z
+  .object({
+    // off skips validation, warn reports problems, block rejects writes with errors
+    policy: z.enum(validationPolicies).optional(),
+    // Placeholder syntaxes translations are checked for
+    syntaxes: z
+      .array(z.string())
+      .refine((ids) => new Set(ids).size === ids.length, {
+        message: "Placeholder syntaxes must be unique",
+      })
+      .refine((ids) => ids.every((id) => getPlaceholderSyntax(id) !== undefined), {
+        message: "Unknown placeholder syntax",
+      })
+      .optional(),
+    // Locale of the source text translations are checked against
+    sourceLocale: localeTagSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.policy !== undefined ||
+      data.syntaxes !== undefined ||
+      data.sourceLocale !== undefined,
+    {
+      message: "At least one of policy, syntaxes or sourceLocale is required",
+    },
+  );
+
+/**
+ * Placeholder syntaxes services can enable
+ */
+function availableSyntaxes() {
+  return listPlaceholderSyntaxes().map(({ id, description }) => ({ id, description }));
+}
+
+/**
+ * Get authenticated user from request headers
+ */
+async function getAuthenticatedUser(request: Request): Promise<IdentityUser | null> {
+  const headers = request.headers;
+  const bearer = headers.get("authorization");
+  const identityUser = await verifyIdentityJWT(bearer);
+
+  if (identityUser) {
+    return identityUser;
+  }
+
+  // Try better-auth session as fallback
+  const session = await auth.api.getSession({
+    headers,
+    query: { disableCookieCache: true },
+  });
+
+  if (session?.user) {
+    // Convert better-auth user to IdentityUser format
+    return {
+      sub: session.user.id,
+      email: session.user.email,
+      roles: ["Viewer"], // Default role for better-auth users
+    };
+  }
+
+  return null;
+}
+
+export const ServerRoute = createServerFileRoute(
+  "/api/services/$code/validation",
+).methods({
+  GET: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.READ);
+    if (!hasAccess) {
+      return createForbiddenResponse("You don't have permission to view this service");
+    }
+
+    return new Response(
+      JSON.stringify({
+        service: svc.code,
+        policy: svc.validationPolicy,
+        syntaxes: svc.placeholderSyntaxes,
+        sourceLocale: svc.sourceLocale,
+        availableSyntaxes: availableSyntaxes(),
+      }),
+      {
+        headers: { "content-type": "application/json" },
+      },
+    );
+  },
+  PUT: async ({ request, params }) => {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = updateValidationSettingsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: z.treeifyError(parsed.error) }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const svc = await db.query.service.findFirst({
+      where: eq(serviceTbl.code, params.code),
+    });
+
+    if (!svc) {
+      return new Response(JSON.stringify({ error: "Service not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const hasAccess = await validateServiceAccess(user, svc.id, PERMISSIONS.WRITE);
+    if (!hasAccess) {
+      return createForbiddenResponse(
+        "You don't have permission to configure this service",
+      );
+    }
+
+    if (parsed.data.sourceLocale) {
+      const unknownLocales = await findUnknownLocales([parsed.data.sourceLocale]);
+      if (unknownLocales.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `Unknown locales: ${unknownLocales.join(", ")}` }),
+          {
+            status: 400,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+    }
+
+    const policy = parsed.data.policy ?? svc.validationPolicy;
+    const syntaxes = parsed.data.syntaxes ?? svc.placeholderSyntaxes;
+    const sourceLocale = parsed.data.sourceLocale ?? svc.sourceLocale;
+    await db
+      .update(serviceTbl)
+      .set({ validationPolicy: policy, placeholderSyntaxes: syntaxes, sourceLocale })
+      .where(eq(serviceTbl.id, svc.id));
+
+    await logEvent({
+      actor: user.sub,
+      action: "update",
+      entityType: "service",
+      entityId: svc.id,
+      before: {
+        validationPolicy: svc.validationPolicy,
+        placeholderSyntaxes: svc.placeholderSyntaxes,
+        sourceLocale: svc.sourceLocale,
+      },
+      after: { validationPolicy: policy, placeholderSyntaxes: syntaxes, sourceLocale },
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        service: svc.code,
+        policy,
+        syntaxes,
+        sourceLocale,
+      }),
+      {
+        headers: { "content-type": "application/json" },
+      },
+    );
+  },
+});
@@ -2,6 +2,20 @@ import { createServerFileRoute } from "@tanstack/react-start/server";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 
+import { formatIcuPlural } from "~/lib/api/formats/plurals";
+import { translationPluralsSchema } from "~/lib/api/import-export-types";
+import { findUnknownLocales, loadPluralRules } from "~/lib/api/locale-registry";
+import { localeTagSchema } from "~/lib/api/locales";
+import { translationChecksum } from "~/lib/api/translation-checksum";
+import { missingPluralCategories } from "~/lib/api/translation-plurals";
+import {
+  etagMatches,
+  isCurrentTranslation,
+  translationETag,
+} from "~/lib/api/translation-version";
+import { DEFAULT_PLACEHOLDER_SYNTAXES } from "~/lib/api/validation/placeholders";
+import { validateTranslationWrite } from "~/lib/api/validation/translations";
+import { blocksWrite, DEFAULT_SOURCE_LOCALE } from "~/lib/api/validation/validator";
 import { logEvent } from "~/lib/audit/event-logger";
 import { auth } from "~/lib/auth/auth";
 import { verifyIdentityJWT, type IdentityUser } from "~/lib/auth/identity";
@@ -11,24 +25,20 @@ import { db } from "~/lib/db";
 import { translation } from "~/lib/db/schema";
 
 // BCP-47 locale validation schema
-export const updateTranslationSchema = z.object({
-  locale: z.enum([
-    "en",
-    "es",
-    "fr",
-    "de",
-    "it",
-    "pt",
-    "ru",
-    "ja",
-    "ko",
-    "zh",
-    "ar",
-    "hi",
-  ]),
-  value: z.string().optional(),
-  status: z.enum(["draft", "active", "archived"]).optional(),
-});
+export const updateTranslationSchema = z
+  .object({
+    locale: localeTagSchema,
+    value: z.string().optional(),
+    // Plural forms the value is derived from; null keeps the value as plain text
+    plurals: translationPluralsSchema.nullable().optional(),
+    status: z.enum(["draft", "active", "archived"]).optional(),
+    // Version the client read; alternative to an If-Match header
+    expectedVersion: z.number().int().positive().optional(),
+  })
+  .refine((data) => data.value === undefined || !data.plurals, {
+    message: "Provide either a value or plural forms",
+    path: ["plurals"],
+  });
 
 /**
  * Get authenticated user from request headers
@@ -62,7 +72,78 @@ async function getAuthenticatedUser(request: Request): Promise<IdentityUser | nu
   return null;
 }
 
+/**
+ * Translation fields returned to clients
+ * @param row - The translation row
+ * @returns The translation without its key relation
+ */
+function translationState(row: typeof translation.$inferSelect) {
+  return {
+    id: row.id,
+    keyId: row.keyId,
+    locale: row.locale,
+    value: row.value,
+    plurals: row.plurals,
+    status: row.status,
+    version: row.version,
+    checksum: row.checksum,
+    updatedAt: row.updatedAt,
+  };
+}
+
 export const ServerRoute = createServerFileRoute("/api/translations/$id").methods({
+  GET: async ({ request, params }) => {
+    const { id } = params;
+    // Get authenticated user
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    const existingTranslation = await db.query.translation.findFirst({
+      where: eq(translation.id, id),
+      with: {
+        key: true,
+      },
+    });
+
+    if (!existingTranslation) {
+      return new Response(JSON.stringify({ error: "Translation not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    // Check service access permissions if the key has a service
+    if (existingTranslation.key.serviceId) {
+      const hasAccess = await validateServiceAccess(
+        user,
+        existingTranslation.key.serviceId,
+        PERMISSIONS.READ,
+      );
+      if (!hasAccess) {
+        return createForbiddenResponse(
+          "You don't have permission to view translations for this service",
+        );
+      }
+    }
+
+    const etag = translationETag(existingTranslation);
+
+    if (etagMatches(request.headers.get("if-none-match"), etag)) {
+      return new Response(null, { status: 304, headers: { etag } });
+    }
+
+    return new Response(JSON.stringify(translationState(existingTranslation)), {
+      status: 200,
+      headers: { "content-type": "application/json", etag },
+    });
+  },
+
   PUT: async ({ request, params }) => {
     const { id } = params;
     // Get authenticated user
@@ -93,7 +174,41 @@ export const ServerRoute = createServerFileRoute("/api/translations/$id").method
       });
     }
 
-    const { locale, value, status } = parsed.data;
+    const { locale, plurals, status, expectedVersion } = parsed.data;
+    const value = plurals ? formatIcuPlural(plurals) : parsed.data.value;
+
+    const [unknownLocale] = await findUnknownLocales([locale]);
+    if (unknownLocale) {
+      return new Response(
+        JSON.stringify({ error: `Locale "${unknownLocale}" is not registered` }),
+        {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+
+    // Plural forms must cover the plural categories of the locale
+    if (plurals) {
+      const pluralRules = await loadPluralRules([locale]);
+      const missing = missingPluralCategories(
+        plurals,
+        pluralRules.get(locale) ?? ["other"],
+      );
+
+      if (missing.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: `Plural forms for "${locale}" are missing ${missing.join(", ")}`,
+            missing,
+          }),
+          {
+            status: 400,
+            headers: { "content-type": "application/json" },
+          },
+        );
+      }
+    }
 
     // Check if translation exists and get associated key/service info
     const existingTranslation = await db.query.translation.findFirst({
@@ -135,29 +250,108 @@ export const ServerRoute = createServerFileRoute("/api/translations/$id").method
       }
     }
 
-    // Build update object with only provided fields
-    const updateData: Partial<typeof translation.$inferInsert> = {};
-
-    if (locale !== undefined) updateData.locale = locale;
-    if (value !== undefined) updateData.value = value;
-    if (status !== undefined) updateData.status = status;
-
-    // Always update the version and timestamp
-    updateData.version = existingTranslation.version + 1;
-    updateData.updatedAt = new Date();
-
-    // Capture before state for audit log
-    const beforeState = {
-      id: existingTranslation.id,
-      keyId: existingTranslation.keyId,
-      locale: existingTranslation.locale,
-      value: existingTranslation.value,
-      status: existingTranslation.status,
-      version: existingTranslation.version,
-    };
+    // Check the written value against the source text, plural rules, the
+    // service's placeholder syntaxes and the key's length limit
+    const svc = existingTranslation.key.service;
+    const policy = svc?.validationPolicy ?? "warn";
+    const checkedValue = value ?? existingTranslation.value;
+    const issues =
+      policy === "off" || checkedValue === null
+        ? []
+        : await validateTranslationWrite(
+            existingTranslation.keyId,
+            locale,
+            checkedValue,
+            svc?.placeholderSyntaxes ?? DEFAULT_PLACEHOLDER_SYNTAXES,
+            svc?.sourceLocale ?? DEFAULT_SOURCE_LOCALE,
+          );
+
+    if (blocksWrite(policy, issues)) {
+      return new Response(
+        JSON.stringify({ error: "Translation failed validation", issues }),
+        {
+          status: 422,
+          headers: { "content-type": "application/json" },
+        },
+      );
+    }
+
+    const ifMatch = request.headers.get("if-match");
+
+    // Check the version and update under a row lock so that of two
+    // concurrent saves based on the same version only the first applies
+    const outcome = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(translation)
+        .where(eq(translation.id, id))
+        .for("update");
 
-    // Update the translation
-    await db.update(translation).set(updateData).where(eq(translation.id, id));
+      if (!current || !isCurrentTranslation(current, ifMatch, expectedVersion)) {
+        return { current };
+      }
+
+      // Build update object with only provided fields
+      const updateData: Partial<typeof translation.$inferInsert> = {};
+
+      if (locale !== undefined) updateData.locale = locale;
+      if (value !== undefined) updateData.value = value;
+      // A plain value replaces stored plural forms
+      if (plurals !== undefined) updateData.plurals = plurals;
+      else if (value !== undefined) updateData.plurals = null;
+      if (status !== undefined) updateData.status = status;
+
+      // Always update the version, checksum and timestamp
+      const version = current.version + 1;
+      updateData.version = version;
+      updateData.checksum = translationChecksum({
+        locale: updateData.locale ?? current.locale,
+        value: updateData.value ?? current.value,
+        status: updateData.status ?? current.status,
+      });
+      updateData.updatedAt = new Date();
+
+      // Capture before state for audit log
+      const beforeState = {
+        id: current.id,
+        keyId: current.keyId,
+        locale: current.locale,
+        value: current.value,
+        plurals: current.plurals,
+        status: current.status,
+        version: current.version,
+      };
+
+      // Update the translation
+      await tx.update(translation).set(updateData).where(eq(translation.id, id));
+
+      return { current, beforeState, updateData, version };
+    });
+
+    if (!outcome.current) {
+      return new Response(JSON.stringify({ error: "Translation not found" }), {
+        status: 404,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    if (!outcome.updateData) {
+      return new Response(
+        JSON.stringify({
+          error: "Translation has been modified",
+          current: translationState(outcome.current),
+        }),
+        {
+          status: 409,
+          headers: {
+            "content-type": "application/json",
+            etag: translationETag(outcome.current),
+          },
+        },
+      );
+    }
+
+    const { beforeState, updateData, version } = outcome;
 
     // Capture after state for audit log
     const afterState = {
@@ -175,9 +369,12 @@ export const ServerRoute = createServerFileRoute("/api/translations/$id").method
       after: afterState,
     });
 
-    return new Response(JSON.stringify({ success: true }), {
+    return new Response(JSON.stringify({ success: true, version, issues }), {
       status: 200,
-      headers: { "content-type": "application/json" },
+      headers: {
+        "content-type": "application/json",
+        etag: translationETag({ version, checksum: updateData.checksum ?? null }),
+      },
     });
   },
 });
@@ -67,6 +67,15 @@ describe("Translations API Update", () => {
       }
     });
 
+    it("should canonicalize BCP-47 locale tags", () => {
+      const result = updateTranslationSchema.safeParse({ locale: "pt_br", value: "Olá" });
+      expect(result.success).toBe(true);
+
+      if (result.success) {
+        expect(result.data.locale).toBe("pt-BR");
+      }
+    });
+
     it("should reject invalid locale codes", () => {
       const invalidLocaleData = {
         locale: "invalid-locale",
@@ -97,6 +106,23 @@ describe("Translations API Update", () => {
       }
     });
 
+    it("should accept an expected version", () => {
+      const result = updateTranslationSchema.safeParse({
+        locale: "en",
+        value: "Hello",
+        expectedVersion: 3,
+      });
+      expect(result.success).toBe(true);
+
+      if (result.success) {
+        expect(result.data.expectedVersion).toBe(3);
+      }
+
+      expect(
+        updateTranslationSchema.safeParse({ locale: "en", expectedVersion: 0 }).success,
+      ).toBe(false);
+    });
+
     it("should require locale field", () => {
       const noLocaleData = {
         value: "Some value",
@@ -147,18 +173,20 @@ describe("Translations API Update", () => {
       });
     });
 
-    it("should reject unsupported locale codes", () => {
-      const unsupportedLocales = [
-        "en-US",
-        "es-ES",
-        "zh-CN",
-        "pt-BR",
-        "invalid",
-        "123",
-        "",
-      ];
+    it("should accept regional and script subtags", () => {
+      const regionalLocales = ["en-US", "es-ES", "zh-Hant", "pt-BR", "es-419"];
 
-      unsupportedLocales.forEach((locale) => {
+      regionalLocales.forEach((locale) => {
+        const data = { locale, value: "Test value" };
+        const result = updateTranslationSchema.safeParse(data);
+        expect(result.success).toBe(true);
+      });
+    });
+
+    it("should reject malformed locale codes", () => {
+      const malformedLocales = ["invalid", "123", "", "en--US"];
+
+      malformedLocales.forEach((locale) => {
         const data = { locale, value: "Test value" };
         const result = updateTranslationSchema.safeParse(data);
         expect(result.success).toBe(false);
@@ -229,6 +257,33 @@ describe("Translations API Update", () => {
       });
     });
 
+    it("should accept plural forms instead of a value", () => {
+      const result = updateTranslationSchema.safeParse({
+        locale: "ru",
+        plurals: {
+          forms: { one: "# файл", few: "# файла", many: "# файлов", other: "# файла" },
+        },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.plurals?.argument).toBe("count");
+      }
+      expect(
+        updateTranslationSchema.safeParse({ locale: "ru", plurals: null }).success,
+      ).toBe(true);
+    });
+
+    it("should reject a value together with plural forms", () => {
+      const result = updateTranslationSchema.safeParse({
+        locale: "en",
+        value: "Files",
+        plurals: { forms: { other: "# files" } },
+      });
+
+      expect(result.success).toBe(false);
+    });
+
     it("should handle undefined/optional values", () => {
       const dataWithoutValue = { locale: "en" };
       const result = updateTranslationSchema.safeParse(dataWithoutValue);
@@ -1,3 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { toBytes, zipFiles } from "~/lib/api/formats/files";
+import { getFormat, listFormats } from "~/lib/api/formats/registry";
+import { importPayloadSchema, type ExportData } from "~/lib/api/import-export-types";
+
+const exportData: ExportData = {
+  service: "roundtrip",
+  locales: [],
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  data: {
+    keys: [
+      {
+        id: "key-login",
+        keyName: "auth.login.title",
+        namespaceId: "auth-ns",
+        tags: ["auth", "ui"],
+        status: "active",
+        translations: [
+          { locale: "en", value: "Log in", status: "active", version: 1 },
+          {
+            locale: "fr",
+            value: 'Connexion à l\'espace "client"',
+            status: "draft",
+            version: 3,
+          },
+        ],
+      },
+      {
+        id: "key-items",
+        keyName: "cart.items",
+        tags: [],
+        status: "active",
+        translations: [
+          {
+            locale: "en",
+            value: "{count, plural, one {# item} other {# items}}",
+            status: "active",
+            version: 1,
+          },
+          {
+            locale: "fr",
+            value: "{count, plural, one {# article} other {# articles}}",
+            status: "active",
+            version: 2,
+          },
+        ],
+      },
+    ],
+  },
+};
+
+// Export data as fetched with `locales`
+function withLocales(data: ExportData, locales: string[]): ExportData {
+  return {
+    ...data,
+    data: {
+      keys: data.data.keys.map((key) => ({
+        ...key,
+        translations: key.translations.filter((t) => locales.includes(t.locale)),
+      })),
+    },
+  };
+}
+
+// Formats the registry can both export and import
+const roundTripFormats = listFormats().filter(
+  (adapter) => adapter.serialize !== undefined && adapter.parse !== undefined,
+);
+
+describe("Platform format round-trip", () => {
+  it.each(roundTripFormats.map((adapter) => adapter.id))(
+    "should preserve keys and target translations through %s",
+    (format) => {
+      const adapter = getFormat(format)!;
+
+      // Mirrors /api/export with `locales=fr`, which adds the source locale
+      // for formats that carry source text
+      const files = adapter.serialize!(
+        withLocales(exportData, [
+          "fr",
+          ...(adapter.sourceLocale ? [adapter.sourceLocale] : []),
+        ]),
+        { locales: ["fr"], separator: "." },
+      );
+
+      // Exports travel as a ZIP when they contain several files
+      const bytes = files.length === 1 ? toBytes(files[0].content) : zipFiles(files);
+      const { data, issues } = adapter.parse!(bytes, { locale: "fr", separator: "." });
+      // Mirrors the file import's default match mode
+      const parsed = importPayloadSchema.safeParse({
+        service: exportData.service,
+        matchBy: adapter.capabilities.metadata ? "id" : "keyName",
+        data,
+      });
+
+      expect(issues).toEqual([]);
+      expect(parsed.success).toBe(true);
+
+      // Formats without a place for key ids, tags and statuses keep values only
+      if (!adapter.capabilities.metadata) {
+        expect(
+          parsed.data!.data.keys.map((key) => [key.keyName, key.translations[0].value]),
+        ).toEqual(
+          exportData.data.keys.map((key) => [
+            key.keyName,
+            key.translations.find((t) => t.locale === "fr")!.value,
+          ]),
+        );
+        return;
+      }
+
+      expect(parsed.data!.data.keys).toEqual(withLocales(exportData, ["fr"]).data.keys);
+    },
+  );
+
+  it.each(
+    roundTripFormats
+      .filter((adapter) => adapter.capabilities.comments)
+      .map((adapter) => adapter.id),
+  )("should preserve key descriptions through %s", (format) => {
+    const adapter = getFormat(format)!;
+    const described = withLocales(
+      {
+        ...exportData,
+        data: {
+          keys: exportData.data.keys.map((key) => ({
+            ...key,
+            description: `Shown for ${key.keyName}\nKeep it short & plain`,
+          })),
+        },
+      },
+      ["fr", ...(adapter.sourceLocale ? [adapter.sourceLocale] : [])],
+    );
+
+    const files = adapter.serialize!(described, { locales: ["fr"], separator: "." });
+    const bytes = files.length === 1 ? toBytes(files[0].content) : zipFiles(files);
+    const { data } = adapter.parse!(bytes, { locale: "fr", separator: "." });
+
+    expect(data.keys.map((key) => [key.keyName, key.description])).toEqual(
+      described.data.keys.map((key) => [key.keyName, key.description]),
+    );
+  });
+});
+
 // import { afterAll, beforeAll, describe, expect, it } from "vitest";
 // import { sql, eq } from "drizzle-orm";
 // import { l10nKey, service, translation, namespace } from "~/lib/db/schema";
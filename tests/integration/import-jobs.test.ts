@@ -0,0 +1,215 @@
+import { eq, inArray } from "drizzle-orm";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import type { DiffReport, ImportOptions } from "~/lib/api/import-executor";
+import {
+  advanceImportJob,
+  createImportJob,
+  runQueuedImportJobs,
+  type ImportJobError,
+} from "~/lib/api/import-jobs";
+import type { ResolvedImportData } from "~/lib/api/import-keys";
+import { db } from "~/lib/db";
+import { registerLocales } from "~/lib/db/migrate-locales";
+import { event, importJob, l10nKey, service, translation } from "~/lib/db/schema";
+
+const SERVICE_ID = "import-jobs-test-service";
+
+const mergeOptions: ImportOptions = {
+  strategy: "overwrite",
+  mode: "merge",
+  deleteMissing: false,
+};
+
+function payloadKeys(count: number): ResolvedImportData {
+  return {
+    keys: Array.from({ length: count }, (_, index) => ({
+      id: `job-key-${index}`,
+      keyName: `jobs.key${index}`,
+      tags: [],
+      status: "active" as const,
+      translations: [
+        {
+          locale: "fr" as const,
+          value: `Valeur ${index}`,
+          status: "active" as const,
+          version: 1,
+        },
+      ],
+    })),
+  };
+}
+
+async function cleanUp() {
+  await db.delete(importJob).where(eq(importJob.serviceId, SERVICE_ID));
+  const keys = await db
+    .select({ id: l10nKey.id })
+    .from(l10nKey)
+    .where(eq(l10nKey.serviceId, SERVICE_ID));
+  if (keys.length > 0) {
+    await db.delete(translation).where(
+      inArray(
+        translation.keyId,
+        keys.map((key) => key.id),
+      ),
+    );
+  }
+  await db.delete(l10nKey).where(eq(l10nKey.serviceId, SERVICE_ID));
+  await db.delete(event).where(eq(event.actor, "import-jobs-test"));
+  await db.delete(service).where(eq(service.id, SERVICE_ID));
+}
+
+async function queueJob(
+  dryRun: boolean,
+  data: ResolvedImportData,
+  options = mergeOptions,
+) {
+  return createImportJob({
+    serviceId: SERVICE_ID,
+    actor: "import-jobs-test",
+    dryRun,
+    payload: { service: "import-jobs-test", options, data },
+  });
+}
+
+async function findJob(id: string) {
+  return (await db.query.importJob.findFirst({ where: eq(importJob.id, id) }))!;
+}
+
+describe("Import jobs", () => {
+  beforeEach(async () => {
+    await cleanUp();
+    await db.insert(service).values({
+      id: SERVICE_ID,
+      code: "import-jobs-test",
+      name: "Import jobs test",
+    });
+    await registerLocales(["fr"]);
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+  });
+
+  it("should report a dry run in chunks without writing keys", async () => {
+    const jobId = await queueJob(true, payloadKeys(5));
+
+    expect(await runQueuedImportJobs(2)).toBe(1);
+
+    const job = await findJob(jobId);
+    expect(job.status).toBe("succeeded");
+    expect(job.processedKeys).toBe(5);
+    expect(job.totalKeys).toBe(5);
+    expect((job.report as DiffReport).summary).toMatchObject({
+      keysToCreate: 5,
+      translationsToCreate: 5,
+    });
+    expect(
+      await db.select().from(l10nKey).where(eq(l10nKey.serviceId, SERVICE_ID)),
+    ).toHaveLength(0);
+  });
+
+  it("should apply every chunk and log the import", async () => {
+    const jobId = await queueJob(false, payloadKeys(5));
+
+    await runQueuedImportJobs(2);
+
+    const job = await findJob(jobId);
+    expect(job.status).toBe("succeeded");
+    expect(job.finishedAt).not.toBeNull();
+    expect(
+      await db.select().from(l10nKey).where(eq(l10nKey.serviceId, SERVICE_ID)),
+    ).toHaveLength(5);
+
+    const [importEvent] = await db
+      .select()
+      .from(event)
+      .where(eq(event.action, "import"))
+      .then((events) => events.filter((e) => e.actor === "import-jobs-test"));
+    expect(importEvent.after).toMatchObject({ jobId, keysCount: 5 });
+
+    // The job id is the batch id of every event the job wrote
+    const batchEvents = await db.select().from(event).where(eq(event.batchId, jobId));
+    expect(batchEvents).toHaveLength(5 + 5 + 1);
+  });
+
+  it("should only remove missing keys once the whole payload is processed", async () => {
+    await queueJob(false, payloadKeys(4));
+    await runQueuedImportJobs(2);
+
+    // A sync of the first three keys archives only the fourth
+    const jobId = await queueJob(true, payloadKeys(3), { ...mergeOptions, mode: "sync" });
+    await runQueuedImportJobs(1);
+
+    const report = (await findJob(jobId)).report as DiffReport;
+    expect(report.summary.keysToArchive).toBe(1);
+    expect(
+      report.changes
+        .filter((change) => change.type === "archive_key")
+        .map((change) => change.keyId),
+    ).toEqual(["job-key-3"]);
+  });
+
+  it("should record the failing chunk and keep earlier chunks", async () => {
+    const data = payloadKeys(4);
+    // Same name in the same namespace as job-key-0
+    data.keys[3] = { ...data.keys[3], keyName: data.keys[0].keyName };
+    const jobId = await queueJob(false, data);
+
+    await runQueuedImportJobs(2);
+
+    const job = await findJob(jobId);
+    expect(job.status).toBe("failed");
+    expect(job.processedKeys).toBe(2);
+    expect((job.errors as ImportJobError[])[0].keys).toEqual({ from: 2, to: 4 });
+    expect(
+      await db.select().from(l10nKey).where(eq(l10nKey.serviceId, SERVICE_ID)),
+    ).toHaveLength(2);
+  });
+
+  it("should queue a job again when the time budget runs out", async () => {
+    const jobId = await queueJob(false, payloadKeys(5));
+
+    expect(await advanceImportJob(jobId, 0, 2)).toBe("queued");
+    expect((await findJob(jobId)).processedKeys).toBe(2);
+
+    expect(await advanceImportJob(jobId, 0, 2)).toBe("queued");
+    expect(await advanceImportJob(jobId, 0, 2)).toBe("succeeded");
+    expect(
+      await db.select().from(l10nKey).where(eq(l10nKey.serviceId, SERVICE_ID)),
+    ).toHaveLength(5);
+  });
+
+  it("should resume a running job whose worker stopped after its last chunk", async () => {
+    const jobId = await queueJob(false, payloadKeys(4));
+    await db
+      .update(importJob)
+      .set({
+        status: "running",
+        processedKeys: 2,
+        claimId: "stopped-worker",
+        heartbeatAt: new Date(0),
+      })
+      .where(eq(importJob.id, jobId));
+
+    expect(await runQueuedImportJobs(2)).toBe(1);
+
+    expect((await findJob(jobId)).status).toBe("succeeded");
+    const keys = await db
+      .select({ id: l10nKey.id })
+      .from(l10nKey)
+      .where(eq(l10nKey.serviceId, SERVICE_ID));
+    expect(keys.map((key) => key.id).sort()).toEqual(["job-key-2", "job-key-3"]);
+  });
+
+  it("should leave a running job with a live heartbeat to its worker", async () => {
+    const jobId = await queueJob(false, payloadKeys(2));
+    await db
+      .update(importJob)
+      .set({ status: "running", claimId: "live-worker", heartbeatAt: new Date() })
+      .where(eq(importJob.id, jobId));
+
+    expect(await runQueuedImportJobs(2)).toBe(0);
+    expect(await advanceImportJob(jobId)).toBeUndefined();
+    expect((await findJob(jobId)).processedKeys).toBe(0);
+  });
+});
@@ -0,0 +1,253 @@
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  createExportStream,
+  databaseKeyPages,
+  EXPORT_PAGE_SIZE,
+  pageExportKeys,
+  type ExportKeyPageSource,
+  type ExportStreamStats,
+} from "~/lib/api/export-stream";
+import { getFormat } from "~/lib/api/formats/registry";
+import type { ExportData } from "~/lib/api/import-export-types";
+import { db } from "~/lib/db";
+import { registerLocales } from "~/lib/db/migrate-locales";
+import { l10nKey, namespace, service, translation } from "~/lib/db/schema";
+
+type ExportKey = ExportData["data"]["keys"][number];
+
+// Size of the monolith service the streaming export is built for
+const KEY_COUNT = 200_000;
+
+// Heap growth allowed while streaming; the buffered JSON export of the same
+// service grows the heap by over 200 MB
+const PEAK_HEAP_CEILING = 48 * 1024 * 1024;
+
+// Keys seeded for the database pager; every key name is used twice, once
+// without a namespace and once in a namespace
+const SEEDED_KEY_COUNT = 20_000;
+
+const SERVICE_ID = "export-stream-test-service";
+const NAMESPACE_ID = "export-stream-test-namespace";
+
+function syntheticKey(index: number): ExportKey {
+  const id = index.toString().padStart(6, "0");
+  return {
+    id: `key-${id}`,
+    keyName: `screen.${id}.title`,
+    tags: ["generated"],
+    status: "active",
+    translations: [
+      { locale: "en", value: `Screen ${id} title`, status: "active", version: 1 },
+      { locale: "fr", value: `Titre de l'écran ${id}`, status: "active", version: 2 },
+    ],
+  };
+}
+
+/**
+ * Page source generating keys on demand, in cursor order like the database
+ * source, and recording how many pages were requested
+ */
+function syntheticPages(count: number): ExportKeyPageSource & { pages: number } {
+  const source = async (after: { id: string } | undefined, limit: number) => {
+    source.pages++;
+    const start = after ? Number(after.id.slice("key-".length)) + 1 : 0;
+    const end = Math.min(start + limit, count);
+    const keys = Array.from({ length: end - start }, (_, i) => syntheticKey(start + i));
+    const last = keys[keys.length - 1];
+
+    return {
+      keys,
+      next: end < count ? { keyName: last.keyName, id: last.id } : undefined,
+    };
+  };
+  source.pages = 0;
+  return source;
+}
+
+/**
+ * Read a byte stream line by line, sampling the heap after every chunk
+ * @returns Number of complete lines, any unterminated rest and the peak heap
+ * growth over the heap in use when reading started
+ */
+async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string, index: number) => void,
+): Promise<{ lines: number; pending: string; heapGrowth: number }> {
+  const decoder = new TextDecoder();
+  const baseline = process.memoryUsage().heapUsed;
+  let peak = baseline;
+  let lines = 0;
+  let pending = "";
+
+  const reader = stream.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    pending += decoder.decode(chunk.value, { stream: true });
+    const complete = pending.split("\n");
+    pending = complete.pop()!;
+    for (const line of complete) {
+      onLine(line, lines++);
+    }
+
+    peak = Math.max(peak, process.memoryUsage().heapUsed);
+  }
+
+  return { lines, pending, heapGrowth: peak - baseline };
+}
+
+async function cleanUp() {
+  await db.delete(l10nKey).where(eq(l10nKey.serviceId, SERVICE_ID));
+  await db.delete(namespace).where(eq(namespace.serviceId, SERVICE_ID));
+  await db.delete(service).where(eq(service.id, SERVICE_ID));
+}
+
+describe("Streaming NDJSON export", () => {
+  it("should stream a 200k-key service within the peak memory ceiling", async () => {
+    const source = syntheticPages(KEY_COUNT);
+    let stats: ExportStreamStats | undefined;
+
+    const stream = createExportStream(
+      getFormat("ndjson")!,
+      { service: "monolith", locales: [], exportedAt: "2025-01-01T00:00:00.000Z" },
+      pageExportKeys(source),
+      async (totals) => {
+        stats = totals;
+      },
+    );
+
+    let firstKeyLine = "";
+    const { lines, pending, heapGrowth } = await readLines(stream, (line, index) => {
+      if (index === 1) firstKeyLine = line;
+    });
+
+    expect(pending).toBe("");
+    // Header line plus one line per key
+    expect(lines).toBe(KEY_COUNT + 1);
+    expect(JSON.parse(firstKeyLine)).toEqual(syntheticKey(0));
+    expect(stats).toEqual({
+      keysExported: KEY_COUNT,
+      translationsExported: 2 * KEY_COUNT,
+      fallbacksFilled: 0,
+    });
+    expect(source.pages).toBe(KEY_COUNT / EXPORT_PAGE_SIZE);
+    expect(heapGrowth).toBeLessThan(PEAK_HEAP_CEILING);
+  }, 60_000);
+
+  it("should stop reading pages when the client cancels", async () => {
+    const source = syntheticPages(KEY_COUNT);
+    const stream = createExportStream(
+      getFormat("ndjson")!,
+      { service: "monolith", locales: [], exportedAt: "2025-01-01T00:00:00.000Z" },
+      pageExportKeys(source, 100),
+    );
+
+    const reader = stream.getReader();
+    for (let i = 0; i < 150; i++) {
+      await reader.read();
+    }
+    await reader.cancel();
+
+    expect(source.pages).toBe(2);
+  });
+
+  describe("from the database", () => {
+    beforeAll(async () => {
+      await cleanUp();
+      await db.insert(service).values({
+        id: SERVICE_ID,
+        code: "export-stream-test",
+        name: "Export stream test",
+      });
+      await db
+        .insert(namespace)
+        .values({ id: NAMESPACE_ID, serviceId: SERVICE_ID, name: "Streamed" });
+      await registerLocales(["en", "fr"]);
+
+      for (let start = 0; start < SEEDED_KEY_COUNT; start += 1000) {
+        const keys = Array.from({ length: 1000 }, (_, i) => {
+          const index = start + i;
+          const name = Math.floor(index / 2)
+            .toString()
+            .padStart(6, "0");
+          return {
+            id: `stream-key-${index.toString().padStart(6, "0")}`,
+            serviceId: SERVICE_ID,
+            namespaceId: index % 2 === 0 ? null : NAMESPACE_ID,
+            keyName: `screen.${name}.title`,
+            status: "active" as const,
+          };
+        });
+        await db.insert(l10nKey).values(keys);
+        await db.insert(translation).values(
+          keys.flatMap((key) =>
+            ["en", "fr"].map((locale) => ({
+              id: `${key.id}-${locale}`,
+              keyId: key.id,
+              locale,
+              value: `${locale} ${key.keyName}`,
+              status: "active" as const,
+            })),
+          ),
+        );
+      }
+    }, 120_000);
+
+    afterAll(async () => {
+      await cleanUp();
+    });
+
+    it("should page through every key in cursor order within the memory ceiling", async () => {
+      // A page size that splits pairs of keys with the same name
+      const pageSize = 333;
+      let pages = 0;
+      const pager = databaseKeyPages(SERVICE_ID, { includeEmpty: false });
+      const source: ExportKeyPageSource = (after, limit) => {
+        pages++;
+        return pager(after, limit);
+      };
+      let stats: ExportStreamStats | undefined;
+
+      const stream = createExportStream(
+        getFormat("ndjson")!,
+        {
+          service: "export-stream-test",
+          locales: [],
+          exportedAt: "2025-01-01T00:00:00.000Z",
+        },
+        pageExportKeys(source, pageSize),
+        async (totals) => {
+          stats = totals;
+        },
+      );
+
+      const ids = new Set<string>();
+      let previous: { keyName: string; id: string } | undefined;
+      let outOfOrder = 0;
+      const { lines, pending, heapGrowth } = await readLines(stream, (line, index) => {
+        if (index === 0) return;
+        const key = JSON.parse(line) as ExportKey;
+        ids.add(key.id);
+        if (
+          previous &&
+          (key.keyName < previous.keyName ||
+            (key.keyName === previous.keyName && key.id <= previous.id))
+        ) {
+          outOfOrder++;
+        }
+        previous = key;
+      });
+
+      expect(pending).toBe("");
+      expect(lines).toBe(SEEDED_KEY_COUNT + 1);
+      expect(ids.size).toBe(SEEDED_KEY_COUNT);
+      expect(outOfOrder).toBe(0);
+      expect(stats).toEqual({
+        keysExported: SEEDED_KEY_COUNT,
+        translationsExported: 2 * SEEDED_KEY_COUNT,
+        fallbacksFilled: 0,
+      });
+      expect(pages).toBe(Math.ceil(SEEDED_KEY_COUNT / pageSize));
+      expect(heapGrowth).toBeLessThan(PEAK_HEAP_CEILING);
+    }, 60_000);
+  });
+});